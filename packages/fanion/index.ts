@@ -3,8 +3,73 @@ export {
   FeatureManager,
   featureManagerWithDatabase,
 } from "./src/feature.js";
-export { generateFeatureName } from "./src/utils.js";
+export { FlagRegistry } from "./src/registry.js";
+export { ScopedFeatureManager } from "./src/scope.js";
+export { AdminApi, createAdminHandler } from "./src/admin.js";
+export type {
+  AdminHandlerOptions,
+  AdminRequestHandler,
+} from "./src/admin.js";
+export {
+  adonisContext,
+  expressContext,
+  fastifyContext,
+} from "./src/middleware.js";
+export type { ContextResolver } from "./src/middleware.js";
+export { runCli } from "./src/cli.js";
+export {
+  createSnapshot,
+  diff,
+  parseSnapshot,
+  SNAPSHOT_VERSION,
+} from "./src/snapshot.js";
+export {
+  generateFeatureName,
+  isNamespaceSwitch,
+  parseFeatureName,
+} from "./src/utils.js";
+export { getParentFlag } from "./src/prerequisites.js";
+export {
+  FeatureNotExistsError,
+  ProviderNotDefined,
+  InvalidRolloutError,
+  InvalidRuleError,
+  InvalidVariantError,
+  UnsupportedOperationError,
+  InvalidFlagFileError,
+  ReadOnlyProviderError,
+  InvalidEnvironmentVariableError,
+  InvalidPrerequisiteError,
+  InvalidScheduleError,
+  PrerequisiteCycleError,
+  InvalidRequestError,
+  InvalidConfigError,
+  InvalidSnapshotError,
+} from "./src/errors.js";
 export { createInMemoryDriver, InMemoryDriver } from "./src/drivers/memory.js";
+export { createCachedDriver, CachedDriver } from "./src/drivers/cache.js";
+export type { CacheOptions } from "./src/drivers/cache.js";
+export { createRedisDriver, RedisDriver } from "./src/drivers/redis.js";
+export type {
+  RedisChange,
+  RedisChangeAction,
+  RedisChangeListener,
+  RedisConfig,
+} from "./src/drivers/redis.js";
+export { createFileDriver, FileDriver } from "./src/drivers/file.js";
+export { createEnvDriver, EnvDriver } from "./src/drivers/env.js";
+export type { EnvDriverConfig } from "./src/drivers/env.js";
+export type {
+  FileDriverConfig,
+  FileFlag,
+  FlagFile,
+  FlagFileFormat,
+} from "./src/drivers/file.js";
+export {
+  createCompositeDriver,
+  CompositeDriver,
+} from "./src/drivers/composite.js";
+export type { CompositeConfig, StoreLayer } from "./src/drivers/composite.js";
 export {
   KnexDatabaseDriver,
   createKnexDatabaseDriver,
@@ -15,12 +80,94 @@ export {
 } from "./src/drivers/databases/dynamodb.js";
 
 export type {
+  Clock,
+  DefineOptions,
   FeatureManagerProvider,
+  FeatureManagerConfig,
   FeatureCheck,
+  FeatureListing,
+  FeatureListingSource,
+  OverrideKeysResolver,
+  ParsedFeatureName,
+  StaleFlag,
+  StaleFlagsOptions,
+  StaleReason,
 } from "./src/types/provider.js";
 
+export type {
+  ContextArgs,
+  FlagContext,
+  FlagDefinition,
+  FlagDefinitions,
+  FlagName,
+  FlagsContext,
+} from "./src/types/registry.js";
+
 export type { FeatureStorageProvider } from "./src/types/feature_storage_provider.js";
 
+export type {
+  CliConfig,
+  CliIO,
+  DynamoDBCliConfig,
+  FileCliConfig,
+  KnexCliConfig,
+  StoreCliConfig,
+} from "./src/types/cli.js";
+
+export type {
+  FlagChange,
+  ImportSnapshotOptions,
+  Snapshot,
+  SnapshotDiff,
+  SnapshotField,
+  SnapshotFlag,
+} from "./src/types/snapshot.js";
+
+export type {
+  AuditAction,
+  AuditEntry,
+  AuditQuery,
+  ChangeOptions,
+  FeatureState,
+  OverridesChange,
+} from "./src/types/audit.js";
+
+export type {
+  EvaluationSource,
+  FeatureManagerEventListener,
+  FeatureManagerEvents,
+} from "./src/types/events.js";
+
+export type {
+  AndRule,
+  ConditionRule,
+  ExperimentAssignment,
+  FeatureConfig,
+  FeatureMetadata,
+  FeatureOverride,
+  FeatureUsage,
+  JsonValue,
+  NotRule,
+  OrRule,
+  Prerequisite,
+  Ramp,
+  RampDefinition,
+  RampHalt,
+  RampStatus,
+  RampStep,
+  RecurringWindow,
+  Rollout,
+  Rule,
+  RuleOperator,
+  RuleValue,
+  Schedule,
+  StoredFeature,
+  VariantAllocation,
+  VariantValue,
+  Weekday,
+  WeightedVariant,
+} from "./src/types/feature_config.js";
+
 export type {
   DatabaseConfig,
   DatabaseStorageProvider,
@@ -0,0 +1,523 @@
+import type { IncomingMessage, ServerResponse } from "node:http";
+import {
+  FeatureNotExistsError,
+  InvalidRequestError,
+  ProviderNotDefined,
+  ReadOnlyProviderError,
+  UnsupportedOperationError,
+} from "./errors.js";
+import type { FeatureManager } from "./feature.js";
+import type { ChangeOptions } from "./types/audit.js";
+import type { FeatureMetadata } from "./types/feature_config.js";
+
+/**
+ * Options of the admin API handler
+ */
+export interface AdminHandlerOptions {
+  /**
+   * Path the routes are served under (ex: "/admin"), defaults to the root.
+   * Leave it empty when the framework strips the mount path (Express `app.use`).
+   */
+  basePath?: string;
+
+  /**
+   * Allow or deny a request. Without it, only the read requests are allowed:
+   * creating, toggling and deleting flags is denied.
+   */
+  authorize?: (request: IncomingMessage) => boolean | Promise<boolean>;
+
+  /**
+   * The actor recorded in the audit log for the changes of a request
+   */
+  actor?: (
+    request: IncomingMessage,
+  ) => string | undefined | Promise<string | undefined>;
+
+  /**
+   * Maximum size of a request body in bytes (defaults to 100 KB)
+   */
+  bodyLimit?: number;
+}
+
+/**
+ * A `node:http` request listener. Requests outside of the API are passed
+ * to `next` when the handler is mounted as a middleware, or get a 404.
+ */
+export type AdminRequestHandler = (
+  request: IncomingMessage,
+  response: ServerResponse,
+  next?: (error?: unknown) => void,
+) => Promise<void>;
+
+interface AdminResponse {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+/**
+ * The flag name of the route, undefined for the collection
+ */
+interface AdminRoute {
+  flagName?: string;
+}
+
+/**
+ * Error answered with its own status and code
+ */
+class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    public readonly code: string,
+    message: string,
+    public readonly headers?: Record<string, string>,
+  ) {
+    super(message);
+  }
+}
+
+const CREATE_KEYS = ["name", "value", "metadata", "reason"];
+const TOGGLE_KEYS = ["value", "reason"];
+const DELETE_KEYS = ["reason"];
+const MUTATIONS = ["POST", "PUT", "DELETE"];
+const METADATA_KEYS = ["description", "owner", "tags", "expiresAt", "reviewAt"];
+const MAX_NAME_LENGTH = 255;
+
+export function createAdminHandler(
+  manager: FeatureManager,
+  options?: AdminHandlerOptions,
+): AdminRequestHandler {
+  const api = new AdminApi(manager, options);
+  return (request, response, next) => api.handle(request, response, next);
+}
+
+/**
+ * REST API to manage the stored feature flags from a dashboard,
+ * changes go through the manager so they are audited and emit events.
+ *
+ * - `GET /flags?prefix=billing:` list the flags
+ * - `POST /flags` create a flag: `{ name, value?, metadata?, reason? }`
+ * - `GET /flags/:name` read a flag
+ * - `PUT /flags/:name` toggle a flag: `{ value, reason? }`
+ * - `DELETE /flags/:name` delete a flag: `{ reason? }`
+ *
+ * Errors are answered as `{ error: { code, message } }`. Without the
+ * `authorize` option, the changes are denied and only reads are served.
+ *
+ * @example
+ * ```ts
+ * import { createServer } from "node:http";
+ *
+ * const handler = createAdminHandler(features, {
+ *   basePath: "/admin",
+ *   authorize: (request) => request.headers.authorization === `Bearer ${token}`,
+ * });
+ *
+ * createServer(handler).listen(3000);
+ * ```
+ */
+export class AdminApi {
+  #manager: FeatureManager;
+  #basePath: string;
+  #authorize: AdminHandlerOptions["authorize"];
+  #actor: AdminHandlerOptions["actor"];
+  #bodyLimit: number;
+
+  constructor(manager: FeatureManager, options: AdminHandlerOptions = {}) {
+    this.#manager = manager;
+    this.#basePath = (options.basePath ?? "").replace(/\/+$/, "");
+    this.#authorize = options.authorize;
+    this.#actor = options.actor;
+    this.#bodyLimit = options.bodyLimit ?? 100_000;
+  }
+
+  /**
+   * Handle a request of the admin API
+   *
+   * @param request
+   * @param response
+   * @param next Called for the requests outside of the API
+   */
+  async handle(
+    request: IncomingMessage,
+    response: ServerResponse,
+    next?: (error?: unknown) => void,
+  ): Promise<void> {
+    const url = new URL(request.url ?? "/", "http://localhost");
+    const route = this.#match(url.pathname);
+
+    if (!route) {
+      if (next) {
+        next();
+        return;
+      }
+
+      send(response, {
+        status: 404,
+        body: errorBody("not_found", `Route ${url.pathname} does not exist`),
+      });
+      return;
+    }
+
+    let result: AdminResponse;
+
+    try {
+      result = await this.#dispatch(request, route, url);
+    } catch (error) {
+      result = toErrorResponse(error);
+    }
+
+    send(response, result);
+  }
+
+  #match(pathname: string): AdminRoute | undefined {
+    if (!pathname.startsWith(`${this.#basePath}/`)) {
+      return undefined;
+    }
+
+    const match = pathname
+      .slice(this.#basePath.length)
+      .match(/^\/flags(?:\/([^/]+))?\/?$/);
+
+    return match ? { flagName: match[1] } : undefined;
+  }
+
+  async #dispatch(
+    request: IncomingMessage,
+    route: AdminRoute,
+    url: URL,
+  ): Promise<AdminResponse> {
+    const method = request.method ?? "GET";
+
+    if (this.#authorize) {
+      if (!(await this.#authorize(request))) {
+        throw new HttpError(403, "forbidden", "Access to the admin API denied");
+      }
+    } else if (MUTATIONS.includes(method)) {
+      throw new HttpError(
+        403,
+        "forbidden",
+        "Changes through the admin API need the authorize option",
+      );
+    }
+
+    if (route.flagName === undefined) {
+      switch (method) {
+        case "GET":
+          return this.#list(url.searchParams.get("prefix") ?? "");
+        case "POST":
+          return this.#create(request);
+      }
+
+      throw methodNotAllowed(["GET", "POST"]);
+    }
+
+    const flagName = decodeFlagName(route.flagName);
+
+    switch (method) {
+      case "GET":
+        return { status: 200, body: await this.#manager.describe(flagName) };
+      case "PUT":
+        return this.#toggle(request, flagName);
+      case "DELETE":
+        return this.#delete(request, flagName);
+    }
+
+    throw methodNotAllowed(["GET", "PUT", "DELETE"]);
+  }
+
+  async #list(prefix: string): Promise<AdminResponse> {
+    return { status: 200, body: { flags: await this.#manager.all(prefix) } };
+  }
+
+  async #create(request: IncomingMessage): Promise<AdminResponse> {
+    const body = await this.#readBody(request);
+
+    assertKnownKeys(body, CREATE_KEYS, "");
+    assertFlagName(body.name);
+    if (body.value !== undefined && typeof body.value !== "boolean") {
+      throw new InvalidRequestError("'value' must be a boolean");
+    }
+    if (body.metadata !== undefined) {
+      assertValidMetadata(body.metadata);
+    }
+
+    const flagName = body.name;
+    const existing = await this.#manager.describe(flagName).catch((error) => {
+      if (error instanceof FeatureNotExistsError) {
+        return undefined;
+      }
+      throw error;
+    });
+
+    if (existing?.stored) {
+      throw new HttpError(
+        409,
+        "already_exists",
+        `Feature flag '${flagName}' is already stored`,
+      );
+    }
+
+    await this.#manager.defineAndStore(
+      flagName,
+      body.value ?? true,
+      body.metadata,
+      await this.#change(request, body),
+    );
+
+    return { status: 201, body: await this.#manager.describe(flagName) };
+  }
+
+  async #toggle(
+    request: IncomingMessage,
+    flagName: string,
+  ): Promise<AdminResponse> {
+    const body = await this.#readBody(request);
+
+    assertKnownKeys(body, TOGGLE_KEYS, "");
+    if (typeof body.value !== "boolean") {
+      throw new InvalidRequestError("'value' must be a boolean");
+    }
+
+    await this.#manager.describe(flagName);
+    await this.#manager.set(
+      flagName,
+      body.value,
+      await this.#change(request, body),
+    );
+
+    return { status: 200, body: await this.#manager.describe(flagName) };
+  }
+
+  async #delete(
+    request: IncomingMessage,
+    flagName: string,
+  ): Promise<AdminResponse> {
+    const body = await this.#readBody(request);
+
+    assertKnownKeys(body, DELETE_KEYS, "");
+
+    await this.#manager.describe(flagName);
+    await this.#manager.delete(flagName, await this.#change(request, body));
+
+    return { status: 204 };
+  }
+
+  /**
+   * The actor of the request and the reason given in the body
+   */
+  async #change(
+    request: IncomingMessage,
+    body: Record<string, unknown>,
+  ): Promise<ChangeOptions> {
+    if (body.reason !== undefined && typeof body.reason !== "string") {
+      throw new InvalidRequestError("'reason' must be a string");
+    }
+
+    return { actor: await this.#actor?.(request), reason: body.reason };
+  }
+
+  /**
+   * Read the JSON body of a request, an empty body is an empty object.
+   * Frameworks parsing the body (`express.json()`) expose it on `request.body`.
+   */
+  async #readBody(request: IncomingMessage): Promise<Record<string, unknown>> {
+    let body = (request as IncomingMessage & { body?: unknown }).body;
+
+    if (body === undefined) {
+      const chunks: Buffer[] = [];
+      let size = 0;
+
+      for await (const chunk of request) {
+        size += chunk.length;
+        if (size > this.#bodyLimit) {
+          throw new HttpError(
+            413,
+            "payload_too_large",
+            `Request body is larger than ${this.#bodyLimit} bytes`,
+          );
+        }
+        chunks.push(chunk);
+      }
+
+      const text = Buffer.concat(chunks).toString("utf8").trim();
+
+      try {
+        body = text === "" ? {} : JSON.parse(text);
+      } catch {
+        throw new InvalidRequestError("the body is not valid JSON");
+      }
+    }
+
+    if (!isObject(body)) {
+      throw new InvalidRequestError("the body must be a JSON object");
+    }
+
+    return body;
+  }
+}
+
+/**
+ * Map the errors of the manager and the stores to HTTP responses
+ */
+function toErrorResponse(error: unknown): AdminResponse {
+  if (error instanceof HttpError) {
+    return {
+      status: error.status,
+      body: errorBody(error.code, error.message),
+      headers: error.headers,
+    };
+  }
+
+  if (error instanceof InvalidRequestError) {
+    return { status: 400, body: errorBody("invalid_request", error.message) };
+  }
+
+  if (error instanceof FeatureNotExistsError) {
+    return { status: 404, body: errorBody("flag_not_found", error.message) };
+  }
+
+  if (error instanceof ProviderNotDefined) {
+    return {
+      status: 501,
+      body: errorBody("provider_not_defined", error.message),
+    };
+  }
+
+  if (
+    error instanceof UnsupportedOperationError ||
+    error instanceof ReadOnlyProviderError
+  ) {
+    return {
+      status: 501,
+      body: errorBody("unsupported_operation", error.message),
+    };
+  }
+
+  return {
+    status: 500,
+    body: errorBody("internal_error", "Internal server error"),
+  };
+}
+
+function send(response: ServerResponse, result: AdminResponse): void {
+  response.statusCode = result.status;
+
+  for (const [name, value] of Object.entries(result.headers ?? {})) {
+    response.setHeader(name, value);
+  }
+
+  if (result.body === undefined) {
+    response.end();
+    return;
+  }
+
+  response.setHeader("content-type", "application/json; charset=utf-8");
+  response.end(JSON.stringify(result.body));
+}
+
+function errorBody(code: string, message: string) {
+  return { error: { code, message } };
+}
+
+function methodNotAllowed(methods: string[]): HttpError {
+  return new HttpError(
+    405,
+    "method_not_allowed",
+    `Method not allowed, expected ${methods.join(", ")}`,
+    { allow: methods.join(", ") },
+  );
+}
+
+function decodeFlagName(encoded: string): string {
+  let flagName: string;
+
+  try {
+    flagName = decodeURIComponent(encoded);
+  } catch {
+    throw new InvalidRequestError("the flag name is not correctly encoded");
+  }
+
+  assertFlagName(flagName);
+  return flagName;
+}
+
+/**
+ * @throws {InvalidRequestError}
+ */
+function assertFlagName(name: unknown): asserts name is string {
+  if (typeof name !== "string" || name === "") {
+    throw new InvalidRequestError("'name' must be a non-empty string");
+  }
+
+  if (name.length > MAX_NAME_LENGTH) {
+    throw new InvalidRequestError(
+      `'name' must be at most ${MAX_NAME_LENGTH} characters`,
+    );
+  }
+
+  if (/[\s\p{Cc}]/u.test(name)) {
+    throw new InvalidRequestError("'name' must not contain spaces");
+  }
+}
+
+/**
+ * @throws {InvalidRequestError}
+ */
+function assertValidMetadata(
+  metadata: unknown,
+): asserts metadata is FeatureMetadata {
+  if (!isObject(metadata)) {
+    throw new InvalidRequestError("'metadata' must be an object");
+  }
+
+  assertKnownKeys(metadata, METADATA_KEYS, "metadata.");
+
+  for (const key of ["description", "owner"]) {
+    if (metadata[key] !== undefined && typeof metadata[key] !== "string") {
+      throw new InvalidRequestError(`'metadata.${key}' must be a string`);
+    }
+  }
+
+  if (
+    metadata.tags !== undefined &&
+    (!Array.isArray(metadata.tags) ||
+      metadata.tags.some((tag) => typeof tag !== "string"))
+  ) {
+    throw new InvalidRequestError(
+      "'metadata.tags' must be an array of strings",
+    );
+  }
+
+  for (const key of ["expiresAt", "reviewAt"]) {
+    const date = metadata[key];
+
+    if (
+      date !== undefined &&
+      (typeof date !== "string" || Number.isNaN(Date.parse(date)))
+    ) {
+      throw new InvalidRequestError(
+        `'metadata.${key}' must be an ISO 8601 date`,
+      );
+    }
+  }
+}
+
+/**
+ * @throws {InvalidRequestError}
+ */
+function assertKnownKeys(
+  data: Record<string, unknown>,
+  keys: string[],
+  path: string,
+): void {
+  const unknown = Object.keys(data).find((key) => !keys.includes(key));
+
+  if (unknown) {
+    throw new InvalidRequestError(`unknown property '${path}${unknown}'`);
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,49 @@
+import { randomBytes } from "node:crypto";
+import type { FeatureState } from "./types/audit.js";
+import type { StoredFeature } from "./types/feature_config.js";
+
+/**
+ * Time of the last identifier and counter ordering the identifiers
+ * created in the same millisecond
+ */
+let lastTime = 0;
+let sequence = 0;
+
+/**
+ * Create an audit entry identifier. Identifiers sort by creation date and
+ * are monotonic in a process: an identifier created with a date before
+ * the previous one keeps the previous date.
+ *
+ * @param date
+ */
+export function createAuditId(date: Date): string {
+  const time = Math.max(date.getTime(), lastTime);
+  sequence = time === lastTime ? sequence + 1 : 0;
+  lastTime = time;
+
+  return [
+    new Date(time).toISOString(),
+    sequence.toString(36).padStart(6, "0"),
+    randomBytes(4).toString("hex"),
+  ].join("-");
+}
+
+/**
+ * Keep the parts of a stored feature that are restored by a revert
+ *
+ * @param stored
+ */
+export function toFeatureState(
+  stored: StoredFeature | undefined,
+): FeatureState | undefined {
+  if (!stored) {
+    return undefined;
+  }
+
+  return {
+    value: stored.value,
+    config: stored.config,
+    variant: stored.variant,
+    metadata: stored.metadata,
+  };
+}
@@ -0,0 +1,667 @@
+import { access, readFile, writeFile } from "node:fs/promises";
+import { dirname, extname, resolve } from "node:path";
+import { pathToFileURL } from "node:url";
+import { parseArgs } from "node:util";
+import { createFileDriver } from "./drivers/file.js";
+import {
+  FeatureNotExistsError,
+  InvalidConfigError,
+  InvalidFlagFileError,
+  InvalidSnapshotError,
+} from "./errors.js";
+import { FeatureManager } from "./feature.js";
+import { createSnapshot, diff, parseSnapshot } from "./snapshot.js";
+import type { ChangeOptions } from "./types/audit.js";
+import type {
+  CliConfig,
+  CliIO,
+  DynamoDBCliConfig,
+  FileCliConfig,
+  KnexCliConfig,
+  StoreCliConfig,
+} from "./types/cli.js";
+import type { FeatureStorageProvider } from "./types/feature_storage_provider.js";
+import type { FeatureListing } from "./types/provider.js";
+import type { Snapshot, SnapshotDiff } from "./types/snapshot.js";
+
+/**
+ * Exit codes, so the tool can be scripted
+ */
+const EXIT_SUCCESS = 0;
+const EXIT_FAILURE = 1;
+const EXIT_USAGE = 2;
+const EXIT_NOT_FOUND = 3;
+
+const CONFIG_FILES = [
+  "fanion.config.js",
+  "fanion.config.mjs",
+  "fanion.config.json",
+];
+
+const USAGE = `Usage: fanion <command> [options]
+
+Commands:
+  list [prefix]         List the stored feature flags
+  get <flag>            Show a feature flag
+  enable <flag>         Enable a feature flag
+  disable <flag>        Disable a feature flag
+  delete <flag>         Delete a feature flag
+  export                Export the feature flags as a JSON snapshot
+  import <file>         Import the feature flags of a snapshot or a JSON or YAML flag file
+  diff <file>           Show the changes an import of the file would make
+  init                  Create a config file
+
+Options:
+  -c, --config <path>   Config file (defaults to fanion.config.{js,mjs,json})
+  --json                Print JSON instead of tables
+  --actor <name>        Actor recorded in the audit log (defaults to $USER)
+  --reason <text>       Reason recorded in the audit log
+  --create              Create the flag if it does not exist (enable, disable)
+  -o, --output <path>   Write the export to a file instead of stdout
+  --driver <driver>     Driver of the config created by init: knex, dynamodb or file
+  --force               Overwrite the config file (init)
+  --dry-run             Show the changes without importing them (import)
+  --prune               Delete the flags missing from the file (import)
+  -h, --help            Show this help
+
+Exit codes:
+  0  Success
+  1  The command failed
+  2  Invalid usage or config file
+  3  The feature flag does not exist
+`;
+
+const CONFIG_TEMPLATES: Record<string, CliConfig> = {
+  knex: {
+    driver: "knex",
+    connection: {
+      client: "pg",
+      connection: "postgres://localhost:5432/app",
+    },
+    options: { tableName: "feature_flags" },
+  },
+  dynamodb: {
+    driver: "dynamodb",
+    connection: { region: "us-east-1" },
+    options: { tableName: "feature_flags" },
+  },
+  file: {
+    driver: "file",
+    options: { path: "flags.json" },
+  },
+};
+
+interface CliOptions {
+  config?: string;
+  json?: boolean;
+  actor?: string;
+  reason?: string;
+  create?: boolean;
+  output?: string;
+  driver?: string;
+  force?: boolean;
+  "dry-run"?: boolean;
+  prune?: boolean;
+  help?: boolean;
+}
+
+/**
+ * A store built from the config file
+ */
+interface StoreConnection {
+  store: FeatureStorageProvider;
+  close: () => Promise<void>;
+}
+
+/**
+ * Error return when the command line is not valid
+ */
+class UsageError extends Error {}
+
+/**
+ * Run the `fanion` command-line tool
+ *
+ * @param args The arguments, without the node and script paths.
+ * @param io The output streams, defaults to the process ones.
+ * @returns The exit code.
+ *
+ * @example
+ * ```ts
+ * process.exitCode = await runCli(process.argv.slice(2));
+ * ```
+ */
+export async function runCli(
+  args: string[],
+  io: CliIO = {
+    stdout: process.stdout,
+    stderr: process.stderr,
+    cwd: process.cwd(),
+    env: process.env,
+  },
+): Promise<number> {
+  let command: string | undefined;
+  let operands: string[];
+  let options: CliOptions;
+
+  try {
+    const parsed = parseArgs({
+      args,
+      allowPositionals: true,
+      options: {
+        config: { type: "string", short: "c" },
+        json: { type: "boolean" },
+        actor: { type: "string" },
+        reason: { type: "string" },
+        create: { type: "boolean" },
+        output: { type: "string", short: "o" },
+        driver: { type: "string" },
+        force: { type: "boolean" },
+        "dry-run": { type: "boolean" },
+        prune: { type: "boolean" },
+        help: { type: "boolean", short: "h" },
+      },
+    });
+
+    [command, ...operands] = parsed.positionals;
+    options = parsed.values;
+  } catch (error) {
+    io.stderr.write(`Error: ${(error as Error).message}\n\n${USAGE}`);
+    return EXIT_USAGE;
+  }
+
+  if (options.help || command === undefined) {
+    (options.help ? io.stdout : io.stderr).write(USAGE);
+    return options.help ? EXIT_SUCCESS : EXIT_USAGE;
+  }
+
+  let connection: StoreConnection | undefined;
+
+  try {
+    if (command === "init") {
+      await init(io, options);
+      return EXIT_SUCCESS;
+    }
+
+    if (!Object.hasOwn(COMMANDS, command)) {
+      throw new UsageError(`Unknown command '${command}'`);
+    }
+
+    connection = await connect(io, options.config);
+    const manager = new FeatureManager({ store: connection.store });
+    await manager.initStore();
+
+    await COMMANDS[command]({
+      io,
+      options,
+      operands,
+      manager,
+      store: connection.store,
+    });
+    return EXIT_SUCCESS;
+  } catch (error) {
+    io.stderr.write(`Error: ${(error as Error).message}\n`);
+
+    if (error instanceof UsageError) {
+      io.stderr.write(`\n${USAGE}`);
+    }
+
+    return exitCode(error);
+  } finally {
+    await connection?.close();
+  }
+}
+
+interface CommandContext {
+  io: CliIO;
+  options: CliOptions;
+  operands: string[];
+  manager: FeatureManager;
+  store: FeatureStorageProvider;
+}
+
+const COMMANDS: Record<string, (context: CommandContext) => Promise<void>> = {
+  async list({ io, options, operands, manager }) {
+    const [prefix = ""] = operands;
+    const flags = await manager.all(prefix);
+
+    if (options.json) {
+      printJson(io, flags);
+      return;
+    }
+
+    if (flags.length === 0) {
+      io.stdout.write("No feature flags\n");
+      return;
+    }
+
+    io.stdout.write(
+      formatTable([
+        ["NAME", "VALUE", "CONFIG", "OWNER", "TAGS"],
+        ...flags.map((flag) => [
+          flag.name,
+          formatValue(flag),
+          Object.keys(flag.stored?.config ?? {}).join(", "),
+          flag.metadata?.owner ?? "",
+          flag.metadata?.tags?.join(", ") ?? "",
+        ]),
+      ]),
+    );
+  },
+
+  async get({ io, options, operands, manager }) {
+    const flag = await manager.describe(flagOperand(operands));
+
+    if (options.json) {
+      printJson(io, flag);
+      return;
+    }
+
+    io.stdout.write(formatFlag(flag));
+  },
+
+  enable: (context) => toggle(context, true),
+  disable: (context) => toggle(context, false),
+
+  async delete({ io, options, operands, manager }) {
+    const flagName = flagOperand(operands);
+
+    await manager.describe(flagName);
+    await manager.delete(flagName, change(io, options));
+
+    if (options.json) {
+      printJson(io, { name: flagName, deleted: true });
+      return;
+    }
+
+    io.stdout.write(`Feature flag '${flagName}' deleted\n`);
+  },
+
+  async export({ io, options, operands, manager }) {
+    if (operands.length > 0) {
+      throw new UsageError("export takes no argument, use --output");
+    }
+
+    const snapshot = await manager.exportSnapshot();
+    const content = `${JSON.stringify(snapshot, null, 2)}\n`;
+
+    if (!options.output) {
+      io.stdout.write(content);
+      return;
+    }
+
+    const path = resolve(io.cwd, options.output);
+    await writeFile(path, content);
+
+    const count = Object.keys(snapshot.flags).length;
+    if (options.json) {
+      printJson(io, { path, exported: count });
+      return;
+    }
+
+    io.stdout.write(`Exported ${count} feature flags to ${path}\n`);
+  },
+
+  async import({ io, options, operands, manager }) {
+    if (operands.length !== 1) {
+      throw new UsageError(
+        "import expects the path of a snapshot or flag file",
+      );
+    }
+
+    const changes = await manager.importSnapshot(
+      await readSnapshot(io, operands[0]),
+      {
+        dryRun: options["dry-run"],
+        prune: options.prune,
+        change: change(io, options),
+      },
+    );
+
+    if (options.json) {
+      printJson(io, changes);
+      return;
+    }
+
+    if (options["dry-run"]) {
+      io.stdout.write(formatDiff(changes));
+      return;
+    }
+
+    const imported = changes.added.length + changes.changed.length;
+    io.stdout.write(
+      changes.removed.length > 0
+        ? `Imported ${imported} feature flags, deleted ${changes.removed.length}\n`
+        : `Imported ${imported} feature flags\n`,
+    );
+  },
+
+  async diff({ io, options, operands, store }) {
+    if (operands.length !== 1) {
+      throw new UsageError("diff expects the path of a snapshot or flag file");
+    }
+
+    const changes = await diff(await readSnapshot(io, operands[0]), store);
+
+    if (options.json) {
+      printJson(io, changes);
+      return;
+    }
+
+    io.stdout.write(formatDiff(changes));
+  },
+};
+
+async function toggle(
+  { io, options, operands, manager }: CommandContext,
+  value: boolean,
+): Promise<void> {
+  const flagName = flagOperand(operands);
+
+  if (!options.create) {
+    await manager.describe(flagName);
+  }
+
+  await manager.set(flagName, value, change(io, options));
+
+  if (options.json) {
+    printJson(io, await manager.describe(flagName));
+    return;
+  }
+
+  io.stdout.write(
+    `Feature flag '${flagName}' ${value ? "enabled" : "disabled"}\n`,
+  );
+}
+
+/**
+ * Write a config file template for a driver
+ */
+async function init(io: CliIO, options: CliOptions): Promise<void> {
+  const driver = options.driver ?? "knex";
+  const template = CONFIG_TEMPLATES[driver];
+
+  if (!template) {
+    throw new UsageError(`Unknown driver '${driver}'`);
+  }
+
+  const path = resolve(io.cwd, options.config ?? "fanion.config.json");
+
+  if (!options.force && (await exists(path))) {
+    throw new Error(`${path} already exists, use --force to overwrite it`);
+  }
+
+  await writeFile(path, `${JSON.stringify(template, null, 2)}\n`);
+
+  if (options.json) {
+    printJson(io, { path, driver });
+    return;
+  }
+
+  io.stdout.write(
+    `Created ${path}, edit the connection before running fanion list\n`,
+  );
+}
+
+/**
+ * Load the config file and build its store
+ *
+ * @throws {InvalidConfigError}
+ */
+async function connect(
+  io: CliIO,
+  configPath: string | undefined,
+): Promise<StoreConnection> {
+  const candidates = configPath
+    ? [resolve(io.cwd, configPath)]
+    : CONFIG_FILES.map((file) => resolve(io.cwd, file));
+
+  for (const path of candidates) {
+    if (await exists(path)) {
+      return createStore(path, await readConfig(path));
+    }
+  }
+
+  throw new InvalidConfigError(
+    candidates[0],
+    "file not found, create one with fanion init",
+  );
+}
+
+async function readConfig(path: string): Promise<unknown> {
+  if (extname(path) !== ".json") {
+    const module = await import(pathToFileURL(path).href);
+    return module.default;
+  }
+
+  try {
+    return JSON.parse(await readFile(path, "utf8"));
+  } catch (error) {
+    throw new InvalidConfigError(path, (error as Error).message);
+  }
+}
+
+async function createStore(
+  path: string,
+  config: unknown,
+): Promise<StoreConnection> {
+  const fail = (message: string): never => {
+    throw new InvalidConfigError(path, message);
+  };
+
+  if (!isObject(config)) {
+    return fail("the config must be an object");
+  }
+
+  if (config.store !== undefined) {
+    if (!isObject(config.store)) {
+      return fail("'store' must be a feature storage provider");
+    }
+
+    const { store, close } = config as unknown as StoreCliConfig;
+    return {
+      store,
+      close: async () => {
+        await close?.();
+      },
+    };
+  }
+
+  if (config.options !== undefined && !isObject(config.options)) {
+    return fail("'options' must be an object");
+  }
+
+  switch (config.driver) {
+    case "knex": {
+      if (!isObject(config.connection)) {
+        return fail("'connection' must be the knex configuration");
+      }
+
+      const { connection, options } = config as unknown as KnexCliConfig;
+      const { default: knex } = await import("knex");
+      const { createKnexDatabaseDriver } = await import(
+        "./drivers/databases/knex.js"
+      );
+      const db = knex(connection);
+
+      return {
+        store: createKnexDatabaseDriver({ ...options, connection: db }),
+        close: () => db.destroy(),
+      };
+    }
+
+    case "dynamodb": {
+      if (config.connection !== undefined && !isObject(config.connection)) {
+        return fail("'connection' must be the DynamoDB client configuration");
+      }
+
+      const { connection, options } = config as unknown as DynamoDBCliConfig;
+      const { DynamoDBClient } = await import("@aws-sdk/client-dynamodb");
+      const { createDynamoDBDatabaseDriver } = await import(
+        "./drivers/databases/dynamodb.js"
+      );
+      const client = new DynamoDBClient(connection ?? {});
+
+      return {
+        store: createDynamoDBDatabaseDriver({ ...options, client }),
+        close: async () => client.destroy(),
+      };
+    }
+
+    case "file": {
+      if (typeof config.options?.path !== "string") {
+        return fail("'options.path' must be the path of the flag file");
+      }
+
+      const { options } = config as unknown as FileCliConfig;
+      const store = createFileDriver({
+        path: resolve(dirname(path), options.path),
+        format: options.format,
+        watch: false,
+        writable: true,
+      });
+
+      return { store, close: async () => store.close() };
+    }
+  }
+
+  return fail("'driver' must be knex, dynamodb or file");
+}
+
+function exitCode(error: unknown): number {
+  if (error instanceof FeatureNotExistsError) {
+    return EXIT_NOT_FOUND;
+  }
+
+  if (
+    error instanceof UsageError ||
+    error instanceof InvalidConfigError ||
+    error instanceof InvalidFlagFileError ||
+    error instanceof InvalidSnapshotError
+  ) {
+    return EXIT_USAGE;
+  }
+
+  return EXIT_FAILURE;
+}
+
+function flagOperand(operands: string[]): string {
+  if (operands.length !== 1) {
+    throw new UsageError("Expected a single feature flag name");
+  }
+
+  return operands[0];
+}
+
+function change(io: CliIO, options: CliOptions): ChangeOptions {
+  return { actor: options.actor ?? io.env.USER, reason: options.reason };
+}
+
+/**
+ * Read a snapshot, or a flag file through the file driver
+ *
+ * @throws {InvalidSnapshotError}
+ * @throws {InvalidFlagFileError}
+ */
+async function readSnapshot(io: CliIO, file: string): Promise<Snapshot> {
+  const path = resolve(io.cwd, file);
+  let data: unknown;
+
+  try {
+    data = JSON.parse(await readFile(path, "utf8"));
+  } catch {
+    // Not a JSON snapshot, the file driver reports the error
+  }
+
+  if (isObject(data) && data.version !== undefined) {
+    return parseSnapshot(data);
+  }
+
+  const source = createFileDriver({ path, watch: false });
+  await source.initStore();
+
+  return createSnapshot(source);
+}
+
+function formatDiff({ added, removed, changed }: SnapshotDiff): string {
+  if (added.length + removed.length + changed.length === 0) {
+    return "No changes\n";
+  }
+
+  return [
+    ...added.map(({ flag }) => `+ ${flag}\n`),
+    ...changed.map(({ flag, fields }) => `~ ${flag} (${fields.join(", ")})\n`),
+    ...removed.map(({ flag }) => `- ${flag}\n`),
+  ].join("");
+}
+
+function formatValue(flag: FeatureListing): string {
+  if (!flag.stored) {
+    return "-";
+  }
+
+  return flag.stored.value ? "enabled" : "disabled";
+}
+
+function formatFlag(flag: FeatureListing): string {
+  const { stored, metadata } = flag;
+  const rows = [
+    ["name", flag.name],
+    ["value", formatValue(flag)],
+    ["variant", stored?.variant],
+    [
+      "config",
+      stored && Object.keys(stored.config).length > 0
+        ? JSON.stringify(stored.config)
+        : undefined,
+    ],
+    ["description", metadata?.description],
+    ["owner", metadata?.owner],
+    ["tags", metadata?.tags?.join(", ")],
+    ["expires at", metadata?.expiresAt],
+    ["review at", metadata?.reviewAt],
+    ["created at", stored?.createdAt],
+    ["updated at", stored?.updatedAt],
+  ];
+
+  return formatTable(
+    rows.flatMap(([label, value]) =>
+      value === undefined ? [] : [[`${label}:`, String(value)]],
+    ),
+  );
+}
+
+/**
+ * Align the columns of rows of text
+ */
+function formatTable(rows: string[][]): string {
+  const widths = rows[0].map((_, column) =>
+    Math.max(...rows.map((row) => row[column].length)),
+  );
+
+  return rows
+    .map((row) =>
+      row
+        .map((cell, column) => cell.padEnd(widths[column]))
+        .join("  ")
+        .trimEnd(),
+    )
+    .map((line) => `${line}\n`)
+    .join("");
+}
+
+function printJson(io: CliIO, data: unknown): void {
+  io.stdout.write(`${JSON.stringify(data, null, 2)}\n`);
+}
+
+async function exists(path: string): Promise<boolean> {
+  try {
+    await access(path);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,618 @@
+import { UnsupportedOperationError } from "../errors.js";
+import type { AuditEntry, AuditQuery } from "../types/audit.js";
+import type {
+  ExperimentAssignment,
+  FeatureConfig,
+  FeatureMetadata,
+  FeatureOverride,
+  FeatureUsage,
+  StoredFeature,
+  VariantValue,
+} from "../types/feature_config.js";
+import type { FeatureStorageProvider } from "../types/feature_storage_provider.js";
+
+/**
+ * Options of the caching driver, durations are in milliseconds
+ */
+export interface CacheOptions {
+  /**
+   * How long a value is fresh (defaults to 30 seconds)
+   */
+  ttl?: number;
+
+  /**
+   * How long a missing feature flag is cached (defaults to the ttl), 0 to disable
+   */
+  negativeTtl?: number;
+
+  /**
+   * How long an expired value is still returned while it is refreshed
+   * in the background (defaults to 0)
+   */
+  staleWhileRevalidate?: number;
+
+  /**
+   * Maximum number of cached values, the least recently stored values
+   * are evicted first (defaults to 10000)
+   */
+  maxEntries?: number;
+
+  /**
+   * Current time provider, defaults to Date.now
+   */
+  now?: () => number;
+}
+
+interface CacheEntry {
+  value: unknown;
+  expiresAt: number;
+  staleUntil: number;
+}
+
+/**
+ * Loads of a key in progress, the version is incremented on invalidation
+ * so loads started before are not cached
+ */
+interface LoadState {
+  version: number;
+  count: number;
+}
+
+/**
+ * Methods only defined when the wrapped store has them,
+ * so the feature manager knows what the store supports
+ */
+const OPTIONAL_CAPABILITIES = [
+  "list",
+  "keys",
+  "deletePrefix",
+  "setConfig",
+  "setVariant",
+  "deleteVariant",
+  "setMetadata",
+  "recordUsage",
+  "setOverride",
+  "getOverride",
+  "deleteOverride",
+  "listOverrides",
+  "clearOverrides",
+  "addAssignment",
+  "getAssignment",
+  "listAssignments",
+  "clearAssignments",
+  "appendAudit",
+  "listAudit",
+] satisfies (keyof FeatureStorageProvider)[];
+
+export function createCachedDriver(
+  store: FeatureStorageProvider,
+  options?: CacheOptions,
+): CachedDriver {
+  return new CachedDriver(store, options);
+}
+
+/**
+ * Read-through cache in front of any feature storage provider.
+ * Writes going through the cache invalidate the cached values of the flag.
+ * The optional methods are undefined when the wrapped store doesn't have them.
+ */
+export class CachedDriver implements FeatureStorageProvider {
+  #store: FeatureStorageProvider;
+  #ttl: number;
+  #negativeTtl: number;
+  #staleWhileRevalidate: number;
+  #maxEntries: number;
+  #now: () => number;
+
+  /**
+   * Cached values, in the order they were stored
+   */
+  #entries = new Map<string, CacheEntry>();
+  #pending = new Map<string, Promise<unknown>>();
+  #loads = new Map<string, LoadState>();
+
+  /**
+   * Time of the next removal of the values past their stale window
+   */
+  #nextSweep = 0;
+
+  constructor(store: FeatureStorageProvider, options: CacheOptions = {}) {
+    this.#store = store;
+    this.#ttl = options.ttl ?? 30_000;
+    this.#negativeTtl = options.negativeTtl ?? this.#ttl;
+    this.#staleWhileRevalidate = options.staleWhileRevalidate ?? 0;
+    this.#maxEntries = options.maxEntries ?? 10_000;
+    this.#now = options.now ?? Date.now;
+
+    for (const capability of OPTIONAL_CAPABILITIES) {
+      if (!store[capability]) {
+        Object.defineProperty(this, capability, { value: undefined });
+      }
+    }
+  }
+
+  async set(flag: string, value: boolean): Promise<void> {
+    await this.#store.set(flag, value);
+    this.invalidate(flag);
+  }
+
+  async get(flag: string): Promise<boolean | undefined> {
+    return this.#read(`get:${flag}`, () => this.#store.get(flag));
+  }
+
+  async getFeature(flag: string): Promise<StoredFeature | undefined> {
+    return this.#read(`feature:${flag}`, async () => {
+      if (this.#store.getFeature) {
+        return this.#store.getFeature(flag);
+      }
+
+      const value = await this.#store.get(flag);
+      return value === undefined ? undefined : { value, config: {} };
+    });
+  }
+
+  /**
+   * Read a feature flag from where the writes go, without the cache
+   * when the store has several sources
+   */
+  async getTargetFeature(flag: string): Promise<StoredFeature | undefined> {
+    if (this.#store.getTargetFeature) {
+      return this.#store.getTargetFeature(flag);
+    }
+
+    return this.getFeature(flag);
+  }
+
+  /**
+   * Return the fresh cached features, the others are read from the store in a single batch
+   */
+  async getMany(flags: string[]): Promise<Map<string, StoredFeature>> {
+    const features = new Map<string, StoredFeature>();
+    const missing: string[] = [];
+    const now = this.#now();
+
+    for (const flag of new Set(flags)) {
+      const entry = this.#entries.get(`feature:${flag}`);
+
+      if (!entry || now >= entry.expiresAt) {
+        if (entry && now >= entry.staleUntil) {
+          this.#entries.delete(`feature:${flag}`);
+        }
+
+        missing.push(flag);
+        continue;
+      }
+
+      if (entry.value !== undefined) {
+        features.set(flag, entry.value as StoredFeature);
+      }
+    }
+
+    if (missing.length === 0) {
+      return features;
+    }
+
+    if (!this.#store.getMany) {
+      await Promise.all(
+        missing.map(async (flag) => {
+          const feature = await this.getFeature(flag);
+          if (feature !== undefined) {
+            features.set(flag, feature);
+          }
+        }),
+      );
+      return features;
+    }
+
+    const loads = missing.map((flag) => this.#startLoad(`feature:${flag}`));
+    let loaded: Map<string, StoredFeature>;
+
+    try {
+      loaded = await this.#store.getMany(missing);
+    } catch (error) {
+      for (const finish of loads) {
+        finish();
+      }
+
+      throw error;
+    }
+
+    missing.forEach((flag, index) => {
+      const feature = loaded.get(flag);
+
+      if (loads[index]()) {
+        this.#remember(`feature:${flag}`, feature);
+      }
+
+      if (feature !== undefined) {
+        features.set(flag, feature);
+      }
+    });
+
+    return features;
+  }
+
+  /**
+   * Listing is not cached, it always reads the store
+   */
+  async list(prefix?: string): Promise<Map<string, StoredFeature>> {
+    if (!this.#store.list) {
+      throw new UnsupportedOperationError("flag listing");
+    }
+
+    return this.#store.list(prefix);
+  }
+
+  async keys(prefix?: string): Promise<string[]> {
+    if (!this.#store.keys) {
+      throw new UnsupportedOperationError("flag listing");
+    }
+
+    return this.#store.keys(prefix);
+  }
+
+  async setConfig(flag: string, config: FeatureConfig): Promise<void> {
+    if (!this.#store.setConfig) {
+      throw new UnsupportedOperationError("feature configuration");
+    }
+
+    await this.#store.setConfig(flag, config);
+    this.invalidate(flag);
+  }
+
+  async setVariant(flag: string, value: VariantValue): Promise<void> {
+    if (!this.#store.setVariant) {
+      throw new UnsupportedOperationError("variants");
+    }
+
+    await this.#store.setVariant(flag, value);
+    this.invalidate(flag);
+  }
+
+  async deleteVariant(flag: string): Promise<void> {
+    if (!this.#store.deleteVariant) {
+      throw new UnsupportedOperationError("variants");
+    }
+
+    await this.#store.deleteVariant(flag);
+    this.invalidate(flag);
+  }
+
+  async setMetadata(flag: string, metadata: FeatureMetadata): Promise<void> {
+    if (!this.#store.setMetadata) {
+      throw new UnsupportedOperationError("flag metadata");
+    }
+
+    await this.#store.setMetadata(flag, metadata);
+    this.invalidate(flag);
+  }
+
+  /**
+   * Usage is part of the stored feature, only the cached feature is removed
+   */
+  async recordUsage(flag: string, usage: FeatureUsage): Promise<void> {
+    if (!this.#store.recordUsage) {
+      throw new UnsupportedOperationError("usage tracking");
+    }
+
+    await this.#store.recordUsage(flag, usage);
+    this.#invalidateKey(`feature:${flag}`);
+  }
+
+  async setOverride(
+    flag: string,
+    contextKey: string,
+    value: boolean,
+  ): Promise<void> {
+    if (!this.#store.setOverride) {
+      throw new UnsupportedOperationError("per-context overrides");
+    }
+
+    await this.#store.setOverride(flag, contextKey, value);
+    this.#invalidateKey(`override:${flag}:${contextKey}`);
+  }
+
+  async getOverride(
+    flag: string,
+    contextKey: string,
+  ): Promise<boolean | undefined> {
+    const getOverride = this.#store.getOverride?.bind(this.#store);
+
+    if (!getOverride) {
+      return undefined;
+    }
+
+    return this.#read(`override:${flag}:${contextKey}`, () =>
+      getOverride(flag, contextKey),
+    );
+  }
+
+  async deleteOverride(flag: string, contextKey: string): Promise<void> {
+    if (!this.#store.deleteOverride) {
+      throw new UnsupportedOperationError("per-context overrides");
+    }
+
+    await this.#store.deleteOverride(flag, contextKey);
+    this.#invalidateKey(`override:${flag}:${contextKey}`);
+  }
+
+  async listOverrides(flag: string): Promise<FeatureOverride[]> {
+    if (!this.#store.listOverrides) {
+      throw new UnsupportedOperationError("per-context overrides");
+    }
+
+    return this.#store.listOverrides(flag);
+  }
+
+  async clearOverrides(flag: string): Promise<void> {
+    if (!this.#store.clearOverrides) {
+      throw new UnsupportedOperationError("per-context overrides");
+    }
+
+    await this.#store.clearOverrides(flag);
+    this.#invalidatePrefix(`override:${flag}:`);
+  }
+
+  /**
+   * Experiment assignments are not cached, they always read the store
+   */
+  async addAssignment(
+    flag: string,
+    assignment: ExperimentAssignment,
+  ): Promise<boolean> {
+    if (!this.#store.addAssignment) {
+      throw new UnsupportedOperationError("experiment assignments");
+    }
+
+    return this.#store.addAssignment(flag, assignment);
+  }
+
+  async getAssignment(
+    flag: string,
+    subjectKey: string,
+  ): Promise<ExperimentAssignment | undefined> {
+    if (!this.#store.getAssignment) {
+      throw new UnsupportedOperationError("experiment assignments");
+    }
+
+    return this.#store.getAssignment(flag, subjectKey);
+  }
+
+  async listAssignments(flag: string): Promise<ExperimentAssignment[]> {
+    if (!this.#store.listAssignments) {
+      throw new UnsupportedOperationError("experiment assignments");
+    }
+
+    return this.#store.listAssignments(flag);
+  }
+
+  async clearAssignments(flag: string): Promise<void> {
+    if (!this.#store.clearAssignments) {
+      throw new UnsupportedOperationError("experiment assignments");
+    }
+
+    await this.#store.clearAssignments(flag);
+  }
+
+  async appendAudit(entry: AuditEntry): Promise<void> {
+    if (!this.#store.appendAudit) {
+      throw new UnsupportedOperationError("audit log");
+    }
+
+    await this.#store.appendAudit(entry);
+  }
+
+  /**
+   * The audit log is not cached, it always reads the store
+   */
+  async listAudit(flag: string, query?: AuditQuery): Promise<AuditEntry[]> {
+    if (!this.#store.listAudit) {
+      throw new UnsupportedOperationError("audit log");
+    }
+
+    return this.#store.listAudit(flag, query);
+  }
+
+  async delete(featureName: string): Promise<void> {
+    await this.#store.delete(featureName);
+    this.invalidate(featureName);
+    this.#invalidatePrefix(`override:${featureName}:`);
+  }
+
+  async deletePrefix(prefix: string): Promise<string[]> {
+    if (!this.#store.deletePrefix) {
+      throw new UnsupportedOperationError("prefix deletion");
+    }
+
+    const names = await this.#store.deletePrefix(prefix);
+
+    for (const name of names) {
+      this.invalidate(name);
+      this.#invalidatePrefix(`override:${name}:`);
+    }
+
+    return names;
+  }
+
+  /**
+   * Remove the cached values of a feature flag, or of every flag.
+   * Use it when the underlying store is changed without going through the cache.
+   *
+   * @param flag
+   */
+  invalidate(flag?: string): void {
+    if (flag === undefined) {
+      this.#invalidatePrefix("");
+      return;
+    }
+
+    this.#invalidateKey(`get:${flag}`);
+    this.#invalidateKey(`feature:${flag}`);
+  }
+
+  isDatabaseDriver(): boolean {
+    return this.#store.isDatabaseDriver();
+  }
+
+  initStore(): Promise<void> {
+    return this.#store.initStore();
+  }
+
+  /**
+   * Return a cached value, load it when it is missing or expired.
+   * Stale values are returned while they are refreshed in the background.
+   */
+  async #read<T>(key: string, load: () => Promise<T>): Promise<T> {
+    const entry = this.#entries.get(key);
+    const now = this.#now();
+
+    if (entry && now < entry.expiresAt) {
+      return entry.value as T;
+    }
+
+    if (entry && now < entry.staleUntil) {
+      // Refresh failures are ignored, the stale value is kept until it expires
+      this.#load(key, load).catch(() => {});
+      return entry.value as T;
+    }
+
+    if (entry) {
+      this.#entries.delete(key);
+    }
+
+    return this.#load(key, load);
+  }
+
+  /**
+   * Load a value from the store, concurrent loads of the same key are shared
+   */
+  #load<T>(key: string, load: () => Promise<T>): Promise<T> {
+    const pending = this.#pending.get(key);
+
+    if (pending) {
+      return pending as Promise<T>;
+    }
+
+    const finish = this.#startLoad(key);
+
+    const promise = load()
+      .then(
+        (value) => {
+          if (finish()) {
+            this.#remember(key, value);
+          }
+          return value;
+        },
+        (error) => {
+          finish();
+          throw error;
+        },
+      )
+      .finally(() => {
+        if (this.#pending.get(key) === promise) {
+          this.#pending.delete(key);
+        }
+      });
+
+    this.#pending.set(key, promise);
+    return promise;
+  }
+
+  #remember(key: string, value: unknown): void {
+    const ttl = value === undefined ? this.#negativeTtl : this.#ttl;
+
+    if (ttl <= 0) {
+      this.#entries.delete(key);
+      return;
+    }
+
+    const expiresAt = this.#now() + ttl;
+
+    // Deleted first, so the key moves to the end of the eviction order
+    this.#entries.delete(key);
+    this.#entries.set(key, {
+      value,
+      expiresAt,
+      staleUntil: expiresAt + this.#staleWhileRevalidate,
+    });
+    this.#evict();
+  }
+
+  /**
+   * Remove the values past their stale window, at most once per ttl,
+   * then the least recently stored values above the size limit
+   */
+  #evict(): void {
+    if (this.#entries.size <= this.#maxEntries) {
+      return;
+    }
+
+    const now = this.#now();
+
+    if (now >= this.#nextSweep) {
+      this.#nextSweep = now + this.#ttl;
+
+      for (const [key, entry] of this.#entries) {
+        if (now >= entry.staleUntil) {
+          this.#entries.delete(key);
+        }
+      }
+    }
+
+    for (const key of this.#entries.keys()) {
+      if (this.#entries.size <= this.#maxEntries) {
+        break;
+      }
+
+      this.#entries.delete(key);
+    }
+  }
+
+  /**
+   * Register a load of a key
+   *
+   * @returns A function to call when the load ends, true if the key
+   * was not invalidated meanwhile
+   */
+  #startLoad(key: string): () => boolean {
+    const state = this.#loads.get(key) ?? { version: 0, count: 0 };
+    const version = state.version;
+
+    state.count++;
+    this.#loads.set(key, state);
+
+    return () => {
+      state.count--;
+
+      if (state.count === 0 && this.#loads.get(key) === state) {
+        this.#loads.delete(key);
+      }
+
+      return state.version === version;
+    };
+  }
+
+  #invalidateKey(key: string): void {
+    this.#entries.delete(key);
+    this.#pending.delete(key);
+
+    const state = this.#loads.get(key);
+    if (state) {
+      state.version++;
+    }
+  }
+
+  #invalidatePrefix(prefix: string): void {
+    const keys = new Set([
+      ...this.#entries.keys(),
+      ...this.#pending.keys(),
+      ...this.#loads.keys(),
+    ]);
+
+    for (const key of keys) {
+      if (key.startsWith(prefix)) {
+        this.#invalidateKey(key);
+      }
+    }
+  }
+}
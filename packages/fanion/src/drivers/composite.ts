@@ -0,0 +1,444 @@
+import { UnsupportedOperationError } from "../errors.js";
+import type { AuditEntry, AuditQuery } from "../types/audit.js";
+import type {
+  ExperimentAssignment,
+  FeatureConfig,
+  FeatureMetadata,
+  FeatureOverride,
+  FeatureUsage,
+  StoredFeature,
+  VariantValue,
+} from "../types/feature_config.js";
+import type { FeatureStorageProvider } from "../types/feature_storage_provider.js";
+
+/**
+ * A named storage provider of a composite store
+ */
+export interface StoreLayer {
+  /**
+   * Name reported by the evaluations answered by the layer
+   */
+  name: string;
+  store: FeatureStorageProvider;
+}
+
+/**
+ * The configuration for the composite driver
+ */
+export interface CompositeConfig {
+  /**
+   * Layers by precedence, reads fall through them in order
+   */
+  layers: StoreLayer[];
+
+  /**
+   * Name of the layer receiving the writes (defaults to the last layer)
+   */
+  writeTo?: string;
+}
+
+export function createCompositeDriver(
+  config: CompositeConfig,
+): CompositeDriver {
+  return new CompositeDriver(config);
+}
+
+/**
+ * Chain several storage providers: a feature flag is read from the first layer
+ * storing it, writes go to the target layer.
+ *
+ * @example
+ * ```ts
+ * const store = createCompositeDriver({
+ *   layers: [
+ *     { name: "env", store: createEnvDriver() },
+ *     { name: "redis", store: createRedisDriver({ client }) },
+ *   ],
+ *   writeTo: "redis",
+ * });
+ * ```
+ */
+export class CompositeDriver implements FeatureStorageProvider {
+  #layers: StoreLayer[];
+  #target: StoreLayer;
+
+  constructor(config: CompositeConfig) {
+    if (config.layers.length === 0) {
+      throw new Error("A composite store requires at least one layer");
+    }
+
+    const names = new Set(config.layers.map(({ name }) => name));
+    if (names.size !== config.layers.length) {
+      throw new Error("The layers of a composite store must have unique names");
+    }
+
+    const target =
+      config.writeTo === undefined
+        ? config.layers[config.layers.length - 1]
+        : config.layers.find(({ name }) => name === config.writeTo);
+
+    if (!target) {
+      throw new Error(`Unknown composite store layer '${config.writeTo}'`);
+    }
+
+    this.#layers = config.layers;
+    this.#target = target;
+  }
+
+  async set(flag: string, value: boolean): Promise<void> {
+    await this.#target.store.set(flag, value);
+  }
+
+  async get(flag: string): Promise<boolean | undefined> {
+    for (const { store } of this.#layers) {
+      const value = await store.get(flag);
+      if (value !== undefined) {
+        return value;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Read a feature flag from the first layer storing it,
+   * the name of the layer is set on the result
+   *
+   * @param flag
+   */
+  async getFeature(flag: string): Promise<StoredFeature | undefined> {
+    for (const layer of this.#layers) {
+      const feature = await this.#getFeature(layer, flag);
+      if (feature !== undefined) {
+        return feature;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Read a feature flag from the target layer only, configurations are
+   * updated from it so the other layers are not copied to the target
+   *
+   * @param flag
+   */
+  async getTargetFeature(flag: string): Promise<StoredFeature | undefined> {
+    return this.#getFeature(this.#target, flag);
+  }
+
+  /**
+   * Read the flags missing from a layer in the next one,
+   * with a single batch per layer when it supports it
+   *
+   * @param flags
+   */
+  async getMany(flags: string[]): Promise<Map<string, StoredFeature>> {
+    const features = new Map<string, StoredFeature>();
+    let missing = [...new Set(flags)];
+
+    for (const layer of this.#layers) {
+      if (missing.length === 0) {
+        break;
+      }
+
+      if (layer.store.getMany) {
+        const loaded = await layer.store.getMany(missing);
+
+        for (const [flag, feature] of loaded) {
+          features.set(flag, { ...feature, layer: layer.name });
+        }
+      } else {
+        for (const flag of missing) {
+          const feature = await this.#getFeature(layer, flag);
+          if (feature !== undefined) {
+            features.set(flag, feature);
+          }
+        }
+      }
+
+      missing = missing.filter((flag) => !features.has(flag));
+    }
+
+    return features;
+  }
+
+  /**
+   * List the flags of every layer, a flag stored in several layers
+   * is read from the first one
+   *
+   * @param prefix Only list the flags starting with the prefix
+   * @throws {UnsupportedOperationError} If a layer cannot list its flags
+   */
+  async list(prefix?: string): Promise<Map<string, StoredFeature>> {
+    const features = new Map<string, StoredFeature>();
+
+    for (const { name, store } of this.#layers) {
+      if (!store.list) {
+        throw new UnsupportedOperationError("flag listing");
+      }
+
+      for (const [flag, feature] of await store.list(prefix)) {
+        if (!features.has(flag)) {
+          features.set(flag, { ...feature, layer: name });
+        }
+      }
+    }
+
+    return new Map([...features].sort(([a], [b]) => (a < b ? -1 : 1)));
+  }
+
+  /**
+   * @throws {UnsupportedOperationError} If a layer cannot list its flags
+   */
+  async keys(prefix?: string): Promise<string[]> {
+    const keys = new Set<string>();
+
+    for (const { store } of this.#layers) {
+      if (!store.keys) {
+        throw new UnsupportedOperationError("flag listing");
+      }
+
+      for (const key of await store.keys(prefix)) {
+        keys.add(key);
+      }
+    }
+
+    return [...keys].sort();
+  }
+
+  async setConfig(flag: string, config: FeatureConfig): Promise<void> {
+    const store = this.#target.store;
+
+    if (!store.setConfig) {
+      throw new UnsupportedOperationError("feature configuration");
+    }
+
+    await store.setConfig(flag, config);
+  }
+
+  async setVariant(flag: string, value: VariantValue): Promise<void> {
+    const store = this.#target.store;
+
+    if (!store.setVariant) {
+      throw new UnsupportedOperationError("variants");
+    }
+
+    await store.setVariant(flag, value);
+  }
+
+  async deleteVariant(flag: string): Promise<void> {
+    const store = this.#target.store;
+
+    if (!store.deleteVariant) {
+      throw new UnsupportedOperationError("variants");
+    }
+
+    await store.deleteVariant(flag);
+  }
+
+  async setMetadata(flag: string, metadata: FeatureMetadata): Promise<void> {
+    const store = this.#target.store;
+
+    if (!store.setMetadata) {
+      throw new UnsupportedOperationError("flag metadata");
+    }
+
+    await store.setMetadata(flag, metadata);
+  }
+
+  /**
+   * Usage is dropped when the target layer cannot save it
+   */
+  async recordUsage(flag: string, usage: FeatureUsage): Promise<void> {
+    await this.#target.store.recordUsage?.(flag, usage);
+  }
+
+  async setOverride(
+    flag: string,
+    contextKey: string,
+    value: boolean,
+  ): Promise<void> {
+    const store = this.#target.store;
+
+    if (!store.setOverride) {
+      throw new UnsupportedOperationError("per-context overrides");
+    }
+
+    await store.setOverride(flag, contextKey, value);
+  }
+
+  /**
+   * Read an override from the first layer storing it
+   */
+  async getOverride(
+    flag: string,
+    contextKey: string,
+  ): Promise<boolean | undefined> {
+    for (const { store } of this.#layers) {
+      const value = await store.getOverride?.(flag, contextKey);
+      if (value !== undefined) {
+        return value;
+      }
+    }
+
+    return undefined;
+  }
+
+  async deleteOverride(flag: string, contextKey: string): Promise<void> {
+    const store = this.#target.store;
+
+    if (!store.deleteOverride) {
+      throw new UnsupportedOperationError("per-context overrides");
+    }
+
+    await store.deleteOverride(flag, contextKey);
+  }
+
+  /**
+   * List the overrides of every layer, an override stored in several layers
+   * is read from the first one
+   */
+  async listOverrides(flag: string): Promise<FeatureOverride[]> {
+    const overrides = new Map<string, boolean>();
+
+    for (const { store } of this.#layers) {
+      for (const { contextKey, value } of (await store.listOverrides?.(flag)) ??
+        []) {
+        if (!overrides.has(contextKey)) {
+          overrides.set(contextKey, value);
+        }
+      }
+    }
+
+    return [...overrides.keys()].sort().map((contextKey) => ({
+      contextKey,
+      value: overrides.get(contextKey) as boolean,
+    }));
+  }
+
+  async clearOverrides(flag: string): Promise<void> {
+    const store = this.#target.store;
+
+    if (!store.clearOverrides) {
+      throw new UnsupportedOperationError("per-context overrides");
+    }
+
+    await store.clearOverrides(flag);
+  }
+
+  /**
+   * Experiment assignments are kept in the target layer
+   */
+  async addAssignment(
+    flag: string,
+    assignment: ExperimentAssignment,
+  ): Promise<boolean> {
+    const store = this.#target.store;
+
+    if (!store.addAssignment) {
+      throw new UnsupportedOperationError("experiment assignments");
+    }
+
+    return store.addAssignment(flag, assignment);
+  }
+
+  async getAssignment(
+    flag: string,
+    subjectKey: string,
+  ): Promise<ExperimentAssignment | undefined> {
+    const store = this.#target.store;
+
+    if (!store.getAssignment) {
+      throw new UnsupportedOperationError("experiment assignments");
+    }
+
+    return store.getAssignment(flag, subjectKey);
+  }
+
+  async listAssignments(flag: string): Promise<ExperimentAssignment[]> {
+    const store = this.#target.store;
+
+    if (!store.listAssignments) {
+      throw new UnsupportedOperationError("experiment assignments");
+    }
+
+    return store.listAssignments(flag);
+  }
+
+  async clearAssignments(flag: string): Promise<void> {
+    const store = this.#target.store;
+
+    if (!store.clearAssignments) {
+      throw new UnsupportedOperationError("experiment assignments");
+    }
+
+    await store.clearAssignments(flag);
+  }
+
+  /**
+   * Entries are dropped when the target layer has no audit log
+   */
+  async appendAudit(entry: AuditEntry): Promise<void> {
+    await this.#target.store.appendAudit?.(entry);
+  }
+
+  async listAudit(flag: string, query?: AuditQuery): Promise<AuditEntry[]> {
+    const store = this.#target.store;
+
+    if (!store.listAudit) {
+      throw new UnsupportedOperationError("audit log");
+    }
+
+    return store.listAudit(flag, query);
+  }
+
+  /**
+   * Delete a feature flag from the target layer,
+   * the other layers still answer for it
+   *
+   * @param featureName
+   */
+  async delete(featureName: string): Promise<void> {
+    await this.#target.store.delete(featureName);
+  }
+
+  /**
+   * Delete the flags starting with a prefix from the target layer
+   *
+   * @param prefix
+   */
+  async deletePrefix(prefix: string): Promise<string[]> {
+    const store = this.#target.store;
+
+    if (!store.deletePrefix) {
+      throw new UnsupportedOperationError("prefix deletion");
+    }
+
+    return store.deletePrefix(prefix);
+  }
+
+  isDatabaseDriver(): boolean {
+    return this.#layers.some(({ store }) => store.isDatabaseDriver());
+  }
+
+  /**
+   * Initialise every layer
+   */
+  async initStore(): Promise<void> {
+    await Promise.all(this.#layers.map(({ store }) => store.initStore()));
+  }
+
+  async #getFeature(
+    { name, store }: StoreLayer,
+    flag: string,
+  ): Promise<StoredFeature | undefined> {
+    if (store.getFeature) {
+      const feature = await store.getFeature(flag);
+      return feature === undefined ? undefined : { ...feature, layer: name };
+    }
+
+    const value = await store.get(flag);
+    return value === undefined ? undefined : { value, config: {}, layer: name };
+  }
+}
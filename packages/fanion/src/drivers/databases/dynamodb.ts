@@ -1,16 +1,51 @@
 import {
-  DynamoDBClient,
+  type DynamoDBClient,
   CreateTableCommand,
   DescribeTableCommand,
-  PutItemCommand,
+  UpdateItemCommand,
   GetItemCommand,
   DeleteItemCommand,
+  PutItemCommand,
+  QueryCommand,
+  ScanCommand,
+  BatchWriteItemCommand,
+  BatchGetItemCommand,
+  type AttributeValue,
+  type BatchGetItemCommandOutput,
+  type QueryCommandOutput,
+  type ScanCommandInput,
+  type WriteRequest,
 } from "@aws-sdk/client-dynamodb";
 import { marshall, unmarshall } from "@aws-sdk/util-dynamodb";
-import {
+import type {
   DatabaseStorageProvider,
   DynamoDBConfig,
 } from "../../types/database_drivers_options.js";
+import type { AuditEntry, AuditQuery } from "../../types/audit.js";
+import type {
+  ExperimentAssignment,
+  FeatureConfig,
+  FeatureMetadata,
+  FeatureOverride,
+  FeatureUsage,
+  StoredFeature,
+  VariantValue,
+} from "../../types/feature_config.js";
+
+/**
+ * Maximum number of items in a BatchWriteItem request
+ */
+const BATCH_WRITE_SIZE = 25;
+
+/**
+ * Maximum number of keys in a BatchGetItem request
+ */
+const BATCH_GET_SIZE = 100;
+
+/**
+ * Maximum number of attempts for the unprocessed items of a batch
+ */
+const MAX_BATCH_ATTEMPTS = 5;
 
 export function createDynamoDBDatabaseDriver(
   config: DynamoDBConfig,
@@ -25,34 +60,59 @@ export class DynamoDBDatabaseDriver implements DatabaseStorageProvider {
   #tableName: string;
   #featureNameAttribute: string;
   #valueAttribute: string;
+  #configAttribute: string;
+  #variantAttribute: string;
+  #metadataAttribute: string;
+  #usageAttribute: string;
+  #createdAtAttribute: string;
+  #updatedAtAttribute: string;
+  #overridesTableName: string;
+  #contextKeyAttribute: string;
+  #auditTableName: string;
+  #assignmentsTableName: string;
   #client: DynamoDBClient;
 
   constructor(config: DynamoDBConfig) {
     this.#tableName = config.tableName ?? "feature_flags";
     this.#featureNameAttribute = config.featureNameAttribute ?? "feature_name";
     this.#valueAttribute = config.valueAttribute ?? "value";
+    this.#configAttribute = config.configAttribute ?? "config";
+    this.#variantAttribute = config.variantAttribute ?? "variant";
+    this.#metadataAttribute = config.metadataAttribute ?? "metadata";
+    this.#usageAttribute = config.usageAttribute ?? "usage";
+    this.#createdAtAttribute = config.createdAtAttribute ?? "created_at";
+    this.#updatedAtAttribute = config.updatedAtAttribute ?? "updated_at";
+    this.#overridesTableName =
+      config.overridesTableName ?? `${this.#tableName}_overrides`;
+    this.#contextKeyAttribute = config.contextKeyAttribute ?? "context_key";
+    this.#auditTableName =
+      config.auditTableName ?? `${this.#tableName}_changes`;
+    this.#assignmentsTableName =
+      config.assignmentsTableName ?? `${this.#tableName}_assignments`;
     this.#client = config.client;
   }
 
   /**
    * Set the value of a feature flag in DynamoDB.
-   * Upserts the item if the feature flag doesn't exist.
+   * Upserts the item if the feature flag doesn't exist, the other
+   * attributes of the item are kept.
    *
    * @param flag The feature flag name
    * @param value The feature flag value
    */
   async set(flag: string, value: boolean): Promise<void> {
-    const item = {
-      [this.#featureNameAttribute]: flag,
-      [this.#valueAttribute]: value,
-    };
-
-    const command = new PutItemCommand({
-      TableName: this.#tableName,
-      Item: marshall(item),
-    });
+    await this.#update(flag, this.#valueAttribute, value);
+  }
 
-    await this.#client.send(command);
+  /**
+   * Save the configuration of a feature flag.
+   * The feature flag is created enabled if it doesn't exist.
+   *
+   * @param flag The feature flag name
+   * @param config The feature flag configuration
+   */
+  async setConfig(flag: string, config: FeatureConfig): Promise<void> {
+    await this.#update(flag, this.#configAttribute, config);
   }
 
   /**
@@ -79,13 +139,552 @@ export class DynamoDBDatabaseDriver implements DatabaseStorageProvider {
       const item = unmarshall(response.Item);
       return item[this.#valueAttribute] as boolean;
     } catch (error) {
-      // If the table doesn't exist or other errors, return undefined
-      return undefined;
+      // A missing table has no flags, other errors are not a missing flag
+      if (isMissingTable(error)) {
+        return undefined;
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Save the variant of a multivariate feature flag.
+   * The feature flag is created enabled if it doesn't exist.
+   *
+   * @param flag The feature flag name
+   * @param value The variant value (string, number or JSON)
+   */
+  async setVariant(flag: string, value: VariantValue): Promise<void> {
+    await this.#update(flag, this.#variantAttribute, value);
+  }
+
+  /**
+   * Remove the variant attribute of a stored feature flag,
+   * the item is only updated if it exists.
+   *
+   * @param flag The feature flag name
+   */
+  async deleteVariant(flag: string): Promise<void> {
+    const command = new UpdateItemCommand({
+      TableName: this.#tableName,
+      Key: marshall({
+        [this.#featureNameAttribute]: flag,
+      }),
+      UpdateExpression: "SET #updatedAt = :now REMOVE #variant",
+      ConditionExpression: "attribute_exists(#name)",
+      ExpressionAttributeNames: {
+        "#updatedAt": this.#updatedAtAttribute,
+        "#variant": this.#variantAttribute,
+        "#name": this.#featureNameAttribute,
+      },
+      ExpressionAttributeValues: marshall({
+        ":now": new Date().toISOString(),
+      }),
+    });
+
+    try {
+      await this.#client.send(command);
+    } catch (error) {
+      if ((error as Error).name !== "ConditionalCheckFailedException") {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Save the metadata of a feature flag.
+   * The feature flag is created enabled if it doesn't exist.
+   *
+   * @param flag The feature flag name
+   * @param metadata The description, owner and tags of the feature flag
+   */
+  async setMetadata(flag: string, metadata: FeatureMetadata): Promise<void> {
+    await this.#update(flag, this.#metadataAttribute, metadata);
+  }
+
+  /**
+   * Save the evaluations of a feature flag, the item is only updated
+   * if it exists and its update date is not changed.
+   *
+   * @param flag The feature flag name
+   * @param usage The last evaluation of the feature flag
+   */
+  async recordUsage(flag: string, usage: FeatureUsage): Promise<void> {
+    const command = new UpdateItemCommand({
+      TableName: this.#tableName,
+      Key: marshall({
+        [this.#featureNameAttribute]: flag,
+      }),
+      UpdateExpression: "SET #usage = :usage",
+      ConditionExpression: "attribute_exists(#name)",
+      ExpressionAttributeNames: {
+        "#usage": this.#usageAttribute,
+        "#name": this.#featureNameAttribute,
+      },
+      ExpressionAttributeValues: marshall({
+        ":usage": usage,
+      }),
+    });
+
+    try {
+      await this.#client.send(command);
+    } catch (error) {
+      if ((error as Error).name !== "ConditionalCheckFailedException") {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Get the value and the configuration of a feature flag from DynamoDB.
+   *
+   * @param flag The feature flag name
+   * @returns The stored feature flag or undefined if not found
+   */
+  async getFeature(flag: string): Promise<StoredFeature | undefined> {
+    const command = new GetItemCommand({
+      TableName: this.#tableName,
+      Key: marshall({
+        [this.#featureNameAttribute]: flag,
+      }),
+    });
+
+    try {
+      const response = await this.#client.send(command);
+
+      if (!response.Item) {
+        return undefined;
+      }
+
+      return this.#toStoredFeature(unmarshall(response.Item));
+    } catch (error) {
+      if (isMissingTable(error)) {
+        return undefined;
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Get several feature flags with BatchGetItem requests of 100 keys,
+   * unprocessed keys are retried with an exponential backoff.
+   *
+   * @param flags The feature flag names
+   * @returns The stored feature flags by name, missing flags are omitted
+   */
+  async getMany(flags: string[]): Promise<Map<string, StoredFeature>> {
+    const features = new Map<string, StoredFeature>();
+    const keys = [...new Set(flags)].map((flag) =>
+      marshall({ [this.#featureNameAttribute]: flag }),
+    );
+
+    for (let index = 0; index < keys.length; index += BATCH_GET_SIZE) {
+      let pending: Record<string, AttributeValue>[] = keys.slice(
+        index,
+        index + BATCH_GET_SIZE,
+      );
+
+      for (let attempt = 0; pending.length > 0; attempt++) {
+        if (attempt >= MAX_BATCH_ATTEMPTS) {
+          throw new Error(
+            `Unable to read ${pending.length} items from ${this.#tableName}`,
+          );
+        }
+
+        if (attempt > 0) {
+          await new Promise((resolve) => setTimeout(resolve, 50 * 2 ** attempt));
+        }
+
+        let response: BatchGetItemCommandOutput;
+        try {
+          response = await this.#client.send(
+            new BatchGetItemCommand({
+              RequestItems: { [this.#tableName]: { Keys: pending } },
+            }),
+          );
+        } catch (error) {
+          if (isMissingTable(error)) {
+            return features;
+          }
+
+          throw error;
+        }
+
+        for (const raw of response.Responses?.[this.#tableName] ?? []) {
+          const item = unmarshall(raw);
+          features.set(
+            item[this.#featureNameAttribute] as string,
+            this.#toStoredFeature(item),
+          );
+        }
+
+        pending = response.UnprocessedKeys?.[this.#tableName]?.Keys ?? [];
+      }
+    }
+
+    return features;
+  }
+
+  /**
+   * List all the stored feature flags with a paginated scan, sorted by name.
+   *
+   * @param prefix Only list the flags starting with the prefix
+   */
+  async list(prefix = ""): Promise<Map<string, StoredFeature>> {
+    const items = await this.#scan(this.#prefixFilter(prefix));
+
+    return new Map(
+      items.map((item) => [
+        item[this.#featureNameAttribute] as string,
+        this.#toStoredFeature(item),
+      ]),
+    );
+  }
+
+  /**
+   * List the names of the stored feature flags with a paginated scan, sorted by name.
+   *
+   * @param prefix Only list the flags starting with the prefix
+   */
+  async keys(prefix = ""): Promise<string[]> {
+    const items = await this.#scan({
+      ...this.#prefixFilter(prefix),
+      ProjectionExpression: "#name",
+      ExpressionAttributeNames: { "#name": this.#featureNameAttribute },
+    });
+
+    return items.map((item) => item[this.#featureNameAttribute] as string);
+  }
+
+  /**
+   * Set the value of a feature flag for a single context key.
+   * Overrides are stored with the context key as sort key.
+   *
+   * @param flag The feature flag name
+   * @param contextKey The context key
+   * @param value The feature flag value for this context key
+   */
+  async setOverride(
+    flag: string,
+    contextKey: string,
+    value: boolean,
+  ): Promise<void> {
+    const command = new PutItemCommand({
+      TableName: this.#overridesTableName,
+      Item: marshall({
+        [this.#featureNameAttribute]: flag,
+        [this.#contextKeyAttribute]: contextKey,
+        [this.#valueAttribute]: value,
+      }),
+    });
+
+    await this.#client.send(command);
+  }
+
+  /**
+   * Get the value of a feature flag for a single context key.
+   *
+   * @param flag The feature flag name
+   * @param contextKey The context key
+   * @returns The override value or undefined if not found
+   */
+  async getOverride(
+    flag: string,
+    contextKey: string,
+  ): Promise<boolean | undefined> {
+    const command = new GetItemCommand({
+      TableName: this.#overridesTableName,
+      Key: this.#overrideKey(flag, contextKey),
+    });
+
+    try {
+      const response = await this.#client.send(command);
+
+      if (!response.Item) {
+        return undefined;
+      }
+
+      return unmarshall(response.Item)[this.#valueAttribute] as boolean;
+    } catch (error) {
+      if (isMissingTable(error)) {
+        return undefined;
+      }
+
+      throw error;
     }
   }
 
   /**
-   * Delete a feature flag from DynamoDB.
+   * Delete the value of a feature flag for a single context key.
+   *
+   * @param flag The feature flag name
+   * @param contextKey The context key
+   */
+  async deleteOverride(flag: string, contextKey: string): Promise<void> {
+    const command = new DeleteItemCommand({
+      TableName: this.#overridesTableName,
+      Key: this.#overrideKey(flag, contextKey),
+    });
+
+    await this.#client.send(command);
+  }
+
+  /**
+   * List the overrides of a feature flag with a paginated query on the partition key.
+   *
+   * @param flag The feature flag name
+   */
+  async listOverrides(flag: string): Promise<FeatureOverride[]> {
+    const overrides: FeatureOverride[] = [];
+    let exclusiveStartKey: QueryCommandOutput["LastEvaluatedKey"];
+
+    do {
+      const response = await this.#client.send(
+        new QueryCommand({
+          TableName: this.#overridesTableName,
+          KeyConditionExpression: "#name = :name",
+          ExpressionAttributeNames: {
+            "#name": this.#featureNameAttribute,
+          },
+          ExpressionAttributeValues: marshall({
+            ":name": flag,
+          }),
+          ExclusiveStartKey: exclusiveStartKey,
+        }),
+      );
+
+      for (const rawItem of response.Items ?? []) {
+        const item = unmarshall(rawItem);
+        overrides.push({
+          contextKey: item[this.#contextKeyAttribute],
+          value: item[this.#valueAttribute],
+        });
+      }
+
+      exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return overrides;
+  }
+
+  /**
+   * Delete all the overrides of a feature flag with batched writes.
+   *
+   * @param flag The feature flag name
+   */
+  async clearOverrides(flag: string): Promise<void> {
+    const overrides = await this.listOverrides(flag);
+
+    await this.#batchWrite(
+      this.#overridesTableName,
+      overrides.map((override) => ({
+        DeleteRequest: {
+          Key: this.#overrideKey(flag, override.contextKey),
+        },
+      })),
+    );
+  }
+
+  /**
+   * Save an experiment assignment with the subject key as sort key.
+   * The first assignment of a subject is never overwritten.
+   *
+   * @param flag The feature flag name
+   * @param assignment The subject and its variant
+   * @returns false if the subject was already assigned
+   */
+  async addAssignment(
+    flag: string,
+    assignment: ExperimentAssignment,
+  ): Promise<boolean> {
+    const command = new PutItemCommand({
+      TableName: this.#assignmentsTableName,
+      Item: marshall({
+        [this.#featureNameAttribute]: flag,
+        subject_key: assignment.subjectKey,
+        [this.#variantAttribute]: assignment.value,
+        assigned_at: assignment.assignedAt.toISOString(),
+      }),
+      ConditionExpression: "attribute_not_exists(subject_key)",
+    });
+
+    try {
+      await this.#client.send(command);
+      return true;
+    } catch (error) {
+      if ((error as Error).name === "ConditionalCheckFailedException") {
+        return false;
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Get the experiment assignment of a subject.
+   *
+   * @param flag The feature flag name
+   * @param subjectKey The value of the bucketing context key
+   */
+  async getAssignment(
+    flag: string,
+    subjectKey: string,
+  ): Promise<ExperimentAssignment | undefined> {
+    const response = await this.#client.send(
+      new GetItemCommand({
+        TableName: this.#assignmentsTableName,
+        Key: this.#assignmentKey(flag, subjectKey),
+      }),
+    );
+
+    return response.Item
+      ? this.#toAssignment(unmarshall(response.Item))
+      : undefined;
+  }
+
+  /**
+   * List the experiment assignments of a feature flag
+   * with a paginated query on the partition key.
+   *
+   * @param flag The feature flag name
+   */
+  async listAssignments(flag: string): Promise<ExperimentAssignment[]> {
+    const assignments: ExperimentAssignment[] = [];
+    let exclusiveStartKey: QueryCommandOutput["LastEvaluatedKey"];
+
+    do {
+      const response = await this.#client.send(
+        new QueryCommand({
+          TableName: this.#assignmentsTableName,
+          KeyConditionExpression: "#name = :name",
+          ExpressionAttributeNames: {
+            "#name": this.#featureNameAttribute,
+          },
+          ExpressionAttributeValues: marshall({
+            ":name": flag,
+          }),
+          ExclusiveStartKey: exclusiveStartKey,
+        }),
+      );
+
+      for (const rawItem of response.Items ?? []) {
+        assignments.push(this.#toAssignment(unmarshall(rawItem)));
+      }
+
+      exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    return assignments;
+  }
+
+  /**
+   * Delete the experiment assignments of a feature flag with batched writes.
+   *
+   * @param flag The feature flag name
+   */
+  async clearAssignments(flag: string): Promise<void> {
+    const assignments = await this.listAssignments(flag);
+
+    await this.#batchWrite(
+      this.#assignmentsTableName,
+      assignments.map((assignment) => ({
+        DeleteRequest: {
+          Key: this.#assignmentKey(flag, assignment.subjectKey),
+        },
+      })),
+    );
+  }
+
+  /**
+   * Append an entry to the audit log table, with the entry id as sort key.
+   * Entry ids start with the change date, so the sort key orders the
+   * entries by date. Existing entries are never overwritten.
+   *
+   * @param entry The audit entry
+   */
+  async appendAudit(entry: AuditEntry): Promise<void> {
+    const command = new PutItemCommand({
+      TableName: this.#auditTableName,
+      Item: marshall(
+        {
+          [this.#featureNameAttribute]: entry.flag,
+          change_id: entry.id,
+          action: entry.action,
+          actor: entry.actor,
+          reason: entry.reason,
+          previous: entry.previous,
+          next: entry.next,
+          overrides: entry.overrides,
+          changed_at: entry.changedAt.toISOString(),
+        },
+        { removeUndefinedValues: true },
+      ),
+      ConditionExpression: "attribute_not_exists(change_id)",
+    });
+
+    await this.#client.send(command);
+  }
+
+  /**
+   * List the audit log of a feature flag, most recent first,
+   * with a paginated query on the partition key.
+   *
+   * @param flag The feature flag name
+   * @param query The maximum number of entries
+   */
+  async listAudit(flag: string, query: AuditQuery = {}): Promise<AuditEntry[]> {
+    const entries: AuditEntry[] = [];
+    let exclusiveStartKey: QueryCommandOutput["LastEvaluatedKey"];
+
+    do {
+      const remaining =
+        query.limit === undefined ? undefined : query.limit - entries.length;
+
+      const response = await this.#client.send(
+        new QueryCommand({
+          TableName: this.#auditTableName,
+          KeyConditionExpression: "#name = :name",
+          ExpressionAttributeNames: {
+            "#name": this.#featureNameAttribute,
+          },
+          ExpressionAttributeValues: marshall({
+            ":name": flag,
+          }),
+          ScanIndexForward: false,
+          Limit: remaining,
+          ExclusiveStartKey: exclusiveStartKey,
+        }),
+      );
+
+      for (const rawItem of response.Items ?? []) {
+        const item = unmarshall(rawItem);
+        entries.push({
+          id: item.change_id,
+          flag: item[this.#featureNameAttribute],
+          action: item.action,
+          actor: item.actor,
+          reason: item.reason,
+          previous: item.previous,
+          next: item.next,
+          overrides: item.overrides,
+          changedAt: new Date(item.changed_at),
+        });
+      }
+
+      exclusiveStartKey = response.LastEvaluatedKey;
+    } while (
+      exclusiveStartKey &&
+      (query.limit === undefined || entries.length < query.limit)
+    );
+
+    return entries;
+  }
+
+  /**
+   * Delete a feature flag from DynamoDB, with its overrides
+   * and experiment assignments.
    *
    * @param featureName The feature flag name to delete
    */
@@ -98,16 +697,229 @@ export class DynamoDBDatabaseDriver implements DatabaseStorageProvider {
     });
 
     await this.#client.send(command);
+    await this.clearOverrides(featureName);
+    await this.clearAssignments(featureName);
   }
 
   /**
-   * Create the DynamoDB table if it doesn't exist.
+   * Delete the flags starting with a prefix with batched writes,
+   * with their overrides and experiment assignments
+   *
+   * @param prefix
+   */
+  async deletePrefix(prefix: string): Promise<string[]> {
+    const names = await this.keys(prefix);
+
+    await this.#batchWrite(
+      this.#tableName,
+      names.map((name) => ({
+        DeleteRequest: {
+          Key: marshall({ [this.#featureNameAttribute]: name }),
+        },
+      })),
+    );
+
+    for (const name of names) {
+      await this.clearOverrides(name);
+      await this.clearAssignments(name);
+    }
+
+    return names;
+  }
+
+  /**
+   * Scan filter keeping the flags starting with a prefix
+   */
+  #prefixFilter(prefix: string): Omit<ScanCommandInput, "TableName"> {
+    if (prefix === "") {
+      return {};
+    }
+
+    return {
+      FilterExpression: "begins_with(#name, :prefix)",
+      ExpressionAttributeNames: { "#name": this.#featureNameAttribute },
+      ExpressionAttributeValues: marshall({ ":prefix": prefix }),
+    };
+  }
+
+  /**
+   * Read every page of a scan of the feature flags table, sorted by name
+   */
+  async #scan(
+    input: Omit<ScanCommandInput, "TableName">,
+  ): Promise<Record<string, unknown>[]> {
+    const items: Record<string, unknown>[] = [];
+    let exclusiveStartKey: ScanCommandInput["ExclusiveStartKey"];
+
+    do {
+      const response = await this.#client.send(
+        new ScanCommand({
+          ...input,
+          TableName: this.#tableName,
+          ExclusiveStartKey: exclusiveStartKey,
+        }),
+      );
+
+      for (const rawItem of response.Items ?? []) {
+        items.push(unmarshall(rawItem));
+      }
+
+      exclusiveStartKey = response.LastEvaluatedKey;
+    } while (exclusiveStartKey);
+
+    const name = this.#featureNameAttribute;
+    return items.sort((a, b) => (String(a[name]) < String(b[name]) ? -1 : 1));
+  }
+
+  /**
+   * Set an attribute of a feature flag item, the item is created enabled
+   * if it doesn't exist. The creation and update dates are kept up to date.
+   */
+  async #update(flag: string, attribute: string, value: unknown): Promise<void> {
+    const assignments = [
+      "#attribute = :attribute",
+      "#createdAt = if_not_exists(#createdAt, :now)",
+      "#updatedAt = :now",
+    ];
+    const names: Record<string, string> = {
+      "#attribute": attribute,
+      "#createdAt": this.#createdAtAttribute,
+      "#updatedAt": this.#updatedAtAttribute,
+    };
+    const values: Record<string, unknown> = {
+      ":attribute": value,
+      ":now": new Date().toISOString(),
+    };
+
+    if (attribute !== this.#valueAttribute) {
+      assignments.push("#value = if_not_exists(#value, :value)");
+      names["#value"] = this.#valueAttribute;
+      values[":value"] = true;
+    }
+
+    const command = new UpdateItemCommand({
+      TableName: this.#tableName,
+      Key: marshall({
+        [this.#featureNameAttribute]: flag,
+      }),
+      UpdateExpression: `SET ${assignments.join(", ")}`,
+      ExpressionAttributeNames: names,
+      ExpressionAttributeValues: marshall(values, {
+        removeUndefinedValues: true,
+      }),
+    });
+
+    await this.#client.send(command);
+  }
+
+  #toStoredFeature(item: Record<string, unknown>): StoredFeature {
+    const createdAt = item[this.#createdAtAttribute] as string | undefined;
+    const updatedAt = item[this.#updatedAtAttribute] as string | undefined;
+
+    return {
+      value: item[this.#valueAttribute] as boolean,
+      config: (item[this.#configAttribute] as FeatureConfig) ?? {},
+      variant: item[this.#variantAttribute] as VariantValue | undefined,
+      metadata: item[this.#metadataAttribute] as FeatureMetadata | undefined,
+      usage: item[this.#usageAttribute] as FeatureUsage | undefined,
+      createdAt: createdAt ? new Date(createdAt) : undefined,
+      updatedAt: updatedAt ? new Date(updatedAt) : undefined,
+    };
+  }
+
+  /**
+   * Primary key of an override item
+   */
+  #overrideKey(flag: string, contextKey: string) {
+    return marshall({
+      [this.#featureNameAttribute]: flag,
+      [this.#contextKeyAttribute]: contextKey,
+    });
+  }
+
+  /**
+   * Primary key of an experiment assignment item
+   */
+  #assignmentKey(flag: string, subjectKey: string) {
+    return marshall({
+      [this.#featureNameAttribute]: flag,
+      subject_key: subjectKey,
+    });
+  }
+
+  #toAssignment(item: Record<string, unknown>): ExperimentAssignment {
+    return {
+      subjectKey: item.subject_key as string,
+      value: item[this.#variantAttribute] as VariantValue,
+      assignedAt: new Date(item.assigned_at as string),
+    };
+  }
+
+  /**
+   * Send write requests in batches of 25 items (DynamoDB limit),
+   * unprocessed items are retried with an exponential backoff.
+   */
+  async #batchWrite(tableName: string, requests: WriteRequest[]): Promise<void> {
+    for (let index = 0; index < requests.length; index += BATCH_WRITE_SIZE) {
+      let pending = requests.slice(index, index + BATCH_WRITE_SIZE);
+
+      for (let attempt = 0; pending.length > 0; attempt++) {
+        if (attempt >= MAX_BATCH_ATTEMPTS) {
+          throw new Error(
+            `Unable to write ${pending.length} items to ${tableName}`,
+          );
+        }
+
+        if (attempt > 0) {
+          await new Promise((resolve) => setTimeout(resolve, 50 * 2 ** attempt));
+        }
+
+        const response = await this.#client.send(
+          new BatchWriteItemCommand({
+            RequestItems: { [tableName]: pending },
+          }),
+        );
+
+        pending = response.UnprocessedItems?.[tableName] ?? [];
+      }
+    }
+  }
+
+  /**
+   * Create the DynamoDB tables if they don't exist.
    */
   async createTableIfNotExists(): Promise<void> {
+    await this.#createTableIfNotExists(this.#tableName, [
+      this.#featureNameAttribute,
+    ]);
+    await this.#createTableIfNotExists(this.#overridesTableName, [
+      this.#featureNameAttribute,
+      this.#contextKeyAttribute,
+    ]);
+    await this.#createTableIfNotExists(this.#auditTableName, [
+      this.#featureNameAttribute,
+      "change_id",
+    ]);
+    await this.#createTableIfNotExists(this.#assignmentsTableName, [
+      this.#featureNameAttribute,
+      "subject_key",
+    ]);
+  }
+
+  /**
+   * Create a table keyed by a partition key and an optional sort key.
+   *
+   * @param tableName The table name
+   * @param keys The partition key then the sort key attribute names
+   */
+  async #createTableIfNotExists(
+    tableName: string,
+    keys: string[],
+  ): Promise<void> {
     try {
       // Check if table exists
       const describeCommand = new DescribeTableCommand({
-        TableName: this.#tableName,
+        TableName: tableName,
       });
 
       await this.#client.send(describeCommand);
@@ -117,26 +929,22 @@ export class DynamoDBDatabaseDriver implements DatabaseStorageProvider {
       // Table doesn't exist, create it
       if (error.name === "ResourceNotFoundException") {
         const createCommand = new CreateTableCommand({
-          TableName: this.#tableName,
-          KeySchema: [
-            {
-              AttributeName: this.#featureNameAttribute,
-              KeyType: "HASH", // Partition key
-            },
-          ],
-          AttributeDefinitions: [
-            {
-              AttributeName: this.#featureNameAttribute,
-              AttributeType: "S", // String
-            },
-          ],
+          TableName: tableName,
+          KeySchema: keys.map((key, index) => ({
+            AttributeName: key,
+            KeyType: index === 0 ? "HASH" : "RANGE", // Partition key, then sort key
+          })),
+          AttributeDefinitions: keys.map((key) => ({
+            AttributeName: key,
+            AttributeType: "S", // String
+          })),
           BillingMode: "PAY_PER_REQUEST", // On-demand billing
         });
 
         await this.#client.send(createCommand);
 
         // Wait for table to be active
-        await this.#waitForTableActive();
+        await this.#waitForTableActive(tableName);
       } else {
         throw error;
       }
@@ -146,14 +954,14 @@ export class DynamoDBDatabaseDriver implements DatabaseStorageProvider {
   /**
    * Wait for the table to become active after creation.
    */
-  async #waitForTableActive(): Promise<void> {
+  async #waitForTableActive(tableName: string): Promise<void> {
     const maxAttempts = 30;
     const delayMs = 1000;
 
     for (let attempt = 0; attempt < maxAttempts; attempt++) {
       try {
         const describeCommand = new DescribeTableCommand({
-          TableName: this.#tableName,
+          TableName: tableName,
         });
 
         const response = await this.#client.send(describeCommand);
@@ -169,7 +977,7 @@ export class DynamoDBDatabaseDriver implements DatabaseStorageProvider {
       }
     }
 
-    throw new Error(`Table ${this.#tableName} did not become active within expected time`);
+    throw new Error(`Table ${tableName} did not become active within expected time`);
   }
 
   /**
@@ -186,3 +994,10 @@ export class DynamoDBDatabaseDriver implements DatabaseStorageProvider {
     await this.createTableIfNotExists();
   }
 }
+
+/**
+ * Check if a request failed because the table does not exist
+ */
+function isMissingTable(error: unknown): boolean {
+  return (error as Error).name === "ResourceNotFoundException";
+}
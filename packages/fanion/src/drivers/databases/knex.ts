@@ -1,8 +1,23 @@
-import { Knex } from "knex";
-import {
+import type { Knex } from "knex";
+import type {
   DatabaseStorageProvider,
   KnexConfig,
 } from "../../types/database_drivers_options.js";
+import type { AuditEntry, AuditQuery } from "../../types/audit.js";
+import type {
+  ExperimentAssignment,
+  FeatureConfig,
+  FeatureMetadata,
+  FeatureOverride,
+  FeatureUsage,
+  StoredFeature,
+  VariantValue,
+} from "../../types/feature_config.js";
+
+/**
+ * Maximum number of flags read by a single whereIn query
+ */
+const WHERE_IN_SIZE = 500;
 
 export function createKnexDatabaseDriver(
   config: KnexConfig,
@@ -17,6 +32,16 @@ export class KnexDatabaseDriver implements DatabaseStorageProvider {
   #tableName: string;
   #featureNameColumn: string;
   #valueColumn: string;
+  #configColumn: string;
+  #variantColumn: string;
+  #metadataColumn: string;
+  #usageColumn: string;
+  #createdAtColumn: string;
+  #updatedAtColumn: string;
+  #overridesTableName: string;
+  #contextKeyColumn: string;
+  #auditTableName: string;
+  #assignmentsTableName: string;
 
   #knex: Knex;
 
@@ -24,6 +49,19 @@ export class KnexDatabaseDriver implements DatabaseStorageProvider {
     this.#tableName = config.tableName ?? "feature_flags";
     this.#featureNameColumn = config.featureNameColumn ?? "feature_name";
     this.#valueColumn = config.valueColumn ?? "value";
+    this.#configColumn = config.configColumn ?? "config";
+    this.#variantColumn = config.variantColumn ?? "variant";
+    this.#metadataColumn = config.metadataColumn ?? "metadata";
+    this.#usageColumn = config.usageColumn ?? "usage";
+    this.#createdAtColumn = config.createdAtColumn ?? "created_at";
+    this.#updatedAtColumn = config.updatedAtColumn ?? "updated_at";
+    this.#overridesTableName =
+      config.overridesTableName ?? `${this.#tableName}_overrides`;
+    this.#contextKeyColumn = config.contextKeyColumn ?? "context_key";
+    this.#auditTableName =
+      config.auditTableName ?? `${this.#tableName}_changes`;
+    this.#assignmentsTableName =
+      config.assignmentsTableName ?? `${this.#tableName}_assignments`;
     this.#knex = config.connection;
   }
 
@@ -35,64 +73,666 @@ export class KnexDatabaseDriver implements DatabaseStorageProvider {
    * @param value
    */
   async set(flag: string, value: boolean): Promise<void> {
+    await this.#upsert(flag, { [this.#valueColumn]: value });
+  }
+
+  /**
+   * Get the value of a feature flag from the database.
+   *
+   * @param flag
+   * @returns
+   */
+  async get(flag: string): Promise<boolean | undefined> {
+    const row = await this.#knex
+      .table(this.#tableName)
+      .where(this.#featureNameColumn, flag)
+      .select(this.#valueColumn)
+      .first();
+
+    if (!row) {
+      return undefined;
+    }
+
+    return this.#toBoolean(row[this.#valueColumn]);
+  }
+
+  /**
+   * Get the value and the configuration of a feature flag from the database.
+   *
+   * @param flag
+   */
+  async getFeature(flag: string): Promise<StoredFeature | undefined> {
+    const row = await this.#knex
+      .table(this.#tableName)
+      .where(this.#featureNameColumn, flag)
+      .select(...this.#featureColumns())
+      .first();
+
+    if (!row) {
+      return undefined;
+    }
+
+    return this.#toStoredFeature(row);
+  }
+
+  /**
+   * Get several feature flags with a single query.
+   *
+   * @param flags
+   */
+  async getMany(flags: string[]): Promise<Map<string, StoredFeature>> {
+    const features = new Map<string, StoredFeature>();
+    const names = [...new Set(flags)];
+
+    // Keep the bindings below the SQLite limit
+    for (let index = 0; index < names.length; index += WHERE_IN_SIZE) {
+      const rows = await this.#knex
+        .table(this.#tableName)
+        .whereIn(
+          this.#featureNameColumn,
+          names.slice(index, index + WHERE_IN_SIZE),
+        )
+        .select(this.#featureNameColumn, ...this.#featureColumns());
+
+      for (const row of rows) {
+        features.set(row[this.#featureNameColumn], this.#toStoredFeature(row));
+      }
+    }
+
+    return features;
+  }
+
+  /**
+   * List all the stored feature flags, ordered by name.
+   *
+   * @param prefix Only list the flags starting with the prefix
+   */
+  async list(prefix = ""): Promise<Map<string, StoredFeature>> {
+    const rows = await this.#wherePrefix(
+      this.#knex.table(this.#tableName),
+      prefix,
+    )
+      .select(this.#featureNameColumn, ...this.#featureColumns())
+      .orderBy(this.#featureNameColumn);
+
+    return new Map(
+      rows.map((row) => [
+        row[this.#featureNameColumn],
+        this.#toStoredFeature(row),
+      ]),
+    );
+  }
+
+  /**
+   * List the names of the stored feature flags, ordered by name.
+   *
+   * @param prefix Only list the flags starting with the prefix
+   */
+  async keys(prefix = ""): Promise<string[]> {
+    return this.#wherePrefix(this.#knex.table(this.#tableName), prefix)
+      .orderBy(this.#featureNameColumn)
+      .pluck(this.#featureNameColumn);
+  }
+
+  /**
+   * Save the configuration of a feature flag as JSON.
+   * Insert an enabled feature flag if it doesn't exist.
+   *
+   * @param flag
+   * @param config
+   */
+  async setConfig(flag: string, config: FeatureConfig): Promise<void> {
+    await this.#upsert(flag, { [this.#configColumn]: JSON.stringify(config) });
+  }
+
+  /**
+   * Save the variant of a multivariate feature flag as JSON.
+   * Insert an enabled feature flag if it doesn't exist.
+   *
+   * @param flag
+   * @param value
+   */
+  async setVariant(flag: string, value: VariantValue): Promise<void> {
+    await this.#upsert(flag, { [this.#variantColumn]: JSON.stringify(value) });
+  }
+
+  /**
+   * Unset the variant of a stored feature flag
+   *
+   * @param flag
+   */
+  async deleteVariant(flag: string): Promise<void> {
+    await this.#knex
+      .table(this.#tableName)
+      .where(this.#featureNameColumn, flag)
+      .update({
+        [this.#variantColumn]: null,
+        [this.#updatedAtColumn]: new Date(),
+      });
+  }
+
+  /**
+   * Save the metadata of a feature flag as JSON.
+   * Insert an enabled feature flag if it doesn't exist.
+   *
+   * @param flag
+   * @param metadata
+   */
+  async setMetadata(flag: string, metadata: FeatureMetadata): Promise<void> {
+    await this.#upsert(flag, {
+      [this.#metadataColumn]: JSON.stringify(metadata),
+    });
+  }
+
+  /**
+   * Save the evaluations of a stored feature flag as JSON,
+   * the update date is not changed.
+   *
+   * @param flag
+   * @param usage
+   */
+  async recordUsage(flag: string, usage: FeatureUsage): Promise<void> {
     await this.#knex
       .table(this.#tableName)
+      .where(this.#featureNameColumn, flag)
+      .update({ [this.#usageColumn]: JSON.stringify(usage) });
+  }
+
+  /**
+   * Set the value of a feature flag for a single context key.
+   * Upsert on the (feature name, context key) composite key.
+   *
+   * @param flag
+   * @param contextKey
+   * @param value
+   */
+  async setOverride(
+    flag: string,
+    contextKey: string,
+    value: boolean,
+  ): Promise<void> {
+    await this.#knex
+      .table(this.#overridesTableName)
       .insert({
         [this.#featureNameColumn]: flag,
+        [this.#contextKeyColumn]: contextKey,
         [this.#valueColumn]: value,
       })
-      .onConflict(this.#featureNameColumn)
+      .onConflict([this.#featureNameColumn, this.#contextKeyColumn])
       .merge({
         [this.#valueColumn]: value,
       });
   }
 
   /**
-   * Get the value of a feature flag from the database.
+   * Get the value of a feature flag for a single context key.
    *
    * @param flag
-   * @returns
+   * @param contextKey
    */
-  async get(flag: string): Promise<boolean | undefined> {
+  async getOverride(
+    flag: string,
+    contextKey: string,
+  ): Promise<boolean | undefined> {
     const row = await this.#knex
-      .table(this.#tableName)
+      .table(this.#overridesTableName)
       .where(this.#featureNameColumn, flag)
+      .where(this.#contextKeyColumn, contextKey)
       .select(this.#valueColumn)
       .first();
 
-    const featureValue = row[this.#valueColumn];
+    if (!row) {
+      return undefined;
+    }
+
+    return this.#toBoolean(row[this.#valueColumn]);
+  }
+
+  async deleteOverride(flag: string, contextKey: string): Promise<void> {
+    await this.#knex
+      .table(this.#overridesTableName)
+      .where(this.#featureNameColumn, flag)
+      .where(this.#contextKeyColumn, contextKey)
+      .del();
+  }
+
+  /**
+   * List the overrides of a feature flag, ordered by context key.
+   *
+   * @param flag
+   */
+  async listOverrides(flag: string): Promise<FeatureOverride[]> {
+    const rows = await this.#knex
+      .table(this.#overridesTableName)
+      .where(this.#featureNameColumn, flag)
+      .select(this.#contextKeyColumn, this.#valueColumn)
+      .orderBy(this.#contextKeyColumn);
+
+    return rows.map((row) => ({
+      contextKey: row[this.#contextKeyColumn],
+      value: this.#toBoolean(row[this.#valueColumn]),
+    }));
+  }
+
+  async clearOverrides(flag: string): Promise<void> {
+    await this.#knex
+      .table(this.#overridesTableName)
+      .where(this.#featureNameColumn, flag)
+      .del();
+  }
 
-    if (Number.isInteger(featureValue)) {
-      return featureValue === 1;
+  /**
+   * Insert an experiment assignment, the (feature name, subject key)
+   * primary key keeps the first assignment of a subject.
+   *
+   * @param flag
+   * @param assignment
+   */
+  async addAssignment(
+    flag: string,
+    assignment: ExperimentAssignment,
+  ): Promise<boolean> {
+    try {
+      await this.#knex.table(this.#assignmentsTableName).insert({
+        [this.#featureNameColumn]: flag,
+        subject_key: assignment.subjectKey,
+        [this.#variantColumn]: JSON.stringify(assignment.value),
+        assigned_at: assignment.assignedAt,
+      });
+
+      return true;
+    } catch (error) {
+      // Unique constraint errors differ between databases
+      if (await this.getAssignment(flag, assignment.subjectKey)) {
+        return false;
+      }
+
+      throw error;
     }
+  }
+
+  async getAssignment(
+    flag: string,
+    subjectKey: string,
+  ): Promise<ExperimentAssignment | undefined> {
+    const row = await this.#knex
+      .table(this.#assignmentsTableName)
+      .where(this.#featureNameColumn, flag)
+      .where("subject_key", subjectKey)
+      .first();
 
-    return featureValue;
+    return row ? this.#toAssignment(row) : undefined;
   }
 
-  async delete(featureName: string): Promise<void> {
-    return this.#knex
-      .table(this.#tableName)
-      .where(this.#featureNameColumn, featureName)
+  /**
+   * List the experiment assignments of a feature flag, ordered by subject key.
+   *
+   * @param flag
+   */
+  async listAssignments(flag: string): Promise<ExperimentAssignment[]> {
+    const rows = await this.#knex
+      .table(this.#assignmentsTableName)
+      .where(this.#featureNameColumn, flag)
+      .orderBy("subject_key");
+
+    return rows.map((row) => this.#toAssignment(row));
+  }
+
+  async clearAssignments(flag: string): Promise<void> {
+    await this.#knex
+      .table(this.#assignmentsTableName)
+      .where(this.#featureNameColumn, flag)
       .del();
   }
 
   /**
-   * Create the table if it doesn't exist.
+   * Insert a row in the audit log table, states are saved as JSON.
+   *
+   * @param entry
+   */
+  async appendAudit(entry: AuditEntry): Promise<void> {
+    await this.#knex.table(this.#auditTableName).insert({
+      id: entry.id,
+      [this.#featureNameColumn]: entry.flag,
+      action: entry.action,
+      actor: entry.actor ?? null,
+      reason: entry.reason ?? null,
+      previous: entry.previous ? JSON.stringify(entry.previous) : null,
+      next: entry.next ? JSON.stringify(entry.next) : null,
+      overrides: entry.overrides ? JSON.stringify(entry.overrides) : null,
+      changed_at: entry.changedAt,
+    });
+  }
+
+  /**
+   * List the audit log of a feature flag, most recent first.
+   *
+   * @param flag
+   * @param query
+   */
+  async listAudit(flag: string, query: AuditQuery = {}): Promise<AuditEntry[]> {
+    const builder = this.#knex
+      .table(this.#auditTableName)
+      .where(this.#featureNameColumn, flag)
+      .orderBy([
+        { column: "changed_at", order: "desc" },
+        { column: "id", order: "desc" },
+      ]);
+
+    if (query.limit !== undefined) {
+      builder.limit(query.limit);
+    }
+
+    const rows = await builder.select("*");
+
+    return rows.map((row) => ({
+      id: row.id,
+      flag: row[this.#featureNameColumn],
+      action: row.action,
+      actor: row.actor ?? undefined,
+      reason: row.reason ?? undefined,
+      previous: row.previous ? JSON.parse(row.previous) : undefined,
+      next: row.next ? JSON.parse(row.next) : undefined,
+      overrides: row.overrides ? JSON.parse(row.overrides) : undefined,
+      changedAt: this.#toDate(row.changed_at) as Date,
+    }));
+  }
+
+  /**
+   * Delete a flag with its overrides and experiment assignments
+   *
+   * @param featureName
+   */
+  async delete(featureName: string): Promise<void> {
+    await this.#knex.transaction(async (trx) => {
+      for (const table of this.#flagTables()) {
+        await trx
+          .table(table)
+          .where(this.#featureNameColumn, featureName)
+          .del();
+      }
+    });
+  }
+
+  /**
+   * Delete the flags starting with a prefix in a transaction,
+   * with their overrides and experiment assignments
+   *
+   * @param prefix
+   */
+  async deletePrefix(prefix: string): Promise<string[]> {
+    return this.#knex.transaction(async (trx) => {
+      const names: string[] = await this.#wherePrefix(
+        trx.table(this.#tableName),
+        prefix,
+      )
+        .orderBy(this.#featureNameColumn)
+        .pluck(this.#featureNameColumn);
+
+      if (names.length > 0) {
+        for (const table of this.#flagTables()) {
+          await trx.table(table).whereIn(this.#featureNameColumn, names).del();
+        }
+      }
+
+      return names;
+    });
+  }
+
+  /**
+   * Create the tables if they don't exist.
    */
   async createTableIfNotExists(): Promise<void> {
+    await this.#createOverridesTableIfNotExists();
+    await this.#createAuditTableIfNotExists();
+    await this.#createAssignmentsTableIfNotExists();
+
     const hasTable = await this.#knex.schema.hasTable(this.#tableName);
 
     if (hasTable) {
+      await this.#addMissingColumns();
       return;
     }
 
     await this.#knex.schema.createTable(this.#tableName, (table) => {
       table.string(this.#featureNameColumn).notNullable();
       table.boolean(this.#valueColumn).notNullable();
+      table.text(this.#configColumn).nullable();
+      table.text(this.#variantColumn).nullable();
+      table.text(this.#metadataColumn).nullable();
+      table.text(this.#usageColumn).nullable();
+      table.timestamp(this.#createdAtColumn).nullable();
+      table.timestamp(this.#updatedAtColumn).nullable();
       table.primary([this.#featureNameColumn]);
     });
   }
 
+  /**
+   * Create the per-context overrides table, keyed by feature name and context key
+   */
+  async #createOverridesTableIfNotExists(): Promise<void> {
+    const hasTable = await this.#knex.schema.hasTable(this.#overridesTableName);
+
+    if (hasTable) {
+      return;
+    }
+
+    await this.#knex.schema.createTable(this.#overridesTableName, (table) => {
+      table.string(this.#featureNameColumn).notNullable();
+      table.string(this.#contextKeyColumn).notNullable();
+      table.boolean(this.#valueColumn).notNullable();
+      table.primary([this.#featureNameColumn, this.#contextKeyColumn]);
+    });
+  }
+
+  /**
+   * Create the append-only audit log table, or add the overrides column
+   * to a table created before it
+   */
+  async #createAuditTableIfNotExists(): Promise<void> {
+    const hasTable = await this.#knex.schema.hasTable(this.#auditTableName);
+
+    if (hasTable) {
+      const hasColumn = await this.#knex.schema.hasColumn(
+        this.#auditTableName,
+        "overrides",
+      );
+
+      if (!hasColumn) {
+        await this.#knex.schema.alterTable(this.#auditTableName, (table) => {
+          table.text("overrides").nullable();
+        });
+      }
+      return;
+    }
+
+    await this.#knex.schema.createTable(this.#auditTableName, (table) => {
+      table.string("id").notNullable().primary();
+      table.string(this.#featureNameColumn).notNullable().index();
+      table.string("action").notNullable();
+      table.string("actor").nullable();
+      table.text("reason").nullable();
+      table.text("previous").nullable();
+      table.text("next").nullable();
+      table.text("overrides").nullable();
+      table.timestamp("changed_at").notNullable();
+    });
+  }
+
+  /**
+   * Create the experiment assignments table, keyed by feature name and subject key
+   */
+  async #createAssignmentsTableIfNotExists(): Promise<void> {
+    const hasTable = await this.#knex.schema.hasTable(
+      this.#assignmentsTableName,
+    );
+
+    if (hasTable) {
+      return;
+    }
+
+    await this.#knex.schema.createTable(this.#assignmentsTableName, (table) => {
+      table.string(this.#featureNameColumn).notNullable();
+      table.string("subject_key").notNullable();
+      table.text(this.#variantColumn).notNullable();
+      table.timestamp("assigned_at").notNullable();
+      table.primary([this.#featureNameColumn, "subject_key"]);
+    });
+  }
+
+  /**
+   * Add the columns introduced after the table was created
+   */
+  async #addMissingColumns(): Promise<void> {
+    const columns = [
+      this.#configColumn,
+      this.#variantColumn,
+      this.#metadataColumn,
+      this.#usageColumn,
+      this.#createdAtColumn,
+      this.#updatedAtColumn,
+    ];
+
+    for (const column of columns) {
+      const hasColumn = await this.#knex.schema.hasColumn(
+        this.#tableName,
+        column,
+      );
+
+      if (hasColumn) {
+        continue;
+      }
+
+      await this.#knex.schema.alterTable(this.#tableName, (table) => {
+        if (
+          column === this.#createdAtColumn ||
+          column === this.#updatedAtColumn
+        ) {
+          table.timestamp(column).nullable();
+        } else {
+          table.text(column).nullable();
+        }
+      });
+    }
+  }
+
+  /**
+   * Insert an enabled feature flag with the given columns, or update them.
+   * The creation and update dates are kept up to date.
+   */
+  async #upsert(flag: string, values: Record<string, unknown>): Promise<void> {
+    const now = new Date();
+
+    await this.#knex
+      .table(this.#tableName)
+      .insert({
+        [this.#featureNameColumn]: flag,
+        [this.#valueColumn]: true,
+        [this.#createdAtColumn]: now,
+        ...values,
+        [this.#updatedAtColumn]: now,
+      })
+      .onConflict(this.#featureNameColumn)
+      .merge({
+        ...values,
+        [this.#updatedAtColumn]: now,
+      });
+  }
+
+  /**
+   * Tables holding rows of a flag, the audit log is kept
+   */
+  #flagTables(): string[] {
+    return [
+      this.#tableName,
+      this.#overridesTableName,
+      this.#assignmentsTableName,
+    ];
+  }
+
+  /**
+   * Keep the flags starting with a prefix. The escape character is set
+   * explicitly, databases don't share a default one.
+   */
+  #wherePrefix<Q extends Knex.QueryBuilder>(query: Q, prefix: string): Q {
+    if (prefix === "") {
+      return query;
+    }
+
+    return query.whereRaw("?? like ? escape '!'", [
+      this.#featureNameColumn,
+      `${prefix.replace(/[!%_]/g, "!$&")}%`,
+    ]) as Q;
+  }
+
+  /**
+   * Columns read to build a stored feature
+   */
+  #featureColumns(): string[] {
+    return [
+      this.#valueColumn,
+      this.#configColumn,
+      this.#variantColumn,
+      this.#metadataColumn,
+      this.#usageColumn,
+      this.#createdAtColumn,
+      this.#updatedAtColumn,
+    ];
+  }
+
+  /**
+   * Parse the JSON columns of a feature flag row
+   */
+  #toStoredFeature(row: Record<string, unknown>): StoredFeature {
+    const config = row[this.#configColumn];
+    const variant = row[this.#variantColumn];
+    const metadata = row[this.#metadataColumn];
+    const usage = row[this.#usageColumn];
+
+    return {
+      value: this.#toBoolean(row[this.#valueColumn]),
+      config: config ? JSON.parse(config as string) : {},
+      variant: variant ? JSON.parse(variant as string) : undefined,
+      metadata: metadata ? JSON.parse(metadata as string) : undefined,
+      usage: usage ? JSON.parse(usage as string) : undefined,
+      createdAt: this.#toDate(row[this.#createdAtColumn]),
+      updatedAt: this.#toDate(row[this.#updatedAtColumn]),
+    };
+  }
+
+  /**
+   * Parse an experiment assignment row
+   */
+  #toAssignment(row: Record<string, unknown>): ExperimentAssignment {
+    return {
+      subjectKey: row.subject_key as string,
+      value: JSON.parse(row[this.#variantColumn] as string),
+      assignedAt: this.#toDate(row.assigned_at) as Date,
+    };
+  }
+
+  /**
+   * Dates are returned as Date, strings or numbers depending on the database
+   */
+  #toDate(value: unknown): Date | undefined {
+    if (value === null || value === undefined) {
+      return undefined;
+    }
+
+    return new Date(value as string | number | Date);
+  }
+
+  /**
+   * Some databases (SQLite, MySQL) return booleans as integers
+   */
+  #toBoolean(value: unknown): boolean {
+    if (Number.isInteger(value)) {
+      return value === 1;
+    }
+
+    return value as boolean;
+  }
+
   isDatabaseDriver(): boolean {
     return true;
   }
@@ -0,0 +1,184 @@
+import {
+  InvalidEnvironmentVariableError,
+  ReadOnlyProviderError,
+} from "../errors.js";
+import type { StoredFeature } from "../types/feature_config.js";
+import type { FeatureStorageProvider } from "../types/feature_storage_provider.js";
+import { generateFeatureName } from "../utils.js";
+
+/**
+ * The configuration for the environment variable driver
+ */
+export interface EnvDriverConfig {
+  /**
+   * Variables read by the driver (defaults to process.env)
+   */
+  env?: Record<string, string | undefined>;
+
+  /**
+   * Prefix of the flag variables (defaults to 'FANION_')
+   */
+  prefix?: string;
+
+  /**
+   * Separator of the context, flag and sub flag parts of a variable name (defaults to '__')
+   */
+  separator?: string;
+
+  /**
+   * Replacement of the single underscores left in each part (defaults to '_'),
+   * use '-' to map FANION_BILLING__NEW_UI to 'billing:new-ui'
+   */
+  wordSeparator?: string;
+}
+
+const BOOLEANS = new Map([
+  ["true", true],
+  ["false", false],
+  ["1", true],
+  ["0", false],
+]);
+
+export function createEnvDriver(config?: EnvDriverConfig): EnvDriver {
+  return new EnvDriver(config);
+}
+
+/**
+ * A read-only driver reading the feature flags from environment variables,
+ * FANION_CHECKOUT__V2=false disables the 'checkout:v2' feature flag.
+ * The variables are read once, by initStore() or by the first read.
+ */
+export class EnvDriver implements FeatureStorageProvider {
+  #env: Record<string, string | undefined>;
+  #prefix: string;
+  #separator: string;
+  #wordSeparator: string;
+
+  #flags?: Map<string, boolean>;
+
+  constructor(config: EnvDriverConfig = {}) {
+    this.#env = config.env ?? process.env;
+    this.#prefix = config.prefix ?? "FANION_";
+    this.#separator = config.separator ?? "__";
+    this.#wordSeparator = config.wordSeparator ?? "_";
+  }
+
+  /**
+   * @throws {ReadOnlyProviderError}
+   */
+  async set(): Promise<void> {
+    throw new ReadOnlyProviderError("env");
+  }
+
+  async get(flag: string): Promise<boolean | undefined> {
+    return this.#load().get(flag);
+  }
+
+  async getFeature(flag: string): Promise<StoredFeature | undefined> {
+    const value = this.#load().get(flag);
+    return value === undefined ? undefined : { value, config: {} };
+  }
+
+  async getMany(flags: string[]): Promise<Map<string, StoredFeature>> {
+    const features = new Map<string, StoredFeature>();
+
+    for (const flag of flags) {
+      const feature = await this.getFeature(flag);
+      if (feature !== undefined) {
+        features.set(flag, feature);
+      }
+    }
+
+    return features;
+  }
+
+  async list(prefix = ""): Promise<Map<string, StoredFeature>> {
+    return this.getMany(await this.keys(prefix));
+  }
+
+  async keys(prefix = ""): Promise<string[]> {
+    return [...this.#load().keys()]
+      .filter((name) => name.startsWith(prefix))
+      .sort();
+  }
+
+  /**
+   * @throws {ReadOnlyProviderError}
+   */
+  async delete(): Promise<void> {
+    throw new ReadOnlyProviderError("env");
+  }
+
+  /**
+   * @throws {ReadOnlyProviderError}
+   */
+  async deletePrefix(): Promise<string[]> {
+    throw new ReadOnlyProviderError("env");
+  }
+
+  isDatabaseDriver(): boolean {
+    return false;
+  }
+
+  /**
+   * Read the flag variables
+   *
+   * @throws {InvalidEnvironmentVariableError} If a value is not a strict boolean
+   * or a variable name is not a flag name
+   */
+  async initStore(): Promise<void> {
+    this.#load();
+  }
+
+  #load(): Map<string, boolean> {
+    if (this.#flags) {
+      return this.#flags;
+    }
+
+    const flags = new Map<string, boolean>();
+
+    for (const [variable, raw] of Object.entries(this.#env)) {
+      if (!variable.startsWith(this.#prefix) || raw === undefined) {
+        continue;
+      }
+
+      const value = BOOLEANS.get(raw.trim().toLowerCase());
+
+      if (value === undefined) {
+        throw new InvalidEnvironmentVariableError(
+          variable,
+          `Invalid value '${raw}' for ${variable}: expected true, false, 1 or 0`,
+        );
+      }
+
+      flags.set(this.#toFlagName(variable), value);
+    }
+
+    this.#flags = flags;
+    return flags;
+  }
+
+  /**
+   * FANION_CHECKOUT__V2 is 'checkout:v2', FANION_CHECKOUT__V2__FAST is 'checkout:v2.fast'
+   * and FANION_SEARCH is 'search'
+   */
+  #toFlagName(variable: string): string {
+    const parts = variable
+      .slice(this.#prefix.length)
+      .split(this.#separator)
+      .map((part) => part.toLowerCase().replaceAll("_", this.#wordSeparator));
+
+    if (parts.length > 3 || parts.includes("")) {
+      throw new InvalidEnvironmentVariableError(
+        variable,
+        `Invalid flag variable ${variable}: expected a flag name, or a context, a flag and an optional sub flag`,
+      );
+    }
+
+    if (parts.length === 1) {
+      return parts[0];
+    }
+
+    return generateFeatureName(parts[0], parts[1], parts[2]);
+  }
+}
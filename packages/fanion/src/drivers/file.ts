@@ -0,0 +1,524 @@
+import { randomBytes } from "node:crypto";
+import { type FSWatcher, watch } from "node:fs";
+import { readFile, rename, unlink, writeFile } from "node:fs/promises";
+import { basename, dirname, extname } from "node:path";
+import { InvalidFlagFileError } from "../errors.js";
+import { assertValidPrerequisites } from "../prerequisites.js";
+import { assertValidRamp, assertValidRollout } from "../rollout.js";
+import { assertValidRule } from "../rules.js";
+import { assertValidSchedule } from "../schedule.js";
+import type {
+  FeatureConfig,
+  FeatureMetadata,
+  FeatureOverride,
+  StoredFeature,
+  VariantValue,
+} from "../types/feature_config.js";
+import type { FeatureStorageProvider } from "../types/feature_storage_provider.js";
+import { assertValidAllocation } from "../variants.js";
+
+/**
+ * A feature flag in a flag file
+ */
+export interface FileFlag {
+  value: boolean;
+  config?: FeatureConfig;
+  variant?: VariantValue;
+  metadata?: FeatureMetadata;
+
+  /**
+   * Values of the feature flag by context key
+   */
+  overrides?: Record<string, boolean>;
+}
+
+/**
+ * Content of a flag file, a boolean is a shorthand for `{ value }`
+ *
+ * @example
+ * ```json
+ * { "flags": { "search": true, "checkout:v2": { "value": false } } }
+ * ```
+ */
+export interface FlagFile {
+  flags: Record<string, boolean | FileFlag>;
+}
+
+export type FlagFileFormat = "json" | "yaml";
+
+/**
+ * The configuration for the file driver
+ */
+export interface FileDriverConfig {
+  /**
+   * Path of the JSON or YAML flag file
+   */
+  path: string;
+
+  /**
+   * Format of the file (defaults to 'yaml' for .yaml and .yml files, 'json' otherwise)
+   */
+  format?: FlagFileFormat;
+
+  /**
+   * Reload the file when it changes (defaults to true)
+   */
+  watch?: boolean;
+
+  /**
+   * Delay in milliseconds grouping the change notifications of a single save (defaults to 50)
+   */
+  debounce?: number;
+
+  /**
+   * Write the changes back to the file (defaults to false, changes are only kept in memory)
+   */
+  writable?: boolean;
+
+  /**
+   * Called with the flag names after the file has been reloaded
+   */
+  onReload?: (flags: string[]) => void;
+
+  /**
+   * Called when a reload or the file watcher fails, the last valid flags are kept
+   */
+  onError?: (error: Error) => void;
+}
+
+const FLAG_KEYS = ["value", "config", "variant", "metadata", "overrides"];
+
+export function createFileDriver(config: FileDriverConfig): FileDriver {
+  return new FileDriver(config);
+}
+
+/**
+ * A driver reading the feature flags from a JSON or YAML file.
+ * The file is loaded by initStore() then reloaded when it changes.
+ */
+export class FileDriver implements FeatureStorageProvider {
+  #path: string;
+  #format: FlagFileFormat;
+  #watch: boolean;
+  #debounce: number;
+  #writable: boolean;
+  #onReload?: (flags: string[]) => void;
+  #onError?: (error: Error) => void;
+
+  #flags = new Map<string, FileFlag>();
+  #watcher?: FSWatcher;
+  #reloadTimer?: NodeJS.Timeout;
+
+  /**
+   * Last content read or written, reloads of an unchanged file are skipped
+   */
+  #content?: string;
+
+  /**
+   * Pending write, writes are saved one after the other
+   */
+  #writing: Promise<void> = Promise.resolve();
+
+  constructor(config: FileDriverConfig) {
+    const extension = extname(config.path).toLowerCase();
+
+    this.#path = config.path;
+    this.#format =
+      config.format ??
+      (extension === ".yaml" || extension === ".yml" ? "yaml" : "json");
+    this.#watch = config.watch ?? true;
+    this.#debounce = config.debounce ?? 50;
+    this.#writable = config.writable ?? false;
+    this.#onReload = config.onReload;
+    this.#onError = config.onError;
+  }
+
+  async set(flag: string, value: boolean): Promise<void> {
+    await this.#update(flag, { value });
+  }
+
+  async get(flag: string): Promise<boolean | undefined> {
+    return this.#flags.get(flag)?.value;
+  }
+
+  async getFeature(flag: string): Promise<StoredFeature | undefined> {
+    const fileFlag = this.#flags.get(flag);
+
+    if (!fileFlag) {
+      return undefined;
+    }
+
+    return {
+      value: fileFlag.value,
+      config: fileFlag.config ?? {},
+      variant: fileFlag.variant,
+      metadata: fileFlag.metadata,
+    };
+  }
+
+  async getMany(flags: string[]): Promise<Map<string, StoredFeature>> {
+    const features = new Map<string, StoredFeature>();
+
+    for (const flag of flags) {
+      const feature = await this.getFeature(flag);
+      if (feature !== undefined) {
+        features.set(flag, feature);
+      }
+    }
+
+    return features;
+  }
+
+  async list(prefix = ""): Promise<Map<string, StoredFeature>> {
+    return this.getMany(await this.keys(prefix));
+  }
+
+  async keys(prefix = ""): Promise<string[]> {
+    return [...this.#flags.keys()]
+      .filter((name) => name.startsWith(prefix))
+      .sort();
+  }
+
+  async setConfig(flag: string, config: FeatureConfig): Promise<void> {
+    await this.#update(flag, { config });
+  }
+
+  async setVariant(flag: string, value: VariantValue): Promise<void> {
+    await this.#update(flag, { variant: value });
+  }
+
+  async deleteVariant(flag: string): Promise<void> {
+    if (this.#flags.has(flag)) {
+      await this.#update(flag, { variant: undefined });
+    }
+  }
+
+  async setMetadata(flag: string, metadata: FeatureMetadata): Promise<void> {
+    await this.#update(flag, { metadata });
+  }
+
+  async setOverride(
+    flag: string,
+    contextKey: string,
+    value: boolean,
+  ): Promise<void> {
+    const overrides = this.#flags.get(flag)?.overrides;
+    await this.#update(flag, {
+      overrides: { ...overrides, [contextKey]: value },
+    });
+  }
+
+  async getOverride(
+    flag: string,
+    contextKey: string,
+  ): Promise<boolean | undefined> {
+    return this.#flags.get(flag)?.overrides?.[contextKey];
+  }
+
+  async deleteOverride(flag: string, contextKey: string): Promise<void> {
+    const fileFlag = this.#flags.get(flag);
+
+    if (!fileFlag?.overrides || !(contextKey in fileFlag.overrides)) {
+      return;
+    }
+
+    const { [contextKey]: _, ...overrides } = fileFlag.overrides;
+    await this.#update(flag, { overrides });
+  }
+
+  async listOverrides(flag: string): Promise<FeatureOverride[]> {
+    return Object.entries(this.#flags.get(flag)?.overrides ?? {})
+      .sort(([a], [b]) => (a < b ? -1 : 1))
+      .map(([contextKey, value]) => ({ contextKey, value }));
+  }
+
+  async clearOverrides(flag: string): Promise<void> {
+    if (this.#flags.get(flag)?.overrides) {
+      await this.#update(flag, { overrides: undefined });
+    }
+  }
+
+  async delete(featureName: string): Promise<void> {
+    if (this.#flags.delete(featureName)) {
+      await this.#save();
+    }
+  }
+
+  /**
+   * Delete the flags starting with a prefix, the file is written once
+   */
+  async deletePrefix(prefix: string): Promise<string[]> {
+    const names = await this.keys(prefix);
+
+    for (const name of names) {
+      this.#flags.delete(name);
+    }
+
+    if (names.length > 0) {
+      await this.#save();
+    }
+
+    return names;
+  }
+
+  /**
+   * Stop watching the file
+   */
+  close(): void {
+    clearTimeout(this.#reloadTimer);
+    this.#watcher?.close();
+    this.#watcher = undefined;
+  }
+
+  isDatabaseDriver(): boolean {
+    return false;
+  }
+
+  /**
+   * Load the file and start watching it.
+   * A missing file is only allowed when the driver is writable,
+   * it is created on the first change.
+   *
+   * @throws {InvalidFlagFileError} If the file cannot be parsed
+   */
+  async initStore(): Promise<void> {
+    try {
+      this.#flags = await this.#read();
+    } catch (error) {
+      if (
+        !this.#writable ||
+        (error as NodeJS.ErrnoException).code !== "ENOENT"
+      ) {
+        throw error;
+      }
+    }
+
+    if (this.#watch && !this.#watcher) {
+      // The directory is watched, editors replace the file when saving it
+      this.#watcher = watch(dirname(this.#path), (_, filename) => {
+        if (filename === basename(this.#path)) {
+          this.#scheduleReload();
+        }
+      });
+      this.#watcher.on("error", (error) => this.#onError?.(error));
+      this.#watcher.unref();
+    }
+  }
+
+  #scheduleReload(): void {
+    clearTimeout(this.#reloadTimer);
+    this.#reloadTimer = setTimeout(() => this.#reload(), this.#debounce);
+  }
+
+  /**
+   * Replace the flags with the content of the file,
+   * the flags are kept when the file is missing or invalid
+   */
+  async #reload(): Promise<void> {
+    try {
+      const content = await readFile(this.#path, "utf8");
+
+      if (content === this.#content) {
+        return;
+      }
+
+      this.#flags = await this.#parse(content);
+      this.#content = content;
+      this.#onReload?.([...this.#flags.keys()].sort());
+    } catch (error) {
+      this.#onError?.(error as Error);
+    }
+  }
+
+  async #read(): Promise<Map<string, FileFlag>> {
+    const content = await readFile(this.#path, "utf8");
+    const flags = await this.#parse(content);
+    this.#content = content;
+    return flags;
+  }
+
+  async #parse(content: string): Promise<Map<string, FileFlag>> {
+    let data: unknown;
+
+    try {
+      data =
+        this.#format === "yaml"
+          ? (await this.#yaml()).parse(content)
+          : JSON.parse(content);
+    } catch (error) {
+      throw new InvalidFlagFileError(this.#path, (error as Error).message);
+    }
+
+    return parseFlagFile(this.#path, data);
+  }
+
+  /**
+   * Change a feature flag, it is created enabled if it doesn't exist
+   */
+  async #update(flag: string, changes: Partial<FileFlag>): Promise<void> {
+    const fileFlag = { value: true, ...this.#flags.get(flag), ...changes };
+
+    for (const key of FLAG_KEYS) {
+      if (fileFlag[key as keyof FileFlag] === undefined) {
+        delete fileFlag[key as keyof FileFlag];
+      }
+    }
+
+    this.#flags.set(flag, fileFlag);
+    await this.#save();
+  }
+
+  /**
+   * Write the flags to the file when the driver is writable.
+   * The content is written to a temporary file renamed over the flag file,
+   * so readers never see a partial file.
+   */
+  async #save(): Promise<void> {
+    if (!this.#writable) {
+      return;
+    }
+
+    const write = this.#writing.then(async () => {
+      const content = await this.#serialize();
+      const temporaryPath = `${this.#path}.${randomBytes(4).toString("hex")}.tmp`;
+
+      try {
+        await writeFile(temporaryPath, content);
+        await rename(temporaryPath, this.#path);
+        this.#content = content;
+      } catch (error) {
+        await unlink(temporaryPath).catch(() => {});
+        throw error;
+      }
+    });
+
+    this.#writing = write.catch(() => {});
+    await write;
+  }
+
+  async #serialize(): Promise<string> {
+    const flags: FlagFile["flags"] = {};
+
+    for (const name of [...this.#flags.keys()].sort()) {
+      const fileFlag = this.#flags.get(name) as FileFlag;
+      const isShorthand = Object.keys(fileFlag).length === 1;
+      flags[name] = isShorthand ? fileFlag.value : fileFlag;
+    }
+
+    if (this.#format === "yaml") {
+      return (await this.#yaml()).stringify({ flags });
+    }
+
+    return `${JSON.stringify({ flags }, null, 2)}\n`;
+  }
+
+  /**
+   * The yaml package is an optional peer dependency
+   */
+  async #yaml(): Promise<typeof import("yaml")> {
+    try {
+      return await import("yaml");
+    } catch {
+      throw new Error("The yaml package is required to read YAML flag files");
+    }
+  }
+}
+
+/**
+ * Validate the content of a flag file
+ *
+ * @param path The file path, used in error messages
+ * @param data The parsed content
+ * @throws {InvalidFlagFileError}
+ */
+function parseFlagFile(path: string, data: unknown): Map<string, FileFlag> {
+  const fail = (message: string): never => {
+    throw new InvalidFlagFileError(path, message);
+  };
+
+  if (!isObject(data) || !isObject(data.flags)) {
+    return fail("'flags' must be an object");
+  }
+
+  const flags = new Map<string, FileFlag>();
+
+  for (const [name, entry] of Object.entries(data.flags)) {
+    if (typeof entry === "boolean") {
+      flags.set(name, { value: entry });
+      continue;
+    }
+
+    if (!isObject(entry)) {
+      return fail(`'flags.${name}' must be a boolean or an object`);
+    }
+
+    const unknown = Object.keys(entry).find((key) => !FLAG_KEYS.includes(key));
+    if (unknown) {
+      return fail(`unknown property 'flags.${name}.${unknown}'`);
+    }
+
+    if (typeof entry.value !== "boolean") {
+      return fail(`'flags.${name}.value' must be a boolean`);
+    }
+
+    if (entry.config !== undefined) {
+      if (!isObject(entry.config)) {
+        return fail(`'flags.${name}.config' must be an object`);
+      }
+
+      const config = entry.config as FeatureConfig;
+
+      try {
+        if (config.rollout) {
+          assertValidRollout(config.rollout);
+        }
+
+        if (config.ramp) {
+          assertValidRamp(config.ramp);
+        }
+
+        if (config.rules) {
+          assertValidRule(config.rules);
+        }
+
+        if (config.variants) {
+          assertValidAllocation(config.variants);
+        }
+
+        if (config.prerequisites) {
+          assertValidPrerequisites(config.prerequisites);
+        }
+
+        if (config.schedule) {
+          assertValidSchedule(config.schedule);
+        }
+      } catch (error) {
+        return fail(`'flags.${name}.config': ${(error as Error).message}`);
+      }
+    }
+
+    if (entry.metadata !== undefined && !isObject(entry.metadata)) {
+      return fail(`'flags.${name}.metadata' must be an object`);
+    }
+
+    if (
+      entry.overrides !== undefined &&
+      (!isObject(entry.overrides) ||
+        Object.values(entry.overrides).some(
+          (value) => typeof value !== "boolean",
+        ))
+    ) {
+      return fail(
+        `'flags.${name}.overrides' must map context keys to booleans`,
+      );
+    }
+
+    flags.set(name, entry as unknown as FileFlag);
+  }
+
+  return flags;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
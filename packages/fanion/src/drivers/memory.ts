@@ -1,4 +1,14 @@
-import { FeatureStorageProvider } from "../types/feature_storage_provider.js";
+import type { AuditEntry, AuditQuery } from "../types/audit.js";
+import type {
+  ExperimentAssignment,
+  FeatureConfig,
+  FeatureMetadata,
+  FeatureOverride,
+  FeatureUsage,
+  StoredFeature,
+  VariantValue,
+} from "../types/feature_config.js";
+import type { FeatureStorageProvider } from "../types/feature_storage_provider.js";
 
 export function createInMemoryDriver(): FeatureStorageProvider {
   return new InMemoryDriver();
@@ -9,17 +19,202 @@ export function createInMemoryDriver(): FeatureStorageProvider {
  */
 export class InMemoryDriver implements FeatureStorageProvider {
   #storage = new Map<string, boolean>();
+  #configs = new Map<string, FeatureConfig>();
+  #variants = new Map<string, VariantValue>();
+  #metadata = new Map<string, FeatureMetadata>();
+  #usage = new Map<string, FeatureUsage>();
+  #dates = new Map<string, { createdAt: Date; updatedAt: Date }>();
+  #overrides = new Map<string, Map<string, boolean>>();
+  #audit = new Map<string, AuditEntry[]>();
+  #assignments = new Map<string, Map<string, ExperimentAssignment>>();
 
   async set(flag: string, value: boolean): Promise<void> {
     this.#storage.set(flag, value);
+    this.#touch(flag);
   }
 
   async get(flag: string): Promise<boolean | undefined> {
     return this.#storage.get(flag) ?? undefined;
   }
 
+  async getFeature(flag: string): Promise<StoredFeature | undefined> {
+    const value = this.#storage.get(flag);
+
+    if (value === undefined) {
+      return undefined;
+    }
+
+    return {
+      value,
+      config: this.#configs.get(flag) ?? {},
+      variant: this.#variants.get(flag),
+      metadata: this.#metadata.get(flag),
+      usage: this.#usage.get(flag),
+      ...this.#dates.get(flag),
+    };
+  }
+
+  async getMany(flags: string[]): Promise<Map<string, StoredFeature>> {
+    const features = new Map<string, StoredFeature>();
+
+    for (const flag of flags) {
+      const feature = await this.getFeature(flag);
+      if (feature !== undefined) {
+        features.set(flag, feature);
+      }
+    }
+
+    return features;
+  }
+
+  async list(prefix = ""): Promise<Map<string, StoredFeature>> {
+    return this.getMany(await this.keys(prefix));
+  }
+
+  async keys(prefix = ""): Promise<string[]> {
+    return [...this.#storage.keys()]
+      .filter((name) => name.startsWith(prefix))
+      .sort();
+  }
+
+  async setConfig(flag: string, config: FeatureConfig): Promise<void> {
+    if (!this.#storage.has(flag)) {
+      this.#storage.set(flag, true);
+    }
+
+    this.#configs.set(flag, config);
+    this.#touch(flag);
+  }
+
+  async setVariant(flag: string, value: VariantValue): Promise<void> {
+    if (!this.#storage.has(flag)) {
+      this.#storage.set(flag, true);
+    }
+
+    this.#variants.set(flag, value);
+    this.#touch(flag);
+  }
+
+  async deleteVariant(flag: string): Promise<void> {
+    if (this.#variants.delete(flag)) {
+      this.#touch(flag);
+    }
+  }
+
+  async setMetadata(flag: string, metadata: FeatureMetadata): Promise<void> {
+    if (!this.#storage.has(flag)) {
+      this.#storage.set(flag, true);
+    }
+
+    this.#metadata.set(flag, metadata);
+    this.#touch(flag);
+  }
+
+  async recordUsage(flag: string, usage: FeatureUsage): Promise<void> {
+    if (this.#storage.has(flag)) {
+      this.#usage.set(flag, usage);
+    }
+  }
+
+  async setOverride(
+    flag: string,
+    contextKey: string,
+    value: boolean,
+  ): Promise<void> {
+    const overrides = this.#overrides.get(flag) ?? new Map<string, boolean>();
+    overrides.set(contextKey, value);
+    this.#overrides.set(flag, overrides);
+  }
+
+  async getOverride(
+    flag: string,
+    contextKey: string,
+  ): Promise<boolean | undefined> {
+    return this.#overrides.get(flag)?.get(contextKey);
+  }
+
+  async deleteOverride(flag: string, contextKey: string): Promise<void> {
+    this.#overrides.get(flag)?.delete(contextKey);
+  }
+
+  async listOverrides(flag: string): Promise<FeatureOverride[]> {
+    return Array.from(
+      this.#overrides.get(flag) ?? [],
+      ([contextKey, value]) => ({ contextKey, value }),
+    );
+  }
+
+  async clearOverrides(flag: string): Promise<void> {
+    this.#overrides.delete(flag);
+  }
+
+  async addAssignment(
+    flag: string,
+    assignment: ExperimentAssignment,
+  ): Promise<boolean> {
+    const assignments =
+      this.#assignments.get(flag) ?? new Map<string, ExperimentAssignment>();
+
+    if (assignments.has(assignment.subjectKey)) {
+      return false;
+    }
+
+    assignments.set(assignment.subjectKey, assignment);
+    this.#assignments.set(flag, assignments);
+    return true;
+  }
+
+  async getAssignment(
+    flag: string,
+    subjectKey: string,
+  ): Promise<ExperimentAssignment | undefined> {
+    return this.#assignments.get(flag)?.get(subjectKey);
+  }
+
+  async listAssignments(flag: string): Promise<ExperimentAssignment[]> {
+    return [...(this.#assignments.get(flag)?.values() ?? [])];
+  }
+
+  async clearAssignments(flag: string): Promise<void> {
+    this.#assignments.delete(flag);
+  }
+
+  async appendAudit(entry: AuditEntry): Promise<void> {
+    const entries = this.#audit.get(entry.flag) ?? [];
+    entries.push(entry);
+    this.#audit.set(entry.flag, entries);
+  }
+
+  async listAudit(flag: string, query: AuditQuery = {}): Promise<AuditEntry[]> {
+    const entries = [...(this.#audit.get(flag) ?? [])].reverse();
+    return entries.slice(0, query.limit ?? entries.length);
+  }
+
   async delete(featureName: string): Promise<void> {
     this.#storage.delete(featureName);
+    this.#configs.delete(featureName);
+    this.#variants.delete(featureName);
+    this.#metadata.delete(featureName);
+    this.#usage.delete(featureName);
+    this.#dates.delete(featureName);
+    this.#overrides.delete(featureName);
+    this.#assignments.delete(featureName);
+  }
+
+  async deletePrefix(prefix: string): Promise<string[]> {
+    const names = await this.keys(prefix);
+
+    for (const name of names) {
+      await this.delete(name);
+    }
+
+    return names;
+  }
+
+  #touch(flag: string): void {
+    const now = new Date();
+    const createdAt = this.#dates.get(flag)?.createdAt ?? now;
+    this.#dates.set(flag, { createdAt, updatedAt: now });
   }
 
   isDatabaseDriver(): boolean {
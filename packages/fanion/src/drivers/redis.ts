@@ -0,0 +1,556 @@
+import { randomUUID } from "node:crypto";
+import type { ChainableCommander, Redis } from "ioredis";
+import type { AuditEntry, AuditQuery } from "../types/audit.js";
+import type {
+  FeatureConfig,
+  FeatureMetadata,
+  FeatureOverride,
+  FeatureUsage,
+  StoredFeature,
+  VariantValue,
+} from "../types/feature_config.js";
+import type { FeatureStorageProvider } from "../types/feature_storage_provider.js";
+
+/**
+ * The configuration for the Redis driver
+ */
+export interface RedisConfig {
+  /**
+   * ioredis client instance
+   */
+  client: Redis;
+
+  /**
+   * Prefix of every key written by the driver (defaults to 'fanion:')
+   */
+  keyPrefix?: string;
+
+  /**
+   * The pub/sub channel announcing changes (defaults to '<keyPrefix>events')
+   */
+  channel?: string;
+
+  /**
+   * Called when a change listener throws, the other listeners are still called
+   */
+  onError?: (error: Error) => void;
+}
+
+/**
+ * The kind of change announced on the pub/sub channel
+ */
+export type RedisChangeAction =
+  | "set"
+  | "delete"
+  | "configure"
+  | "variant"
+  | "metadata"
+  | "override";
+
+/**
+ * A change announced on the pub/sub channel by another instance
+ */
+export interface RedisChange {
+  flag: string;
+  action: RedisChangeAction;
+
+  /**
+   * Identifier of the driver instance that made the change
+   */
+  origin: string;
+}
+
+export type RedisChangeListener = (change: RedisChange) => void;
+
+/**
+ * Fields of a feature flag hash
+ */
+const FIELDS = {
+  value: "value",
+  config: "config",
+  variant: "variant",
+  metadata: "metadata",
+  usage: "usage",
+  createdAt: "created_at",
+  updatedAt: "updated_at",
+};
+
+export function createRedisDriver(config: RedisConfig): RedisDriver {
+  return new RedisDriver(config);
+}
+
+/**
+ * A driver storing each feature flag in a Redis hash.
+ * Changes are announced on a pub/sub channel so other instances can react.
+ */
+export class RedisDriver implements FeatureStorageProvider {
+  #client: Redis;
+  #keyPrefix: string;
+  #channel: string;
+
+  /**
+   * Identifier of this instance, its own announcements are not delivered to its listeners
+   */
+  #origin = randomUUID();
+
+  /**
+   * The subscriber connection, resolved once the channel is subscribed
+   */
+  #subscription?: Promise<Redis>;
+  #listeners = new Set<RedisChangeListener>();
+  #onError?: (error: Error) => void;
+
+  constructor(config: RedisConfig) {
+    this.#client = config.client;
+    this.#keyPrefix = config.keyPrefix ?? "fanion:";
+    this.#channel = config.channel ?? `${this.#keyPrefix}events`;
+    this.#onError = config.onError;
+  }
+
+  async set(flag: string, value: boolean): Promise<void> {
+    await this.#write(flag, "set", { [FIELDS.value]: value ? "1" : "0" });
+  }
+
+  async get(flag: string): Promise<boolean | undefined> {
+    const value = await this.#client.hget(this.#flagKey(flag), FIELDS.value);
+
+    if (value === null) {
+      return undefined;
+    }
+
+    return value === "1";
+  }
+
+  async getFeature(flag: string): Promise<StoredFeature | undefined> {
+    const hash = await this.#client.hgetall(this.#flagKey(flag));
+    return this.#toStoredFeature(hash);
+  }
+
+  /**
+   * Read several feature flag hashes in a single pipeline
+   *
+   * @param flags
+   */
+  async getMany(flags: string[]): Promise<Map<string, StoredFeature>> {
+    const features = new Map<string, StoredFeature>();
+    const names = [...new Set(flags)];
+
+    if (names.length === 0) {
+      return features;
+    }
+
+    const pipeline = this.#client.pipeline();
+    for (const name of names) {
+      pipeline.hgetall(this.#flagKey(name));
+    }
+
+    const hashes = await this.#exec(pipeline);
+
+    names.forEach((name, index) => {
+      const feature = this.#toStoredFeature(
+        hashes[index] as Record<string, string>,
+      );
+
+      if (feature) {
+        features.set(name, feature);
+      }
+    });
+
+    return features;
+  }
+
+  async list(prefix = ""): Promise<Map<string, StoredFeature>> {
+    return this.getMany(await this.keys(prefix));
+  }
+
+  /**
+   * List the names of the stored feature flags from the index set, ordered by name
+   */
+  async keys(prefix = ""): Promise<string[]> {
+    const names = await this.#client.smembers(this.#indexKey());
+    return names.filter((name) => name.startsWith(prefix)).sort();
+  }
+
+  async setConfig(flag: string, config: FeatureConfig): Promise<void> {
+    await this.#write(flag, "configure", {
+      [FIELDS.config]: JSON.stringify(config),
+    });
+  }
+
+  async setVariant(flag: string, value: VariantValue): Promise<void> {
+    await this.#write(flag, "variant", {
+      [FIELDS.variant]: JSON.stringify(value),
+    });
+  }
+
+  async deleteVariant(flag: string): Promise<void> {
+    const key = this.#flagKey(flag);
+
+    if (!(await this.#client.hexists(key, FIELDS.value))) {
+      return;
+    }
+
+    await this.#exec(
+      this.#client
+        .multi()
+        .hdel(key, FIELDS.variant)
+        .hset(key, FIELDS.updatedAt, new Date().toISOString()),
+    );
+    await this.#publish(flag, "variant");
+  }
+
+  async setMetadata(flag: string, metadata: FeatureMetadata): Promise<void> {
+    await this.#write(flag, "metadata", {
+      [FIELDS.metadata]: JSON.stringify(metadata),
+    });
+  }
+
+  /**
+   * Save the evaluations of a stored feature flag,
+   * the update date is not changed and nothing is announced.
+   *
+   * @param flag
+   * @param usage
+   */
+  async recordUsage(flag: string, usage: FeatureUsage): Promise<void> {
+    const key = this.#flagKey(flag);
+
+    if (!(await this.#client.hexists(key, FIELDS.value))) {
+      return;
+    }
+
+    await this.#client.hset(key, FIELDS.usage, JSON.stringify(usage));
+  }
+
+  /**
+   * Overrides of a feature flag are stored in a hash keyed by context key
+   *
+   * @param flag
+   * @param contextKey
+   * @param value
+   */
+  async setOverride(
+    flag: string,
+    contextKey: string,
+    value: boolean,
+  ): Promise<void> {
+    await this.#client.hset(
+      this.#overridesKey(flag),
+      contextKey,
+      value ? "1" : "0",
+    );
+    await this.#publish(flag, "override");
+  }
+
+  async getOverride(
+    flag: string,
+    contextKey: string,
+  ): Promise<boolean | undefined> {
+    const value = await this.#client.hget(this.#overridesKey(flag), contextKey);
+
+    if (value === null) {
+      return undefined;
+    }
+
+    return value === "1";
+  }
+
+  async deleteOverride(flag: string, contextKey: string): Promise<void> {
+    await this.#client.hdel(this.#overridesKey(flag), contextKey);
+    await this.#publish(flag, "override");
+  }
+
+  /**
+   * List the overrides of a feature flag, ordered by context key.
+   *
+   * @param flag
+   */
+  async listOverrides(flag: string): Promise<FeatureOverride[]> {
+    const hash = await this.#client.hgetall(this.#overridesKey(flag));
+
+    return Object.keys(hash)
+      .sort()
+      .map((contextKey) => ({ contextKey, value: hash[contextKey] === "1" }));
+  }
+
+  async clearOverrides(flag: string): Promise<void> {
+    await this.#client.del(this.#overridesKey(flag));
+    await this.#publish(flag, "override");
+  }
+
+  /**
+   * Push an entry to the audit log list of the feature flag
+   *
+   * @param entry
+   */
+  async appendAudit(entry: AuditEntry): Promise<void> {
+    await this.#client.lpush(
+      this.#changesKey(entry.flag),
+      JSON.stringify(entry),
+    );
+  }
+
+  /**
+   * List the audit log of a feature flag, most recent first.
+   *
+   * @param flag
+   * @param query
+   */
+  async listAudit(flag: string, query: AuditQuery = {}): Promise<AuditEntry[]> {
+    if (query.limit === 0) {
+      return [];
+    }
+
+    const entries = await this.#client.lrange(
+      this.#changesKey(flag),
+      0,
+      query.limit === undefined ? -1 : query.limit - 1,
+    );
+
+    return entries.map((raw) => {
+      const entry = JSON.parse(raw);
+      return { ...entry, changedAt: new Date(entry.changedAt) };
+    });
+  }
+
+  /**
+   * Delete a feature flag hash and its overrides, the audit log is kept.
+   *
+   * @param featureName
+   */
+  async delete(featureName: string): Promise<void> {
+    await this.#exec(
+      this.#client
+        .multi()
+        .del(this.#flagKey(featureName), this.#overridesKey(featureName))
+        .srem(this.#indexKey(), featureName),
+    );
+
+    await this.#publish(featureName, "delete");
+  }
+
+  /**
+   * Delete the flags starting with a prefix in a single transaction,
+   * a delete change is announced for each flag
+   *
+   * @param prefix
+   */
+  async deletePrefix(prefix: string): Promise<string[]> {
+    const names = await this.keys(prefix);
+
+    if (names.length === 0) {
+      return names;
+    }
+
+    await this.#exec(
+      this.#client
+        .multi()
+        .del(
+          ...names.flatMap((name) => [
+            this.#flagKey(name),
+            this.#overridesKey(name),
+          ]),
+        )
+        .srem(this.#indexKey(), ...names),
+    );
+
+    for (const name of names) {
+      await this.#publish(name, "delete");
+    }
+
+    return names;
+  }
+
+  /**
+   * Listen to the changes announced by the other instances.
+   * The subscriber connection is opened with the first listener
+   * and closed when the last one is removed. Concurrent calls wait for
+   * the same subscription, a failed subscription is retried by the next call.
+   *
+   * @param listener
+   * @returns A function removing the listener
+   */
+  async subscribe(listener: RedisChangeListener): Promise<() => Promise<void>> {
+    this.#listeners.add(listener);
+
+    this.#subscription ??= this.#openSubscriber();
+    const subscription = this.#subscription;
+
+    try {
+      await subscription;
+    } catch (error) {
+      this.#listeners.delete(listener);
+
+      if (this.#subscription === subscription) {
+        this.#subscription = undefined;
+      }
+      throw error;
+    }
+
+    return async () => {
+      this.#listeners.delete(listener);
+
+      if (this.#listeners.size === 0 && this.#subscription) {
+        const subscription = this.#subscription;
+        this.#subscription = undefined;
+        await (await subscription).quit();
+      }
+    };
+  }
+
+  isDatabaseDriver(): boolean {
+    return true;
+  }
+
+  /**
+   * Check the connection to the Redis server
+   */
+  async initStore(): Promise<void> {
+    try {
+      await this.#client.ping();
+    } catch (error) {
+      throw new Error(
+        `Unable to connect to Redis: ${(error as Error).message}`,
+      );
+    }
+  }
+
+  /**
+   * Set fields of a feature flag hash, the flag is created enabled
+   * if it doesn't exist. The creation and update dates are kept up to date.
+   */
+  async #write(
+    flag: string,
+    action: RedisChangeAction,
+    fields: Record<string, string>,
+  ): Promise<void> {
+    const key = this.#flagKey(flag);
+    const now = new Date().toISOString();
+
+    await this.#exec(
+      this.#client
+        .multi()
+        .hsetnx(key, FIELDS.value, "1")
+        .hsetnx(key, FIELDS.createdAt, now)
+        .hset(key, { ...fields, [FIELDS.updatedAt]: now })
+        .sadd(this.#indexKey(), flag),
+    );
+
+    await this.#publish(flag, action);
+  }
+
+  /**
+   * Run a transaction or a pipeline, the errors of its commands are thrown
+   */
+  async #exec(commands: ChainableCommander): Promise<unknown[]> {
+    const results = (await commands.exec()) ?? [];
+
+    return results.map(([error, result]) => {
+      if (error) {
+        throw error;
+      }
+
+      return result;
+    });
+  }
+
+  async #publish(flag: string, action: RedisChangeAction): Promise<void> {
+    const change: RedisChange = { flag, action, origin: this.#origin };
+    await this.#client.publish(this.#channel, JSON.stringify(change));
+  }
+
+  /**
+   * Open a subscriber connection on the channel,
+   * the connection is closed if the subscription fails
+   */
+  async #openSubscriber(): Promise<Redis> {
+    const subscriber = this.#client.duplicate();
+
+    subscriber.on("message", (channel: string, message: string) => {
+      if (channel === this.#channel) {
+        this.#dispatch(message);
+      }
+    });
+
+    try {
+      await subscriber.subscribe(this.#channel);
+    } catch (error) {
+      subscriber.disconnect();
+      throw error;
+    }
+
+    return subscriber;
+  }
+
+  /**
+   * Deliver an announcement to the listeners, malformed messages
+   * and the announcements of this instance are ignored
+   */
+  #dispatch(message: string): void {
+    let change: RedisChange;
+
+    try {
+      change = JSON.parse(message);
+    } catch {
+      return;
+    }
+
+    if (change.origin === this.#origin || typeof change.flag !== "string") {
+      return;
+    }
+
+    for (const listener of this.#listeners) {
+      try {
+        listener(change);
+      } catch (error) {
+        this.#onError?.(error as Error);
+      }
+    }
+  }
+
+  /**
+   * A hash without value was partially written by a concurrent delete,
+   * it is considered missing
+   */
+  #toStoredFeature(
+    hash: Record<string, string> | undefined,
+  ): StoredFeature | undefined {
+    if (!hash || hash[FIELDS.value] === undefined) {
+      return undefined;
+    }
+
+    const json = (field: string) =>
+      hash[field] === undefined ? undefined : JSON.parse(hash[field]);
+    const date = (field: string) =>
+      hash[field] === undefined ? undefined : new Date(hash[field]);
+
+    return {
+      value: hash[FIELDS.value] === "1",
+      config: json(FIELDS.config) ?? {},
+      variant: json(FIELDS.variant),
+      metadata: json(FIELDS.metadata),
+      usage: json(FIELDS.usage),
+      createdAt: date(FIELDS.createdAt),
+      updatedAt: date(FIELDS.updatedAt),
+    };
+  }
+
+  #flagKey(flag: string): string {
+    return `${this.#keyPrefix}flag:${flag}`;
+  }
+
+  #overridesKey(flag: string): string {
+    return `${this.#keyPrefix}overrides:${flag}`;
+  }
+
+  #changesKey(flag: string): string {
+    return `${this.#keyPrefix}changes:${flag}`;
+  }
+
+  /**
+   * Set of the stored feature flag names
+   */
+  #indexKey(): string {
+    return `${this.#keyPrefix}flags`;
+  }
+}
@@ -15,3 +15,124 @@ export class ProviderNotDefined extends Error {
     super("Database provider not defined");
   }
 }
+
+/**
+ * Error return when a rollout configuration is not valid
+ */
+export class InvalidRolloutError extends Error {
+  constructor(message: string) {
+    super(`Invalid rollout: ${message}`);
+  }
+}
+
+/**
+ * Error return when the storage provider does not implement an operation
+ */
+export class UnsupportedOperationError extends Error {
+  constructor(operation: string) {
+    super(`Storage provider does not support ${operation}`);
+  }
+}
+
+/**
+ * Error return when a targeting rule is not valid
+ */
+export class InvalidRuleError extends Error {
+  constructor(message: string) {
+    super(`Invalid rule: ${message}`);
+  }
+}
+
+/**
+ * Error return when a variant allocation is not valid
+ */
+export class InvalidVariantError extends Error {
+  constructor(message: string) {
+    super(`Invalid variant allocation: ${message}`);
+  }
+}
+
+/**
+ * Error return when a flag file cannot be parsed or does not match the schema
+ */
+export class InvalidFlagFileError extends Error {
+  constructor(path: string, message: string) {
+    super(`Invalid flag file ${path}: ${message}`);
+  }
+}
+
+/**
+ * Error return when a read-only storage provider is written
+ */
+export class ReadOnlyProviderError extends Error {
+  constructor(provider: string) {
+    super(`Storage provider ${provider} is read-only`);
+  }
+}
+
+/**
+ * Error return when a flag variable is not a strict boolean
+ * or its name is not a flag name
+ */
+export class InvalidEnvironmentVariableError extends Error {
+  constructor(
+    public readonly variable: string,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Error return when a schedule is not valid
+ */
+export class InvalidScheduleError extends Error {
+  constructor(message: string) {
+    super(`Invalid schedule: ${message}`);
+  }
+}
+
+/**
+ * Error return when the prerequisites of a feature flag are not valid
+ */
+export class InvalidPrerequisiteError extends Error {
+  constructor(message: string) {
+    super(`Invalid prerequisites: ${message}`);
+  }
+}
+
+/**
+ * Error return when feature flags depend on each other
+ */
+export class PrerequisiteCycleError extends Error {
+  constructor(public readonly cycle: string[]) {
+    super(`Prerequisite cycle detected: ${cycle.join(" -> ")}`);
+  }
+}
+
+/**
+ * Error return when a request of the admin API is not valid
+ */
+export class InvalidRequestError extends Error {
+  constructor(message: string) {
+    super(`Invalid request: ${message}`);
+  }
+}
+
+/**
+ * Error return when the config file of the command-line tool is not valid
+ */
+export class InvalidConfigError extends Error {
+  constructor(path: string, message: string) {
+    super(`Invalid config file ${path}: ${message}`);
+  }
+}
+
+/**
+ * Error return when a snapshot is not valid or has an unsupported version
+ */
+export class InvalidSnapshotError extends Error {
+  constructor(message: string) {
+    super(`Invalid snapshot: ${message}`);
+  }
+}
@@ -0,0 +1,57 @@
+type Listener<P> = (payload: P) => void;
+
+/**
+ * Minimal typed event emitter.
+ * Listeners are called synchronously, a throwing listener never breaks the emitter
+ * and its error is reported to the onListenerError callback.
+ */
+export class TypedEmitter<Events extends object> {
+  #listeners = new Map<keyof Events, Set<Listener<never>>>();
+  #onListenerError: (event: keyof Events, error: unknown) => void;
+
+  constructor(onListenerError: (event: keyof Events, error: unknown) => void) {
+    this.#onListenerError = onListenerError;
+  }
+
+  on<K extends keyof Events>(event: K, listener: Listener<Events[K]>): void {
+    const listeners = this.#listeners.get(event) ?? new Set();
+    listeners.add(listener as Listener<never>);
+    this.#listeners.set(event, listeners);
+  }
+
+  once<K extends keyof Events>(event: K, listener: Listener<Events[K]>): void {
+    const wrapper: Listener<Events[K]> = (payload) => {
+      this.off(event, wrapper);
+      listener(payload);
+    };
+
+    this.on(event, wrapper);
+  }
+
+  off<K extends keyof Events>(event: K, listener: Listener<Events[K]>): void {
+    this.#listeners.get(event)?.delete(listener as Listener<never>);
+  }
+
+  /**
+   * Check if an event has listeners, to avoid building unused payloads
+   */
+  hasListeners(event: keyof Events): boolean {
+    return (this.#listeners.get(event)?.size ?? 0) > 0;
+  }
+
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const listeners = this.#listeners.get(event);
+
+    if (!listeners) {
+      return;
+    }
+
+    for (const listener of [...listeners]) {
+      try {
+        (listener as Listener<Events[K]>)(payload);
+      } catch (error) {
+        this.#onListenerError(event, error);
+      }
+    }
+  }
+}
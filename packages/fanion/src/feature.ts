@@ -1,17 +1,154 @@
-import { FeatureNotExistsError } from "./errors.js";
+import { AsyncLocalStorage } from "node:async_hooks";
+import {
+  FeatureNotExistsError,
+  InvalidRolloutError,
+  PrerequisiteCycleError,
+  ProviderNotDefined,
+  UnsupportedOperationError,
+} from "./errors.js";
+import { createAuditId, toFeatureState } from "./audit.js";
+import { TypedEmitter } from "./events.js";
+import {
+  assertValidPrerequisites,
+  findPrerequisiteCycle,
+  getParentFlag,
+} from "./prerequisites.js";
+import {
+  assertValidRamp,
+  assertValidRollout,
+  getRampRollout,
+  getRampStep,
+  haltRamp,
+  isInRollout,
+  pauseRamp,
+  resumeRamp,
+  rollbackRamp,
+} from "./rollout.js";
+import { FlagRegistry } from "./registry.js";
+import { ScopedFeatureManager } from "./scope.js";
+import { createSnapshot, diff, parseSnapshot } from "./snapshot.js";
+import { assertValidRule, evaluateRule } from "./rules.js";
+import { assertValidSchedule, isInSchedule } from "./schedule.js";
+import {
+  getContextValue,
+  isNamespaceSwitch,
+  NAMESPACE_SWITCH,
+  parseFeatureName,
+} from "./utils.js";
+import { assertValidAllocation, pickVariant } from "./variants.js";
+import {
+  type LocalUsage,
+  getStaleReasons,
+  isPast,
+  mergeUsage,
+  recordEvaluation,
+} from "./usage.js";
+import type {
+  ExperimentAssignment,
+  FeatureConfig,
+  FeatureMetadata,
+  FeatureOverride,
+  FeatureUsage,
+  Prerequisite,
+  Ramp,
+  RampDefinition,
+  RampStatus,
+  Rollout,
+  Rule,
+  Schedule,
+  StoredFeature,
+  VariantAllocation,
+  VariantValue,
+} from "./types/feature_config.js";
 import type { FeatureStorageProvider } from "./types/feature_storage_provider.js";
-import type { FeatureCheck, FeatureManagerProvider } from "./types/provider.js";
+import type {
+  AuditAction,
+  AuditEntry,
+  AuditQuery,
+  ChangeOptions,
+  OverridesChange,
+} from "./types/audit.js";
+import type {
+  EvaluationSource,
+  FeatureManagerEventListener,
+  FeatureManagerEvents,
+} from "./types/events.js";
+import type {
+  Clock,
+  DefineOptions,
+  FeatureCheck,
+  FeatureListing,
+  FeatureManagerConfig,
+  FeatureManagerProvider,
+  OverrideKeysResolver,
+  StaleFlag,
+  StaleFlagsOptions,
+} from "./types/provider.js";
+import type { FlagDefinitions } from "./types/registry.js";
+import type {
+  FlagChange,
+  ImportSnapshotOptions,
+  Snapshot,
+  SnapshotDiff,
+  SnapshotFlag,
+} from "./types/snapshot.js";
 
-export function featureManager(config?: { store: FeatureStorageProvider }) {
+export function featureManager(config?: FeatureManagerConfig) {
   return new FeatureManager(config);
 }
 
-export async function featureManagerWithDatabase(config: {
-  store: FeatureStorageProvider;
-}) {
+export async function featureManagerWithDatabase(config: FeatureManagerConfig) {
   return await FeatureManager.initWithDatabase(config);
 }
 
+/**
+ * Result of a feature flag evaluation
+ */
+interface Evaluation {
+  result: boolean;
+  source: EvaluationSource;
+  stored?: StoredFeature;
+}
+
+/**
+ * The context bound by withContext() and the results memoized for it
+ */
+interface RequestScope {
+  context: unknown;
+  results: Map<string, Promise<boolean>>;
+}
+
+/**
+ * Read a stored feature flag, from the store or from a preloaded batch
+ */
+type StoredFeatureLoader = (
+  flagName: string,
+) => Promise<StoredFeature | undefined>;
+
+/**
+ * A storage provider supporting per-context overrides
+ */
+type OverridesStore = Required<
+  Pick<
+    FeatureStorageProvider,
+    | "getOverride"
+    | "setOverride"
+    | "deleteOverride"
+    | "listOverrides"
+    | "clearOverrides"
+  >
+>;
+
+/**
+ * A storage provider supporting experiment assignments
+ */
+type AssignmentsStore = Required<
+  Pick<
+    FeatureStorageProvider,
+    "addAssignment" | "getAssignment" | "listAssignments" | "clearAssignments"
+  >
+>;
+
 /**
  * A feature provider is a class that can be used to retrieve feature flags.
  */
@@ -21,13 +158,85 @@ export class FeatureManager implements FeatureManagerProvider {
    */
   protected featureMap = new Map<string, FeatureCheck | undefined>();
 
+  /**
+   * Metadata given to define()
+   */
+  protected metadataMap = new Map<string, FeatureMetadata>();
+
+  /**
+   * Prerequisites given to define()
+   */
+  protected prerequisiteMap = new Map<string, Prerequisite[]>();
+
   /**
    * The cache provider used to store feature flag results
    */
   protected store: FeatureStorageProvider | undefined;
 
-  constructor(config?: { store: FeatureStorageProvider }) {
+  /**
+   * Resolve the context keys checked for per-context overrides
+   */
+  protected overrideKeys: OverrideKeysResolver<unknown> | undefined;
+
+  /**
+   * Minimum delay between two usage writes of a flag, undefined when usage is not tracked
+   */
+  protected usageInterval: number | undefined;
+
+  /**
+   * Evaluations seen by this manager
+   */
+  protected usage = new Map<string, LocalUsage>();
+
+  /**
+   * Warn when an expired feature flag is evaluated
+   */
+  protected logger: FeatureManagerConfig["logger"];
+
+  /**
+   * Make sub flags depend on their parent flag
+   */
+  protected inferPrerequisites: boolean;
+
+  /**
+   * Return the current date
+   */
+  protected clock: Clock;
+
+  /**
+   * Emit evaluation and change events
+   */
+  protected emitter = new TypedEmitter<FeatureManagerEvents>((event, error) => {
+    if (event !== "error") {
+      this.emitter.emit("error", { operation: `${event} listener`, error });
+    }
+  });
+
+  /**
+   * Flags evaluated since their usage was last saved
+   */
+  #unsavedUsage = new Set<string>();
+  #usageSavedAt = new Map<string, number>();
+  #pendingUsageSaves = new Set<Promise<void>>();
+  #warnedExpired = new Set<string>();
+  #requestScope = new AsyncLocalStorage<RequestScope>();
+
+  constructor(config?: FeatureManagerConfig) {
     this.store = config?.store;
+    // The context given to active() is passed as is to the resolver
+    this.overrideKeys = config?.overrideKeys as
+      | OverrideKeysResolver<unknown>
+      | undefined;
+    this.logger = config?.logger;
+    this.inferPrerequisites = config?.inferPrerequisites ?? false;
+    this.clock = config?.clock ?? (() => new Date());
+
+    if (config?.trackUsage) {
+      this.usageInterval =
+        config.trackUsage === true
+          ? 60_000
+          : (config.trackUsage.interval ?? 60_000);
+    }
     this.featureMap = new Map<string, FeatureCheck | undefined>();
   }
 
@@ -46,7 +255,7 @@ export class FeatureManager implements FeatureManagerProvider {
    * });
    * ````
    */
-  static async initWithDatabase(config: { store: FeatureStorageProvider }) {
+  static async initWithDatabase(config: FeatureManagerConfig) {
     const featureManager = new FeatureManager(config);
     await featureManager.initStore();
     return featureManager;
@@ -68,12 +277,74 @@ export class FeatureManager implements FeatureManagerProvider {
    *
    * @param flagName the name of the feature flag
    * @param check a callback function that returns a boolean indicating whether the feature flag is enabled or not
+   * @param options the metadata and the prerequisites of the feature flag
+   * @throws {InvalidPrerequisiteError} If a prerequisite is not valid.
+   * @throws {PrerequisiteCycleError} If the prerequisites lead back to the flag.
+   *
+   * @example
+   * ```ts
+   * features.define("billing:invoices.pdf", undefined, {
+   *   metadata: { owner: "billing" },
+   *   prerequisites: [{ flag: "billing:invoices", value: true }],
+   * });
+   * ```
    */
   define<T>(
     flagName: string,
     check?: (context: T) => Promise<boolean> | boolean,
+    { metadata, prerequisites }: DefineOptions = {},
   ): void {
+    if (prerequisites) {
+      assertValidPrerequisites(prerequisites);
+      this.#assertNoCycle(flagName, prerequisites);
+      this.prerequisiteMap.set(flagName, prerequisites);
+    } else {
+      this.prerequisiteMap.delete(flagName);
+    }
+
     this.featureMap.set(flagName, check);
+
+    if (metadata) {
+      this.metadataMap.set(flagName, metadata);
+    } else {
+      this.metadataMap.delete(flagName);
+    }
+
+    this.emitter.emit("defined", { flag: flagName });
+  }
+
+  /**
+   * Define several feature flags and get a typed registry to check them.
+   * The flag names and the context of each check are inferred, so the registry
+   * rejects unknown flags and contexts of the wrong shape at compile time.
+   *
+   * @param definitions The check, or the arguments of define(), by flag name.
+   * Flags with `{ stored: true }` are only read from the store.
+   * @throws {InvalidPrerequisiteError} If a prerequisite is not valid.
+   * @throws {PrerequisiteCycleError} If the prerequisites lead back to a flag.
+   *
+   * @example
+   * ```ts
+   * const flags = features.defineFlags({
+   *   "checkout:v2": (ctx: { user: { beta: boolean } }) => ctx.user.beta,
+   *   "checkout:v2.express": { prerequisites: [{ flag: "checkout:v2", value: true }] },
+   *   "search:suggestions": { stored: true },
+   * });
+   *
+   * await flags.active("checkout:v2", { user: { beta: true } });
+   * ```
+   */
+  defineFlags<D extends FlagDefinitions>(definitions: D): FlagRegistry<D> {
+    for (const [flagName, definition] of Object.entries(definitions)) {
+      if (typeof definition === "function") {
+        this.define(flagName, definition);
+      } else if (!("stored" in definition)) {
+        const { check, ...options } = definition;
+        this.define(flagName, check, options);
+      }
+    }
+
+    return new FlagRegistry(this, definitions);
   }
 
   /**
@@ -81,44 +352,2267 @@ export class FeatureManager implements FeatureManagerProvider {
    *
    * @param flagName
    * @param defaultValue
+   * @param metadata The description, owner and tags saved with the feature flag
+   * @param change The actor and reason recorded in the audit log
+   * @throws {ProviderNotDefined} If no store is defined.
+   * @throws {UnsupportedOperationError} If metadata is given and the store cannot save it.
    */
-  async defineAndStore(flagName: string, defaultValue = true): Promise<void> {
+  async defineAndStore(
+    flagName: string,
+    defaultValue = true,
+    metadata?: FeatureMetadata,
+    change?: ChangeOptions,
+  ): Promise<void> {
     if (!this.store) {
-      throw new Error("No store provider defined");
+      throw new ProviderNotDefined();
+    }
+
+    const store = this.store;
+    const setMetadata = store.setMetadata?.bind(store);
+
+    if (metadata && !setMetadata) {
+      throw new UnsupportedOperationError("flag metadata");
     }
 
-    await this.store.set(flagName, defaultValue);
+    await this.#audited(flagName, "set", change, async () => {
+      await this.#write(flagName, "store", () =>
+        store.set(flagName, defaultValue),
+      );
+
+      if (metadata && setMetadata) {
+        await this.#write(flagName, "metadata", () =>
+          setMetadata(flagName, metadata),
+        );
+      }
+    });
+
+    this.emitter.emit("stored", { flag: flagName, value: defaultValue });
   }
 
   /**
-   * Check if a feature flag is enabled for a given context
+   * Store the global value of a feature flag.
+   * A stored false turns off a flag defined in code, a stored true
+   * leaves the decision to its check.
    *
    * @param flagName The name of the feature flag.
-   * @param context The context object that will be passed to the feature flag check function.
-   * @throws {FeatureNotExistsError} If the feature flag is not defined.
+   * @param value The new value.
+   * @param change The actor and reason recorded in the audit log.
+   * @throws {ProviderNotDefined} If no store is defined.
    *
-   * @returns A boolean indicating whether the feature flag is enabled or not.
+   * @example
+   * ```ts
+   * await features.set("checkout:v2", false, { actor: "jane", reason: "Incident #42" });
+   * ```
    */
-  async active<T>(flagName: string, context?: T): Promise<boolean> {
-    if (!this.featureMap.has(flagName)) {
-      if (this.store) {
-        const result = await this.store.get(flagName);
-        if (result !== undefined) {
-          return result;
+  async set(
+    flagName: string,
+    value: boolean,
+    change?: ChangeOptions,
+  ): Promise<void> {
+    if (!this.store) {
+      throw new ProviderNotDefined();
+    }
+
+    const store = this.store;
+    await this.#audited(flagName, "set", change, () =>
+      this.#write(flagName, "store", () => store.set(flagName, value)),
+    );
+    this.emitter.emit("stored", { flag: flagName, value });
+  }
+
+  /**
+   * Replace the stored metadata of a feature flag.
+   *
+   * @param flagName The name of the feature flag.
+   * @param metadata The description, owner and tags of the feature flag.
+   * @param change The actor and reason recorded in the audit log.
+   * @throws {ProviderNotDefined} If no store is defined.
+   * @throws {UnsupportedOperationError} If the store cannot save metadata.
+   */
+  async setMetadata(
+    flagName: string,
+    metadata: FeatureMetadata,
+    change?: ChangeOptions,
+  ): Promise<void> {
+    if (!this.store) {
+      throw new ProviderNotDefined();
+    }
+
+    const setMetadata = this.store.setMetadata?.bind(this.store);
+
+    if (!setMetadata) {
+      throw new UnsupportedOperationError("flag metadata");
+    }
+
+    await this.#audited(flagName, "metadata", change, () =>
+      this.#write(flagName, "metadata", () => setMetadata(flagName, metadata)),
+    );
+  }
+
+  /**
+   * Get the metadata of a feature flag, the stored metadata takes
+   * precedence over the metadata given to define().
+   *
+   * @param flagName The name of the feature flag.
+   */
+  async getMetadata(flagName: string): Promise<FeatureMetadata | undefined> {
+    const stored = await this.#getStoredFeature(flagName);
+    return this.#mergeMetadata(flagName, stored);
+  }
+
+  /**
+   * List the defined and stored feature flags having a tag.
+   *
+   * @param tag The tag to look for.
+   */
+  async findByTag(tag: string): Promise<FeatureListing[]> {
+    const flags = await this.all();
+    return flags.filter((flag) => flag.metadata?.tags?.includes(tag));
+  }
+
+  /**
+   * List the defined and stored feature flags of an owner.
+   *
+   * @param owner The owner to look for.
+   */
+  async findByOwner(owner: string): Promise<FeatureListing[]> {
+    const flags = await this.all();
+    return flags.filter((flag) => flag.metadata?.owner === owner);
+  }
+
+  /**
+   * Delete a feature flag definition and its stored value,
+   * with its overrides and experiment assignments.
+   * The audit log of the flag is kept.
+   *
+   * @param flagName The name of the feature flag.
+   * @param change The actor and reason recorded in the audit log.
+   */
+  async delete(flagName: string, change?: ChangeOptions): Promise<void> {
+    this.#forget(flagName);
+
+    const store = this.store;
+    if (store) {
+      await this.#audited(flagName, "delete", change, () =>
+        this.#write(flagName, "delete", () => store.delete(flagName)),
+      );
+    }
+
+    this.emitter.emit("deleted", { flag: flagName });
+  }
+
+  /**
+   * Get a view of the feature flags of a namespace,
+   * flag names are prefixed with the namespace.
+   *
+   * @param namespace The namespace, the context of generateFeatureName().
+   *
+   * @example
+   * ```ts
+   * const billing = features.scope("billing");
+   *
+   * billing.define("invoices", (ctx: { plan: string }) => ctx.plan === "pro");
+   * await billing.active("invoices", { plan: "pro" }); // checks "billing:invoices"
+   * ```
+   */
+  scope(namespace: string): ScopedFeatureManager {
+    return new ScopedFeatureManager(this, namespace);
+  }
+
+  /**
+   * Turn off every feature flag of a namespace, whatever their definition,
+   * stored value or overrides. The switch is stored as the "<namespace>:*" flag.
+   *
+   * @param namespace The namespace to turn off.
+   * @param change The actor and reason recorded in the audit log.
+   * @throws {ProviderNotDefined} If no store is defined.
+   */
+  async disableNamespace(
+    namespace: string,
+    change?: ChangeOptions,
+  ): Promise<void> {
+    await this.set(this.#namespaceSwitch(namespace), false, change);
+  }
+
+  /**
+   * Turn a namespace turned off by disableNamespace() back on
+   *
+   * @param namespace The namespace to turn on.
+   * @param change The actor and reason recorded in the audit log.
+   */
+  async enableNamespace(
+    namespace: string,
+    change?: ChangeOptions,
+  ): Promise<void> {
+    await this.delete(this.#namespaceSwitch(namespace), change);
+  }
+
+  /**
+   * Check if a namespace is turned off
+   *
+   * @param namespace The namespace to check.
+   */
+  async isNamespaceDisabled(namespace: string): Promise<boolean> {
+    const stored = await this.#getStoredFeature(
+      this.#namespaceSwitch(namespace),
+    );
+
+    return stored?.value === false;
+  }
+
+  /**
+   * Delete the definitions and the stored values of every feature flag
+   * of a namespace, including its switch. The audit log is kept.
+   *
+   * @param namespace The namespace to delete.
+   * @param change The actor and reason recorded in the audit log.
+   * @returns The names of the deleted flags.
+   * @throws {UnsupportedOperationError} If the store cannot delete flags by prefix.
+   */
+  async deleteNamespace(
+    namespace: string,
+    change?: ChangeOptions,
+  ): Promise<string[]> {
+    const prefix = this.#namespacePrefix(namespace);
+    const names = new Set(
+      [...this.featureMap.keys()].filter((name) => name.startsWith(prefix)),
+    );
+
+    const store = this.store;
+    let previous: Map<string, StoredFeature> | undefined;
+    let deleted: string[] = [];
+
+    if (store) {
+      if (!store.deletePrefix) {
+        throw new UnsupportedOperationError("prefix deletion");
+      }
+
+      const deletePrefix = store.deletePrefix.bind(store);
+      const namespaceSwitch = this.#namespaceSwitch(namespace);
+      previous =
+        store.appendAudit && store.list ? await store.list(prefix) : undefined;
+
+      await this.#write(namespaceSwitch, "delete", async () => {
+        deleted = await deletePrefix(prefix);
+
+        // Flags defined in code only can have overrides and assignments
+        for (const name of names) {
+          if (!deleted.includes(name)) {
+            await store.clearOverrides?.(name);
+            await store.clearAssignments?.(name);
+          }
         }
+      });
+    }
+
+    // The definitions are kept when the store fails
+    for (const name of names) {
+      this.#forget(name);
+    }
+
+    for (const name of deleted) {
+      names.add(name);
+
+      if (previous) {
+        await this.#appendAudit(
+          name,
+          "delete",
+          change,
+          previous.get(name),
+          undefined,
+        );
       }
+    }
 
-      throw new FeatureNotExistsError(
-        `Feature flag '${flagName}' is not defined`,
+    const sorted = [...names].sort();
+    for (const name of sorted) {
+      this.emitter.emit("deleted", { flag: name });
+    }
+
+    return sorted;
+  }
+
+  /**
+   * Get the changes of a feature flag, most recent first.
+   *
+   * @param flagName The name of the feature flag.
+   * @param query The maximum number of entries.
+   * @throws {ProviderNotDefined} If no store is defined.
+   * @throws {UnsupportedOperationError} If the store has no audit log.
+   */
+  async history(flagName: string, query?: AuditQuery): Promise<AuditEntry[]> {
+    if (!this.store) {
+      throw new ProviderNotDefined();
+    }
+
+    if (!this.store.listAudit) {
+      throw new UnsupportedOperationError("audit log");
+    }
+
+    return this.store.listAudit(flagName, query);
+  }
+
+  /**
+   * Restore the state of a feature flag recorded by an audit entry,
+   * the flag is deleted if the entry deleted it. Reverting to an override
+   * change restores the overrides it changed.
+   *
+   * @param flagName The name of the feature flag.
+   * @param entryId The identifier of the audit entry to revert to.
+   * @param change The actor and reason recorded in the audit log.
+   * @throws {UnsupportedOperationError} If the store has no audit log.
+   * @throws {Error} If the audit entry does not exist.
+   *
+   * @example
+   * ```ts
+   * const [latest, previous] = await features.history("checkout:v2");
+   * await features.revert("checkout:v2", previous.id, { actor: "jane" });
+   * ```
+   */
+  async revert(
+    flagName: string,
+    entryId: string,
+    change?: ChangeOptions,
+  ): Promise<void> {
+    const entries = await this.history(flagName);
+    const entry = entries.find(({ id }) => id === entryId);
+
+    if (!entry) {
+      throw new Error(
+        `Audit entry '${entryId}' of feature flag '${flagName}' not found`,
       );
     }
-    const check = this.featureMap.get(flagName);
 
-    if (check === undefined) {
-      return true;
+    const store = this.store as FeatureStorageProvider;
+    const state = entry.next;
+
+    if (entry.overrides) {
+      await this.#revertOverrides(flagName, entry.overrides, {
+        reason: `Revert to ${entryId}`,
+        ...change,
+      });
+      return;
     }
 
-    const result = await check(context);
-    return result;
+    await this.#audited(
+      flagName,
+      "revert",
+      { reason: `Revert to ${entryId}`, ...change },
+      () =>
+        this.#write(flagName, "revert", async () => {
+          if (!state) {
+            await store.delete(flagName);
+            return;
+          }
+
+          await store.set(flagName, state.value);
+          await store.setConfig?.(flagName, state.config);
+
+          if (state.variant !== undefined) {
+            await store.setVariant?.(flagName, state.variant);
+          } else {
+            await store.deleteVariant?.(flagName);
+          }
+
+          if (state.metadata !== undefined) {
+            await store.setMetadata?.(flagName, state.metadata);
+          }
+        }),
+    );
+
+    if (state) {
+      this.emitter.emit("stored", { flag: flagName, value: state.value });
+      this.emitter.emit("configured", { flag: flagName, config: state.config });
+    } else {
+      this.emitter.emit("deleted", { flag: flagName });
+    }
+  }
+
+  /**
+   * Listen to an event of the feature manager.
+   * Listeners are called synchronously and must stay fast, a throwing
+   * listener is reported to the `error` event.
+   *
+   * @param event The event name (evaluated, defined, stored, configured, deleted, error)
+   * @param listener The callback receiving the event payload
+   *
+   * @example
+   * ```ts
+   * features.on("evaluated", ({ flag, result, source, duration }) => {
+   *   analytics.track("feature_evaluated", { flag, result, source, duration });
+   * });
+   * ```
+   */
+  on<K extends keyof FeatureManagerEvents>(
+    event: K,
+    listener: FeatureManagerEventListener<K>,
+  ): this {
+    this.emitter.on(event, listener);
+    return this;
+  }
+
+  /**
+   * Listen to the next occurrence of an event
+   *
+   * @param event The event name
+   * @param listener The callback receiving the event payload
+   */
+  once<K extends keyof FeatureManagerEvents>(
+    event: K,
+    listener: FeatureManagerEventListener<K>,
+  ): this {
+    this.emitter.once(event, listener);
+    return this;
+  }
+
+  /**
+   * Remove an event listener
+   *
+   * @param event The event name
+   * @param listener The listener to remove
+   */
+  off<K extends keyof FeatureManagerEvents>(
+    event: K,
+    listener: FeatureManagerEventListener<K>,
+  ): this {
+    this.emitter.off(event, listener);
+    return this;
+  }
+
+  /**
+   * Run a callback in a request scope binding a context. Inside the scope,
+   * even through async calls, active() and activeMany() called without a context
+   * use the bound context, and a flag keeps its first result for the life of the scope.
+   *
+   * @param context The context object passed to the feature flag check functions.
+   * @param callback The rest of the request.
+   *
+   * @example
+   * ```ts
+   * await features.withContext({ user }, async () => {
+   *   await features.active("checkout:v2"); // Checked with { user }
+   * });
+   * ```
+   */
+  withContext<T, R>(context: T, callback: () => R): R {
+    return this.#requestScope.run({ context, results: new Map() }, callback);
+  }
+
+  /**
+   * Get the context bound by the current request scope
+   */
+  currentContext<T = unknown>(): T | undefined {
+    return this.#requestScope.getStore()?.context as T | undefined;
+  }
+
+  /**
+   * Check if a feature flag is enabled for a given context
+   *
+   * @param flagName The name of the feature flag.
+   * @param context The context object that will be passed to the feature flag check function,
+   * defaults to the context of the request scope (see withContext()).
+   * @throws {FeatureNotExistsError} If the feature flag is not defined.
+   *
+   * @returns A boolean indicating whether the feature flag is enabled or not.
+   */
+  async active<T>(flagName: string, context?: T): Promise<boolean> {
+    return this.#memoized(flagName, context, async (context) => {
+      const { result } = await this.#track(
+        flagName,
+        context,
+        await this.#preloadNamespaced(flagName),
+      );
+      return result;
+    });
+  }
+
+  /**
+   * Check several feature flags for a given context.
+   * Stored flags are read in a single batch when the store supports getMany().
+   *
+   * @param flagNames The names of the feature flags.
+   * @param context The context object passed to the feature flag check functions.
+   * @throws {FeatureNotExistsError} If one of the feature flags is not defined.
+   *
+   * @returns A plain object mapping each flag name to its result.
+   *
+   * @example
+   * ```ts
+   * const flags = await features.activeMany(["checkout:v2", "new-dashboard"], { user });
+   * // { "checkout:v2": true, "new-dashboard": false }
+   * ```
+   */
+  async activeMany<T>(
+    flagNames: string[],
+    context?: T,
+  ): Promise<Record<string, boolean>> {
+    const scope =
+      context === undefined ? this.#requestScope.getStore() : undefined;
+
+    // Flags already checked in the request scope are not read again
+    const load = await this.#preload(
+      flagNames.filter((flagName) => !scope?.results.has(flagName)),
+    );
+    return this.#evaluateMany(flagNames, context, load);
+  }
+
+  /**
+   * Check every defined and stored feature flag for a given context,
+   * the result can be sent as is to a frontend.
+   * Stored flags are only included when the store supports list().
+   *
+   * @param context The context object passed to the feature flag check functions.
+   *
+   * @returns A plain object mapping each flag name to its result.
+   */
+  async evaluateAll<T>(context?: T): Promise<Record<string, boolean>> {
+    if (!this.store?.list) {
+      return this.activeMany([...this.featureMap.keys()], context);
+    }
+
+    const stored = await this.store.list();
+    const flagNames = [
+      ...new Set([
+        ...this.featureMap.keys(),
+        ...[...stored.keys()].filter((name) => !isNamespaceSwitch(name)),
+      ]),
+    ];
+
+    return this.#evaluateMany(flagNames, context, async (flagName) =>
+      stored.get(flagName),
+    );
+  }
+
+  /**
+   * List every feature flag defined in code or stored,
+   * sorted by name, with where it comes from.
+   *
+   * @param prefix Only list the flags starting with the prefix (ex: "billing:").
+   * @throws {UnsupportedOperationError} If the store cannot list its flags.
+   *
+   * @example
+   * ```ts
+   * const flags = await features.all();
+   * // [{ name: "checkout:v2", source: "both", stored: { value: true, config: {} } }]
+   * ```
+   */
+  async all(prefix = ""): Promise<FeatureListing[]> {
+    let stored = new Map<string, StoredFeature>();
+
+    if (this.store) {
+      if (!this.store.list) {
+        throw new UnsupportedOperationError("flag listing");
+      }
+
+      stored = await this.store.list(prefix);
+    }
+
+    const defined = [...this.featureMap.keys()].filter((name) =>
+      name.startsWith(prefix),
+    );
+    const names = [...new Set([...defined, ...stored.keys()])].filter(
+      (name) => !isNamespaceSwitch(name),
+    );
+
+    return names.sort().map((name) => {
+      const defined = this.featureMap.has(name);
+      const feature = stored.get(name);
+
+      return {
+        name,
+        source:
+          feature === undefined ? "definition" : defined ? "both" : "store",
+        metadata: this.#mergeMetadata(name, feature),
+        stored: feature,
+      };
+    });
+  }
+
+  /**
+   * Describe a feature flag defined in code or stored.
+   *
+   * @param flagName The name of the feature flag.
+   * @throws {FeatureNotExistsError} If the flag is neither defined nor stored.
+   */
+  async describe(flagName: string): Promise<FeatureListing> {
+    const defined = this.featureMap.has(flagName);
+    const stored = await this.#getStoredFeature(flagName);
+
+    if (!defined && stored === undefined) {
+      throw new FeatureNotExistsError(flagName);
+    }
+
+    return {
+      name: flagName,
+      source: stored === undefined ? "definition" : defined ? "both" : "store",
+      metadata: this.#mergeMetadata(flagName, stored),
+      stored,
+    };
+  }
+
+  /**
+   * Save the usage of the flags evaluated since the last save,
+   * call it before the process exits. Failures are emitted to the error event.
+   */
+  async flushUsage(): Promise<void> {
+    for (const flagName of this.#unsavedUsage) {
+      this.#saveUsage(flagName);
+    }
+
+    await Promise.all(this.#pendingUsageSaves);
+  }
+
+  /**
+   * List the feature flags that can probably be removed: expired, due for
+   * review, never evaluated or always returning the same result.
+   * Usage is only known when the manager tracks it (trackUsage option).
+   *
+   * @param options
+   *
+   * @example
+   * ```ts
+   * const stale = await features.staleFlags({ unchangedDays: 60 });
+   * // [{ name: "checkout:v2", reasons: ["expired", "unchanged"], ... }]
+   * ```
+   */
+  async staleFlags(options: StaleFlagsOptions = {}): Promise<StaleFlag[]> {
+    const flags = await this.all();
+    const settings = {
+      now: options.now ?? this.clock(),
+      unchangedDays: options.unchangedDays ?? 30,
+      includeNeverEvaluated:
+        options.includeNeverEvaluated ?? this.usageInterval !== undefined,
+    };
+
+    return flags.flatMap(({ name, metadata, stored }) => {
+      const usage = mergeUsage(stored?.usage, this.usage.get(name));
+      const reasons = getStaleReasons(
+        { metadata, usage, createdAt: stored?.createdAt },
+        settings,
+      );
+
+      return reasons.length > 0 ? [{ name, reasons, metadata, usage }] : [];
+    });
+  }
+
+  /**
+   * Get the variant of a multivariate feature flag for a given context.
+   *
+   * The variant is picked from the weighted allocation if one is stored, else the
+   * stored variant value is returned. The default value is returned when the
+   * feature flag does not exist or is not active for the context.
+   *
+   * @param flagName The name of the feature flag.
+   * @param context The context object used to evaluate the feature flag.
+   * @param defaultValue The value returned when no variant applies.
+   *
+   * @example
+   * ```ts
+   * const layout = await features.variant("checkout:layout", { user }, "A");
+   * const timeout = await features.variant("api:timeout", { user }, 3000);
+   * ```
+   */
+  async variant<V extends VariantValue>(
+    flagName: string,
+    context: unknown,
+    defaultValue: V,
+  ): Promise<V> {
+    let evaluation: Evaluation;
+
+    try {
+      evaluation = await this.#track(
+        flagName,
+        context,
+        await this.#preloadNamespaced(flagName),
+      );
+    } catch (error) {
+      if (error instanceof FeatureNotExistsError) {
+        return defaultValue;
+      }
+      throw error;
+    }
+
+    if (!evaluation.result) {
+      return defaultValue;
+    }
+
+    const stored =
+      evaluation.stored ?? (await this.#getStoredFeature(flagName));
+
+    const allocation = stored?.config.variants;
+    const allocated = allocation
+      ? pickVariant(flagName, allocation, context)
+      : undefined;
+
+    return (allocated ?? stored?.variant ?? defaultValue) as V;
+  }
+
+  /**
+   * Get the variant of a context in an experiment.
+   * Unlike `variant`, the first variant given to a subject is saved in the store:
+   * the subject keeps it when the weights change, until the experiment ends.
+   * An exposure event is emitted on each call.
+   *
+   * The default value is returned when the feature flag doesn't exist, is
+   * inactive, or when the context has no value for the bucketing key.
+   * Once the experiment has ended, the stored variant (the winner) is returned.
+   *
+   * @param flagName The name of the feature flag.
+   * @param context The context of the subject.
+   * @param defaultValue The value returned when no variant applies.
+   * @throws {UnsupportedOperationError} If the store doesn't support experiment assignments.
+   *
+   * @example
+   * ```ts
+   * await features.setVariantAllocation("checkout:button", {
+   *   contextKey: "user.id",
+   *   variants: [{ value: "blue", weight: 50 }, { value: "green", weight: 50 }],
+   * });
+   *
+   * const color = await features.experiment("checkout:button", { user }, "blue");
+   * ```
+   */
+  async experiment<V extends VariantValue>(
+    flagName: string,
+    context: unknown,
+    defaultValue: V,
+  ): Promise<V> {
+    let evaluation: Evaluation;
+
+    try {
+      evaluation = await this.#track(
+        flagName,
+        context,
+        await this.#preloadNamespaced(flagName),
+      );
+    } catch (error) {
+      if (error instanceof FeatureNotExistsError) {
+        return defaultValue;
+      }
+      throw error;
+    }
+
+    if (!evaluation.result) {
+      return defaultValue;
+    }
+
+    const stored =
+      evaluation.stored ?? (await this.#getStoredFeature(flagName));
+    const allocation = stored?.config.variants;
+
+    if (!allocation) {
+      return (stored?.variant ?? defaultValue) as V;
+    }
+
+    const key = getContextValue(context, allocation.contextKey);
+    if (key === undefined || key === null) {
+      return defaultValue;
+    }
+
+    const store = this.#assignmentsStore();
+    const subjectKey = String(key);
+
+    let assignment = await store.getAssignment(flagName, subjectKey);
+    let firstExposure = false;
+
+    if (!assignment) {
+      const value = pickVariant(flagName, allocation, context);
+      if (value === undefined) {
+        return defaultValue;
+      }
+
+      const candidate = { subjectKey, value, assignedAt: this.clock() };
+      firstExposure = await store.addAssignment(flagName, candidate);
+
+      // Another process assigned the subject first
+      assignment = firstExposure
+        ? candidate
+        : ((await store.getAssignment(flagName, subjectKey)) ?? candidate);
+    }
+
+    this.emitter.emit("exposure", {
+      flag: flagName,
+      context,
+      subjectKey,
+      variant: assignment.value,
+      firstExposure,
+    });
+
+    return assignment.value as V;
+  }
+
+  /**
+   * Get the variant assigned to a subject of an experiment
+   *
+   * @param flagName The name of the feature flag.
+   * @param subjectKey The value of the bucketing context key.
+   */
+  async getAssignment(
+    flagName: string,
+    subjectKey: string,
+  ): Promise<ExperimentAssignment | undefined> {
+    return this.#assignmentsStore().getAssignment(flagName, subjectKey);
+  }
+
+  /**
+   * List the subjects assigned to a variant of an experiment
+   *
+   * @param flagName The name of the feature flag.
+   */
+  async listAssignments(flagName: string): Promise<ExperimentAssignment[]> {
+    return this.#assignmentsStore().listAssignments(flagName);
+  }
+
+  /**
+   * End an experiment: remove its variant allocation and release the assignments.
+   * When a winner is given, it becomes the variant of every context.
+   *
+   * @param flagName The name of the feature flag.
+   * @param winner The variant kept after the experiment.
+   */
+  async endExperiment(flagName: string, winner?: VariantValue): Promise<void> {
+    const store = this.#assignmentsStore();
+
+    if (winner !== undefined) {
+      await this.setVariant(flagName, winner);
+    }
+
+    await this.removeVariantAllocation(flagName);
+    await store.clearAssignments(flagName);
+  }
+
+  /**
+   * Store the variant value of a multivariate feature flag.
+   * The feature flag is created enabled if it doesn't exist.
+   *
+   * @param flagName The name of the feature flag.
+   * @param value A string, number or JSON variant.
+   * @param change The actor and reason recorded in the audit log.
+   */
+  async setVariant(
+    flagName: string,
+    value: VariantValue,
+    change?: ChangeOptions,
+  ): Promise<void> {
+    if (!this.store) {
+      throw new ProviderNotDefined();
+    }
+
+    if (!this.store.setVariant) {
+      throw new UnsupportedOperationError("variants");
+    }
+
+    const setVariant = this.store.setVariant.bind(this.store);
+    await this.#audited(flagName, "variant", change, () =>
+      this.#write(flagName, "variant", () => setVariant(flagName, value)),
+    );
+  }
+
+  /**
+   * Unset the stored variant value of a feature flag,
+   * `variant()` returns its default value again.
+   *
+   * @param flagName The name of the feature flag.
+   * @param change The actor and reason recorded in the audit log.
+   * @throws {ProviderNotDefined} If no store is defined.
+   * @throws {UnsupportedOperationError} If the store cannot unset variants.
+   */
+  async deleteVariant(flagName: string, change?: ChangeOptions): Promise<void> {
+    if (!this.store) {
+      throw new ProviderNotDefined();
+    }
+
+    if (!this.store.deleteVariant) {
+      throw new UnsupportedOperationError("variants");
+    }
+
+    const deleteVariant = this.store.deleteVariant.bind(this.store);
+    await this.#audited(flagName, "variant", change, () =>
+      this.#write(flagName, "variant", () => deleteVariant(flagName)),
+    );
+  }
+
+  /**
+   * Split the contexts of a feature flag between weighted variants.
+   * Contexts are bucketed like percentage rollouts: a context keeps its variant
+   * as long as the weights don't change.
+   *
+   * @param flagName The name of the feature flag.
+   * @param allocation The weighted variants and the context key used for bucketing.
+   * @throws {InvalidVariantError} If the allocation is not valid.
+   *
+   * @example
+   * ```ts
+   * await features.setVariantAllocation("checkout:layout", {
+   *   contextKey: "user.id",
+   *   variants: [
+   *     { value: "A", weight: 50 },
+   *     { value: "B", weight: 30 },
+   *     { value: "C", weight: 20 },
+   *   ],
+   * });
+   * ```
+   */
+  async setVariantAllocation(
+    flagName: string,
+    allocation: VariantAllocation,
+  ): Promise<void> {
+    assertValidAllocation(allocation);
+
+    await this.#updateConfig(flagName, (config) => ({
+      ...config,
+      variants: allocation,
+    }));
+  }
+
+  /**
+   * Remove the weighted variant allocation of a feature flag
+   *
+   * @param flagName The name of the feature flag.
+   */
+  async removeVariantAllocation(flagName: string): Promise<void> {
+    await this.#updateConfig(flagName, ({ variants: _, ...config }) => config);
+  }
+
+  /**
+   * Replace the whole stored configuration of a feature flag, to restore it
+   * from an export. Each part is validated like by its own setter.
+   *
+   * @param flagName The name of the feature flag.
+   * @param config The rollout, ramp, rules, variants, prerequisites and schedule.
+   * @param change The actor and reason recorded in the audit log.
+   * @throws {ProviderNotDefined} If no store is defined.
+   * @throws {UnsupportedOperationError} If the store cannot save a configuration.
+   */
+  async setConfig(
+    flagName: string,
+    config: FeatureConfig,
+    change?: ChangeOptions,
+  ): Promise<void> {
+    await this.#assertValidConfig(flagName, config);
+    await this.#updateConfig(flagName, () => config, change);
+  }
+
+  /**
+   * Validate each part of a configuration like its own setter does
+   */
+  async #assertValidConfig(
+    flagName: string,
+    config: FeatureConfig,
+  ): Promise<void> {
+    if (config.rollout) {
+      assertValidRollout(config.rollout);
+    }
+
+    if (config.ramp) {
+      assertValidRamp(config.ramp);
+    }
+
+    if (config.rules) {
+      assertValidRule(config.rules);
+    }
+
+    if (config.variants) {
+      assertValidAllocation(config.variants);
+    }
+
+    if (config.schedule) {
+      assertValidSchedule(config.schedule);
+    }
+
+    if (config.prerequisites) {
+      assertValidPrerequisites(config.prerequisites);
+
+      const dependencies = [
+        ...(this.prerequisiteMap.get(flagName) ?? []),
+        ...config.prerequisites,
+      ];
+      const stored = await this.#loadPrerequisiteGraph(dependencies);
+      this.#assertNoCycle(flagName, dependencies, stored);
+    }
+  }
+
+  /**
+   * Export every stored feature flag with its configuration, variant,
+   * metadata and overrides, to restore it or copy it to another environment.
+   *
+   * @throws {ProviderNotDefined} If no store is defined.
+   * @throws {UnsupportedOperationError} If the store cannot list its flags.
+   *
+   * @example
+   * ```ts
+   * await writeFile("flags.snapshot.json", JSON.stringify(await features.exportSnapshot()));
+   * ```
+   */
+  async exportSnapshot(): Promise<Snapshot> {
+    if (!this.store) {
+      throw new ProviderNotDefined();
+    }
+
+    return createSnapshot(this.store, this.clock());
+  }
+
+  /**
+   * Make the stored feature flags match a snapshot: missing flags are
+   * created and differing flags are updated, only the parts that changed
+   * are written. Stored flags missing from the snapshot are kept unless
+   * `prune` is set.
+   *
+   * @param snapshot A snapshot exported by exportSnapshot() or createSnapshot().
+   * @param options Set `dryRun` to only compute the changes.
+   * @returns The changes applied, or that would be applied with `dryRun`.
+   * @throws {InvalidSnapshotError} If the snapshot is not valid.
+   * @throws {InvalidRuleError} Or the errors of the other setters when a
+   * configuration is not valid, nothing is written then.
+   * @throws {ProviderNotDefined} If no store is defined.
+   *
+   * @example
+   * ```ts
+   * // Copy the flags of a Knex store to a DynamoDB store
+   * const target = new FeatureManager({ store: dynamoStore });
+   * await target.importSnapshot(await createSnapshot(knexStore), { prune: true });
+   * ```
+   */
+  async importSnapshot(
+    snapshot: Snapshot,
+    options: ImportSnapshotOptions = {},
+  ): Promise<SnapshotDiff> {
+    if (!this.store) {
+      throw new ProviderNotDefined();
+    }
+
+    const changes = await diff(parseSnapshot(snapshot), this.store);
+    const applied = {
+      ...changes,
+      removed: options.prune ? changes.removed : [],
+    };
+
+    if (options.dryRun) {
+      return applied;
+    }
+
+    const imported = [...applied.added, ...applied.changed];
+
+    // Every flag is validated before the first write
+    for (const { flag, source, fields } of imported) {
+      if (fields.includes("config")) {
+        await this.#assertValidConfig(
+          flag,
+          (source as SnapshotFlag).config ?? {},
+        );
+      }
+    }
+
+    for (const change of imported) {
+      await this.#importFlag(change, options.change);
+    }
+
+    for (const { flag } of applied.removed) {
+      await this.delete(flag, options.change);
+    }
+
+    return applied;
+  }
+
+  /**
+   * Write the parts of a snapshot flag differing from the stored flag
+   */
+  async #importFlag(
+    { flag: flagName, source, target, fields }: FlagChange,
+    change?: ChangeOptions,
+  ): Promise<void> {
+    const flag = source as SnapshotFlag;
+
+    if (fields.includes("value")) {
+      await this.set(flagName, flag.value, change);
+    }
+
+    if (fields.includes("config")) {
+      await this.setConfig(flagName, flag.config ?? {}, change);
+    }
+
+    if (fields.includes("variant")) {
+      if (flag.variant === undefined) {
+        await this.deleteVariant(flagName, change);
+      } else {
+        await this.setVariant(flagName, flag.variant, change);
+      }
+    }
+
+    if (fields.includes("metadata")) {
+      await this.setMetadata(flagName, flag.metadata ?? {}, change);
+    }
+
+    if (fields.includes("overrides")) {
+      const overrides = flag.overrides ?? {};
+      const previous = target?.overrides ?? {};
+
+      for (const [contextKey, value] of Object.entries(overrides)) {
+        if (previous[contextKey] !== value) {
+          await this.setOverride(flagName, contextKey, value, change);
+        }
+      }
+
+      for (const contextKey of Object.keys(previous)) {
+        if (!Object.hasOwn(overrides, contextKey)) {
+          await this.deleteOverride(flagName, contextKey, change);
+        }
+      }
+    }
+  }
+
+  /**
+   * Roll out a feature flag to a percentage of the contexts.
+   * The rollout is saved in the storage provider, so it can be changed at runtime.
+   *
+   * Contexts are bucketed with a stable hash of the context key and the flag name:
+   * raising the percentage never removes contexts that were already in.
+   *
+   * @param flagName The name of the feature flag.
+   * @param rollout The percentage and the context key used for bucketing.
+   * @throws {InvalidRolloutError} If the percentage or the context key are not valid.
+   *
+   * @example
+   * ```ts
+   * await features.setRollout("checkout:v2", { percentage: 25, contextKey: "user.id" });
+   * ```
+   */
+  async setRollout(flagName: string, rollout: Rollout): Promise<void> {
+    assertValidRollout(rollout);
+
+    await this.#updateConfig(flagName, ({ ramp: _, ...config }) => ({
+      ...config,
+      rollout,
+    }));
+  }
+
+  /**
+   * Remove the percentage rollout of a feature flag
+   *
+   * @param flagName The name of the feature flag.
+   */
+  async removeRollout(flagName: string): Promise<void> {
+    await this.#updateConfig(flagName, ({ rollout: _, ...config }) => config);
+  }
+
+  /**
+   * Raise the rollout percentage of a feature flag over time: the effective
+   * percentage is the last step reached, computed at evaluation time with the
+   * clock of the manager. It replaces the static rollout of the flag.
+   *
+   * Contexts are bucketed like a static rollout, contexts that are in stay in
+   * while the ramp progresses.
+   *
+   * @param flagName The name of the feature flag.
+   * @param ramp The steps, the context key used for bucketing and the start of the ramp.
+   * @throws {InvalidRolloutError} If the ramp is not valid.
+   *
+   * @example
+   * ```ts
+   * const day = 24 * 60 * 60 * 1000;
+   *
+   * await features.setRamp("checkout:v2", {
+   *   contextKey: "user.id",
+   *   steps: [
+   *     { percentage: 1, after: 0 },
+   *     { percentage: 10, after: day },
+   *     { percentage: 50, after: 3 * day },
+   *     { percentage: 100, after: 7 * day },
+   *   ],
+   * });
+   * ```
+   */
+  async setRamp(flagName: string, ramp: RampDefinition): Promise<void> {
+    const stored: Ramp = {
+      contextKey: ramp.contextKey,
+      steps: ramp.steps,
+      startedAt: ramp.startedAt ?? this.clock().toISOString(),
+    };
+    assertValidRamp(stored);
+
+    await this.#updateConfig(flagName, ({ rollout: _, ...config }) => ({
+      ...config,
+      ramp: stored,
+    }));
+  }
+
+  /**
+   * Get the effective percentage and the state of the ramp of a feature flag
+   *
+   * @param flagName The name of the feature flag.
+   * @returns The status or undefined if the flag has no ramp.
+   */
+  async getRamp(flagName: string): Promise<RampStatus | undefined> {
+    const ramp = (await this.#getStoredFeature(flagName))?.config.ramp;
+
+    if (!ramp) {
+      return undefined;
+    }
+
+    const now = this.clock();
+
+    return {
+      percentage: getRampRollout(ramp, now).percentage,
+      step: getRampStep(ramp, now),
+      paused: ramp.pausedAt !== undefined || ramp.halt !== undefined,
+      halt: ramp.halt,
+    };
+  }
+
+  /**
+   * Freeze the percentage of a ramp until it is resumed
+   *
+   * @param flagName The name of the feature flag.
+   * @throws {InvalidRolloutError} If the flag has no ramp.
+   */
+  async pauseRamp(flagName: string): Promise<void> {
+    await this.#updateRamp(flagName, pauseRamp);
+  }
+
+  /**
+   * Set a halt marker on a ramp, for example from an alert: the ramp stops
+   * progressing until it is resumed
+   *
+   * @param flagName The name of the feature flag.
+   * @param reason Why the ramp was halted.
+   * @throws {InvalidRolloutError} If the flag has no ramp.
+   */
+  async haltRamp(flagName: string, reason?: string): Promise<void> {
+    await this.#updateRamp(flagName, (ramp, now) =>
+      haltRamp(ramp, now, reason),
+    );
+  }
+
+  /**
+   * Continue a paused or halted ramp from the percentage it had reached,
+   * the halt marker is removed
+   *
+   * @param flagName The name of the feature flag.
+   * @throws {InvalidRolloutError} If the flag has no ramp.
+   */
+  async resumeRamp(flagName: string): Promise<void> {
+    await this.#updateRamp(flagName, resumeRamp);
+  }
+
+  /**
+   * Go back to the previous step of a ramp and pause it,
+   * the contexts added by the current step are removed
+   *
+   * @param flagName The name of the feature flag.
+   * @throws {InvalidRolloutError} If the flag has no ramp.
+   */
+  async rollbackRamp(flagName: string): Promise<void> {
+    await this.#updateRamp(flagName, rollbackRamp);
+  }
+
+  /**
+   * Remove the ramp of a feature flag
+   *
+   * @param flagName The name of the feature flag.
+   */
+  async removeRamp(flagName: string): Promise<void> {
+    await this.#updateConfig(flagName, ({ ramp: _, ...config }) => config);
+  }
+
+  /**
+   * Target a feature flag with a declarative rule evaluated against the context.
+   * The rule is saved in the storage provider, so targeting can change without a deploy.
+   *
+   * @param flagName The name of the feature flag.
+   * @param rules A JSON serializable rule.
+   * @throws {InvalidRuleError} If the rule is not valid.
+   *
+   * @example
+   * ```ts
+   * await features.setRules("checkout:v2", {
+   *   and: [
+   *     { attribute: "user.country", operator: "in", value: ["FR", "BE"] },
+   *     { attribute: "app.version", operator: "semverGte", value: "2.4.0" },
+   *   ],
+   * });
+   * ```
+   */
+  async setRules(flagName: string, rules: Rule): Promise<void> {
+    assertValidRule(rules);
+
+    await this.#updateConfig(flagName, (config) => ({ ...config, rules }));
+  }
+
+  /**
+   * Remove the targeting rule of a feature flag
+   *
+   * @param flagName The name of the feature flag.
+   */
+  async removeRules(flagName: string): Promise<void> {
+    await this.#updateConfig(flagName, ({ rules: _, ...config }) => config);
+  }
+
+  /**
+   * Activate a feature flag between two instants and/or during recurring windows.
+   * The schedule is saved in the storage provider and checked by active()
+   * with the clock of the manager.
+   *
+   * @param flagName The name of the feature flag.
+   * @param schedule The start and end instants, the windows and their time zone.
+   * @throws {InvalidScheduleError} If the schedule is not valid.
+   *
+   * @example
+   * ```ts
+   * await features.setSchedule("black-friday:banner", {
+   *   start: "2025-11-28T00:00:00+01:00",
+   *   end: "2025-12-01T00:00:00+01:00",
+   * });
+   *
+   * await features.setSchedule("support:chat", {
+   *   windows: [{ start: "09:00", end: "18:00", days: ["mon", "tue", "wed", "thu", "fri"] }],
+   *   timeZone: "Europe/Paris",
+   * });
+   * ```
+   */
+  async setSchedule(flagName: string, schedule: Schedule): Promise<void> {
+    assertValidSchedule(schedule);
+
+    await this.#updateConfig(flagName, (config) => ({ ...config, schedule }));
+  }
+
+  /**
+   * Remove the schedule of a feature flag
+   *
+   * @param flagName The name of the feature flag.
+   */
+  async removeSchedule(flagName: string): Promise<void> {
+    await this.#updateConfig(flagName, ({ schedule: _, ...config }) => config);
+  }
+
+  /**
+   * Make a feature flag depend on other flags: it is only active for a context
+   * when each prerequisite flag has the required result for the same context.
+   * The prerequisites are saved in the storage provider, with the ones given to define().
+   *
+   * @param flagName The name of the feature flag.
+   * @param prerequisites The flags and their required results.
+   * @throws {InvalidPrerequisiteError} If a prerequisite is not valid.
+   * @throws {PrerequisiteCycleError} If the prerequisites lead back to the flag.
+   *
+   * @example
+   * ```ts
+   * await features.setPrerequisites("checkout:express", [
+   *   { flag: "checkout:v2", value: true },
+   *   { flag: "checkout:maintenance", value: false },
+   * ]);
+   * ```
+   */
+  async setPrerequisites(
+    flagName: string,
+    prerequisites: Prerequisite[],
+  ): Promise<void> {
+    assertValidPrerequisites(prerequisites);
+
+    const dependencies = [
+      ...(this.prerequisiteMap.get(flagName) ?? []),
+      ...prerequisites,
+    ];
+    const stored = await this.#loadPrerequisiteGraph(dependencies);
+    this.#assertNoCycle(flagName, dependencies, stored);
+
+    await this.#updateConfig(flagName, (config) => ({
+      ...config,
+      prerequisites,
+    }));
+  }
+
+  /**
+   * Remove the stored prerequisites of a feature flag
+   *
+   * @param flagName The name of the feature flag.
+   */
+  async removePrerequisites(flagName: string): Promise<void> {
+    await this.#updateConfig(
+      flagName,
+      ({ prerequisites: _, ...config }) => config,
+    );
+  }
+
+  /**
+   * Store a feature flag value for a single context key.
+   * Overrides are checked before the global value of the feature flag.
+   *
+   * @param flagName The name of the feature flag.
+   * @param contextKey The context key, as returned by the `overrideKeys` resolver.
+   * @param value The value of the feature flag for this context key.
+   * @param change The actor and reason recorded in the audit log.
+   *
+   * @example
+   * ```ts
+   * const features = featureManager({
+   *   store,
+   *   overrideKeys: (ctx: { tenant: { id: number } }) => `tenant:${ctx.tenant.id}`,
+   * });
+   *
+   * await features.setOverride("billing:new-invoices", "tenant:42", true);
+   * ```
+   */
+  async setOverride(
+    flagName: string,
+    contextKey: string,
+    value: boolean,
+    change?: ChangeOptions,
+  ): Promise<void> {
+    const store = this.#overridesStore();
+
+    await this.#auditedOverrides(
+      flagName,
+      "override",
+      [contextKey],
+      change,
+      () => store.setOverride(flagName, contextKey, value),
+    );
+    this.emitter.emit("stored", { flag: flagName, value, contextKey });
+  }
+
+  /**
+   * Delete the override of a feature flag for a single context key
+   *
+   * @param flagName The name of the feature flag.
+   * @param contextKey The context key of the override.
+   * @param change The actor and reason recorded in the audit log.
+   */
+  async deleteOverride(
+    flagName: string,
+    contextKey: string,
+    change?: ChangeOptions,
+  ): Promise<void> {
+    const store = this.#overridesStore();
+
+    await this.#auditedOverrides(
+      flagName,
+      "override",
+      [contextKey],
+      change,
+      () => store.deleteOverride(flagName, contextKey),
+    );
+  }
+
+  /**
+   * List the overrides of a feature flag
+   *
+   * @param flagName The name of the feature flag.
+   */
+  async listOverrides(flagName: string): Promise<FeatureOverride[]> {
+    return this.#overridesStore().listOverrides(flagName);
+  }
+
+  /**
+   * Delete all the overrides of a feature flag
+   *
+   * @param flagName The name of the feature flag.
+   * @param change The actor and reason recorded in the audit log.
+   */
+  async clearOverrides(
+    flagName: string,
+    change?: ChangeOptions,
+  ): Promise<void> {
+    const store = this.#overridesStore();
+
+    await this.#auditedOverrides(flagName, "override", undefined, change, () =>
+      store.clearOverrides(flagName),
+    );
+  }
+
+  /**
+   * Evaluate a feature flag and emit the evaluated or error event
+   */
+  async #track(
+    flagName: string,
+    context: unknown,
+    load?: StoredFeatureLoader,
+  ): Promise<Evaluation> {
+    const start = performance.now();
+
+    try {
+      const evaluation = await this.#evaluate(flagName, context, load);
+      this.#afterEvaluation(flagName, evaluation);
+
+      if (this.emitter.hasListeners("evaluated")) {
+        this.emitter.emit("evaluated", {
+          flag: flagName,
+          context,
+          result: evaluation.result,
+          source: evaluation.source,
+          layer: evaluation.stored?.layer,
+          duration: performance.now() - start,
+        });
+      }
+
+      return evaluation;
+    } catch (error) {
+      this.emitter.emit("error", {
+        flag: flagName,
+        operation: "evaluate",
+        error,
+      });
+      throw error;
+    }
+  }
+
+  /**
+   * Track the usage of an evaluated flag and warn if it is expired
+   */
+  #afterEvaluation(flagName: string, evaluation: Evaluation): void {
+    const now = this.clock();
+
+    if (this.usageInterval !== undefined) {
+      this.usage.set(
+        flagName,
+        recordEvaluation(this.usage.get(flagName), evaluation.result, now),
+      );
+      this.#unsavedUsage.add(flagName);
+
+      const savedAt = this.#usageSavedAt.get(flagName);
+      if (
+        savedAt === undefined ||
+        now.getTime() - savedAt >= this.usageInterval
+      ) {
+        this.#saveUsage(flagName);
+      }
+    }
+
+    const expiresAt = this.#mergeMetadata(
+      flagName,
+      evaluation.stored,
+    )?.expiresAt;
+
+    if (
+      expiresAt !== undefined &&
+      isPast(expiresAt, now.getTime()) &&
+      !this.#warnedExpired.has(flagName)
+    ) {
+      this.#warnedExpired.add(flagName);
+      this.logger?.warn(
+        `Feature flag '${flagName}' expired on ${expiresAt}, it should be removed`,
+      );
+      this.emitter.emit("expired", { flag: flagName, expiresAt });
+    }
+  }
+
+  /**
+   * Save the usage of a flag in the background, flags that are not stored
+   * are only tracked in memory. Failures are emitted to the error event.
+   */
+  #saveUsage(flagName: string): void {
+    const store = this.store;
+    const recordUsage = store?.recordUsage?.bind(store);
+
+    if (!store?.getFeature || !recordUsage) {
+      return;
+    }
+
+    this.#usageSavedAt.set(flagName, this.clock().getTime());
+    this.#unsavedUsage.delete(flagName);
+
+    const promise = this.#writeUsage(flagName, store, recordUsage).finally(() =>
+      this.#pendingUsageSaves.delete(promise),
+    );
+    this.#pendingUsageSaves.add(promise);
+  }
+
+  async #writeUsage(
+    flagName: string,
+    store: FeatureStorageProvider,
+    recordUsage: (flag: string, usage: FeatureUsage) => Promise<void>,
+  ): Promise<void> {
+    try {
+      const stored = await store.getFeature?.(flagName);
+      const usage = mergeUsage(stored?.usage, this.usage.get(flagName));
+
+      if (stored && usage) {
+        await recordUsage(flagName, usage);
+      }
+    } catch (error) {
+      this.emitter.emit("error", { flag: flagName, operation: "usage", error });
+    }
+  }
+
+  /**
+   * Run a change and record the previous and next states of the flag
+   * when the store has an audit log
+   */
+  async #audited(
+    flagName: string,
+    action: AuditAction,
+    change: ChangeOptions | undefined,
+    callback: () => Promise<void>,
+  ): Promise<void> {
+    if (!this.store?.appendAudit) {
+      await callback();
+      return;
+    }
+
+    const previous = await this.#getTargetFeature(flagName);
+    await callback();
+    const next = await this.#getTargetFeature(flagName);
+
+    await this.#appendAudit(flagName, action, change, previous, next);
+  }
+
+  /**
+   * Run a change of overrides and record the overrides before and after
+   * when the store has an audit log. Only the given context keys are
+   * compared, or every override of the flag without keys.
+   */
+  async #auditedOverrides(
+    flagName: string,
+    action: AuditAction,
+    contextKeys: string[] | undefined,
+    change: ChangeOptions | undefined,
+    callback: () => Promise<void>,
+  ): Promise<void> {
+    const store = this.#overridesStore();
+    const write = () => this.#write(flagName, "override", callback);
+
+    if (!this.store?.appendAudit) {
+      await write();
+      return;
+    }
+
+    const read = async () => {
+      const overrides: Record<string, boolean> = {};
+
+      if (!contextKeys) {
+        for (const { contextKey, value } of await store.listOverrides(
+          flagName,
+        )) {
+          overrides[contextKey] = value;
+        }
+        return overrides;
+      }
+
+      for (const contextKey of contextKeys) {
+        const value = await store.getOverride(flagName, contextKey);
+        if (value !== undefined) {
+          overrides[contextKey] = value;
+        }
+      }
+      return overrides;
+    };
+
+    const previous = await read();
+    await write();
+    const next = await read();
+    const stored = await this.#getTargetFeature(flagName);
+
+    await this.#appendAudit(flagName, action, change, stored, stored, {
+      previous,
+      next,
+    });
+  }
+
+  /**
+   * Restore the overrides recorded by an override audit entry
+   */
+  async #revertOverrides(
+    flagName: string,
+    { previous, next }: OverridesChange,
+    change: ChangeOptions,
+  ): Promise<void> {
+    const store = this.#overridesStore();
+    const keys = [...new Set([...Object.keys(previous), ...Object.keys(next)])];
+
+    await this.#auditedOverrides(flagName, "revert", keys, change, async () => {
+      for (const key of keys) {
+        const value = next[key];
+
+        if (value === undefined) {
+          await store.deleteOverride(flagName, key);
+        } else {
+          await store.setOverride(flagName, key, value);
+        }
+      }
+    });
+  }
+
+  /**
+   * Append an entry to the audit log, when the store has one
+   */
+  async #appendAudit(
+    flagName: string,
+    action: AuditAction,
+    change: ChangeOptions | undefined,
+    previous: StoredFeature | undefined,
+    next: StoredFeature | undefined,
+    overrides?: OverridesChange,
+  ): Promise<void> {
+    const store = this.store;
+    const appendAudit = store?.appendAudit?.bind(store);
+
+    if (!appendAudit) {
+      return;
+    }
+
+    const changedAt = this.clock();
+
+    await this.#write(flagName, "audit", () =>
+      appendAudit({
+        id: createAuditId(changedAt),
+        flag: flagName,
+        action,
+        actor: change?.actor,
+        reason: change?.reason,
+        previous: toFeatureState(previous),
+        next: toFeatureState(next),
+        overrides,
+        changedAt,
+      }),
+    );
+  }
+
+  /**
+   * Forget the definition and the usage of a feature flag
+   */
+  #forget(flagName: string): void {
+    this.featureMap.delete(flagName);
+    this.metadataMap.delete(flagName);
+    this.prerequisiteMap.delete(flagName);
+    this.usage.delete(flagName);
+    this.#unsavedUsage.delete(flagName);
+  }
+
+  /**
+   * Prefix of the feature flags of a namespace
+   */
+  #namespacePrefix(namespace: string): string {
+    if (namespace === "" || namespace.includes(":")) {
+      throw new Error(`Invalid namespace '${namespace}'`);
+    }
+
+    return `${namespace}:`;
+  }
+
+  /**
+   * Name of the stored flag turning off a namespace
+   */
+  #namespaceSwitch(namespace: string): string {
+    return `${this.#namespacePrefix(namespace)}${NAMESPACE_SWITCH}`;
+  }
+
+  /**
+   * Check if the namespace of a feature flag is turned off
+   */
+  async #namespaceDisabled(
+    flagName: string,
+    load: StoredFeatureLoader,
+  ): Promise<boolean> {
+    const { context } = parseFeatureName(flagName);
+
+    if (context === undefined || !this.store) {
+      return false;
+    }
+
+    const stored = await load(this.#namespaceSwitch(context));
+    return stored?.value === false;
+  }
+
+  /**
+   * Run a store operation, failures are emitted to the error event then rethrown
+   */
+  async #write(
+    flagName: string,
+    operation: string,
+    callback: () => Promise<void>,
+  ): Promise<void> {
+    try {
+      await callback();
+    } catch (error) {
+      this.emitter.emit("error", { flag: flagName, operation, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Evaluate a feature flag with the context of the request scope when
+   * no context is given, the result is memoized for the life of the scope
+   */
+  #memoized(
+    flagName: string,
+    context: unknown,
+    evaluate: (context: unknown) => Promise<boolean>,
+  ): Promise<boolean> {
+    const scope =
+      context === undefined ? this.#requestScope.getStore() : undefined;
+
+    if (!scope) {
+      return evaluate(context);
+    }
+
+    let result = scope.results.get(flagName);
+
+    if (!result) {
+      result = evaluate(scope.context);
+      scope.results.set(flagName, result);
+      // A failed evaluation is retried by the next call
+      result.catch(() => scope.results.delete(flagName));
+    }
+
+    return result;
+  }
+
+  /**
+   * Evaluate several feature flags concurrently
+   */
+  async #evaluateMany(
+    flagNames: string[],
+    context: unknown,
+    load?: StoredFeatureLoader,
+  ): Promise<Record<string, boolean>> {
+    const results: Record<string, boolean> = {};
+
+    await Promise.all(
+      flagNames.map(async (flagName) => {
+        results[flagName] = await this.#memoized(
+          flagName,
+          context,
+          async (context) => {
+            const { result } = await this.#track(flagName, context, load);
+            return result;
+          },
+        );
+      }),
+    );
+
+    return results;
+  }
+
+  /**
+   * Read stored feature flags in a single batch when the store supports it
+   */
+  async #preload(
+    flagNames: string[],
+  ): Promise<StoredFeatureLoader | undefined> {
+    if (!this.store?.getMany || flagNames.length === 0) {
+      return undefined;
+    }
+
+    // The namespace switches are read in the same batch
+    const switches = flagNames.flatMap((flagName) => {
+      const { context } = parseFeatureName(flagName);
+      return context === undefined ? [] : [this.#namespaceSwitch(context)];
+    });
+    const requested = new Set([...flagNames, ...switches]);
+    const features = await this.store.getMany([...requested]);
+
+    // Prerequisites outside of the batch are read from the store
+    return async (flagName) =>
+      requested.has(flagName)
+        ? features.get(flagName)
+        : this.#getStoredFeature(flagName);
+  }
+
+  /**
+   * Read a namespaced feature flag with its namespace switch in a single batch
+   */
+  async #preloadNamespaced(
+    flagName: string,
+  ): Promise<StoredFeatureLoader | undefined> {
+    if (parseFeatureName(flagName).context === undefined) {
+      return undefined;
+    }
+
+    return this.#preload([flagName]);
+  }
+
+  /**
+   * Evaluate a feature flag, the stored feature is returned when it has been read.
+   * The namespace switch is checked first, then the overrides, the flag and
+   * finally its prerequisites.
+   *
+   * @param dependents The flags being evaluated that depend on this flag
+   */
+  async #evaluate(
+    flagName: string,
+    context: unknown,
+    load: StoredFeatureLoader = (name) => this.#getStoredFeature(name),
+    dependents: string[] = [],
+  ): Promise<Evaluation> {
+    if (await this.#namespaceDisabled(flagName, load)) {
+      return { result: false, source: "namespace" };
+    }
+
+    const override = await this.#getOverride(flagName, context);
+    if (override !== undefined) {
+      return { result: override, source: "override" };
+    }
+
+    const evaluation = await this.#evaluateFlag(flagName, context, load);
+
+    if (
+      evaluation.result &&
+      !(await this.#prerequisitesMet(
+        flagName,
+        evaluation.stored,
+        context,
+        load,
+        dependents,
+      ))
+    ) {
+      return {
+        result: false,
+        source: "prerequisite",
+        stored: evaluation.stored,
+      };
+    }
+
+    return evaluation;
+  }
+
+  /**
+   * Evaluate the definition or the stored value and configuration of a feature flag
+   */
+  async #evaluateFlag(
+    flagName: string,
+    context: unknown,
+    load: StoredFeatureLoader,
+  ): Promise<Evaluation> {
+    if (!this.featureMap.has(flagName)) {
+      const stored = await load(flagName);
+      if (stored !== undefined) {
+        return {
+          result:
+            stored.value && this.#applyConfig(flagName, stored.config, context),
+          source: "store",
+          stored,
+        };
+      }
+
+      throw new FeatureNotExistsError(
+        `Feature flag '${flagName}' is not defined`,
+      );
+    }
+    const check = this.featureMap.get(flagName);
+
+    const result = check === undefined ? true : await check(context);
+
+    if (!result || !this.store) {
+      return { result, source: "definition" };
+    }
+
+    // A stored false turns a defined flag off, a stored true keeps its check
+    const stored = await load(flagName);
+    if (stored?.value === false) {
+      return { result: false, source: "store", stored };
+    }
+
+    return {
+      result: this.#applyConfig(flagName, stored?.config, context),
+      source: "definition",
+      stored,
+    };
+  }
+
+  /**
+   * Check that every prerequisite flag has its required result for the context.
+   * Inferred parents are only checked when they are defined or stored.
+   *
+   * @throws {PrerequisiteCycleError} If stored prerequisites lead back to a flag being evaluated.
+   */
+  async #prerequisitesMet(
+    flagName: string,
+    stored: StoredFeature | undefined,
+    context: unknown,
+    load: StoredFeatureLoader,
+    dependents: string[],
+  ): Promise<boolean> {
+    const path = [...dependents, flagName];
+    const prerequisites = [
+      ...(this.prerequisiteMap.get(flagName) ?? []),
+      ...(stored?.config.prerequisites ?? []),
+    ];
+
+    const parent = this.inferPrerequisites
+      ? getParentFlag(flagName)
+      : undefined;
+
+    if (
+      parent !== undefined &&
+      !prerequisites.some(({ flag }) => flag === parent) &&
+      (this.featureMap.has(parent) || (await load(parent)) !== undefined)
+    ) {
+      prerequisites.push({ flag: parent, value: true });
+    }
+
+    for (const prerequisite of prerequisites) {
+      if (path.includes(prerequisite.flag)) {
+        throw new PrerequisiteCycleError([
+          ...path.slice(path.indexOf(prerequisite.flag)),
+          prerequisite.flag,
+        ]);
+      }
+
+      const { result } = await this.#evaluate(
+        prerequisite.flag,
+        context,
+        load,
+        path,
+      );
+
+      if (result !== prerequisite.value) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Ensure new prerequisites of a flag don't lead back to it
+   *
+   * @param stored The stored prerequisites of the flags reachable from the new ones
+   * @throws {PrerequisiteCycleError}
+   */
+  #assertNoCycle(
+    flagName: string,
+    prerequisites: Prerequisite[],
+    stored = new Map<string, Prerequisite[]>(),
+  ): void {
+    const cycle = findPrerequisiteCycle(flagName, (name) => {
+      const dependencies =
+        name === flagName
+          ? prerequisites
+          : [
+              ...(this.prerequisiteMap.get(name) ?? []),
+              ...(stored.get(name) ?? []),
+            ];
+      const parent = this.inferPrerequisites ? getParentFlag(name) : undefined;
+
+      return [
+        ...dependencies.map(({ flag }) => flag),
+        ...(parent === undefined ? [] : [parent]),
+      ];
+    });
+
+    if (cycle) {
+      throw new PrerequisiteCycleError(cycle);
+    }
+  }
+
+  /**
+   * Read the stored prerequisites of the flags reachable from the given ones
+   */
+  async #loadPrerequisiteGraph(
+    prerequisites: Prerequisite[],
+  ): Promise<Map<string, Prerequisite[]>> {
+    const graph = new Map<string, Prerequisite[]>();
+    const pending = prerequisites.map(({ flag }) => flag);
+
+    while (pending.length > 0) {
+      const flagName = pending.pop() as string;
+
+      if (graph.has(flagName)) {
+        continue;
+      }
+
+      const stored = await this.#getStoredFeature(flagName);
+      const dependencies = [
+        ...(stored?.config.prerequisites ?? []),
+        ...(this.prerequisiteMap.get(flagName) ?? []),
+      ];
+      graph.set(flagName, stored?.config.prerequisites ?? []);
+
+      const parent = this.inferPrerequisites
+        ? getParentFlag(flagName)
+        : undefined;
+      pending.push(
+        ...dependencies.map(({ flag }) => flag),
+        ...(parent === undefined ? [] : [parent]),
+      );
+    }
+
+    return graph;
+  }
+
+  /**
+   * Get the first stored override matching the context keys
+   */
+  async #getOverride(
+    flagName: string,
+    context: unknown,
+  ): Promise<boolean | undefined> {
+    if (!this.overrideKeys || !this.store?.getOverride) {
+      return undefined;
+    }
+
+    const resolved = this.overrideKeys(context);
+    const keys = Array.isArray(resolved) ? resolved : [resolved];
+
+    for (const key of keys) {
+      if (key === undefined) {
+        continue;
+      }
+
+      const value = await this.store.getOverride(flagName, key);
+      if (value !== undefined) {
+        return value;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Get the store, ensuring it supports per-context overrides
+   */
+  #overridesStore(): OverridesStore {
+    if (!this.store) {
+      throw new ProviderNotDefined();
+    }
+
+    if (
+      !this.store.getOverride ||
+      !this.store.setOverride ||
+      !this.store.deleteOverride ||
+      !this.store.listOverrides ||
+      !this.store.clearOverrides
+    ) {
+      throw new UnsupportedOperationError("per-context overrides");
+    }
+
+    return this.store as OverridesStore;
+  }
+
+  /**
+   * Get the store, ensuring it supports experiment assignments
+   */
+  #assignmentsStore(): AssignmentsStore {
+    if (!this.store) {
+      throw new ProviderNotDefined();
+    }
+
+    if (
+      !this.store.addAssignment ||
+      !this.store.getAssignment ||
+      !this.store.listAssignments ||
+      !this.store.clearAssignments
+    ) {
+      throw new UnsupportedOperationError("experiment assignments");
+    }
+
+    return this.store as AssignmentsStore;
+  }
+
+  /**
+   * Get a stored feature flag, falling back on the value for providers
+   * without configuration support
+   */
+  async #getStoredFeature(flagName: string): Promise<StoredFeature | undefined> {
+    if (!this.store) {
+      return undefined;
+    }
+
+    if (this.store.getFeature) {
+      return this.store.getFeature(flagName);
+    }
+
+    const value = await this.store.get(flagName);
+    return value === undefined ? undefined : { value, config: {} };
+  }
+
+  /**
+   * Read a feature flag from where the writes go, to compute a change
+   * or record its state in the audit log
+   */
+  async #getTargetFeature(
+    flagName: string,
+  ): Promise<StoredFeature | undefined> {
+    if (this.store?.getTargetFeature) {
+      return this.store.getTargetFeature(flagName);
+    }
+
+    return this.#getStoredFeature(flagName);
+  }
+
+  /**
+   * Merge the metadata given to define() with the stored metadata
+   */
+  #mergeMetadata(
+    flagName: string,
+    stored: StoredFeature | undefined,
+  ): FeatureMetadata | undefined {
+    const defined = this.metadataMap.get(flagName);
+
+    if (!defined && !stored?.metadata) {
+      return undefined;
+    }
+
+    return { ...defined, ...stored?.metadata };
+  }
+
+  /**
+   * Apply the stored evaluation configuration to an enabled feature flag
+   */
+  #applyConfig(
+    flagName: string,
+    config: FeatureConfig | undefined,
+    context: unknown,
+  ): boolean {
+    if (config?.schedule && !isInSchedule(config.schedule, this.clock())) {
+      return false;
+    }
+
+    if (config?.rules && !evaluateRule(config.rules, context)) {
+      return false;
+    }
+
+    const rollout = config?.ramp
+      ? getRampRollout(config.ramp, this.clock())
+      : config?.rollout;
+
+    if (rollout && !isInRollout(flagName, rollout, context)) {
+      return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Read, update and save the ramp of a feature flag
+   *
+   * @throws {InvalidRolloutError} If the flag has no ramp.
+   */
+  async #updateRamp(
+    flagName: string,
+    update: (ramp: Ramp, now: Date) => Ramp,
+  ): Promise<void> {
+    await this.#updateConfig(flagName, (config) => {
+      if (!config.ramp) {
+        throw new InvalidRolloutError(`'${flagName}' has no ramp`);
+      }
+
+      return { ...config, ramp: update(config.ramp, this.clock()) };
+    });
+  }
+
+  /**
+   * Read, update and save the evaluation configuration of a feature flag
+   */
+  async #updateConfig(
+    flagName: string,
+    update: (config: FeatureConfig) => FeatureConfig,
+    change?: ChangeOptions,
+  ): Promise<void> {
+    if (!this.store) {
+      throw new ProviderNotDefined();
+    }
+
+    if (!this.store.getFeature || !this.store.setConfig) {
+      throw new UnsupportedOperationError("feature configuration");
+    }
+
+    const setConfig = this.store.setConfig.bind(this.store);
+    const stored = await this.#getTargetFeature(flagName);
+    const config = update(stored?.config ?? {});
+
+    await this.#audited(flagName, "configure", change, () =>
+      this.#write(flagName, "configure", () => setConfig(flagName, config)),
+    );
+    this.emitter.emit("configured", { flag: flagName, config });
   }
 }
@@ -0,0 +1,97 @@
+import type { FeatureManager } from "./feature.js";
+
+/**
+ * Build the feature flag context of a request
+ */
+export type ContextResolver<Request, T> = (request: Request) => T | Promise<T>;
+
+/**
+ * Express middleware running the rest of the request in a request scope,
+ * so `active()` can be called without a context in the route handlers.
+ *
+ * @param manager The feature manager.
+ * @param resolve Build the context from the request.
+ *
+ * @example
+ * ```ts
+ * app.use(expressContext(features, (req) => ({ user: req.user })));
+ * ```
+ */
+export function expressContext<Request, T>(
+  manager: FeatureManager,
+  resolve: ContextResolver<Request, T>,
+): (
+  request: Request,
+  response: unknown,
+  next: (error?: unknown) => void,
+) => void {
+  return (request, _response, next) => {
+    bindContext(manager, resolve, request, next).catch(next);
+  };
+}
+
+/**
+ * Fastify `onRequest` hook running the rest of the request in a request scope.
+ *
+ * @param manager The feature manager.
+ * @param resolve Build the context from the request.
+ *
+ * @example
+ * ```ts
+ * fastify.addHook("onRequest", fastifyContext(features, (request) => ({ user: request.user })));
+ * ```
+ */
+export function fastifyContext<Request, T>(
+  manager: FeatureManager,
+  resolve: ContextResolver<Request, T>,
+): (
+  request: Request,
+  reply: unknown,
+  done: (error?: unknown) => void,
+) => void {
+  // Fastify would call done() again for a hook returning a promise
+  return (request, _reply, done) => {
+    bindContext(manager, resolve, request, done).catch(done);
+  };
+}
+
+/**
+ * AdonisJS middleware running the rest of the request in a request scope.
+ *
+ * @param manager The feature manager.
+ * @param resolve Build the context from the HTTP context.
+ *
+ * @example
+ * ```ts
+ * router
+ *   .group(() => { ... })
+ *   .use(adonisContext(features, ({ auth }) => ({ user: auth.user })));
+ * ```
+ */
+export function adonisContext<HttpContext, T>(
+  manager: FeatureManager,
+  resolve: ContextResolver<HttpContext, T>,
+): (ctx: HttpContext, next: () => Promise<unknown>) => Promise<unknown> {
+  return async (ctx, next) => manager.withContext(await resolve(ctx), next);
+}
+
+/**
+ * Resolve the context of a request, then continue the request in its scope
+ */
+async function bindContext<Request, T>(
+  manager: FeatureManager,
+  resolve: ContextResolver<Request, T>,
+  request: Request,
+  next: (error?: unknown) => void,
+): Promise<void> {
+  let context: T;
+
+  try {
+    context = await resolve(request);
+  } catch (error) {
+    next(error);
+    return;
+  }
+
+  manager.withContext(context, () => next());
+}
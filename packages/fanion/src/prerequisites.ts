@@ -0,0 +1,78 @@
+import { InvalidPrerequisiteError } from "./errors.js";
+import type { Prerequisite } from "./types/feature_config.js";
+import { generateFeatureName, parseFeatureName } from "./utils.js";
+
+/**
+ * Get the parent of a sub flag, 'billing:invoices.pdf' depends on 'billing:invoices'
+ *
+ * @param flagName
+ * @returns The parent flag name or undefined if the flag is not a sub flag
+ */
+export function getParentFlag(flagName: string): string | undefined {
+  const { context, flag, subFlag } = parseFeatureName(flagName);
+
+  if (context === undefined || subFlag === undefined) {
+    return undefined;
+  }
+
+  return generateFeatureName(context, flag);
+}
+
+/**
+ * Find a path leading from a flag back to itself in the prerequisite graph
+ *
+ * @param flagName
+ * @param dependencies Names of the flags a flag depends on
+ * @returns The flags of the cycle, starting and ending with the flag, or undefined
+ */
+export function findPrerequisiteCycle(
+  flagName: string,
+  dependencies: (flagName: string) => string[],
+): string[] | undefined {
+  const visited = new Set<string>();
+
+  const visit = (current: string, path: string[]): string[] | undefined => {
+    for (const dependency of dependencies(current)) {
+      if (dependency === flagName) {
+        return [...path, dependency];
+      }
+
+      if (!visited.has(dependency)) {
+        visited.add(dependency);
+
+        const cycle = visit(dependency, [...path, dependency]);
+        if (cycle) {
+          return cycle;
+        }
+      }
+    }
+
+    return undefined;
+  };
+
+  return visit(flagName, [flagName]);
+}
+
+/**
+ * Ensure prerequisites can be stored
+ *
+ * @param prerequisites
+ * @throws {InvalidPrerequisiteError}
+ */
+export function assertValidPrerequisites(prerequisites: Prerequisite[]): void {
+  if (!Array.isArray(prerequisites)) {
+    throw new InvalidPrerequisiteError("prerequisites must be an array");
+  }
+
+  for (const prerequisite of prerequisites) {
+    if (typeof prerequisite.flag !== "string" || prerequisite.flag === "") {
+      throw new InvalidPrerequisiteError("a flag name is required");
+    }
+
+    if (typeof prerequisite.value !== "boolean") {
+      throw new InvalidPrerequisiteError(
+        `the value required for '${prerequisite.flag}' must be a boolean`,
+      );
+    }
+  }
+}
@@ -0,0 +1,92 @@
+import type { FeatureManager } from "./feature.js";
+import type { VariantValue } from "./types/feature_config.js";
+import type {
+  ContextArgs,
+  FlagContext,
+  FlagDefinitions,
+  FlagName,
+  FlagsContext,
+} from "./types/registry.js";
+
+/**
+ * A typed view of the feature flags defined with `defineFlags()`:
+ * unknown flag names and contexts of the wrong shape don't compile.
+ *
+ * @example
+ * ```ts
+ * const flags = features.defineFlags({
+ *   "checkout:v2": (ctx: { user: { beta: boolean } }) => ctx.user.beta,
+ *   "search:suggestions": { stored: true },
+ * });
+ *
+ * await flags.active("checkout:v2", { user: { beta: true } });
+ * await flags.active("checkout:v3"); // Type error
+ * ```
+ */
+export class FlagRegistry<D extends FlagDefinitions> {
+  #manager: FeatureManager;
+  #names: FlagName<D>[];
+
+  constructor(manager: FeatureManager, definitions: D) {
+    this.#manager = manager;
+    this.#names = Object.keys(definitions) as FlagName<D>[];
+  }
+
+  /**
+   * The feature manager holding the flags
+   */
+  get manager(): FeatureManager {
+    return this.#manager;
+  }
+
+  /**
+   * The names of the flags of the registry
+   */
+  get names(): FlagName<D>[] {
+    return [...this.#names];
+  }
+
+  /**
+   * Check if a feature flag is enabled for a given context
+   *
+   * @param flagName The name of the feature flag.
+   * @param context The context expected by the check of the flag.
+   * @throws {FeatureNotExistsError} If a stored flag is missing from the store.
+   */
+  active<K extends FlagName<D>>(
+    flagName: K,
+    ...[context]: ContextArgs<FlagContext<D[K]>>
+  ): Promise<boolean> {
+    return this.#manager.active(flagName, context);
+  }
+
+  /**
+   * Check several feature flags for a context matching all their checks
+   *
+   * @param flagNames The names of the feature flags.
+   * @param context The context expected by the checks of the flags.
+   */
+  activeMany<K extends FlagName<D>>(
+    flagNames: K[],
+    ...[context]: ContextArgs<FlagsContext<D, K>>
+  ): Promise<Record<K, boolean>> {
+    return this.#manager.activeMany(flagNames, context) as Promise<
+      Record<K, boolean>
+    >;
+  }
+
+  /**
+   * Get the value of a multivariate feature flag
+   *
+   * @param flagName The name of the feature flag.
+   * @param context The context expected by the check of the flag.
+   * @param defaultValue The value returned when the flag is not active.
+   */
+  variant<K extends FlagName<D>, V extends VariantValue>(
+    flagName: K,
+    context: FlagContext<D[K]>,
+    defaultValue: V,
+  ): Promise<V> {
+    return this.#manager.variant(flagName, context, defaultValue);
+  }
+}
@@ -0,0 +1,207 @@
+import { createHash } from "node:crypto";
+import { InvalidRolloutError } from "./errors.js";
+import type { Ramp, RampStep, Rollout } from "./types/feature_config.js";
+import { getContextValue } from "./utils.js";
+
+/**
+ * Number of buckets used for bucketing, allows percentages with two decimals
+ */
+const BUCKET_COUNT = 10_000;
+
+/**
+ * Compute the stable bucket of a context key for a feature flag.
+ * The same flag and key always land in the same bucket on every instance.
+ *
+ * @param flagName
+ * @param key
+ * @returns A number between 0 (included) and 100 (excluded)
+ */
+export function getBucket(flagName: string, key: string): number {
+  const hash = createHash("sha1").update(`${flagName}:${key}`).digest();
+
+  return (hash.readUInt32BE(0) % BUCKET_COUNT) / (BUCKET_COUNT / 100);
+}
+
+/**
+ * Check if a context is part of a percentage rollout.
+ * Contexts without a value for the rollout key are only included at 100%.
+ *
+ * @param flagName
+ * @param rollout
+ * @param context
+ */
+export function isInRollout(
+  flagName: string,
+  rollout: Rollout,
+  context: unknown,
+): boolean {
+  if (rollout.percentage >= 100) {
+    return true;
+  }
+
+  if (rollout.percentage <= 0) {
+    return false;
+  }
+
+  const key = getContextValue(context, rollout.contextKey);
+
+  if (key === undefined || key === null) {
+    return false;
+  }
+
+  return getBucket(flagName, String(key)) < rollout.percentage;
+}
+
+/**
+ * Ensure a rollout configuration can be stored
+ *
+ * @param rollout
+ * @throws {InvalidRolloutError}
+ */
+export function assertValidRollout(rollout: Rollout): void {
+  if (
+    typeof rollout.percentage !== "number" ||
+    Number.isNaN(rollout.percentage) ||
+    rollout.percentage < 0 ||
+    rollout.percentage > 100
+  ) {
+    throw new InvalidRolloutError("percentage must be between 0 and 100");
+  }
+
+  if (typeof rollout.contextKey !== "string" || rollout.contextKey === "") {
+    throw new InvalidRolloutError("contextKey is required");
+  }
+}
+
+/**
+ * Get the milliseconds of progress of a ramp, frozen while it is paused or halted
+ *
+ * @param ramp
+ * @param now
+ */
+export function getRampElapsed(ramp: Ramp, now: Date): number {
+  const frozenAt = [ramp.pausedAt, ramp.halt?.at]
+    .filter((date): date is string => date !== undefined)
+    .map((date) => Date.parse(date))
+    .reduce((earliest, time) => Math.min(earliest, time), now.getTime());
+
+  return (ramp.elapsed ?? 0) + frozenAt - Date.parse(ramp.startedAt);
+}
+
+/**
+ * Get the index of the last step reached by a ramp, -1 before the first step
+ *
+ * @param ramp
+ * @param now
+ */
+export function getRampStep(ramp: Ramp, now: Date): number {
+  const elapsed = getRampElapsed(ramp, now);
+
+  return ramp.steps.findLastIndex((step) => step.after <= elapsed);
+}
+
+/**
+ * Convert a ramp to the rollout effective at a given instant.
+ * Steps only raise the percentage, so contexts that are in stay in.
+ *
+ * @param ramp
+ * @param now
+ */
+export function getRampRollout(ramp: Ramp, now: Date): Rollout {
+  const step = getRampStep(ramp, now);
+
+  return {
+    percentage: step === -1 ? 0 : ramp.steps[step].percentage,
+    contextKey: ramp.contextKey,
+  };
+}
+
+/**
+ * Freeze the progress of a ramp
+ */
+export function pauseRamp(ramp: Ramp, now: Date): Ramp {
+  return ramp.pausedAt ? ramp : { ...ramp, pausedAt: now.toISOString() };
+}
+
+/**
+ * Set a halt marker on a ramp, its progress is frozen until it is resumed
+ */
+export function haltRamp(ramp: Ramp, now: Date, reason?: string): Ramp {
+  return ramp.halt
+    ? ramp
+    : { ...ramp, halt: { at: now.toISOString(), reason } };
+}
+
+/**
+ * Continue a paused or halted ramp from the progress it had made
+ */
+export function resumeRamp(ramp: Ramp, now: Date): Ramp {
+  const { pausedAt: _, halt: __, ...running } = ramp;
+
+  return {
+    ...running,
+    startedAt: now.toISOString(),
+    elapsed: getRampElapsed(ramp, now),
+  };
+}
+
+/**
+ * Pause a ramp at the start of its previous step
+ */
+export function rollbackRamp(ramp: Ramp, now: Date): Ramp {
+  const step = Math.max(getRampStep(ramp, now) - 1, 0);
+
+  return {
+    ...ramp,
+    startedAt: now.toISOString(),
+    elapsed: ramp.steps[step].after,
+    pausedAt: now.toISOString(),
+  };
+}
+
+/**
+ * Ensure a ramp can be stored
+ *
+ * @param ramp
+ * @throws {InvalidRolloutError}
+ */
+export function assertValidRamp(ramp: Ramp): void {
+  if (typeof ramp.contextKey !== "string" || ramp.contextKey === "") {
+    throw new InvalidRolloutError("contextKey is required");
+  }
+
+  if (
+    typeof ramp.startedAt !== "string" ||
+    Number.isNaN(Date.parse(ramp.startedAt))
+  ) {
+    throw new InvalidRolloutError("the ramp start must be an ISO 8601 date");
+  }
+
+  if (!Array.isArray(ramp.steps) || ramp.steps.length === 0) {
+    throw new InvalidRolloutError("a ramp requires at least one step");
+  }
+
+  let previous: RampStep | undefined;
+
+  for (const step of ramp.steps) {
+    assertValidRollout({
+      percentage: step.percentage,
+      contextKey: ramp.contextKey,
+    });
+
+    if (typeof step.after !== "number" || !(step.after >= 0)) {
+      throw new InvalidRolloutError("step delays must be positive numbers");
+    }
+
+    if (
+      previous &&
+      (step.after <= previous.after || step.percentage < previous.percentage)
+    ) {
+      throw new InvalidRolloutError(
+        "ramp steps must be sorted by delay with increasing percentages",
+      );
+    }
+
+    previous = step;
+  }
+}
@@ -0,0 +1,261 @@
+import { InvalidRuleError } from "./errors.js";
+import type {
+  ConditionRule,
+  Rule,
+  RuleOperator,
+  RuleValue,
+} from "./types/feature_config.js";
+import { getContextValue } from "./utils.js";
+
+const OPERATORS: RuleOperator[] = [
+  "equals",
+  "notEquals",
+  "in",
+  "notIn",
+  "startsWith",
+  "endsWith",
+  "contains",
+  "gt",
+  "gte",
+  "lt",
+  "lte",
+  "semverEquals",
+  "semverGt",
+  "semverGte",
+  "semverLt",
+  "semverLte",
+];
+
+/**
+ * Evaluate a targeting rule against a context
+ *
+ * @param rule
+ * @param context
+ * @returns true if the context matches the rule
+ */
+export function evaluateRule(rule: Rule, context: unknown): boolean {
+  if ("and" in rule) {
+    return rule.and.every((child) => evaluateRule(child, context));
+  }
+
+  if ("or" in rule) {
+    return rule.or.some((child) => evaluateRule(child, context));
+  }
+
+  if ("not" in rule) {
+    return !evaluateRule(rule.not, context);
+  }
+
+  return evaluateCondition(rule, getContextValue(context, rule.attribute));
+}
+
+/**
+ * Ensure a targeting rule can be stored and evaluated
+ *
+ * @param rule
+ * @throws {InvalidRuleError}
+ */
+export function assertValidRule(rule: Rule): void {
+  if (rule === null || typeof rule !== "object") {
+    throw new InvalidRuleError("a rule must be an object");
+  }
+
+  if ("and" in rule || "or" in rule) {
+    const children = "and" in rule ? rule.and : rule.or;
+
+    if (!Array.isArray(children)) {
+      throw new InvalidRuleError("and/or expect an array of rules");
+    }
+
+    for (const child of children) {
+      assertValidRule(child);
+    }
+    return;
+  }
+
+  if ("not" in rule) {
+    assertValidRule(rule.not);
+    return;
+  }
+
+  if (typeof rule.attribute !== "string" || rule.attribute === "") {
+    throw new InvalidRuleError("attribute is required");
+  }
+
+  if (!OPERATORS.includes(rule.operator)) {
+    throw new InvalidRuleError(`unknown operator '${rule.operator}'`);
+  }
+
+  if (
+    (rule.operator === "in" || rule.operator === "notIn") &&
+    !Array.isArray(rule.value)
+  ) {
+    throw new InvalidRuleError(`${rule.operator} expects an array value`);
+  }
+
+  if (
+    ["gt", "gte", "lt", "lte"].includes(rule.operator) &&
+    typeof rule.value !== "number"
+  ) {
+    throw new InvalidRuleError(`${rule.operator} expects a number value`);
+  }
+
+  if (
+    rule.operator.startsWith("semver") &&
+    (typeof rule.value !== "string" || parseSemver(rule.value) === undefined)
+  ) {
+    throw new InvalidRuleError(`${rule.operator} expects a semver value`);
+  }
+}
+
+function evaluateCondition(rule: ConditionRule, actual: unknown): boolean {
+  const expected: RuleValue = rule.value;
+
+  switch (rule.operator) {
+    case "equals":
+      return actual === expected;
+    case "notEquals":
+      return actual !== expected;
+    case "in":
+      return Array.isArray(expected) && expected.includes(actual as string);
+    case "notIn":
+      return Array.isArray(expected) && !expected.includes(actual as string);
+    case "startsWith":
+      return typeof actual === "string" && actual.startsWith(String(expected));
+    case "endsWith":
+      return typeof actual === "string" && actual.endsWith(String(expected));
+    case "contains":
+      if (Array.isArray(actual)) {
+        return actual.includes(expected);
+      }
+      return typeof actual === "string" && actual.includes(String(expected));
+    case "gt":
+    case "gte":
+    case "lt":
+    case "lte":
+      return compareNumbers(rule.operator, actual, expected);
+    default:
+      return compareVersions(rule.operator, actual, expected);
+  }
+}
+
+function compareNumbers(
+  operator: "gt" | "gte" | "lt" | "lte",
+  actual: unknown,
+  expected: RuleValue,
+): boolean {
+  if (typeof actual !== "number" || typeof expected !== "number") {
+    return false;
+  }
+
+  switch (operator) {
+    case "gt":
+      return actual > expected;
+    case "gte":
+      return actual >= expected;
+    case "lt":
+      return actual < expected;
+    case "lte":
+      return actual <= expected;
+  }
+}
+
+function compareVersions(
+  operator: RuleOperator,
+  actual: unknown,
+  expected: RuleValue,
+): boolean {
+  if (typeof actual !== "string" || typeof expected !== "string") {
+    return false;
+  }
+
+  const left = parseSemver(actual);
+  const right = parseSemver(expected);
+
+  if (!left || !right) {
+    return false;
+  }
+
+  const comparison = compareSemver(left, right);
+
+  switch (operator) {
+    case "semverEquals":
+      return comparison === 0;
+    case "semverGt":
+      return comparison > 0;
+    case "semverGte":
+      return comparison >= 0;
+    case "semverLt":
+      return comparison < 0;
+    case "semverLte":
+      return comparison <= 0;
+    default:
+      return false;
+  }
+}
+
+interface Semver {
+  numbers: [number, number, number];
+  prerelease: string[];
+}
+
+function parseSemver(version: string): Semver | undefined {
+  const match = version
+    .trim()
+    .match(/^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z.-]+))?(?:\+.*)?$/);
+
+  if (!match) {
+    return undefined;
+  }
+
+  return {
+    numbers: [Number(match[1]), Number(match[2] ?? 0), Number(match[3] ?? 0)],
+    prerelease: match[4] ? match[4].split(".") : [],
+  };
+}
+
+/**
+ * Compare two versions following the semver precedence rules
+ */
+function compareSemver(left: Semver, right: Semver): number {
+  for (let index = 0; index < 3; index++) {
+    if (left.numbers[index] !== right.numbers[index]) {
+      return left.numbers[index] - right.numbers[index];
+    }
+  }
+
+  // A version without pre-release has a higher precedence
+  if (left.prerelease.length === 0 || right.prerelease.length === 0) {
+    return right.prerelease.length - left.prerelease.length;
+  }
+
+  const length = Math.max(left.prerelease.length, right.prerelease.length);
+
+  for (let index = 0; index < length; index++) {
+    const a = left.prerelease[index];
+    const b = right.prerelease[index];
+
+    if (a === undefined || b === undefined) {
+      return a === undefined ? -1 : 1;
+    }
+
+    if (a === b) {
+      continue;
+    }
+
+    const aIsNumber = /^\d+$/.test(a);
+    const bIsNumber = /^\d+$/.test(b);
+
+    if (aIsNumber && bIsNumber) {
+      return Number(a) - Number(b);
+    }
+
+    if (aIsNumber !== bIsNumber) {
+      return aIsNumber ? -1 : 1;
+    }
+
+    return a < b ? -1 : 1;
+  }
+
+  return 0;
+}
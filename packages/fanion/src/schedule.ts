@@ -0,0 +1,164 @@
+import { InvalidScheduleError } from "./errors.js";
+import type { Schedule, Weekday } from "./types/feature_config.js";
+
+const WEEKDAYS: Weekday[] = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+/**
+ * A time of day, from 00:00 to 24:00
+ */
+const TIME_PATTERN = /^(?:([01]\d|2[0-3]):([0-5]\d)|24:00)$/;
+
+/**
+ * Formatters by time zone, creating one is expensive
+ */
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Get the weekday and the minutes since midnight of an instant in a time zone
+ *
+ * @param date
+ * @param timeZone IANA time zone (ex: "Europe/Paris")
+ */
+export function getLocalTime(
+  date: Date,
+  timeZone: string,
+): { day: number; minutes: number } {
+  let formatter = formatters.get(timeZone);
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      weekday: "short",
+      hour: "2-digit",
+      minute: "2-digit",
+      hourCycle: "h23",
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts = new Map(
+    formatter.formatToParts(date).map(({ type, value }) => [type, value]),
+  );
+
+  return {
+    day: WEEKDAYS.indexOf(
+      (parts.get("weekday") ?? "").toLowerCase() as Weekday,
+    ),
+    minutes: Number(parts.get("hour")) * 60 + Number(parts.get("minute")),
+  };
+}
+
+/**
+ * Check if a schedule is active at a given instant: between the start
+ * (included) and the end (excluded), and in one of the recurring windows if any.
+ * A window ending before it starts spans midnight, its days are the start days.
+ *
+ * @param schedule
+ * @param now
+ */
+export function isInSchedule(schedule: Schedule, now: Date): boolean {
+  const time = now.getTime();
+
+  if (schedule.start !== undefined && time < Date.parse(schedule.start)) {
+    return false;
+  }
+
+  if (schedule.end !== undefined && time >= Date.parse(schedule.end)) {
+    return false;
+  }
+
+  if (!schedule.windows || schedule.windows.length === 0) {
+    return true;
+  }
+
+  const { day, minutes } = getLocalTime(now, schedule.timeZone ?? "UTC");
+  const previousDay = (day + 6) % 7;
+
+  return schedule.windows.some((window) => {
+    const start = toMinutes(window.start);
+    const end = toMinutes(window.end);
+    const onDay = (index: number) =>
+      !window.days || window.days.includes(WEEKDAYS[index]);
+
+    if (start < end) {
+      return minutes >= start && minutes < end && onDay(day);
+    }
+
+    return (
+      (minutes >= start && onDay(day)) || (minutes < end && onDay(previousDay))
+    );
+  });
+}
+
+/**
+ * Ensure a schedule can be stored
+ *
+ * @param schedule
+ * @throws {InvalidScheduleError}
+ */
+export function assertValidSchedule(schedule: Schedule): void {
+  for (const key of ["start", "end"] as const) {
+    const value = schedule[key];
+
+    if (
+      value !== undefined &&
+      (typeof value !== "string" || Number.isNaN(Date.parse(value)))
+    ) {
+      throw new InvalidScheduleError(`${key} must be an ISO 8601 date`);
+    }
+  }
+
+  if (
+    schedule.start !== undefined &&
+    schedule.end !== undefined &&
+    Date.parse(schedule.end) <= Date.parse(schedule.start)
+  ) {
+    throw new InvalidScheduleError("end must be after start");
+  }
+
+  if (schedule.timeZone !== undefined) {
+    try {
+      new Intl.DateTimeFormat("en-US", { timeZone: schedule.timeZone });
+    } catch {
+      throw new InvalidScheduleError(
+        `unknown time zone '${schedule.timeZone}'`,
+      );
+    }
+  }
+
+  if (schedule.windows === undefined) {
+    return;
+  }
+
+  if (!Array.isArray(schedule.windows)) {
+    throw new InvalidScheduleError("windows must be an array");
+  }
+
+  for (const window of schedule.windows) {
+    if (!TIME_PATTERN.test(window.start) || !TIME_PATTERN.test(window.end)) {
+      throw new InvalidScheduleError(
+        "window start and end must be times between 00:00 and 24:00",
+      );
+    }
+
+    if (window.start === window.end) {
+      throw new InvalidScheduleError("a window cannot be empty");
+    }
+
+    if (
+      window.days !== undefined &&
+      (!Array.isArray(window.days) ||
+        window.days.length === 0 ||
+        window.days.some((day) => !WEEKDAYS.includes(day)))
+    ) {
+      throw new InvalidScheduleError(
+        `window days must be a list of ${WEEKDAYS.join(", ")}`,
+      );
+    }
+  }
+}
+
+function toMinutes(time: string): number {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+}
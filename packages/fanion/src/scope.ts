@@ -0,0 +1,145 @@
+import type { FeatureManager } from "./feature.js";
+import type { ChangeOptions } from "./types/audit.js";
+import type { FeatureMetadata, VariantValue } from "./types/feature_config.js";
+import type {
+  DefineOptions,
+  FeatureCheck,
+  FeatureListing,
+} from "./types/provider.js";
+import { generateFeatureName } from "./utils.js";
+
+/**
+ * A view of the feature flags of a namespace, returned by `scope()`.
+ * Flag names are relative to the namespace: "invoices" is "billing:invoices".
+ * Prerequisites keep full names, they can point to other namespaces.
+ *
+ * @example
+ * ```ts
+ * const billing = features.scope("billing");
+ *
+ * await billing.defineAndStore("invoices", false);
+ * await billing.active("invoices");
+ * await billing.disable({ actor: "ops", reason: "Incident #42" });
+ * ```
+ */
+export class ScopedFeatureManager {
+  #manager: FeatureManager;
+  #namespace: string;
+
+  constructor(manager: FeatureManager, namespace: string) {
+    if (namespace === "" || namespace.includes(":")) {
+      throw new Error(`Invalid namespace '${namespace}'`);
+    }
+
+    this.#manager = manager;
+    this.#namespace = namespace;
+  }
+
+  get namespace(): string {
+    return this.#namespace;
+  }
+
+  /**
+   * Get the full name of a flag of the namespace
+   *
+   * @param flag
+   * @param subFlag
+   */
+  name(flag: string, subFlag?: string): string {
+    return generateFeatureName(this.#namespace, flag, subFlag);
+  }
+
+  define<T>(
+    flag: string,
+    check?: FeatureCheck<T>,
+    options?: DefineOptions,
+  ): void {
+    this.#manager.define(this.name(flag), check, options);
+  }
+
+  async defineAndStore(
+    flag: string,
+    defaultValue = true,
+    metadata?: FeatureMetadata,
+    change?: ChangeOptions,
+  ): Promise<void> {
+    await this.#manager.defineAndStore(
+      this.name(flag),
+      defaultValue,
+      metadata,
+      change,
+    );
+  }
+
+  async set(
+    flag: string,
+    value: boolean,
+    change?: ChangeOptions,
+  ): Promise<void> {
+    await this.#manager.set(this.name(flag), value, change);
+  }
+
+  async active<T>(flag: string, context?: T): Promise<boolean> {
+    return this.#manager.active(this.name(flag), context);
+  }
+
+  /**
+   * Check several flags of the namespace, results are keyed by relative name
+   */
+  async activeMany<T>(
+    flags: string[],
+    context?: T,
+  ): Promise<Record<string, boolean>> {
+    const results = await this.#manager.activeMany(
+      flags.map((flag) => this.name(flag)),
+      context,
+    );
+
+    return Object.fromEntries(
+      flags.map((flag) => [flag, results[this.name(flag)]]),
+    );
+  }
+
+  async variant<V extends VariantValue>(
+    flag: string,
+    context: unknown,
+    defaultValue: V,
+  ): Promise<V> {
+    return this.#manager.variant(this.name(flag), context, defaultValue);
+  }
+
+  async delete(flag: string, change?: ChangeOptions): Promise<void> {
+    await this.#manager.delete(this.name(flag), change);
+  }
+
+  /**
+   * List the defined and stored flags of the namespace, with their full name
+   */
+  async all(): Promise<FeatureListing[]> {
+    return this.#manager.all(`${this.#namespace}:`);
+  }
+
+  /**
+   * Turn off every flag of the namespace
+   */
+  async disable(change?: ChangeOptions): Promise<void> {
+    await this.#manager.disableNamespace(this.#namespace, change);
+  }
+
+  async enable(change?: ChangeOptions): Promise<void> {
+    await this.#manager.enableNamespace(this.#namespace, change);
+  }
+
+  async isDisabled(): Promise<boolean> {
+    return this.#manager.isNamespaceDisabled(this.#namespace);
+  }
+
+  /**
+   * Delete every flag of the namespace
+   *
+   * @returns The full names of the deleted flags.
+   */
+  async deleteAll(change?: ChangeOptions): Promise<string[]> {
+    return this.#manager.deleteNamespace(this.#namespace, change);
+  }
+}
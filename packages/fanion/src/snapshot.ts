@@ -0,0 +1,302 @@
+import { InvalidSnapshotError, UnsupportedOperationError } from "./errors.js";
+import type { FeatureOverride, StoredFeature } from "./types/feature_config.js";
+import type { FeatureStorageProvider } from "./types/feature_storage_provider.js";
+import type {
+  FlagChange,
+  Snapshot,
+  SnapshotDiff,
+  SnapshotField,
+  SnapshotFlag,
+} from "./types/snapshot.js";
+import { isNamespaceSwitch } from "./utils.js";
+
+export const SNAPSHOT_VERSION = 1;
+
+const SNAPSHOT_FIELDS: SnapshotField[] = [
+  "value",
+  "config",
+  "variant",
+  "metadata",
+  "overrides",
+];
+
+/**
+ * Read every stored feature flag of a store, with its configuration,
+ * variant, metadata and overrides. Usage, dates and namespace switches
+ * are not exported.
+ *
+ * @param store The storage provider to export.
+ * @param now The export date.
+ * @throws {UnsupportedOperationError} If the store cannot list its flags.
+ */
+export async function createSnapshot(
+  store: FeatureStorageProvider,
+  now = new Date(),
+): Promise<Snapshot> {
+  if (!store.list) {
+    throw new UnsupportedOperationError("flag listing");
+  }
+
+  const stored = await store.list();
+  const flags: Record<string, SnapshotFlag> = {};
+
+  for (const name of [...stored.keys()].sort()) {
+    if (isNamespaceSwitch(name)) {
+      continue;
+    }
+
+    const overrides = await store.listOverrides?.(name);
+    flags[name] = toSnapshotFlag(stored.get(name) as StoredFeature, overrides);
+  }
+
+  return { version: SNAPSHOT_VERSION, exportedAt: now.toISOString(), flags };
+}
+
+/**
+ * Validate a snapshot read from a JSON file
+ *
+ * @param data The parsed content
+ * @throws {InvalidSnapshotError}
+ */
+export function parseSnapshot(data: unknown): Snapshot {
+  const fail = (message: string): never => {
+    throw new InvalidSnapshotError(message);
+  };
+
+  if (!isObject(data)) {
+    return fail("the snapshot must be an object");
+  }
+
+  if (data.version !== SNAPSHOT_VERSION) {
+    return fail(
+      `unsupported version ${JSON.stringify(data.version)}, expected ${SNAPSHOT_VERSION}`,
+    );
+  }
+
+  if (typeof data.exportedAt !== "string") {
+    return fail("'exportedAt' must be an ISO 8601 date");
+  }
+
+  if (!isObject(data.flags)) {
+    return fail("'flags' must be an object");
+  }
+
+  const flags: Record<string, SnapshotFlag> = {};
+
+  for (const name of Object.keys(data.flags).sort()) {
+    const flag = data.flags[name];
+
+    if (!isObject(flag)) {
+      return fail(`'flags.${name}' must be an object`);
+    }
+
+    const unknown = Object.keys(flag).find(
+      (key) => !SNAPSHOT_FIELDS.includes(key as SnapshotField),
+    );
+    if (unknown) {
+      return fail(`unknown property 'flags.${name}.${unknown}'`);
+    }
+
+    if (typeof flag.value !== "boolean") {
+      return fail(`'flags.${name}.value' must be a boolean`);
+    }
+
+    for (const key of ["config", "metadata"]) {
+      if (flag[key] !== undefined && !isObject(flag[key])) {
+        return fail(`'flags.${name}.${key}' must be an object`);
+      }
+    }
+
+    if (flag.metadata !== undefined) {
+      assertValidMetadata(flag.metadata as Record<string, unknown>, name, fail);
+    }
+
+    if (
+      flag.overrides !== undefined &&
+      (!isObject(flag.overrides) ||
+        Object.values(flag.overrides).some(
+          (value) => typeof value !== "boolean",
+        ))
+    ) {
+      return fail(
+        `'flags.${name}.overrides' must map context keys to booleans`,
+      );
+    }
+
+    flags[name] = normalizeFlag(flag as unknown as SnapshotFlag);
+  }
+
+  return { version: SNAPSHOT_VERSION, exportedAt: data.exportedAt, flags };
+}
+
+/**
+ * Compare the stored feature flags of two stores or snapshots
+ *
+ * @param source The store or snapshot holding the wanted state (ex: staging).
+ * @param target The store or snapshot to update (ex: production).
+ * @returns The flags to add to the target, to remove from it and to change.
+ *
+ * @example
+ * ```ts
+ * const { added, removed, changed } = await diff(stagingStore, productionStore);
+ * ```
+ */
+export async function diff(
+  source: FeatureStorageProvider | Snapshot,
+  target: FeatureStorageProvider | Snapshot,
+): Promise<SnapshotDiff> {
+  const [from, to] = await Promise.all([
+    toSnapshot(source),
+    toSnapshot(target),
+  ]);
+  const result: SnapshotDiff = { added: [], removed: [], changed: [] };
+  const names = new Set([...Object.keys(from.flags), ...Object.keys(to.flags)]);
+
+  for (const flag of [...names].sort()) {
+    const sourceFlag = from.flags[flag];
+    const targetFlag = to.flags[flag];
+
+    if (!targetFlag) {
+      result.added.push({
+        flag,
+        source: sourceFlag,
+        fields: fields(sourceFlag),
+      });
+      continue;
+    }
+
+    if (!sourceFlag) {
+      result.removed.push({
+        flag,
+        target: targetFlag,
+        fields: fields(targetFlag),
+      });
+      continue;
+    }
+
+    const changed = SNAPSHOT_FIELDS.filter(
+      (field) => canonical(sourceFlag[field]) !== canonical(targetFlag[field]),
+    );
+
+    if (changed.length > 0) {
+      result.changed.push({
+        flag,
+        source: sourceFlag,
+        target: targetFlag,
+        fields: changed,
+      } satisfies FlagChange);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Check the types of the known metadata, other properties are kept as is
+ */
+function assertValidMetadata(
+  metadata: Record<string, unknown>,
+  name: string,
+  fail: (message: string) => never,
+): void {
+  const path = `flags.${name}.metadata`;
+
+  for (const key of ["description", "owner"]) {
+    if (metadata[key] !== undefined && typeof metadata[key] !== "string") {
+      fail(`'${path}.${key}' must be a string`);
+    }
+  }
+
+  if (
+    metadata.tags !== undefined &&
+    (!Array.isArray(metadata.tags) ||
+      metadata.tags.some((tag) => typeof tag !== "string"))
+  ) {
+    fail(`'${path}.tags' must be an array of strings`);
+  }
+
+  for (const key of ["expiresAt", "reviewAt"]) {
+    const date = metadata[key];
+
+    if (
+      date !== undefined &&
+      (typeof date !== "string" || Number.isNaN(Date.parse(date)))
+    ) {
+      fail(`'${path}.${key}' must be an ISO 8601 date`);
+    }
+  }
+}
+
+function toSnapshot(
+  value: FeatureStorageProvider | Snapshot,
+): Promise<Snapshot> | Snapshot {
+  return typeof (value as FeatureStorageProvider).get === "function"
+    ? createSnapshot(value as FeatureStorageProvider)
+    : parseSnapshot(value);
+}
+
+function toSnapshotFlag(
+  stored: StoredFeature,
+  overrides: FeatureOverride[] = [],
+): SnapshotFlag {
+  return normalizeFlag({
+    value: stored.value,
+    config: stored.config,
+    variant: stored.variant,
+    metadata: stored.metadata,
+    overrides: Object.fromEntries(
+      overrides.map(({ contextKey, value }) => [contextKey, value]),
+    ),
+  });
+}
+
+/**
+ * Leave out the empty parts, so stores returning an empty object
+ * or nothing compare equal
+ */
+function normalizeFlag(flag: SnapshotFlag): SnapshotFlag {
+  const normalized: SnapshotFlag = { value: flag.value };
+
+  if (flag.config && Object.keys(flag.config).length > 0) {
+    normalized.config = flag.config;
+  }
+
+  if (flag.variant !== undefined && flag.variant !== null) {
+    normalized.variant = flag.variant;
+  }
+
+  if (flag.metadata && Object.keys(flag.metadata).length > 0) {
+    normalized.metadata = flag.metadata;
+  }
+
+  if (flag.overrides && Object.keys(flag.overrides).length > 0) {
+    normalized.overrides = Object.fromEntries(
+      Object.entries(flag.overrides).sort(([a], [b]) => a.localeCompare(b)),
+    );
+  }
+
+  return normalized;
+}
+
+function fields(flag: SnapshotFlag): SnapshotField[] {
+  return SNAPSHOT_FIELDS.filter((field) => flag[field] !== undefined);
+}
+
+/**
+ * JSON with sorted object keys, to compare values whatever the key order
+ */
+function canonical(value: unknown): string | undefined {
+  return JSON.stringify(value, (_, nested) =>
+    isObject(nested)
+      ? Object.fromEntries(
+          Object.entries(nested).sort(([a], [b]) =>
+            a < b ? -1 : a > b ? 1 : 0,
+          ),
+        )
+      : nested,
+  );
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
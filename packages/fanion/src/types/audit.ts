@@ -0,0 +1,79 @@
+import type {
+  FeatureConfig,
+  FeatureMetadata,
+  VariantValue,
+} from "./feature_config.js";
+
+/**
+ * The kind of change recorded in the audit log
+ */
+export type AuditAction =
+  | "set"
+  | "delete"
+  | "configure"
+  | "variant"
+  | "metadata"
+  | "override"
+  | "revert";
+
+/**
+ * Who changed a feature flag and why
+ */
+export interface ChangeOptions {
+  actor?: string;
+  reason?: string;
+}
+
+/**
+ * The stored state of a feature flag, as recorded in the audit log
+ */
+export interface FeatureState {
+  value: boolean;
+  config: FeatureConfig;
+  variant?: VariantValue;
+  metadata?: FeatureMetadata;
+}
+
+/**
+ * A change of a feature flag
+ */
+export interface AuditEntry extends ChangeOptions {
+  /**
+   * Identifier sorted by change date
+   */
+  id: string;
+  flag: string;
+  action: AuditAction;
+
+  /**
+   * State before the change, undefined if the flag was not stored
+   */
+  previous?: FeatureState;
+
+  /**
+   * State after the change, undefined if the flag was deleted
+   */
+  next?: FeatureState;
+
+  /**
+   * Overrides changed by the entry, the flag states are unchanged
+   */
+  overrides?: OverridesChange;
+  changedAt: Date;
+}
+
+/**
+ * Values of overrides by context key before and after a change,
+ * a context key missing from a side had no override
+ */
+export interface OverridesChange {
+  previous: Record<string, boolean>;
+  next: Record<string, boolean>;
+}
+
+export interface AuditQuery {
+  /**
+   * Maximum number of entries, most recent first
+   */
+  limit?: number;
+}
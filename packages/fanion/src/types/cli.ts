@@ -0,0 +1,84 @@
+import type { DynamoDBClientConfig } from "@aws-sdk/client-dynamodb";
+import type { Knex } from "knex";
+import type {
+  DatabaseConfig,
+  DynamoDBConfig,
+} from "./database_drivers_options.js";
+import type { FeatureStorageProvider } from "./feature_storage_provider.js";
+
+/**
+ * Config file of the command-line tool using the Knex driver
+ *
+ * @example
+ * ```json
+ * { "driver": "knex", "connection": { "client": "pg", "connection": "postgres://localhost/app" } }
+ * ```
+ */
+export interface KnexCliConfig {
+  driver: "knex";
+
+  /**
+   * The configuration given to knex()
+   */
+  connection: Knex.Config;
+  options?: DatabaseConfig;
+}
+
+/**
+ * Config file of the command-line tool using the DynamoDB driver
+ */
+export interface DynamoDBCliConfig {
+  driver: "dynamodb";
+
+  /**
+   * The configuration of the DynamoDB client (region, endpoint...)
+   */
+  connection?: DynamoDBClientConfig;
+  options?: Omit<DynamoDBConfig, "client">;
+}
+
+/**
+ * Config file of the command-line tool using the file driver
+ */
+export interface FileCliConfig {
+  driver: "file";
+  options: {
+    /**
+     * Path of the flag file, relative to the config file
+     */
+    path: string;
+    format?: "json" | "yaml";
+  };
+}
+
+/**
+ * A JavaScript config file can build the store itself
+ */
+export interface StoreCliConfig {
+  store: FeatureStorageProvider;
+
+  /**
+   * Close the connections of the store once the command is done
+   */
+  close?: () => void | Promise<void>;
+}
+
+export type CliConfig =
+  | KnexCliConfig
+  | DynamoDBCliConfig
+  | FileCliConfig
+  | StoreCliConfig;
+
+/**
+ * Streams and environment of a command-line run
+ */
+export interface CliIO {
+  stdout: { write(chunk: string): unknown };
+  stderr: { write(chunk: string): unknown };
+
+  /**
+   * Directory the config file and the paths are resolved from
+   */
+  cwd: string;
+  env: Record<string, string | undefined>;
+}
@@ -24,6 +24,56 @@ export interface DatabaseConfig {
    * The name of the feature value column
    */
   valueColumn?: string;
+
+  /**
+   * The name of the feature configuration column (rollout...)
+   */
+  configColumn?: string;
+
+  /**
+   * The name of the variant column of multivariate feature flags
+   */
+  variantColumn?: string;
+
+  /**
+   * The name of the metadata column (description, owner, tags)
+   */
+  metadataColumn?: string;
+
+  /**
+   * The name of the JSON usage column (last evaluation)
+   */
+  usageColumn?: string;
+
+  /**
+   * The name of the creation date column
+   */
+  createdAtColumn?: string;
+
+  /**
+   * The name of the last update date column
+   */
+  updatedAtColumn?: string;
+
+  /**
+   * The name of the per-context overrides table (defaults to '<tableName>_overrides')
+   */
+  overridesTableName?: string;
+
+  /**
+   * The name of the context key column of the overrides table
+   */
+  contextKeyColumn?: string;
+
+  /**
+   * The name of the audit log table (defaults to '<tableName>_changes')
+   */
+  auditTableName?: string;
+
+  /**
+   * The name of the experiment assignments table (defaults to '<tableName>_assignments')
+   */
+  assignmentsTableName?: string;
 }
 
 /**
@@ -56,4 +106,54 @@ export interface DynamoDBConfig {
    * The name of the feature value attribute (defaults to 'value')
    */
   valueAttribute?: string;
+
+  /**
+   * The name of the feature configuration attribute (defaults to 'config')
+   */
+  configAttribute?: string;
+
+  /**
+   * The name of the variant attribute (defaults to 'variant')
+   */
+  variantAttribute?: string;
+
+  /**
+   * The name of the metadata attribute (defaults to 'metadata')
+   */
+  metadataAttribute?: string;
+
+  /**
+   * The name of the usage attribute, last evaluation (defaults to 'usage')
+   */
+  usageAttribute?: string;
+
+  /**
+   * The name of the creation date attribute (defaults to 'created_at')
+   */
+  createdAtAttribute?: string;
+
+  /**
+   * The name of the last update date attribute (defaults to 'updated_at')
+   */
+  updatedAtAttribute?: string;
+
+  /**
+   * The name of the per-context overrides table (defaults to '<tableName>_overrides')
+   */
+  overridesTableName?: string;
+
+  /**
+   * The name of the context key sort key of the overrides table (defaults to 'context_key')
+   */
+  contextKeyAttribute?: string;
+
+  /**
+   * The name of the audit log table (defaults to '<tableName>_changes')
+   */
+  auditTableName?: string;
+
+  /**
+   * The name of the experiment assignments table (defaults to '<tableName>_assignments')
+   */
+  assignmentsTableName?: string;
 }
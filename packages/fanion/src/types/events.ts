@@ -0,0 +1,103 @@
+import type { FeatureConfig, VariantValue } from "./feature_config.js";
+
+/**
+ * Where the result of an evaluation comes from
+ * - override: a per-context override
+ * - definition: a feature flag defined with define()
+ * - store: a feature flag stored in the storage provider, or a defined flag
+ *   turned off by a stored false
+ * - prerequisite: a prerequisite flag did not have its required result
+ * - namespace: the namespace of the flag is turned off
+ */
+export type EvaluationSource =
+  | "override"
+  | "definition"
+  | "store"
+  | "prerequisite"
+  | "namespace";
+
+/**
+ * Events emitted by the feature manager and their payload
+ */
+export interface FeatureManagerEvents {
+  /**
+   * A feature flag has been evaluated, duration is in milliseconds
+   */
+  evaluated: {
+    flag: string;
+    context: unknown;
+    result: boolean;
+    source: EvaluationSource;
+
+    /**
+     * Layer of a composite store that answered
+     */
+    layer?: string;
+    duration: number;
+  };
+
+  /**
+   * A feature flag has been defined in code
+   */
+  defined: {
+    flag: string;
+  };
+
+  /**
+   * A feature flag value has been stored, globally or for a context key
+   */
+  stored: {
+    flag: string;
+    value: boolean;
+    contextKey?: string;
+  };
+
+  /**
+   * The evaluation configuration of a feature flag has been stored
+   */
+  configured: {
+    flag: string;
+    config: FeatureConfig;
+  };
+
+  /**
+   * A feature flag has been deleted
+   */
+  deleted: {
+    flag: string;
+  };
+
+  /**
+   * A subject has been exposed to the variant of an experiment,
+   * firstExposure is true when the subject has just been assigned
+   */
+  exposure: {
+    flag: string;
+    context: unknown;
+    subjectKey: string;
+    variant: VariantValue;
+    firstExposure: boolean;
+  };
+
+  /**
+   * A feature flag has been evaluated after its expiry date,
+   * emitted once per flag
+   */
+  expired: {
+    flag: string;
+    expiresAt: string;
+  };
+
+  /**
+   * An evaluation, a store operation or a listener failed
+   */
+  error: {
+    flag?: string;
+    operation: string;
+    error: unknown;
+  };
+}
+
+export type FeatureManagerEventListener<
+  K extends keyof FeatureManagerEvents,
+> = (payload: FeatureManagerEvents[K]) => void;
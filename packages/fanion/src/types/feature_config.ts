@@ -0,0 +1,373 @@
+/**
+ * Percentage rollout of a feature flag.
+ * Contexts are bucketed with a stable hash of the context key and the flag name.
+ */
+export interface Rollout {
+  /**
+   * Percentage of contexts that get the feature (0 to 100)
+   */
+  percentage: number;
+
+  /**
+   * Path of the context value used for bucketing (ex: "user.id", "tenantId")
+   */
+  contextKey: string;
+}
+
+/**
+ * A percentage reached by a ramp after a delay
+ */
+export interface RampStep {
+  percentage: number;
+
+  /**
+   * Milliseconds of ramp progress after which the step applies
+   */
+  after: number;
+}
+
+/**
+ * Time-based progressive rollout, the effective percentage is the last step
+ * reached by the ramp. Pausing or halting the ramp freezes its progress.
+ */
+export interface Ramp {
+  /**
+   * Path of the context value used for bucketing (ex: "user.id")
+   */
+  contextKey: string;
+  steps: RampStep[];
+
+  /**
+   * Instant from which the progress is counted (ISO 8601)
+   */
+  startedAt: string;
+
+  /**
+   * Milliseconds of progress made before startedAt (defaults to 0)
+   */
+  elapsed?: number;
+
+  /**
+   * Instant at which the ramp was paused (ISO 8601)
+   */
+  pausedAt?: string;
+
+  /**
+   * Marker stopping the ramp, until it is resumed
+   */
+  halt?: RampHalt;
+}
+
+/**
+ * A ramp to start, from now or from a given instant
+ */
+export interface RampDefinition {
+  contextKey: string;
+  steps: RampStep[];
+
+  /**
+   * Instant at which the ramp starts (ISO 8601, defaults to now)
+   */
+  startedAt?: string;
+}
+
+/**
+ * Progress of a ramp at a given instant
+ */
+export interface RampStatus {
+  /**
+   * Effective rollout percentage
+   */
+  percentage: number;
+
+  /**
+   * Index of the last step reached, -1 before the first step
+   */
+  step: number;
+  paused: boolean;
+  halt?: RampHalt;
+}
+
+/**
+ * Why and when a ramp was halted
+ */
+export interface RampHalt {
+  /**
+   * Instant at which the ramp was halted (ISO 8601)
+   */
+  at: string;
+  reason?: string;
+}
+
+/**
+ * Operators available in a targeting condition
+ */
+export type RuleOperator =
+  | "equals"
+  | "notEquals"
+  | "in"
+  | "notIn"
+  | "startsWith"
+  | "endsWith"
+  | "contains"
+  | "gt"
+  | "gte"
+  | "lt"
+  | "lte"
+  | "semverEquals"
+  | "semverGt"
+  | "semverGte"
+  | "semverLt"
+  | "semverLte";
+
+/**
+ * Value compared with a context attribute
+ */
+export type RuleValue = string | number | boolean | Array<string | number>;
+
+/**
+ * Compare a context attribute with a value
+ *
+ * @example
+ * ```ts
+ * { attribute: "user.plan", operator: "in", value: ["pro", "enterprise"] }
+ * ```
+ */
+export interface ConditionRule {
+  /**
+   * Path of the context value (ex: "user.country")
+   */
+  attribute: string;
+  operator: RuleOperator;
+  value: RuleValue;
+}
+
+/**
+ * Match when every rule matches
+ */
+export interface AndRule {
+  and: Rule[];
+}
+
+/**
+ * Match when at least one rule matches
+ */
+export interface OrRule {
+  or: Rule[];
+}
+
+/**
+ * Match when the rule does not match
+ */
+export interface NotRule {
+  not: Rule;
+}
+
+/**
+ * JSON serializable targeting rule evaluated against the context
+ */
+export type Rule = ConditionRule | AndRule | OrRule | NotRule;
+
+/**
+ * Any JSON serializable value
+ */
+export type JsonValue =
+  | string
+  | number
+  | boolean
+  | null
+  | JsonValue[]
+  | { [key: string]: JsonValue };
+
+/**
+ * Value of a multivariate feature flag (layout name, timeout, config blob...)
+ */
+export type VariantValue =
+  | string
+  | number
+  | boolean
+  | JsonValue[]
+  | { [key: string]: JsonValue };
+
+/**
+ * A variant and its share of the contexts
+ */
+export interface WeightedVariant {
+  value: VariantValue;
+
+  /**
+   * Relative weight of the variant, the weights don't have to sum up to 100
+   */
+  weight: number;
+}
+
+/**
+ * Weighted allocation of the variants of a feature flag
+ */
+export interface VariantAllocation {
+  /**
+   * Path of the context value used for bucketing (ex: "user.id")
+   */
+  contextKey: string;
+  variants: WeightedVariant[];
+}
+
+/**
+ * A feature flag that must have a given result for another flag to be active
+ */
+export interface Prerequisite {
+  flag: string;
+
+  /**
+   * Result required from the prerequisite flag for the same context
+   */
+  value: boolean;
+}
+
+export type Weekday = "sun" | "mon" | "tue" | "wed" | "thu" | "fri" | "sat";
+
+/**
+ * A daily time range, times are "HH:mm" in the time zone of the schedule.
+ * A window ending before it starts spans midnight (ex: 22:00 to 02:00).
+ */
+export interface RecurringWindow {
+  start: string;
+  end: string;
+
+  /**
+   * Days on which the window starts (defaults to every day)
+   */
+  days?: Weekday[];
+}
+
+/**
+ * Period during which a feature flag can be active
+ *
+ * @example
+ * ```ts
+ * {
+ *   start: "2025-11-28T00:00:00+01:00",
+ *   end: "2025-12-01T00:00:00+01:00",
+ *   windows: [{ start: "09:00", end: "18:00", days: ["fri", "sat", "sun"] }],
+ *   timeZone: "Europe/Paris",
+ * }
+ * ```
+ */
+export interface Schedule {
+  /**
+   * Instant from which the flag can be active (ISO 8601)
+   */
+  start?: string;
+
+  /**
+   * Instant from which the flag is inactive (ISO 8601)
+   */
+  end?: string;
+
+  /**
+   * The flag is only active during these windows when defined
+   */
+  windows?: RecurringWindow[];
+
+  /**
+   * IANA time zone of the windows (defaults to UTC)
+   */
+  timeZone?: string;
+}
+
+/**
+ * Evaluation configuration stored alongside a feature flag value
+ */
+export interface FeatureConfig {
+  rollout?: Rollout;
+  ramp?: Ramp;
+  rules?: Rule;
+  variants?: VariantAllocation;
+  prerequisites?: Prerequisite[];
+  schedule?: Schedule;
+}
+
+/**
+ * Descriptive information about a feature flag
+ */
+export interface FeatureMetadata {
+  /**
+   * What the feature flag is for
+   */
+  description?: string;
+
+  /**
+   * Team or person responsible for the feature flag
+   */
+  owner?: string;
+  tags?: string[];
+
+  /**
+   * Date after which the feature flag should be removed (ISO 8601)
+   */
+  expiresAt?: string;
+
+  /**
+   * Date at which the feature flag should be reviewed (ISO 8601)
+   */
+  reviewAt?: string;
+}
+
+/**
+ * Evaluations of a feature flag, dates are ISO 8601 strings
+ */
+export interface FeatureUsage {
+  lastEvaluatedAt: string;
+  lastResult: boolean;
+
+  /**
+   * Since when every evaluation returned the last result
+   */
+  resultChangedAt: string;
+}
+
+/**
+ * A feature flag as persisted by a storage provider
+ */
+export interface StoredFeature {
+  value: boolean;
+  config: FeatureConfig;
+
+  /**
+   * Stored variant of a multivariate feature flag
+   */
+  variant?: VariantValue;
+  metadata?: FeatureMetadata;
+  usage?: FeatureUsage;
+
+  /**
+   * Creation and last write dates, kept by the storage provider
+   */
+  createdAt?: Date;
+  updatedAt?: Date;
+
+  /**
+   * Name of the composite store layer the feature flag was read from
+   */
+  layer?: string;
+}
+
+/**
+ * Value of a feature flag stored for a single context key
+ */
+export interface FeatureOverride {
+  contextKey: string;
+  value: boolean;
+}
+
+/**
+ * Variant given to a subject of an experiment, kept until the experiment ends
+ */
+export interface ExperimentAssignment {
+  /**
+   * Value of the bucketing context key (ex: the user id)
+   */
+  subjectKey: string;
+  value: VariantValue;
+  assignedAt: Date;
+}
@@ -1,12 +1,24 @@
+import type { AuditEntry, AuditQuery } from "./audit.js";
+import type {
+  ExperimentAssignment,
+  FeatureConfig,
+  FeatureMetadata,
+  FeatureOverride,
+  FeatureUsage,
+  StoredFeature,
+  VariantValue,
+} from "./feature_config.js";
+
 /**
  * Feature database provider
  * Used to store feature flag into a storage
  */
 export interface FeatureStorageProvider {
   /**
+   * Set the global value of a feature flag,
+   * use setOverride() to store a value for a single context key
    *
    * @param flag
-   * @param contextKey
    * @param value
    */
   set(flag: string, value: boolean): Promise<void>;
@@ -33,4 +45,185 @@ export interface FeatureStorageProvider {
    * Initialise a provider
    */
   initStore(): Promise<void>;
+
+  /**
+   * Get a feature flag value with its evaluation configuration
+   *
+   * @param flag
+   */
+  getFeature?(flag: string): Promise<StoredFeature | undefined>;
+
+  /**
+   * Get a feature flag from where the writes go, for stores reading
+   * several sources. Changes are computed from it, so a write never
+   * copies the state of another source.
+   *
+   * @param flag
+   */
+  getTargetFeature?(flag: string): Promise<StoredFeature | undefined>;
+
+  /**
+   * Replace the evaluation configuration of a feature flag.
+   * A flag that is not stored yet is created enabled.
+   *
+   * @param flag
+   * @param config
+   */
+  setConfig?(flag: string, config: FeatureConfig): Promise<void>;
+
+  /**
+   * Get several feature flags in a single batch,
+   * flags that are not stored are missing from the result
+   *
+   * @param flags
+   */
+  getMany?(flags: string[]): Promise<Map<string, StoredFeature>>;
+
+  /**
+   * List the stored feature flags by name
+   *
+   * @param prefix Only list the flags starting with the prefix (ex: "billing:")
+   */
+  list?(prefix?: string): Promise<Map<string, StoredFeature>>;
+
+  /**
+   * List the names of the stored feature flags
+   *
+   * @param prefix Only list the flags starting with the prefix (ex: "billing:")
+   */
+  keys?(prefix?: string): Promise<string[]>;
+
+  /**
+   * Delete the feature flags starting with a prefix
+   *
+   * @param prefix
+   * @returns The names of the deleted flags
+   */
+  deletePrefix?(prefix: string): Promise<string[]>;
+
+  /**
+   * Store the variant value of a multivariate feature flag.
+   * A flag that is not stored yet is created enabled.
+   *
+   * @param flag
+   * @param value
+   */
+  setVariant?(flag: string, value: VariantValue): Promise<void>;
+
+  /**
+   * Unset the variant value of a stored feature flag,
+   * flags that are not stored are ignored
+   *
+   * @param flag
+   */
+  deleteVariant?(flag: string): Promise<void>;
+
+  /**
+   * Replace the metadata of a feature flag.
+   * A flag that is not stored yet is created enabled.
+   *
+   * @param flag
+   * @param metadata
+   */
+  setMetadata?(flag: string, metadata: FeatureMetadata): Promise<void>;
+
+  /**
+   * Save the evaluations of a stored feature flag,
+   * flags that are not stored are ignored
+   *
+   * @param flag
+   * @param usage
+   */
+  recordUsage?(flag: string, usage: FeatureUsage): Promise<void>;
+
+  /**
+   * Store the value of a feature flag for a single context key
+   *
+   * @param flag
+   * @param contextKey
+   * @param value
+   */
+  setOverride?(flag: string, contextKey: string, value: boolean): Promise<void>;
+
+  /**
+   * Get the value of a feature flag for a single context key
+   *
+   * @param flag
+   * @param contextKey
+   */
+  getOverride?(flag: string, contextKey: string): Promise<boolean | undefined>;
+
+  /**
+   * Delete the value of a feature flag for a single context key
+   *
+   * @param flag
+   * @param contextKey
+   */
+  deleteOverride?(flag: string, contextKey: string): Promise<void>;
+
+  /**
+   * List all the overrides of a feature flag
+   *
+   * @param flag
+   */
+  listOverrides?(flag: string): Promise<FeatureOverride[]>;
+
+  /**
+   * Delete all the overrides of a feature flag
+   *
+   * @param flag
+   */
+  clearOverrides?(flag: string): Promise<void>;
+
+  /**
+   * Save the experiment assignment of a subject, unless it already has one
+   *
+   * @param flag
+   * @param assignment
+   * @returns false if the subject was already assigned
+   */
+  addAssignment?(
+    flag: string,
+    assignment: ExperimentAssignment,
+  ): Promise<boolean>;
+
+  /**
+   * Get the experiment assignment of a subject
+   *
+   * @param flag
+   * @param subjectKey
+   */
+  getAssignment?(
+    flag: string,
+    subjectKey: string,
+  ): Promise<ExperimentAssignment | undefined>;
+
+  /**
+   * List the experiment assignments of a feature flag
+   *
+   * @param flag
+   */
+  listAssignments?(flag: string): Promise<ExperimentAssignment[]>;
+
+  /**
+   * Delete all the experiment assignments of a feature flag
+   *
+   * @param flag
+   */
+  clearAssignments?(flag: string): Promise<void>;
+
+  /**
+   * Append an entry to the audit log, entries are never updated
+   *
+   * @param entry
+   */
+  appendAudit?(entry: AuditEntry): Promise<void>;
+
+  /**
+   * List the audit log of a feature flag, most recent first
+   *
+   * @param flag
+   * @param query
+   */
+  listAudit?(flag: string, query?: AuditQuery): Promise<AuditEntry[]>;
 }
@@ -1,4 +1,157 @@
+import type {
+  FeatureMetadata,
+  FeatureUsage,
+  Prerequisite,
+  StoredFeature,
+} from "./feature_config.js";
+import type { FeatureStorageProvider } from "./feature_storage_provider.js";
+
 export type FeatureCheck<T = any> = (context: T) => Promise<boolean> | boolean;
+
+/**
+ * Options of a feature flag defined in code
+ */
+export interface DefineOptions {
+  /**
+   * The description, owner and tags of the feature flag, kept in memory
+   */
+  metadata?: FeatureMetadata;
+
+  /**
+   * The flags that must have the required result for this flag to be active
+   */
+  prerequisites?: Prerequisite[];
+}
+
+/**
+ * Resolve the keys of the stored overrides that apply to a context,
+ * by order of precedence (ex: ["user:12", "tenant:42"]).
+ * Without a type argument, it accepts resolvers of any context type.
+ */
+export type OverrideKeysResolver<T = never> = (
+  context: T,
+) => string | Array<string | undefined> | undefined;
+
+/**
+ * Return the current date
+ */
+export type Clock = () => Date;
+
+/**
+ * The configuration of a feature manager
+ */
+export interface FeatureManagerConfig {
+  /**
+   * The storage provider used to store feature flags
+   */
+  store: FeatureStorageProvider;
+
+  /**
+   * Resolve the context keys checked for per-context overrides.
+   * Overrides are not checked when no resolver is defined.
+   */
+  overrideKeys?: OverrideKeysResolver;
+
+  /**
+   * Save the last evaluation of the stored feature flags,
+   * at most once per flag and interval (defaults to 60 seconds)
+   */
+  trackUsage?: boolean | { interval?: number };
+
+  /**
+   * Warn when an expired feature flag is evaluated
+   */
+  logger?: { warn(message: string): void };
+
+  /**
+   * Make sub flags depend on their parent: 'billing:invoices.pdf' is off
+   * whenever 'billing:invoices' is off. Parents that don't exist are ignored.
+   */
+  inferPrerequisites?: boolean;
+
+  /**
+   * Current date used to evaluate schedules and date the usage and the audit log
+   * (defaults to the system clock), tests can inject a fake clock
+   */
+  clock?: Clock;
+}
+
+/**
+ * The parts of a 'context:flag.subFlag' feature flag name
+ */
+export interface ParsedFeatureName {
+  /**
+   * Namespace of the flag, undefined for names without one
+   */
+  context?: string;
+  flag: string;
+  subFlag?: string;
+}
+
+/**
+ * Where a listed feature flag comes from: defined in code, stored, or both
+ */
+export type FeatureListingSource = "definition" | "store" | "both";
+
+/**
+ * A feature flag known by the feature manager
+ */
+export interface FeatureListing {
+  name: string;
+  source: FeatureListingSource;
+
+  /**
+   * Metadata given to define(), overridden by the stored metadata
+   */
+  metadata?: FeatureMetadata;
+
+  /**
+   * Stored value and configuration, undefined for flags only defined in code
+   */
+  stored?: StoredFeature;
+}
+
+/**
+ * Why a feature flag is considered stale
+ * - expired: the expiry date is over
+ * - reviewDue: the review date is over
+ * - neverEvaluated: the flag has not been evaluated since it was created
+ * - unchanged: every evaluation returned the same result for the threshold
+ */
+export type StaleReason =
+  | "expired"
+  | "reviewDue"
+  | "neverEvaluated"
+  | "unchanged";
+
+/**
+ * A feature flag that can probably be removed
+ */
+export interface StaleFlag {
+  name: string;
+  reasons: StaleReason[];
+  metadata?: FeatureMetadata;
+  usage?: FeatureUsage;
+}
+
+export interface StaleFlagsOptions {
+  /**
+   * Number of days after which a flag always returning the same result,
+   * or never evaluated, is stale (defaults to 30)
+   */
+  unchangedDays?: number;
+
+  /**
+   * Report flags that were never evaluated (defaults to true when usage is tracked)
+   */
+  includeNeverEvaluated?: boolean;
+
+  /**
+   * Date of the report (defaults to now)
+   */
+  now?: Date;
+}
+
 /**
  * A feature provider is a class that can be used to retrieve feature flags.
  */
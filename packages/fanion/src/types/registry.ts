@@ -0,0 +1,53 @@
+import type { DefineOptions, FeatureCheck } from "./provider.js";
+
+/**
+ * A feature flag of a registry: a check function, the options of define() with a check,
+ * or a flag only kept in the store.
+ * Without a type argument, it accepts checks of any context type.
+ */
+export type FlagDefinition<T = never> =
+  | FeatureCheck<T>
+  | (DefineOptions & { check?: FeatureCheck<T> })
+  | {
+      /**
+       * The flag is not defined in code, its value is read from the store
+       */
+      stored: true;
+    };
+
+/**
+ * Feature flags of a registry by name
+ */
+export type FlagDefinitions = Record<string, FlagDefinition>;
+
+/**
+ * Union of the flag names of a registry
+ */
+export type FlagName<D extends FlagDefinitions> = Extract<keyof D, string>;
+
+/**
+ * Context expected by the check of a flag, unknown when the flag has no check
+ */
+export type FlagContext<D extends FlagDefinition> = D extends FeatureCheck<
+  infer T
+>
+  ? T
+  : D extends { check: FeatureCheck<infer T> }
+    ? T
+    : unknown;
+
+/**
+ * Context expected by every flag of a union, to check them together
+ */
+export type FlagsContext<D extends FlagDefinitions, K extends FlagName<D>> = (
+  K extends unknown
+    ? (context: FlagContext<D[K]>) => void
+    : never
+) extends (context: infer T) => void
+  ? T
+  : never;
+
+/**
+ * The context argument, optional when the flag accepts undefined
+ */
+export type ContextArgs<T> = undefined extends T ? [context?: T] : [context: T];
@@ -0,0 +1,95 @@
+import type { ChangeOptions } from "./audit.js";
+import type {
+  FeatureConfig,
+  FeatureMetadata,
+  VariantValue,
+} from "./feature_config.js";
+
+/**
+ * A stored feature flag in a snapshot, empty parts are left out
+ */
+export interface SnapshotFlag {
+  value: boolean;
+  config?: FeatureConfig;
+  variant?: VariantValue;
+  metadata?: FeatureMetadata;
+
+  /**
+   * Values of the feature flag by context key
+   */
+  overrides?: Record<string, boolean>;
+}
+
+/**
+ * Every stored feature flag of a store, a file driver can also read it
+ *
+ * @example
+ * ```json
+ * {
+ *   "version": 1,
+ *   "exportedAt": "2025-01-01T00:00:00.000Z",
+ *   "flags": { "search": { "value": true } }
+ * }
+ * ```
+ */
+export interface Snapshot {
+  /**
+   * Version of the snapshot format
+   */
+  version: 1;
+  exportedAt: string;
+
+  /**
+   * Feature flags by name, sorted by name
+   */
+  flags: Record<string, SnapshotFlag>;
+}
+
+export type SnapshotField = keyof SnapshotFlag;
+
+/**
+ * A feature flag differing between the source and the target of a diff
+ */
+export interface FlagChange {
+  flag: string;
+  source?: SnapshotFlag;
+  target?: SnapshotFlag;
+
+  /**
+   * The parts of the flag differing between the source and the target
+   */
+  fields: SnapshotField[];
+}
+
+/**
+ * What to apply to the target to make it match the source
+ */
+export interface SnapshotDiff {
+  /**
+   * Flags only in the source
+   */
+  added: FlagChange[];
+
+  /**
+   * Flags only in the target
+   */
+  removed: FlagChange[];
+  changed: FlagChange[];
+}
+
+export interface ImportSnapshotOptions {
+  /**
+   * Only return the changes, without writing them
+   */
+  dryRun?: boolean;
+
+  /**
+   * Delete the stored flags missing from the snapshot (defaults to false)
+   */
+  prune?: boolean;
+
+  /**
+   * The actor and reason recorded in the audit log
+   */
+  change?: ChangeOptions;
+}
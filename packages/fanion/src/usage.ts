@@ -0,0 +1,141 @@
+import type { FeatureMetadata, FeatureUsage } from "./types/feature_config.js";
+import type { StaleReason } from "./types/provider.js";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Evaluations of a feature flag seen by the current process
+ */
+export interface LocalUsage {
+  firstEvaluatedAt: string;
+  lastEvaluatedAt: string;
+  lastResult: boolean;
+
+  /**
+   * Last time the result changed in this process
+   */
+  changedAt?: string;
+}
+
+/**
+ * Add an evaluation result to the usage of the current process
+ *
+ * @param usage
+ * @param result
+ * @param now
+ */
+export function recordEvaluation(
+  usage: LocalUsage | undefined,
+  result: boolean,
+  now: Date,
+): LocalUsage {
+  const date = now.toISOString();
+
+  if (!usage) {
+    return {
+      firstEvaluatedAt: date,
+      lastEvaluatedAt: date,
+      lastResult: result,
+    };
+  }
+
+  return {
+    ...usage,
+    lastEvaluatedAt: date,
+    lastResult: result,
+    changedAt: usage.lastResult === result ? usage.changedAt : date,
+  };
+}
+
+/**
+ * Merge the usage of the current process into the stored usage
+ *
+ * @param stored
+ * @param local
+ */
+export function mergeUsage(
+  stored: FeatureUsage | undefined,
+  local: LocalUsage | undefined,
+): FeatureUsage | undefined {
+  if (!local) {
+    return stored;
+  }
+
+  if (!stored) {
+    return {
+      lastEvaluatedAt: local.lastEvaluatedAt,
+      lastResult: local.lastResult,
+      resultChangedAt: local.changedAt ?? local.firstEvaluatedAt,
+    };
+  }
+
+  let resultChangedAt = local.changedAt;
+
+  if (resultChangedAt === undefined) {
+    resultChangedAt =
+      stored.lastResult === local.lastResult
+        ? stored.resultChangedAt
+        : local.firstEvaluatedAt;
+  }
+
+  // ISO 8601 dates can be compared as strings
+  return {
+    lastEvaluatedAt:
+      stored.lastEvaluatedAt > local.lastEvaluatedAt
+        ? stored.lastEvaluatedAt
+        : local.lastEvaluatedAt,
+    lastResult: local.lastResult,
+    resultChangedAt,
+  };
+}
+
+/**
+ * Find why a feature flag is stale
+ *
+ * @param flag The metadata, usage and creation date of the feature flag
+ * @param options
+ * @returns An empty array if the feature flag is not stale
+ */
+export function getStaleReasons(
+  flag: {
+    metadata?: FeatureMetadata;
+    usage?: FeatureUsage;
+    createdAt?: Date;
+  },
+  options: { now: Date; unchangedDays: number; includeNeverEvaluated: boolean },
+): StaleReason[] {
+  const now = options.now.getTime();
+  const threshold = now - options.unchangedDays * DAY;
+  const reasons: StaleReason[] = [];
+
+  if (isPast(flag.metadata?.expiresAt, now)) {
+    reasons.push("expired");
+  }
+
+  if (isPast(flag.metadata?.reviewAt, now)) {
+    reasons.push("reviewDue");
+  }
+
+  if (!flag.usage) {
+    if (
+      options.includeNeverEvaluated &&
+      (flag.createdAt === undefined || flag.createdAt.getTime() <= threshold)
+    ) {
+      reasons.push("neverEvaluated");
+    }
+  } else if (Date.parse(flag.usage.resultChangedAt) <= threshold) {
+    reasons.push("unchanged");
+  }
+
+  return reasons;
+}
+
+/**
+ * Check if an ISO 8601 date is over
+ *
+ * @param date
+ * @param now
+ */
+export function isPast(date: string | undefined, now: number): boolean {
+  return date !== undefined && Date.parse(date) <= now;
+}
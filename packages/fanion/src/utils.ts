@@ -1,3 +1,5 @@
+import type { ParsedFeatureName } from "./types/provider.js";
+
 /**
  * Utility to ensure consistant feautre name
  *
@@ -24,3 +26,69 @@ export function generateFeatureName(
 
   return `${context}:${flag}.${subFlag}`;
 }
+
+/**
+ * Split a feature flag name built by generateFeatureName().
+ * Names without a namespace are kept whole: 'search.v2' has no sub flag.
+ *
+ * @param flagName ex: "billing:invoices.pdf"
+ * @returns ex: { context: "billing", flag: "invoices", subFlag: "pdf" }
+ */
+export function parseFeatureName(flagName: string): ParsedFeatureName {
+  const separator = flagName.indexOf(":");
+
+  if (separator <= 0 || separator === flagName.length - 1) {
+    return { flag: flagName };
+  }
+
+  const context = flagName.slice(0, separator);
+  const name = flagName.slice(separator + 1);
+  const dot = name.indexOf(".");
+
+  if (dot <= 0 || dot === name.length - 1) {
+    return { context, flag: name };
+  }
+
+  return {
+    context,
+    flag: name.slice(0, dot),
+    subFlag: name.slice(dot + 1),
+  };
+}
+
+/**
+ * Name of the stored flag turning off a namespace, "billing:*"
+ */
+export const NAMESPACE_SWITCH = "*";
+
+/**
+ * Check if a stored flag is the switch of a namespace,
+ * switches are not feature flags and are left out of listings and exports.
+ *
+ * @param flagName ex: "billing:*"
+ */
+export function isNamespaceSwitch(flagName: string): boolean {
+  const { context, flag } = parseFeatureName(flagName);
+  return context !== undefined && flag === NAMESPACE_SWITCH;
+}
+
+/**
+ * Read a value from a context object using a dot separated path
+ *
+ * @param context
+ * @param path ex: "user.id"
+ * @returns The value or undefined if the path does not exist
+ */
+export function getContextValue(context: unknown, path: string): unknown {
+  let current = context;
+
+  for (const segment of path.split(".")) {
+    if (current === null || typeof current !== "object") {
+      return undefined;
+    }
+
+    current = (current as Record<string, unknown>)[segment];
+  }
+
+  return current;
+}
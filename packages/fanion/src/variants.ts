@@ -0,0 +1,83 @@
+import { InvalidVariantError } from "./errors.js";
+import { getBucket } from "./rollout.js";
+import type {
+  VariantAllocation,
+  VariantValue,
+} from "./types/feature_config.js";
+import { getContextValue } from "./utils.js";
+
+/**
+ * Pick the variant of a context from a weighted allocation.
+ * A context always gets the same variant while the weights don't change.
+ *
+ * @param flagName
+ * @param allocation
+ * @param context
+ * @returns The variant or undefined if the context has no value for the key
+ */
+export function pickVariant(
+  flagName: string,
+  allocation: VariantAllocation,
+  context: unknown,
+): VariantValue | undefined {
+  const key = getContextValue(context, allocation.contextKey);
+
+  if (key === undefined || key === null) {
+    return undefined;
+  }
+
+  const total = allocation.variants.reduce(
+    (sum, variant) => sum + variant.weight,
+    0,
+  );
+  // Salted, so the variant does not depend on the rollout bucket of the context
+  const bucket = (getBucket(`${flagName}:variant`, String(key)) / 100) * total;
+
+  let cumulated = 0;
+  for (const variant of allocation.variants) {
+    cumulated += variant.weight;
+
+    if (bucket < cumulated) {
+      return variant.value;
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Ensure a variant allocation can be stored
+ *
+ * @param allocation
+ * @throws {InvalidVariantError}
+ */
+export function assertValidAllocation(allocation: VariantAllocation): void {
+  if (
+    typeof allocation.contextKey !== "string" ||
+    allocation.contextKey === ""
+  ) {
+    throw new InvalidVariantError("contextKey is required");
+  }
+
+  if (!Array.isArray(allocation.variants) || allocation.variants.length === 0) {
+    throw new InvalidVariantError("at least one variant is required");
+  }
+
+  for (const variant of allocation.variants) {
+    if (
+      typeof variant.weight !== "number" ||
+      Number.isNaN(variant.weight) ||
+      variant.weight < 0
+    ) {
+      throw new InvalidVariantError("weights must be positive numbers");
+    }
+
+    if (variant.value === undefined || variant.value === null) {
+      throw new InvalidVariantError("a variant value is required");
+    }
+  }
+
+  if (allocation.variants.every((variant) => variant.weight === 0)) {
+    throw new InvalidVariantError("at least one weight must be positive");
+  }
+}
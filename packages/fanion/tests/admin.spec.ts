@@ -0,0 +1,343 @@
+import { test } from "@japa/runner";
+import { createServer, type RequestListener, type Server } from "node:http";
+import type { AddressInfo } from "node:net";
+import { createAdminHandler } from "../src/admin.js";
+import { FeatureManager } from "../src/feature.js";
+import { InMemoryDriver } from "../src/drivers/memory.js";
+import { createEnvDriver } from "../src/drivers/env.js";
+import type { AdminHandlerOptions } from "../src/admin.js";
+
+const servers: Server[] = [];
+
+/**
+ * Serve a handler on a random port and request it with fetch()
+ */
+async function serve(listener: RequestListener) {
+  const server = createServer(listener);
+  servers.push(server);
+  await new Promise<void>((resolve) => server.listen(0, resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    request: (method: string, path: string, body?: unknown) =>
+      fetch(`http://localhost:${port}${path}`, {
+        method,
+        headers: { authorization: "Bearer secret" },
+        body:
+          body === undefined || typeof body === "string"
+            ? body
+            : JSON.stringify(body),
+      }),
+  };
+}
+
+function adminServer(fm: FeatureManager, options?: AdminHandlerOptions) {
+  const handler = createAdminHandler(fm, { authorize: () => true, ...options });
+  return serve((request, response) => handler(request, response));
+}
+
+test.group("Admin API", (group) => {
+  group.each.setup(() => async () => {
+    await Promise.all(
+      servers.splice(0).map(
+        (server) =>
+          new Promise((resolve) => {
+            server.close(resolve);
+            // fetch() keeps the connections alive
+            server.closeAllConnections();
+          }),
+      ),
+    );
+  });
+
+  test("Should create, read, toggle and delete flags", async ({ expect }) => {
+    const store = new InMemoryDriver();
+    const fm = new FeatureManager({ store });
+    const api = await adminServer(fm, {
+      basePath: "/admin/",
+      actor: (request) => request.headers.authorization?.slice(7),
+    });
+
+    fm.define("dashboard", () => true);
+
+    let response = await api.request("POST", "/admin/flags", {
+      name: "billing:invoices",
+      value: false,
+      metadata: { owner: "billing", tags: ["finance"] },
+      reason: "New invoices",
+    });
+    expect(response.status).toBe(201);
+    expect(response.headers.get("content-type")).toContain("application/json");
+    expect(await response.json()).toMatchObject({
+      name: "billing:invoices",
+      source: "store",
+      metadata: { owner: "billing", tags: ["finance"] },
+      stored: {
+        value: false,
+        config: {},
+        metadata: { owner: "billing", tags: ["finance"] },
+      },
+    });
+
+    response = await api.request("GET", "/admin/flags");
+    expect(await response.json()).toMatchObject({
+      flags: [{ name: "billing:invoices" }, { name: "dashboard" }],
+    });
+
+    response = await api.request("GET", "/admin/flags?prefix=billing%3A");
+    expect(await response.json()).toMatchObject({
+      flags: [{ name: "billing:invoices" }],
+    });
+
+    response = await api.request("PUT", "/admin/flags/billing%3Ainvoices", {
+      value: true,
+    });
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ stored: { value: true } });
+    expect(await fm.active("billing:invoices")).toBe(true);
+
+    response = await api.request("GET", "/admin/flags/dashboard");
+    expect(await response.json()).toEqual({
+      name: "dashboard",
+      source: "definition",
+    });
+
+    response = await api.request("PUT", "/admin/flags/dashboard", {
+      value: false,
+    });
+    expect(response.status).toBe(200);
+    expect(await fm.active("dashboard")).toBe(false);
+
+    await api.request("PUT", "/admin/flags/dashboard", { value: true });
+    expect(await fm.active("dashboard")).toBe(true);
+
+    response = await api.request("DELETE", "/admin/flags/billing:invoices", {
+      reason: "Sunset",
+    });
+    expect(response.status).toBe(204);
+    expect(await store.get("billing:invoices")).toBeUndefined();
+
+    expect(await fm.history("billing:invoices")).toMatchObject([
+      { action: "delete", actor: "secret", reason: "Sunset" },
+      { action: "set", actor: "secret" },
+      { action: "set", actor: "secret", reason: "New invoices" },
+    ]);
+  });
+
+  test("Should map the errors to JSON responses", async ({ expect }) => {
+    const fm = new FeatureManager({ store: new InMemoryDriver() });
+    const api = await adminServer(fm);
+
+    await fm.defineAndStore("search", true);
+
+    const expectError = async (
+      response: Response,
+      status: number,
+      code: string,
+    ) => {
+      expect(response.status).toBe(status);
+      expect(await response.json()).toMatchObject({ error: { code } });
+    };
+
+    await expectError(
+      await api.request("GET", "/flags/missing"),
+      404,
+      "flag_not_found",
+    );
+    await expectError(
+      await api.request("PUT", "/flags/missing", { value: true }),
+      404,
+      "flag_not_found",
+    );
+    await expectError(
+      await api.request("DELETE", "/flags/missing"),
+      404,
+      "flag_not_found",
+    );
+    await expectError(
+      await api.request("POST", "/flags", { name: "search" }),
+      409,
+      "already_exists",
+    );
+    await expectError(await api.request("GET", "/flags/a/b"), 404, "not_found");
+
+    const response = await api.request("PATCH", "/flags/search");
+    expect(response.headers.get("allow")).toBe("GET, PUT, DELETE");
+    await expectError(response, 405, "method_not_allowed");
+
+    const noStore = await adminServer(new FeatureManager());
+    await expectError(
+      await noStore.request("POST", "/flags", { name: "search" }),
+      501,
+      "provider_not_defined",
+    );
+
+    const readOnly = await adminServer(
+      new FeatureManager({ store: createEnvDriver({ env: {} }) }),
+    );
+    await expectError(
+      await readOnly.request("POST", "/flags", { name: "search" }),
+      501,
+      "unsupported_operation",
+    );
+  });
+
+  test("Should validate the requests", async ({ expect }) => {
+    const fm = new FeatureManager({ store: new InMemoryDriver() });
+    const api = await adminServer(fm, { bodyLimit: 200 });
+
+    await fm.defineAndStore("search", true);
+
+    const invalid = async (
+      method: string,
+      path: string,
+      body: unknown,
+      message: string,
+    ) => {
+      const response = await api.request(method, path, body);
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual({
+        error: {
+          code: "invalid_request",
+          message: `Invalid request: ${message}`,
+        },
+      });
+    };
+
+    await invalid("POST", "/flags", {}, "'name' must be a non-empty string");
+    await invalid(
+      "POST",
+      "/flags",
+      { name: "new search" },
+      "'name' must not contain spaces",
+    );
+    await invalid(
+      "POST",
+      "/flags",
+      { name: "search:v2", value: "yes" },
+      "'value' must be a boolean",
+    );
+    await invalid(
+      "POST",
+      "/flags",
+      { name: "search:v2", enabled: true },
+      "unknown property 'enabled'",
+    );
+    await invalid(
+      "POST",
+      "/flags",
+      { name: "search:v2", metadata: { tags: "search" } },
+      "'metadata.tags' must be an array of strings",
+    );
+    await invalid(
+      "POST",
+      "/flags",
+      { name: "search:v2", metadata: { expiresAt: "soon" } },
+      "'metadata.expiresAt' must be an ISO 8601 date",
+    );
+    await invalid("PUT", "/flags/search", {}, "'value' must be a boolean");
+    await invalid(
+      "PUT",
+      "/flags/search",
+      { value: false, reason: 42 },
+      "'reason' must be a string",
+    );
+    await invalid(
+      "PUT",
+      "/flags/search",
+      [true],
+      "the body must be a JSON object",
+    );
+    await invalid(
+      "GET",
+      "/flags/%E0%A4%A",
+      undefined,
+      "the flag name is not correctly encoded",
+    );
+
+    await invalid("PUT", "/flags/search", "{", "the body is not valid JSON");
+
+    const response = await api.request("POST", "/flags", {
+      name: "search:v2",
+      metadata: { description: "x".repeat(200) },
+    });
+    expect(response.status).toBe(413);
+    expect(await fm.all()).toHaveLength(1);
+  });
+
+  test("Should authorize the requests", async ({ expect }) => {
+    const fm = new FeatureManager({ store: new InMemoryDriver() });
+    const api = await adminServer(fm, {
+      authorize: async (request) =>
+        request.headers.authorization === "Bearer admin",
+    });
+
+    const response = await api.request("POST", "/flags", { name: "search" });
+
+    expect(response.status).toBe(403);
+    expect(await response.json()).toEqual({
+      error: { code: "forbidden", message: "Access to the admin API denied" },
+    });
+    expect(await fm.all()).toEqual([]);
+  });
+
+  test("Should deny the changes without authorize", async ({ expect }) => {
+    const fm = new FeatureManager({ store: new InMemoryDriver() });
+    const handler = createAdminHandler(fm);
+    const api = await serve((request, response) => handler(request, response));
+
+    await fm.defineAndStore("search", false);
+
+    for (const [method, path] of [
+      ["POST", "/flags"],
+      ["PUT", "/flags/search"],
+      ["DELETE", "/flags/search"],
+    ]) {
+      const response = await api.request(method, path, { value: true });
+
+      expect(response.status).toBe(403);
+      expect(await response.json()).toEqual({
+        error: {
+          code: "forbidden",
+          message: "Changes through the admin API need the authorize option",
+        },
+      });
+    }
+
+    expect((await api.request("GET", "/flags/search")).status).toBe(200);
+    expect(await fm.active("search")).toBe(false);
+  });
+
+  test("Should pass the other requests to the next middleware", async ({
+    expect,
+  }) => {
+    const fm = new FeatureManager({ store: new InMemoryDriver() });
+    const handler = createAdminHandler(fm, { basePath: "/admin" });
+    const api = await serve((request, response) =>
+      handler(request, response, () => {
+        response.statusCode = 200;
+        response.end("app");
+      }),
+    );
+
+    expect(await (await api.request("GET", "/home")).text()).toBe("app");
+    expect(await (await api.request("GET", "/administration")).text()).toBe(
+      "app",
+    );
+    expect((await api.request("GET", "/admin/flags")).status).toBe(200);
+  });
+
+  test("Should read a body parsed by the framework", async ({ expect }) => {
+    const fm = new FeatureManager({ store: new InMemoryDriver() });
+    const handler = createAdminHandler(fm, { authorize: () => true });
+    const api = await serve((request, response) => {
+      // Like express.json(), the stream is consumed before the handler
+      request.resume();
+      Object.assign(request, { body: { name: "search", value: false } });
+      handler(request, response);
+    });
+
+    expect((await api.request("POST", "/flags")).status).toBe(201);
+    expect(await fm.active("search")).toBe(false);
+  });
+});
@@ -0,0 +1,203 @@
+import { test } from "@japa/runner";
+import { FeatureManager } from "../src/feature.js";
+import { InMemoryDriver } from "../src/drivers/memory.js";
+import { CachedDriver } from "../src/drivers/cache.js";
+import {
+  ProviderNotDefined,
+  UnsupportedOperationError,
+} from "../src/errors.js";
+import type { FeatureStorageProvider } from "../src/types/feature_storage_provider.js";
+
+test.group("Audit log", () => {
+  test("Should record the actor, the reason and both states", async ({
+    expect,
+  }) => {
+    const fm = new FeatureManager({ store: new InMemoryDriver() });
+
+    await fm.defineAndStore("checkout:v2", false, undefined, {
+      actor: "jane",
+      reason: "Initial release",
+    });
+    await fm.set("checkout:v2", true, {
+      actor: "john",
+      reason: "Incident #42",
+    });
+
+    const [latest, first] = await fm.history("checkout:v2");
+
+    expect(latest).toMatchObject({
+      flag: "checkout:v2",
+      action: "set",
+      actor: "john",
+      reason: "Incident #42",
+      previous: { value: false, config: {} },
+      next: { value: true, config: {} },
+    });
+    expect(latest.changedAt).toBeInstanceOf(Date);
+    expect(first).toMatchObject({ actor: "jane", next: { value: false } });
+    expect(first.previous).toBeUndefined();
+    expect(latest.id > first.id).toBe(true);
+  });
+
+  test("Should record configuration, variant and deletion changes", async ({
+    expect,
+  }) => {
+    const fm = new FeatureManager({ store: new InMemoryDriver() });
+
+    await fm.defineAndStore("search");
+    await fm.setRollout("search", { percentage: 10, contextKey: "id" });
+    await fm.setVariant("search", "compact");
+    await fm.setMetadata("search", { owner: "discovery" });
+    await fm.delete("search", { actor: "jane" });
+
+    const entries = await fm.history("search");
+
+    expect(entries.map(({ action }) => action)).toEqual([
+      "delete",
+      "metadata",
+      "variant",
+      "configure",
+      "set",
+    ]);
+    expect(entries[0].next).toBeUndefined();
+    expect(entries[0].previous).toMatchObject({
+      config: { rollout: { percentage: 10 } },
+      variant: "compact",
+      metadata: { owner: "discovery" },
+    });
+    expect(await fm.history("search", { limit: 2 })).toHaveLength(2);
+  });
+
+  test("Should revert to a previous entry", async ({ expect }) => {
+    const store = new InMemoryDriver();
+    const fm = new FeatureManager({ store });
+
+    await fm.defineAndStore("search", false);
+    await fm.setRollout("search", { percentage: 10, contextKey: "id" });
+    const [configured] = await fm.history("search");
+
+    await fm.set("search", true);
+    await fm.setRollout("search", { percentage: 50, contextKey: "id" });
+    await fm.revert("search", configured.id, { actor: "jane" });
+
+    expect(await store.getFeature("search")).toMatchObject({
+      value: false,
+      config: { rollout: { percentage: 10, contextKey: "id" } },
+    });
+
+    const [reverted] = await fm.history("search");
+    expect(reverted).toMatchObject({
+      action: "revert",
+      actor: "jane",
+      reason: `Revert to ${configured.id}`,
+    });
+  });
+
+  test("Should delete the flag when reverting to a deletion", async ({
+    expect,
+  }) => {
+    const store = new InMemoryDriver();
+    const fm = new FeatureManager({ store });
+
+    await fm.defineAndStore("search");
+    await fm.delete("search");
+    const [deleted] = await fm.history("search");
+
+    await fm.set("search", true);
+    await fm.revert("search", deleted.id);
+
+    expect(await store.get("search")).toBeUndefined();
+    await expect(fm.revert("search", "unknown")).rejects.toThrow(
+      "Audit entry 'unknown' of feature flag 'search' not found",
+    );
+  });
+
+  test("Should record and revert override changes", async ({ expect }) => {
+    const store = new InMemoryDriver();
+    const fm = new FeatureManager({ store });
+
+    await fm.defineAndStore("search", false);
+    await fm.setOverride("search", "tenant:1", true, { actor: "jane" });
+    await fm.setOverride("search", "tenant:2", false);
+    await fm.deleteOverride("search", "tenant:1", { reason: "Churned" });
+    await fm.clearOverrides("search", { actor: "john" });
+
+    const [cleared, deleted, , set] = await fm.history("search");
+
+    expect(set).toMatchObject({
+      action: "override",
+      actor: "jane",
+      previous: { value: false },
+      next: { value: false },
+      overrides: { previous: {}, next: { "tenant:1": true } },
+    });
+    expect(deleted).toMatchObject({
+      reason: "Churned",
+      overrides: { previous: { "tenant:1": true }, next: {} },
+    });
+    expect(cleared).toMatchObject({
+      actor: "john",
+      overrides: { previous: { "tenant:2": false }, next: {} },
+    });
+
+    await fm.revert("search", set.id);
+
+    expect(await store.listOverrides("search")).toEqual([
+      { contextKey: "tenant:1", value: true },
+    ]);
+    expect((await fm.history("search"))[0]).toMatchObject({
+      action: "revert",
+      overrides: { previous: {}, next: { "tenant:1": true } },
+    });
+  });
+
+  test("Should order the entries when the clock goes back", async ({
+    expect,
+  }) => {
+    const dates = [
+      new Date("2025-01-01T00:00:01.000Z"),
+      new Date("2025-01-01T00:00:00.000Z"),
+    ];
+    const fm = new FeatureManager({
+      store: new InMemoryDriver(),
+      clock: () => dates.shift() ?? new Date("2025-01-01T00:00:01.000Z"),
+    });
+
+    await fm.defineAndStore("search", false);
+    await fm.set("search", true);
+    await fm.set("search", false);
+
+    const ids = (await fm.history("search")).map(({ id }) => id);
+
+    expect(ids).toEqual([...ids].sort().reverse());
+    expect(new Set(ids).size).toBe(3);
+  });
+
+  test("Should skip the audit log when the store has none", async ({
+    expect,
+  }) => {
+    const values = new Map<string, boolean>();
+    const store: FeatureStorageProvider = {
+      set: async (flag, value) => {
+        values.set(flag, value);
+      },
+      get: async (flag) => values.get(flag),
+      delete: async (flag) => {
+        values.delete(flag);
+      },
+      isDatabaseDriver: () => false,
+      initStore: async () => {},
+    };
+    const fm = new FeatureManager({ store: new CachedDriver(store) });
+
+    await fm.set("search", false, { actor: "jane" });
+
+    expect(values.get("search")).toBe(false);
+    await expect(fm.history("search")).rejects.toThrow(
+      UnsupportedOperationError,
+    );
+    await expect(new FeatureManager().history("search")).rejects.toThrow(
+      ProviderNotDefined,
+    );
+  });
+});
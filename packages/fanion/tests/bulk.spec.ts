@@ -0,0 +1,88 @@
+import { test } from "@japa/runner";
+import { FeatureManager } from "../src/feature.js";
+import { InMemoryDriver } from "../src/drivers/memory.js";
+import { FeatureNotExistsError } from "../src/errors.js";
+
+/**
+ * In-memory driver counting the single and batched reads
+ */
+class CountingDriver extends InMemoryDriver {
+  reads = 0;
+  batches = 0;
+
+  async get(flag: string) {
+    this.reads++;
+    return super.get(flag);
+  }
+
+  async getMany(flags: string[]) {
+    this.batches++;
+    return super.getMany(flags);
+  }
+}
+
+test.group("Bulk evaluation", () => {
+  test("Should evaluate several flags with a single batch read", async ({
+    expect,
+  }) => {
+    const store = new CountingDriver();
+    const fm = new FeatureManager({ store });
+
+    fm.define("admin", (ctx: { role: string }) => ctx.role === "admin");
+    await fm.defineAndStore("search", true);
+    await fm.setRules("search", {
+      attribute: "plan",
+      operator: "equals",
+      value: "pro",
+    });
+    await store.set("legacy", false);
+
+    const results = await fm.activeMany(["admin", "search", "legacy"], {
+      role: "admin",
+      plan: "free",
+    });
+
+    expect(results).toEqual({ admin: true, search: false, legacy: false });
+    expect(store.batches).toBe(1);
+    expect(store.reads).toBe(0);
+  });
+
+  test("Should evaluate every defined flag", async ({ expect }) => {
+    const fm = new FeatureManager({ store: new CountingDriver() });
+
+    fm.define("admin", (ctx: { role: string }) => ctx.role === "admin");
+    fm.define("beta", () => true);
+
+    expect(await fm.evaluateAll({ role: "user" })).toEqual({
+      admin: false,
+      beta: true,
+    });
+  });
+
+  test("Should apply overrides and reject unknown flags", async ({
+    expect,
+  }) => {
+    const fm = new FeatureManager({
+      store: new CountingDriver(),
+      overrideKeys: (ctx: { tenant: string }) => ctx.tenant,
+    });
+
+    await fm.defineAndStore("invoices", false);
+    await fm.setOverride("invoices", "acme", true);
+
+    expect(await fm.activeMany(["invoices"], { tenant: "acme" })).toEqual({
+      invoices: true,
+    });
+    await expect(
+      fm.activeMany(["invoices", "unknown"], { tenant: "acme" }),
+    ).rejects.toThrow(FeatureNotExistsError);
+  });
+
+  test("Should work without a store", async ({ expect }) => {
+    const fm = new FeatureManager();
+
+    fm.define("beta", () => true);
+
+    expect(await fm.evaluateAll()).toEqual({ beta: true });
+  });
+});
@@ -0,0 +1,308 @@
+import { test } from "@japa/runner";
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { runCli } from "../src/cli.js";
+import { FileDriver } from "../src/drivers/file.js";
+import { FeatureManager } from "../src/feature.js";
+
+/**
+ * Run the command-line tool in a directory and capture its output
+ */
+async function cli(cwd: string, ...args: string[]) {
+  let stdout = "";
+  let stderr = "";
+
+  const code = await runCli(args, {
+    stdout: {
+      write: (chunk: string) => {
+        stdout += chunk;
+      },
+    },
+    stderr: {
+      write: (chunk: string) => {
+        stderr += chunk;
+      },
+    },
+    cwd,
+    env: { USER: "ops" },
+  });
+
+  return { code, stdout, stderr };
+}
+
+async function writeJson(path: string, data: unknown) {
+  await writeFile(path, JSON.stringify(data));
+}
+
+test.group("CLI", (group) => {
+  let directory: string;
+
+  group.each.setup(async () => {
+    directory = await mkdtemp(join(tmpdir(), "fanion-"));
+    return () => rm(directory, { recursive: true, force: true });
+  });
+
+  test("Should create a config file", async ({ expect }) => {
+    expect(await cli(directory, "init", "--driver", "file")).toMatchObject({
+      code: 0,
+      stdout: expect.stringContaining("fanion.config.json"),
+    });
+    expect(
+      JSON.parse(await readFile(join(directory, "fanion.config.json"), "utf8")),
+    ).toEqual({ driver: "file", options: { path: "flags.json" } });
+
+    expect((await cli(directory, "init")).code).toBe(1);
+    expect((await cli(directory, "init", "--force")).code).toBe(0);
+    expect(
+      JSON.parse(await readFile(join(directory, "fanion.config.json"), "utf8")),
+    ).toMatchObject({ driver: "knex" });
+    expect((await cli(directory, "init", "--driver", "mongo")).code).toBe(2);
+  });
+
+  test("Should list, read, toggle and delete flags", async ({ expect }) => {
+    await writeJson(join(directory, "fanion.config.json"), {
+      driver: "file",
+      options: { path: "flags.json" },
+    });
+    await writeJson(join(directory, "flags.json"), {
+      flags: {
+        "checkout:v2": {
+          value: false,
+          config: { rollout: { percentage: 10, contextKey: "id" } },
+          metadata: { owner: "payments", tags: ["checkout", "beta"] },
+        },
+        search: true,
+      },
+    });
+
+    let result = await cli(directory, "list");
+    expect(result).toMatchObject({ code: 0, stderr: "" });
+    expect(result.stdout).toBe(
+      [
+        "NAME         VALUE     CONFIG   OWNER     TAGS",
+        "checkout:v2  disabled  rollout  payments  checkout, beta",
+        "search       enabled",
+        "",
+      ].join("\n"),
+    );
+
+    result = await cli(directory, "list", "checkout:", "--json");
+    expect(JSON.parse(result.stdout)).toMatchObject([
+      { name: "checkout:v2", stored: { value: false } },
+    ]);
+
+    result = await cli(directory, "enable", "checkout:v2");
+    expect(result).toMatchObject({
+      code: 0,
+      stdout: "Feature flag 'checkout:v2' enabled\n",
+    });
+
+    result = await cli(directory, "get", "checkout:v2");
+    expect(result.stdout).toContain("value:   enabled");
+    expect(result.stdout).toContain("owner:   payments");
+
+    result = await cli(directory, "disable", "search", "--json");
+    expect(JSON.parse(result.stdout)).toMatchObject({
+      name: "search",
+      stored: { value: false },
+    });
+
+    result = await cli(directory, "enable", "missing");
+    expect(result).toMatchObject({
+      code: 3,
+      stderr: "Error: Feature missing does not exists\n",
+    });
+    expect((await cli(directory, "get", "missing")).code).toBe(3);
+    expect((await cli(directory, "delete", "missing")).code).toBe(3);
+
+    expect((await cli(directory, "enable", "missing", "--create")).code).toBe(
+      0,
+    );
+    expect((await cli(directory, "delete", "missing")).code).toBe(0);
+
+    expect(
+      JSON.parse(await readFile(join(directory, "flags.json"), "utf8")).flags,
+    ).toMatchObject({
+      "checkout:v2": { value: true },
+      search: false,
+    });
+  });
+
+  test("Should turn off a flag defined in code", async ({ expect }) => {
+    await writeJson(join(directory, "fanion.config.json"), {
+      driver: "file",
+      options: { path: "flags.json" },
+    });
+    await writeJson(join(directory, "flags.json"), { flags: {} });
+
+    const active = async () => {
+      const store = new FileDriver({
+        path: join(directory, "flags.json"),
+        watch: false,
+      });
+      const fm = new FeatureManager({ store });
+      await store.initStore();
+      fm.define("dashboard", () => true);
+
+      return fm.active("dashboard");
+    };
+
+    expect((await cli(directory, "disable", "dashboard")).code).toBe(3);
+    expect(await active()).toBe(true);
+
+    expect(
+      (await cli(directory, "disable", "dashboard", "--create")).code,
+    ).toBe(0);
+    expect(await active()).toBe(false);
+
+    expect((await cli(directory, "enable", "dashboard")).code).toBe(0);
+    expect(await active()).toBe(true);
+  });
+
+  test("Should export and import flags between stores", async ({ expect }) => {
+    const database = join(directory, "flags.sqlite");
+    await writeJson(join(directory, "fanion.config.json"), {
+      driver: "knex",
+      connection: {
+        client: "sqlite3",
+        connection: { filename: database },
+        useNullAsDefault: true,
+      },
+    });
+    await writeJson(join(directory, "flags.json"), {
+      flags: {
+        "checkout:v2": {
+          value: false,
+          config: {
+            rules: { attribute: "plan", operator: "equals", value: "pro" },
+          },
+          metadata: { owner: "payments" },
+          overrides: { acme: true },
+        },
+        search: true,
+      },
+    });
+
+    let result = await cli(
+      directory,
+      "import",
+      "flags.json",
+      "--reason",
+      "Initial import",
+    );
+    expect(result).toMatchObject({
+      code: 0,
+      stdout: "Imported 2 feature flags\n",
+    });
+
+    result = await cli(directory, "export", "-o", "export.json");
+    expect(result.code).toBe(0);
+
+    const snapshot = JSON.parse(
+      await readFile(join(directory, "export.json"), "utf8"),
+    );
+    expect(snapshot).toMatchObject({
+      version: 1,
+      flags: {
+        "checkout:v2": {
+          value: false,
+          metadata: { owner: "payments" },
+          overrides: { acme: true },
+        },
+        search: { value: true },
+      },
+    });
+
+    result = await cli(directory, "export");
+    expect(JSON.parse(result.stdout).flags.search).toEqual({ value: true });
+
+    expect(await cli(directory, "diff", "export.json")).toMatchObject({
+      code: 0,
+      stdout: "No changes\n",
+    });
+
+    snapshot.flags.search.value = false;
+    snapshot.flags.billing = { value: true };
+    delete snapshot.flags["checkout:v2"];
+    await writeJson(join(directory, "export.json"), snapshot);
+
+    expect((await cli(directory, "diff", "export.json")).stdout).toBe(
+      "+ billing\n~ search (value)\n- checkout:v2\n",
+    );
+    expect(
+      (await cli(directory, "import", "export.json", "--dry-run")).stdout,
+    ).toBe("+ billing\n~ search (value)\n");
+    expect(
+      Object.keys(JSON.parse((await cli(directory, "export")).stdout).flags),
+    ).toEqual(["checkout:v2", "search"]);
+
+    result = await cli(directory, "import", "export.json", "--prune");
+    expect(result.stdout).toBe("Imported 2 feature flags, deleted 1\n");
+    expect(
+      Object.keys(JSON.parse((await cli(directory, "export")).stdout).flags),
+    ).toEqual(["billing", "search"]);
+
+    await writeJson(join(directory, "future.json"), {
+      ...snapshot,
+      version: 2,
+    });
+    expect((await cli(directory, "import", "future.json")).code).toBe(2);
+
+    await writeJson(join(directory, "invalid.json"), {
+      flags: { search: "yes" },
+    });
+    expect((await cli(directory, "import", "invalid.json")).code).toBe(2);
+  });
+
+  test("Should load a JavaScript config file", async ({ expect }) => {
+    await writeFile(
+      join(directory, "flags.config.mjs"),
+      `export default { driver: "file", options: { path: "flags.json" } };`,
+    );
+    await writeJson(join(directory, "flags.json"), { flags: { search: true } });
+
+    const result = await cli(
+      directory,
+      "get",
+      "search",
+      "--json",
+      "--config",
+      "flags.config.mjs",
+    );
+
+    expect(result.code).toBe(0);
+    expect(JSON.parse(result.stdout)).toMatchObject({
+      name: "search",
+      stored: { value: true },
+    });
+  });
+
+  test("Should fail with the usage exit code", async ({ expect }) => {
+    expect((await cli(directory)).code).toBe(2);
+    expect((await cli(directory, "--help")).code).toBe(0);
+    expect((await cli(directory, "--verbose")).code).toBe(2);
+    expect((await cli(directory, "toString")).code).toBe(2);
+
+    let result = await cli(directory, "list");
+    expect(result.code).toBe(2);
+    expect(result.stderr).toContain(
+      "file not found, create one with fanion init",
+    );
+
+    await writeFile(join(directory, "fanion.config.json"), "{");
+    expect((await cli(directory, "list")).code).toBe(2);
+
+    await writeJson(join(directory, "fanion.config.json"), { driver: "mongo" });
+    result = await cli(directory, "list");
+    expect(result.code).toBe(2);
+    expect(result.stderr).toContain("'driver' must be knex, dynamodb or file");
+
+    await writeJson(join(directory, "fanion.config.json"), {
+      driver: "file",
+      options: { path: "flags.json" },
+    });
+    expect((await cli(directory, "get")).code).toBe(2);
+    expect((await cli(directory, "get", "a", "b")).code).toBe(2);
+  });
+});
@@ -0,0 +1,304 @@
+import { test } from "@japa/runner";
+import { CachedDriver, createCachedDriver } from "../../src/drivers/cache.js";
+import { InMemoryDriver } from "../../src/drivers/memory.js";
+import { UnsupportedOperationError } from "../../src/errors.js";
+import { FeatureManager } from "../../src/feature.js";
+import type { FeatureStorageProvider } from "../../src/types/feature_storage_provider.js";
+
+/**
+ * In-memory driver counting the reads reaching the store
+ */
+class CountingDriver extends InMemoryDriver {
+  reads = 0;
+  batches = 0;
+
+  async getMany(flags: string[]) {
+    this.batches++;
+    return super.getMany(flags);
+  }
+
+  async get(flag: string) {
+    this.reads++;
+    return super.get(flag);
+  }
+
+  async getFeature(flag: string) {
+    this.reads++;
+    return super.getFeature(flag);
+  }
+
+  async getOverride(flag: string, contextKey: string) {
+    this.reads++;
+    return super.getOverride(flag, contextKey);
+  }
+}
+
+function createClock() {
+  const clock = { time: 0, now: () => clock.time };
+  return clock;
+}
+
+test.group("Cache driver", () => {
+  test("Should serve reads from the cache until the ttl expires", async ({
+    expect,
+  }) => {
+    const store = new CountingDriver();
+    const clock = createClock();
+    const cache = createCachedDriver(store, { ttl: 1000, now: clock.now });
+
+    await store.set("flag", true);
+
+    expect(await cache.get("flag")).toBe(true);
+    expect(await cache.get("flag")).toBe(true);
+    expect(store.reads).toBe(1);
+
+    await store.set("flag", false);
+    clock.time = 999;
+    expect(await cache.get("flag")).toBe(true);
+
+    clock.time = 1000;
+    expect(await cache.get("flag")).toBe(false);
+    expect(store.reads).toBe(2);
+  });
+
+  test("Should cache missing flags with the negative ttl", async ({
+    expect,
+  }) => {
+    const store = new CountingDriver();
+    const clock = createClock();
+    const cache = new CachedDriver(store, {
+      ttl: 1000,
+      negativeTtl: 100,
+      now: clock.now,
+    });
+
+    expect(await cache.getFeature("missing")).toBeUndefined();
+    expect(await cache.getFeature("missing")).toBeUndefined();
+    expect(store.reads).toBe(1);
+
+    await store.set("missing", true);
+    clock.time = 100;
+    expect(await cache.getFeature("missing")).toMatchObject({
+      value: true,
+      config: {},
+    });
+  });
+
+  test("Should not cache missing flags when negative caching is disabled", async ({
+    expect,
+  }) => {
+    const store = new CountingDriver();
+    const cache = new CachedDriver(store, { negativeTtl: 0 });
+
+    await cache.get("missing");
+    await cache.get("missing");
+
+    expect(store.reads).toBe(2);
+  });
+
+  test("Should return stale values while revalidating", async ({ expect }) => {
+    const store = new CountingDriver();
+    const clock = createClock();
+    const cache = new CachedDriver(store, {
+      ttl: 100,
+      staleWhileRevalidate: 1000,
+      now: clock.now,
+    });
+
+    await store.set("flag", true);
+    await cache.get("flag");
+    await store.set("flag", false);
+
+    clock.time = 500;
+    expect(await cache.get("flag")).toBe(true);
+
+    // Wait for the background refresh
+    await new Promise((resolve) => setImmediate(resolve));
+
+    expect(await cache.get("flag")).toBe(false);
+    expect(store.reads).toBe(2);
+
+    clock.time = 5000;
+    await store.set("flag", true);
+    expect(await cache.get("flag")).toBe(true);
+  });
+
+  test("Should evict the least recently stored values", async ({ expect }) => {
+    const store = new CountingDriver();
+    const cache = new CachedDriver(store, { maxEntries: 2 });
+
+    await cache.getOverride("flag", "user:1");
+    await cache.getOverride("flag", "user:2");
+    await cache.getOverride("flag", "user:3");
+    expect(store.reads).toBe(3);
+
+    await cache.getOverride("flag", "user:3");
+    await cache.getOverride("flag", "user:2");
+    expect(store.reads).toBe(3);
+
+    await cache.getOverride("flag", "user:1");
+    expect(store.reads).toBe(4);
+  });
+
+  test("Should remove the values past their stale window", async ({
+    expect,
+  }) => {
+    const store = new CountingDriver();
+    const clock = createClock();
+    const cache = new CachedDriver(store, {
+      ttl: 1000,
+      negativeTtl: 100,
+      maxEntries: 2,
+      now: clock.now,
+    });
+
+    await store.setOverride("flag", "user:1", true);
+    await cache.getOverride("flag", "user:1");
+    await cache.getOverride("flag", "user:2");
+
+    clock.time = 100;
+    await cache.getOverride("flag", "user:3");
+
+    // The expired user:2 is removed instead of the oldest value
+    expect(await cache.getOverride("flag", "user:1")).toBe(true);
+    expect(store.reads).toBe(3);
+  });
+
+  test("Should share concurrent loads", async ({ expect }) => {
+    const store = new CountingDriver();
+    const cache = new CachedDriver(store);
+
+    await Promise.all([cache.get("flag"), cache.get("flag"), cache.get("flag")]);
+
+    expect(store.reads).toBe(1);
+  });
+
+  test("Should invalidate the flag on writes", async ({ expect }) => {
+    const store = new CountingDriver();
+    const cache = new CachedDriver(store);
+
+    await cache.set("flag", true);
+    expect(await cache.getFeature("flag")).toMatchObject({ value: true });
+
+    await cache.setConfig("flag", { rollout: { percentage: 5, contextKey: "id" } });
+    expect(await cache.getFeature("flag")).toMatchObject({
+      config: { rollout: { percentage: 5, contextKey: "id" } },
+    });
+
+    await cache.setOverride("flag", "user:1", false);
+    expect(await cache.getOverride("flag", "user:1")).toBe(false);
+    await cache.clearOverrides("flag");
+    expect(await cache.getOverride("flag", "user:1")).toBeUndefined();
+
+    await cache.delete("flag");
+    expect(await cache.get("flag")).toBeUndefined();
+  });
+
+  test("Should invalidate changes made outside of the cache", async ({
+    expect,
+  }) => {
+    const store = new CountingDriver();
+    const cache = new CachedDriver(store);
+
+    await store.set("flag", true);
+    await cache.get("flag");
+    await store.set("flag", false);
+
+    cache.invalidate("flag");
+    expect(await cache.get("flag")).toBe(false);
+
+    await store.set("flag", true);
+    cache.invalidate();
+    expect(await cache.get("flag")).toBe(true);
+  });
+
+  test("Should be used as the feature manager store", async ({ expect }) => {
+    const store = new CountingDriver();
+    const fm = new FeatureManager({ store: createCachedDriver(store) });
+
+    await fm.defineAndStore("flag", true);
+
+    for (let i = 0; i < 10; i++) {
+      expect(await fm.active("flag")).toBe(true);
+    }
+
+    // The audit log reads the flag before and after the write,
+    // the evaluations are then served from the cache
+    expect(store.reads).toBe(2);
+
+    await fm.defineAndStore("flag", false);
+    expect(await fm.active("flag")).toBe(false);
+  });
+
+  test("Should remove the cached feature when usage is recorded", async ({
+    expect,
+  }) => {
+    const cache = new CachedDriver(new InMemoryDriver());
+
+    await cache.set("flag", true);
+    expect((await cache.getFeature("flag"))?.usage).toBeUndefined();
+
+    await cache.recordUsage("flag", {
+      lastEvaluatedAt: "2025-01-01T00:00:00.000Z",
+      lastResult: true,
+      resultChangedAt: "2025-01-01T00:00:00.000Z",
+    });
+    expect((await cache.getFeature("flag"))?.usage).toMatchObject({
+      lastResult: true,
+    });
+  });
+
+  test("Should only support what the wrapped store supports", async ({
+    expect,
+  }) => {
+    const basicStore: FeatureStorageProvider = {
+      set: async () => {},
+      get: async () => true,
+      delete: async () => {},
+      isDatabaseDriver: () => false,
+      initStore: async () => {},
+    };
+    const cache = new CachedDriver(basicStore);
+    const fm = new FeatureManager({ store: cache });
+
+    expect(cache.appendAudit).toBeUndefined();
+    expect(cache.listAudit).toBeUndefined();
+    expect(cache.setOverride).toBeUndefined();
+    expect(new CachedDriver(new InMemoryDriver()).listAudit).toBeDefined();
+
+    await fm.defineAndStore("flag", true);
+    await expect(fm.history("flag")).rejects.toBeInstanceOf(
+      UnsupportedOperationError,
+    );
+  });
+
+  test("Should batch the reads of the flags missing from the cache", async ({
+    expect,
+  }) => {
+    const store = new CountingDriver();
+    const clock = createClock();
+    const cache = createCachedDriver(store, { ttl: 1000, now: clock.now });
+
+    await store.set("search", true);
+    await store.set("billing", false);
+    expect(await cache.getFeature("search")).toMatchObject({
+      value: true,
+      config: {},
+    });
+
+    const features = await cache.getMany(["search", "billing", "missing"]);
+    expect([...features.keys()]).toEqual(["search", "billing"]);
+    expect(store.batches).toBe(1);
+
+    // The batch only contained the flags that were not cached
+    expect(store.reads).toBe(3);
+
+    await cache.getMany(["search", "billing", "missing"]);
+    expect(await cache.getFeature("billing")).toMatchObject({ value: false });
+    expect(store.batches).toBe(1);
+
+    clock.time = 1000;
+    await cache.getMany(["search"]);
+    expect(store.batches).toBe(2);
+  });
+});
@@ -0,0 +1,213 @@
+import { test } from "@japa/runner";
+import {
+  CompositeDriver,
+  createCompositeDriver,
+} from "../../src/drivers/composite.js";
+import { EnvDriver } from "../../src/drivers/env.js";
+import { InMemoryDriver } from "../../src/drivers/memory.js";
+import { UnsupportedOperationError } from "../../src/errors.js";
+import { FeatureManager } from "../../src/feature.js";
+import type { FeatureManagerEvents } from "../../src/types/events.js";
+import type { Rule } from "../../src/types/feature_config.js";
+import type { FeatureStorageProvider } from "../../src/types/feature_storage_provider.js";
+
+function createLayers() {
+  const env = new EnvDriver({ env: { FANION_CHECKOUT__V2: "false" } });
+  const database = new InMemoryDriver();
+  const store = createCompositeDriver({
+    layers: [
+      { name: "env", store: env },
+      { name: "database", store: database },
+    ],
+    writeTo: "database",
+  });
+
+  return { env, database, store };
+}
+
+test.group("Composite driver", () => {
+  test("Should read from the first layer storing the flag", async ({
+    expect,
+  }) => {
+    const { database, store } = createLayers();
+
+    await database.set("checkout:v2", true);
+    await database.set("search", true);
+
+    expect(await store.get("checkout:v2")).toBe(false);
+    expect(await store.get("search")).toBe(true);
+    expect(await store.get("unknown")).toBeUndefined();
+    expect(await store.getFeature("checkout:v2")).toEqual({
+      value: false,
+      config: {},
+      layer: "env",
+    });
+    expect(await store.getFeature("search")).toMatchObject({
+      value: true,
+      layer: "database",
+    });
+
+    const features = await store.getMany(["search", "checkout:v2", "unknown"]);
+    expect(features.get("checkout:v2")?.layer).toBe("env");
+    expect(features.get("search")?.layer).toBe("database");
+    expect(features.has("unknown")).toBe(false);
+
+    expect(await store.keys()).toEqual(["checkout:v2", "search"]);
+    expect(
+      [...(await store.list()).values()].map(({ layer }) => layer),
+    ).toEqual(["env", "database"]);
+  });
+
+  test("Should write to the target layer", async ({ expect }) => {
+    const { database, store } = createLayers();
+    const fm = new FeatureManager({ store });
+
+    await fm.set("checkout:v2", true);
+    await fm.setRollout("search", { percentage: 10, contextKey: "id" });
+    await fm.setOverride("search", "acme", false);
+
+    expect(await database.get("checkout:v2")).toBe(true);
+    expect(await database.getFeature("search")).toMatchObject({
+      config: { rollout: { percentage: 10 } },
+    });
+    expect(await store.getOverride("search", "acme")).toBe(false);
+    expect(await fm.history("checkout:v2")).toHaveLength(1);
+
+    // The env layer still takes precedence
+    expect(await fm.active("checkout:v2")).toBe(false);
+
+    await fm.delete("checkout:v2");
+    expect(await database.get("checkout:v2")).toBeUndefined();
+    expect(await store.get("checkout:v2")).toBe(false);
+  });
+
+  test("Should update the configuration of the target layer", async ({
+    expect,
+  }) => {
+    const { database, store } = createLayers();
+    const fm = new FeatureManager({ store });
+    const rules: Rule = {
+      attribute: "country",
+      operator: "equals",
+      value: "FR",
+    };
+
+    await database.set("checkout:v2", true);
+    await database.setConfig("checkout:v2", { rules });
+    await fm.setRollout("checkout:v2", { percentage: 10, contextKey: "id" });
+
+    expect(await database.getFeature("checkout:v2")).toMatchObject({
+      value: true,
+      config: { rules, rollout: { percentage: 10 } },
+    });
+    expect(await fm.history("checkout:v2")).toMatchObject([
+      {
+        previous: { value: true, config: { rules } },
+        next: { config: { rules, rollout: { percentage: 10 } } },
+      },
+    ]);
+    expect(await store.getTargetFeature("checkout:v2")).toMatchObject({
+      layer: "database",
+    });
+  });
+
+  test("Should list every layer and delete from the target layer by prefix", async ({
+    expect,
+  }) => {
+    const { env, database, store } = createLayers();
+
+    await database.set("checkout:v2", true);
+    await database.set("checkout:v3", true);
+    await database.set("search", true);
+
+    expect(await store.keys("checkout:")).toEqual([
+      "checkout:v2",
+      "checkout:v3",
+    ]);
+    expect([...(await store.list("search")).keys()]).toEqual(["search"]);
+
+    expect(await store.deletePrefix("checkout:")).toEqual([
+      "checkout:v2",
+      "checkout:v3",
+    ]);
+    expect(await database.keys()).toEqual(["search"]);
+    // The other layers still answer for the deleted flags
+    expect(await env.keys("checkout:")).toEqual(["checkout:v2"]);
+    expect(await store.get("checkout:v2")).toBe(false);
+  });
+
+  test("Should report the layer that answered an evaluation", async ({
+    expect,
+  }) => {
+    const { database, store } = createLayers();
+    const fm = new FeatureManager({ store });
+    const events: FeatureManagerEvents["evaluated"][] = [];
+
+    fm.on("evaluated", (payload) => events.push(payload));
+    fm.define("admin", () => true);
+    await database.set("search", true);
+
+    await fm.active("checkout:v2");
+    await fm.active("search");
+    await fm.active("admin");
+
+    expect(events).toMatchObject([
+      { flag: "checkout:v2", result: false, source: "store", layer: "env" },
+      { flag: "search", result: true, source: "store", layer: "database" },
+      { flag: "admin", result: true, source: "definition" },
+    ]);
+    expect(events[2].layer).toBeUndefined();
+  });
+
+  test("Should initialise every layer", async ({ expect }) => {
+    const started: string[] = [];
+    const layer = (name: string): FeatureStorageProvider => {
+      const store = new InMemoryDriver();
+      store.initStore = async () => {
+        started.push(name);
+      };
+      return store;
+    };
+
+    const store = new CompositeDriver({
+      layers: [
+        { name: "env", store: layer("env") },
+        { name: "redis", store: layer("redis") },
+      ],
+    });
+
+    await store.initStore();
+    expect(started).toEqual(["env", "redis"]);
+  });
+
+  test("Should validate the layers", async ({ expect }) => {
+    const memory = new InMemoryDriver();
+
+    expect(() => new CompositeDriver({ layers: [] })).toThrow(
+      "A composite store requires at least one layer",
+    );
+    expect(
+      () =>
+        new CompositeDriver({
+          layers: [
+            { name: "memory", store: memory },
+            { name: "memory", store: memory },
+          ],
+        }),
+    ).toThrow("The layers of a composite store must have unique names");
+    expect(
+      () =>
+        new CompositeDriver({
+          layers: [{ name: "memory", store: memory }],
+          writeTo: "redis",
+        }),
+    ).toThrow("Unknown composite store layer 'redis'");
+
+    const readOnly = new CompositeDriver({
+      layers: [{ name: "env", store: new EnvDriver({ env: {} }) }],
+    });
+    await expect(readOnly.setVariant("search", "compact")).rejects.toThrow(
+      UnsupportedOperationError,
+    );
+  });
+});
@@ -1,16 +1,48 @@
 import { test } from "@japa/runner";
-import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
-import { createDynamoDBDatabaseDriver } from "../../../src/drivers/databases/dynamodb.js";
+import {
+  type AttributeValue,
+  DynamoDBClient,
+  type KeysAndAttributes,
+  type WriteRequest,
+} from "@aws-sdk/client-dynamodb";
+import {
+  createDynamoDBDatabaseDriver,
+  DynamoDBDatabaseDriver,
+} from "../../../src/drivers/databases/dynamodb.js";
 import { featureManagerWithDatabase } from "../../../src/feature.js";
 
 // Mock DynamoDB client for testing
 class MockDynamoDBClient {
   private tables = new Map<string, Map<string, any>>();
   private tableStatus = new Map<string, string>();
+  private keySchemas = new Map<string, string[]>();
+
+  // Number of items returned by a query page
+  queryPageSize = 2;
+
+  // Number of keys left unprocessed by the next batch get
+  unprocessedKeys = 0;
+
+  // Number of BatchGetItem requests received
+  batchGetCalls = 0;
+
+  // Number of Scan requests received
+  scanCalls = 0;
+
+  // Error thrown by the read requests, like a throttling error
+  readError?: Error;
 
   async send(command: any): Promise<any> {
     const commandName = command.constructor.name;
 
+    if (
+      this.readError &&
+      (commandName === "GetItemCommand" ||
+        commandName === "BatchGetItemCommand")
+    ) {
+      throw this.readError;
+    }
+
     switch (commandName) {
       case "CreateTableCommand":
         return this.handleCreateTable(command);
@@ -18,10 +50,20 @@ class MockDynamoDBClient {
         return this.handleDescribeTable(command);
       case "PutItemCommand":
         return this.handlePutItem(command);
+      case "UpdateItemCommand":
+        return this.handleUpdateItem(command);
       case "GetItemCommand":
         return this.handleGetItem(command);
       case "DeleteItemCommand":
         return this.handleDeleteItem(command);
+      case "QueryCommand":
+        return this.handleQuery(command);
+      case "ScanCommand":
+        return this.handleScan(command);
+      case "BatchWriteItemCommand":
+        return this.handleBatchWriteItem(command);
+      case "BatchGetItemCommand":
+        return this.handleBatchGetItem(command);
       default:
         throw new Error(`Unsupported command: ${commandName}`);
     }
@@ -31,6 +73,10 @@ class MockDynamoDBClient {
     const tableName = command.input.TableName;
     this.tables.set(tableName, new Map());
     this.tableStatus.set(tableName, "ACTIVE");
+    this.keySchemas.set(
+      tableName,
+      command.input.KeySchema.map((key: any) => key.AttributeName),
+    );
     return Promise.resolve({});
   }
 
@@ -57,23 +103,78 @@ class MockDynamoDBClient {
     }
 
     const table = this.tables.get(tableName)!;
-    const key = Object.values(item)[0] as any; // Get the first attribute value as key
-    table.set(key.S, item);
+
+    // Only supports "attribute_not_exists(#a)" conditions
+    if (
+      command.input.ConditionExpression &&
+      table.has(this.itemKey(tableName, item))
+    ) {
+      const error = new Error("The conditional request failed");
+      error.name = "ConditionalCheckFailedException";
+      throw error;
+    }
+
+    table.set(this.itemKey(tableName, item), item);
 
     return Promise.resolve({});
   }
 
-  private handleGetItem(command: any) {
+  private handleUpdateItem(command: any) {
     const tableName = command.input.TableName;
     const key = command.input.Key;
+    const names = command.input.ExpressionAttributeNames;
+    const values = command.input.ExpressionAttributeValues;
 
     if (!this.tables.has(tableName)) {
       throw new Error("Table not found");
     }
 
     const table = this.tables.get(tableName)!;
-    const keyValue = Object.values(key)[0] as any; // Get the first key value
-    const item = table.get(keyValue.S);
+    const existing = table.get(this.itemKey(tableName, key));
+
+    // Only supports "attribute_exists(#a)" conditions
+    if (command.input.ConditionExpression && !existing) {
+      const error = new Error("The conditional request failed");
+      error.name = "ConditionalCheckFailedException";
+      throw error;
+    }
+
+    const item = { ...(existing ?? key) };
+
+    // Only supports "SET #a = :a, #b = if_not_exists(#b, :b) REMOVE #c" expressions
+    const [set, removed] = command.input.UpdateExpression.split(" REMOVE ");
+    const assignments = set.replace(/^SET /, "").split(/,\s*(?![^()]*\))/);
+
+    for (const name of removed?.split(/,\s*/) ?? []) {
+      delete item[names[name]];
+    }
+
+    for (const assignment of assignments) {
+      const [name, expression] = assignment.split(" = ");
+      const ifNotExists = expression.match(/^if_not_exists\((#\w+), (:\w+)\)$/);
+
+      item[names[name]] = ifNotExists
+        ? (item[names[ifNotExists[1]]] ?? values[ifNotExists[2]])
+        : values[expression];
+    }
+
+    table.set(this.itemKey(tableName, key), item);
+
+    return Promise.resolve({});
+  }
+
+  private handleGetItem(command: any) {
+    const tableName = command.input.TableName;
+    const key = command.input.Key;
+
+    if (!this.tables.has(tableName)) {
+      const error = new Error("Table not found");
+      error.name = "ResourceNotFoundException";
+      throw error;
+    }
+
+    const table = this.tables.get(tableName)!;
+    const item = table.get(this.itemKey(tableName, key));
 
     return Promise.resolve({
       Item: item,
@@ -89,12 +190,145 @@ class MockDynamoDBClient {
     }
 
     const table = this.tables.get(tableName)!;
-    const keyValue = Object.values(key)[0] as any; // Get the first key value
-    table.delete(keyValue.S);
+    table.delete(this.itemKey(tableName, key));
 
     return Promise.resolve({});
   }
 
+  // Only supports "#name = :name" key conditions on the partition key
+  private handleQuery(command: any) {
+    const tableName = command.input.TableName;
+
+    if (!this.tables.has(tableName)) {
+      throw new Error("Table not found");
+    }
+
+    const [partitionKey] = this.keySchemas.get(tableName)!;
+    const [value] = Object.values<AttributeValue>(
+      command.input.ExpressionAttributeValues,
+    );
+    const items = [...this.tables.get(tableName)!.values()]
+      .filter((item) => item[partitionKey].S === value.S)
+      .sort((a, b) =>
+        this.itemKey(tableName, a).localeCompare(this.itemKey(tableName, b)),
+      );
+
+    if (command.input.ScanIndexForward === false) {
+      items.reverse();
+    }
+
+    const startKey = command.input.ExclusiveStartKey;
+    const start = startKey
+      ? items.findIndex(
+          (item) =>
+            this.itemKey(tableName, item) === this.itemKey(tableName, startKey),
+        ) + 1
+      : 0;
+    const pageSize = Math.min(
+      this.queryPageSize,
+      command.input.Limit ?? Number.POSITIVE_INFINITY,
+    );
+    const page = items.slice(start, start + pageSize);
+    const hasMore = start + pageSize < items.length;
+
+    return Promise.resolve({
+      Items: page,
+      LastEvaluatedKey: hasMore ? page[page.length - 1] : undefined,
+    });
+  }
+
+  private handleScan(command: any) {
+    this.scanCalls++;
+
+    const tableName = command.input.TableName;
+    // Scans are not sorted by DynamoDB
+    const items = [...this.tables.get(tableName)!.values()].reverse();
+
+    const startKey = command.input.ExclusiveStartKey;
+    const start = startKey
+      ? items.findIndex(
+          (item) =>
+            this.itemKey(tableName, item) === this.itemKey(tableName, startKey),
+        ) + 1
+      : 0;
+    const page = items.slice(start, start + this.queryPageSize);
+    const hasMore = start + this.queryPageSize < items.length;
+
+    // Only supports "begins_with(#a, :b)" filters, applied to each page
+    const filter = command.input.FilterExpression?.match(
+      /^begins_with\((#\w+), (:\w+)\)$/,
+    );
+    const attribute =
+      filter?.[1] && command.input.ExpressionAttributeNames[filter[1]];
+    const prefix =
+      filter?.[2] && command.input.ExpressionAttributeValues[filter[2]].S;
+    const filtered = filter
+      ? page.filter((item) => item[attribute]?.S?.startsWith(prefix))
+      : page;
+
+    return Promise.resolve({
+      Items: filtered,
+      LastEvaluatedKey: hasMore ? page[page.length - 1] : undefined,
+    });
+  }
+
+  private handleBatchWriteItem(command: any) {
+    for (const [tableName, requests] of Object.entries<WriteRequest[]>(
+      command.input.RequestItems,
+    )) {
+      const table = this.tables.get(tableName)!;
+
+      for (const { PutRequest, DeleteRequest } of requests) {
+        if (PutRequest) {
+          table.set(this.itemKey(tableName, PutRequest.Item), PutRequest.Item);
+        } else if (DeleteRequest) {
+          table.delete(this.itemKey(tableName, DeleteRequest.Key));
+        }
+      }
+    }
+
+    return Promise.resolve({ UnprocessedItems: {} });
+  }
+
+  private handleBatchGetItem(command: any) {
+    this.batchGetCalls++;
+
+    const responses: Record<string, Record<string, AttributeValue>[]> = {};
+    const unprocessed: Record<string, KeysAndAttributes> = {};
+
+    for (const [tableName, request] of Object.entries<KeysAndAttributes>(
+      command.input.RequestItems,
+    )) {
+      const table = this.tables.get(tableName)!;
+      const requested = request.Keys ?? [];
+      const keys = requested.slice(this.unprocessedKeys);
+
+      if (this.unprocessedKeys > 0) {
+        unprocessed[tableName] = {
+          Keys: requested.slice(0, this.unprocessedKeys),
+        };
+        this.unprocessedKeys = 0;
+      }
+
+      responses[tableName] = keys
+        .map((key) => table.get(this.itemKey(tableName, key)))
+        .filter(Boolean);
+    }
+
+    return Promise.resolve({
+      Responses: responses,
+      UnprocessedKeys: unprocessed,
+    });
+  }
+
+  // Build the map key of an item from the key schema of the table
+  private itemKey(tableName: string, item: any): string {
+    return this.keySchemas
+      .get(tableName)!
+      .map((attribute) => item[attribute].S)
+      .join("#");
+  }
+
   // Helper method to check if table exists (for testing)
   hasTable(tableName: string): boolean {
     return this.tables.has(tableName);
@@ -239,4 +473,483 @@ test.group("DynamoDB Driver", () => {
 
     expect(dynamoDriver.isDatabaseDriver()).toBe(true);
   });
+
+  test("Should keep the configuration when the value changes", async ({
+    expect,
+  }) => {
+    const mockClient = new MockDynamoDBClient() as unknown as DynamoDBClient;
+
+    const dynamoDriver = new DynamoDBDatabaseDriver({
+      client: mockClient,
+    });
+
+    await dynamoDriver.initStore();
+
+    const rollout = { percentage: 25, contextKey: "user.id" };
+    await dynamoDriver.setConfig("rollout_feature", { rollout });
+
+    expect(await dynamoDriver.getFeature("rollout_feature")).toMatchObject({
+      value: true,
+      config: { rollout },
+    });
+
+    await dynamoDriver.set("rollout_feature", false);
+
+    expect(await dynamoDriver.getFeature("rollout_feature")).toMatchObject({
+      value: false,
+      config: { rollout },
+    });
+  });
+
+  test("Should store a rollout through the feature manager", async ({
+    expect,
+  }) => {
+    const mockClient = new MockDynamoDBClient() as unknown as DynamoDBClient;
+
+    const featureManager = await featureManagerWithDatabase({
+      store: createDynamoDBDatabaseDriver({ client: mockClient }),
+    });
+
+    await featureManager.defineAndStore("rollout_feature", true);
+    await featureManager.setRollout("rollout_feature", {
+      percentage: 0,
+      contextKey: "userId",
+    });
+
+    expect(await featureManager.active("rollout_feature", { userId: 1 })).toBe(
+      false,
+    );
+  });
+
+  test("Should not take a failed read for a missing flag", async ({
+    expect,
+  }) => {
+    const mockClient = new MockDynamoDBClient();
+    const dynamoDriver = new DynamoDBDatabaseDriver({
+      client: mockClient as unknown as DynamoDBClient,
+    });
+    const featureManager = await featureManagerWithDatabase({
+      store: dynamoDriver,
+    });
+
+    const rules = {
+      attribute: "plan",
+      operator: "equals",
+      value: "pro",
+    } as const;
+    await featureManager.defineAndStore("search", true);
+    await featureManager.setRules("search", rules);
+
+    const throttled = new Error("Rate exceeded");
+    throttled.name = "ThrottlingException";
+    mockClient.readError = throttled;
+
+    await expect(
+      featureManager.setRollout("search", { percentage: 10, contextKey: "id" }),
+    ).rejects.toThrow("Rate exceeded");
+    await expect(dynamoDriver.get("search")).rejects.toThrow("Rate exceeded");
+    await expect(dynamoDriver.getMany(["search"])).rejects.toThrow(
+      "Rate exceeded",
+    );
+
+    mockClient.readError = undefined;
+    expect(await dynamoDriver.getFeature("search")).toMatchObject({
+      config: { rules },
+    });
+    expect((await dynamoDriver.getFeature("search"))?.config.rollout).toBe(
+      undefined,
+    );
+  });
+
+  test("Should read the flags of a missing table as missing", async ({
+    expect,
+  }) => {
+    const dynamoDriver = new DynamoDBDatabaseDriver({
+      client: new MockDynamoDBClient() as unknown as DynamoDBClient,
+    });
+
+    expect(await dynamoDriver.get("search")).toBeUndefined();
+    expect(await dynamoDriver.getFeature("search")).toBeUndefined();
+  });
+
+  test("Should evaluate targeting rules saved in DynamoDB", async ({
+    expect,
+  }) => {
+    const mockClient = new MockDynamoDBClient() as unknown as DynamoDBClient;
+
+    const featureManager = await featureManagerWithDatabase({
+      store: createDynamoDBDatabaseDriver({ client: mockClient }),
+    });
+
+    await featureManager.defineAndStore("rules_feature", true);
+    await featureManager.setRules("rules_feature", {
+      or: [
+        { attribute: "email", operator: "endsWith", value: "@mgvdev.io" },
+        { attribute: "app", operator: "semverGte", value: "3.0.0" },
+      ],
+    });
+
+    expect(
+      await featureManager.active("rules_feature", { email: "max@mgvdev.io" }),
+    ).toBe(true);
+    expect(await featureManager.active("rules_feature", { app: "3.1.0" })).toBe(
+      true,
+    );
+    expect(await featureManager.active("rules_feature", { app: "2.0.0" })).toBe(
+      false,
+    );
+  });
+
+  test("Should store schedules alongside the value", async ({ expect }) => {
+    const mockClient = new MockDynamoDBClient() as unknown as DynamoDBClient;
+    const driver = new DynamoDBDatabaseDriver({ client: mockClient });
+
+    let now = new Date("2025-11-27T23:00:00Z");
+    const featureManager = await featureManagerWithDatabase({
+      store: driver,
+      clock: () => now,
+    });
+
+    const schedule = {
+      start: "2025-11-28T00:00:00+01:00",
+      windows: [{ start: "09:00", end: "18:00" }],
+      timeZone: "Europe/Paris",
+    };
+    await featureManager.defineAndStore("launch", true);
+    await featureManager.setSchedule("launch", schedule);
+
+    expect(await driver.getFeature("launch")).toMatchObject({
+      value: true,
+      config: { schedule },
+    });
+    expect(await featureManager.active("launch")).toBe(false);
+
+    now = new Date("2025-11-28T08:00:00Z");
+    expect(await featureManager.active("launch")).toBe(true);
+  });
+
+  test("Should store variants in DynamoDB", async ({ expect }) => {
+    const mockClient = new MockDynamoDBClient() as unknown as DynamoDBClient;
+
+    const featureManager = await featureManagerWithDatabase({
+      store: createDynamoDBDatabaseDriver({ client: mockClient }),
+    });
+
+    await featureManager.setVariant("layout", "C");
+    await featureManager.setVariant("config", { retries: 3 });
+    await featureManager.defineAndStore("disabled_layout", false);
+    await featureManager.setVariant("disabled_layout", "B");
+
+    expect(await featureManager.variant("layout", {}, "A")).toBe("C");
+    expect(await featureManager.variant("config", {}, {})).toEqual({
+      retries: 3,
+    });
+    expect(await featureManager.variant("disabled_layout", {}, "A")).toBe("A");
+
+    await featureManager.deleteVariant("layout");
+    await featureManager.deleteVariant("missing");
+
+    expect(await featureManager.variant("layout", {}, "A")).toBe("A");
+    expect(await featureManager.active("layout")).toBe(true);
+    expect(await featureManager.all()).toHaveLength(3);
+  });
+
+  test("Should store per-context overrides with a sort key", async ({
+    expect,
+  }) => {
+    const mockClient = new MockDynamoDBClient();
+
+    const dynamoDriver = new DynamoDBDatabaseDriver({
+      client: mockClient as unknown as DynamoDBClient,
+    });
+
+    await dynamoDriver.initStore();
+
+    expect(mockClient.hasTable("feature_flags_overrides")).toBe(true);
+
+    await dynamoDriver.setOverride("invoices", "tenant:1", true);
+    await dynamoDriver.setOverride("invoices", "tenant:2", false);
+    await dynamoDriver.setOverride("invoices", "tenant:3", true);
+    await dynamoDriver.setOverride("other", "tenant:1", false);
+
+    expect(await dynamoDriver.getOverride("invoices", "tenant:2")).toBe(false);
+    expect(await dynamoDriver.getOverride("invoices", "tenant:4")).toBeUndefined();
+
+    // Results span two query pages
+    expect(await dynamoDriver.listOverrides("invoices")).toEqual([
+      { contextKey: "tenant:1", value: true },
+      { contextKey: "tenant:2", value: false },
+      { contextKey: "tenant:3", value: true },
+    ]);
+
+    await dynamoDriver.deleteOverride("invoices", "tenant:1");
+    expect(await dynamoDriver.listOverrides("invoices")).toHaveLength(2);
+
+    await dynamoDriver.clearOverrides("invoices");
+    expect(await dynamoDriver.listOverrides("invoices")).toEqual([]);
+    expect(await dynamoDriver.getOverride("other", "tenant:1")).toBe(false);
+
+    await dynamoDriver.delete("other");
+    expect(await dynamoDriver.listOverrides("other")).toEqual([]);
+  });
+
+  test("Should store experiment assignments with a sort key", async ({
+    expect,
+  }) => {
+    const mockClient = new MockDynamoDBClient();
+
+    const dynamoDriver = new DynamoDBDatabaseDriver({
+      client: mockClient as unknown as DynamoDBClient,
+    });
+
+    await dynamoDriver.initStore();
+
+    expect(mockClient.hasTable("feature_flags_assignments")).toBe(true);
+
+    const assignedAt = new Date("2025-06-01T10:00:00Z");
+
+    expect(
+      await dynamoDriver.addAssignment("layout", {
+        subjectKey: "1",
+        value: "A",
+        assignedAt,
+      }),
+    ).toBe(true);
+    expect(
+      await dynamoDriver.addAssignment("layout", {
+        subjectKey: "1",
+        value: "B",
+        assignedAt,
+      }),
+    ).toBe(false);
+    await dynamoDriver.addAssignment("layout", {
+      subjectKey: "2",
+      value: { columns: 2 },
+      assignedAt,
+    });
+    await dynamoDriver.addAssignment("layout", {
+      subjectKey: "3",
+      value: 3,
+      assignedAt,
+    });
+
+    expect(await dynamoDriver.getAssignment("layout", "1")).toEqual({
+      subjectKey: "1",
+      value: "A",
+      assignedAt,
+    });
+
+    // Results span two query pages
+    expect(
+      (await dynamoDriver.listAssignments("layout")).map(({ value }) => value),
+    ).toEqual(["A", { columns: 2 }, 3]);
+
+    await dynamoDriver.clearAssignments("layout");
+    expect(await dynamoDriver.listAssignments("layout")).toEqual([]);
+  });
+
+  test("Should list and delete the flags of a prefix", async ({ expect }) => {
+    const mockClient = new MockDynamoDBClient();
+    const dynamoDriver = new DynamoDBDatabaseDriver({
+      client: mockClient as unknown as DynamoDBClient,
+    });
+
+    await dynamoDriver.initStore();
+    await dynamoDriver.set("billing:invoices", true);
+    await dynamoDriver.set("search", true);
+    await dynamoDriver.set("billing:export", false);
+    await dynamoDriver.set("billing:invoices.pdf", true);
+
+    // The filter is applied to each page of the scan
+    expect(await dynamoDriver.keys("billing:")).toEqual([
+      "billing:export",
+      "billing:invoices",
+      "billing:invoices.pdf",
+    ]);
+    expect([...(await dynamoDriver.list("search")).keys()]).toEqual(["search"]);
+
+    expect(await dynamoDriver.deletePrefix("billing:")).toEqual([
+      "billing:export",
+      "billing:invoices",
+      "billing:invoices.pdf",
+    ]);
+    expect(await dynamoDriver.keys()).toEqual(["search"]);
+  });
+
+  test("Should read several features with BatchGetItem", async ({ expect }) => {
+    const mockClient = new MockDynamoDBClient();
+
+    const dynamoDriver = new DynamoDBDatabaseDriver({
+      client: mockClient as unknown as DynamoDBClient,
+    });
+
+    const featureManager = await featureManagerWithDatabase({
+      store: dynamoDriver,
+    });
+
+    await featureManager.defineAndStore("search", true);
+    await featureManager.setRollout("search", { percentage: 0, contextKey: "id" });
+    await dynamoDriver.set("billing", false);
+
+    const features = await dynamoDriver.getMany(["search", "billing", "missing"]);
+    expect(features.get("search")?.config.rollout?.percentage).toBe(0);
+    expect(features.get("billing")?.value).toBe(false);
+    expect(features.has("missing")).toBe(false);
+
+    // Unprocessed keys are retried
+    mockClient.batchGetCalls = 0;
+    mockClient.unprocessedKeys = 1;
+    expect(
+      await featureManager.activeMany(["search", "billing"], { id: "1" }),
+    ).toEqual({ search: false, billing: false });
+    expect(mockClient.batchGetCalls).toBe(2);
+  });
+
+  test("Should split batch reads by 100 keys", async ({ expect }) => {
+    const mockClient = new MockDynamoDBClient();
+
+    const dynamoDriver = new DynamoDBDatabaseDriver({
+      client: mockClient as unknown as DynamoDBClient,
+    });
+
+    await dynamoDriver.initStore();
+
+    const flags = Array.from({ length: 150 }, (_, index) => `flag_${index}`);
+    for (const flag of flags) {
+      await dynamoDriver.set(flag, true);
+    }
+
+    const features = await dynamoDriver.getMany(flags);
+    expect(features.size).toBe(150);
+    expect(mockClient.batchGetCalls).toBe(2);
+  });
+
+  test("Should list stored features with a paginated scan", async ({
+    expect,
+  }) => {
+    const mockClient = new MockDynamoDBClient();
+
+    const dynamoDriver = new DynamoDBDatabaseDriver({
+      client: mockClient as unknown as DynamoDBClient,
+    });
+
+    await dynamoDriver.initStore();
+    await dynamoDriver.set("search", true);
+    await dynamoDriver.set("billing", false);
+    await dynamoDriver.setConfig("checkout", {
+      rollout: { percentage: 10, contextKey: "id" },
+    });
+
+    const features = await dynamoDriver.list();
+    expect([...features.keys()]).toEqual(["billing", "checkout", "search"]);
+    expect(features.get("checkout")?.config.rollout?.percentage).toBe(10);
+    expect(mockClient.scanCalls).toBe(2);
+
+    expect(await dynamoDriver.keys()).toEqual(["billing", "checkout", "search"]);
+  });
+
+  test("Should store metadata and timestamps", async ({ expect }) => {
+    const mockClient = new MockDynamoDBClient();
+
+    const dynamoDriver = new DynamoDBDatabaseDriver({
+      client: mockClient as unknown as DynamoDBClient,
+    });
+
+    const featureManager = await featureManagerWithDatabase({
+      store: dynamoDriver,
+    });
+
+    await featureManager.defineAndStore("checkout:v2", false, {
+      owner: "payments",
+      tags: ["checkout"],
+    });
+
+    const created = await dynamoDriver.getFeature("checkout:v2");
+    expect(created?.metadata).toEqual({ owner: "payments", tags: ["checkout"] });
+    expect(created?.createdAt).toBeInstanceOf(Date);
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await dynamoDriver.set("checkout:v2", true);
+
+    const updated = await dynamoDriver.getFeature("checkout:v2");
+    expect(updated?.createdAt).toEqual(created?.createdAt);
+    expect(updated?.updatedAt?.getTime()).toBeGreaterThan(
+      created?.updatedAt?.getTime() ?? 0,
+    );
+    expect(updated?.metadata?.owner).toBe("payments");
+
+    const owned = await featureManager.findByOwner("payments");
+    expect(owned.map(({ name }) => name)).toEqual(["checkout:v2"]);
+  });
+
+  test("Should save the usage of stored features only", async ({ expect }) => {
+    const mockClient = new MockDynamoDBClient();
+
+    const dynamoDriver = new DynamoDBDatabaseDriver({
+      client: mockClient as unknown as DynamoDBClient,
+    });
+
+    await dynamoDriver.initStore();
+    await dynamoDriver.set("search", true);
+
+    const usage = {
+      lastEvaluatedAt: "2024-01-02T00:00:00.000Z",
+      lastResult: true,
+      resultChangedAt: "2024-01-01T00:00:00.000Z",
+    };
+
+    await dynamoDriver.recordUsage("search", usage);
+    await dynamoDriver.recordUsage("missing", usage);
+
+    expect((await dynamoDriver.getFeature("search"))?.usage).toEqual(usage);
+    expect(await dynamoDriver.getFeature("missing")).toBeUndefined();
+  });
+
+  test("Should append the audit log with the entry id as sort key", async ({
+    expect,
+  }) => {
+    const mockClient = new MockDynamoDBClient();
+
+    const dynamoDriver = new DynamoDBDatabaseDriver({
+      client: mockClient as unknown as DynamoDBClient,
+    });
+
+    const featureManager = await featureManagerWithDatabase({
+      store: dynamoDriver,
+    });
+
+    expect(mockClient.hasTable("feature_flags_changes")).toBe(true);
+
+    await featureManager.defineAndStore("search", false, undefined, {
+      actor: "jane",
+    });
+    await featureManager.setVariant("search", { layout: "compact" });
+    await featureManager.set("search", true, { reason: "Launch" });
+
+    const entries = await featureManager.history("search");
+    expect(entries.map(({ action }) => action)).toEqual([
+      "set",
+      "variant",
+      "set",
+    ]);
+    expect(entries[0]).toMatchObject({
+      reason: "Launch",
+      previous: { value: false, variant: { layout: "compact" } },
+      next: { value: true },
+    });
+    expect(entries[2]).toMatchObject({ actor: "jane" });
+    expect(entries[2].previous).toBeUndefined();
+
+    // Pages of 2 items are read until the limit is reached
+    expect(await dynamoDriver.listAudit("search", { limit: 3 })).toEqual(
+      entries,
+    );
+    expect(await dynamoDriver.listAudit("search", { limit: 1 })).toEqual([
+      entries[0],
+    ]);
+
+    await expect(dynamoDriver.appendAudit(entries[0])).rejects.toThrow(
+      "The conditional request failed",
+    );
+  });
 });
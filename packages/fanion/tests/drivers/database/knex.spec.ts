@@ -1,6 +1,9 @@
 import { test } from "@japa/runner";
 import knex from "knex";
-import { createKnexDatabaseDriver } from "../../../src/drivers/databases/knex.js";
+import {
+  createKnexDatabaseDriver,
+  KnexDatabaseDriver,
+} from "../../../src/drivers/databases/knex.js";
 import { featureManagerWithDatabase } from "../../../src/feature.js";
 
 test.group("Database drivers", () => {
@@ -99,4 +102,493 @@ test.group("Database drivers", () => {
 
     await db.destroy();
   });
+
+  test("Should store the feature configuration as JSON", async ({
+    expect,
+  }) => {
+    const db = knex({
+      client: "sqlite3",
+      connection: {
+        filename: ":memory:",
+      },
+      useNullAsDefault: true,
+    });
+
+    const knexDriver = new KnexDatabaseDriver({ connection: db });
+    await knexDriver.initStore();
+
+    const rollout = { percentage: 10, contextKey: "tenantId" };
+    await knexDriver.setConfig("test", { rollout });
+    await knexDriver.set("test", false);
+
+    expect(await knexDriver.getFeature("test")).toMatchObject({
+      value: false,
+      config: { rollout },
+    });
+    expect(await knexDriver.getFeature("missing")).toBeUndefined();
+    expect(await knexDriver.get("missing")).toBeUndefined();
+
+    await db.destroy();
+  });
+
+  test("Should add the configuration column to an existing table", async ({
+    expect,
+  }) => {
+    const db = knex({
+      client: "sqlite3",
+      connection: {
+        filename: ":memory:",
+      },
+      useNullAsDefault: true,
+    });
+
+    await db.schema.createTable("feature_flags", (table) => {
+      table.string("feature_name").primary();
+      table.boolean("value").notNullable();
+    });
+
+    await createKnexDatabaseDriver({ connection: db }).initStore();
+
+    expect(await db.schema.hasColumn("feature_flags", "config")).toBe(true);
+    expect(await db.schema.hasColumn("feature_flags", "metadata")).toBe(true);
+    expect(await db.schema.hasColumn("feature_flags", "updated_at")).toBe(true);
+
+    await db.destroy();
+  });
+
+  test("Should evaluate targeting rules saved in the database", async ({
+    expect,
+  }) => {
+    const db = knex({
+      client: "sqlite3",
+      connection: {
+        filename: ":memory:",
+      },
+      useNullAsDefault: true,
+    });
+
+    const featureManager = await featureManagerWithDatabase({
+      store: createKnexDatabaseDriver({ connection: db }),
+    });
+
+    await featureManager.defineAndStore("test", true);
+    await featureManager.setRules("test", {
+      attribute: "tenant.id",
+      operator: "in",
+      value: [1, 2],
+    });
+
+    const row = await db("feature_flags").where("feature_name", "test").first();
+    expect(JSON.parse(row.config)).toEqual({
+      rules: { attribute: "tenant.id", operator: "in", value: [1, 2] },
+    });
+
+    expect(await featureManager.active("test", { tenant: { id: 2 } })).toBe(true);
+    expect(await featureManager.active("test", { tenant: { id: 3 } })).toBe(false);
+
+    await db.destroy();
+  });
+
+  test("Should store schedules alongside the value", async ({ expect }) => {
+    const db = knex({
+      client: "sqlite3",
+      connection: {
+        filename: ":memory:",
+      },
+      useNullAsDefault: true,
+    });
+
+    let now = new Date("2025-11-27T23:00:00Z");
+    const featureManager = await featureManagerWithDatabase({
+      store: createKnexDatabaseDriver({ connection: db }),
+      clock: () => now,
+    });
+
+    const schedule = {
+      start: "2025-11-28T00:00:00+01:00",
+      windows: [{ start: "09:00", end: "18:00" }],
+      timeZone: "Europe/Paris",
+    };
+    await featureManager.defineAndStore("launch", true);
+    await featureManager.setSchedule("launch", schedule);
+
+    const row = await db("feature_flags").where("feature_name", "launch").first();
+    expect(row.value).toBe(1);
+    expect(JSON.parse(row.config)).toEqual({ schedule });
+
+    expect(await featureManager.active("launch")).toBe(false);
+
+    now = new Date("2025-11-28T08:00:00Z");
+    expect(await featureManager.active("launch")).toBe(true);
+
+    await db.destroy();
+  });
+
+  test("Should store variants in the database", async ({ expect }) => {
+    const db = knex({
+      client: "sqlite3",
+      connection: {
+        filename: ":memory:",
+      },
+      useNullAsDefault: true,
+    });
+
+    const featureManager = await featureManagerWithDatabase({
+      store: createKnexDatabaseDriver({ connection: db }),
+    });
+
+    await featureManager.setVariant("layout", "B");
+    await featureManager.setVariant("timeout", 2500);
+    await featureManager.setVariant("config", { retries: 3, regions: ["eu"] });
+
+    expect(await featureManager.variant("layout", {}, "A")).toBe("B");
+    expect(await featureManager.variant("timeout", {}, 1000)).toBe(2500);
+    expect(await featureManager.variant("config", {}, {})).toEqual({
+      retries: 3,
+      regions: ["eu"],
+    });
+    expect(await featureManager.active("layout")).toBe(true);
+
+    await featureManager.deleteVariant("layout");
+    expect(await featureManager.variant("layout", {}, "A")).toBe("A");
+    expect(await featureManager.active("layout")).toBe(true);
+
+    await db.destroy();
+  });
+
+  test("Should store per-context overrides with a composite key", async ({
+    expect,
+  }) => {
+    const db = knex({
+      client: "sqlite3",
+      connection: {
+        filename: ":memory:",
+      },
+      useNullAsDefault: true,
+    });
+
+    const featureManager = await featureManagerWithDatabase({
+      store: createKnexDatabaseDriver({ connection: db }),
+      overrideKeys: (ctx: { tenant: number }) => `tenant:${ctx.tenant}`,
+    });
+
+    await featureManager.defineAndStore("billing:new-invoices", false);
+    await featureManager.setOverride("billing:new-invoices", "tenant:42", true);
+    await featureManager.setOverride("billing:new-invoices", "tenant:42", true);
+    await featureManager.setOverride("billing:new-invoices", "tenant:7", false);
+
+    expect(
+      await featureManager.active("billing:new-invoices", { tenant: 42 }),
+    ).toBe(true);
+    expect(
+      await featureManager.active("billing:new-invoices", { tenant: 1 }),
+    ).toBe(false);
+    expect(await featureManager.listOverrides("billing:new-invoices")).toEqual([
+      { contextKey: "tenant:42", value: true },
+      { contextKey: "tenant:7", value: false },
+    ]);
+
+    await featureManager.clearOverrides("billing:new-invoices");
+
+    expect(
+      await featureManager.active("billing:new-invoices", { tenant: 42 }),
+    ).toBe(false);
+    expect(await db.schema.hasTable("feature_flags_overrides")).toBe(true);
+
+    await featureManager.setOverride("billing:new-invoices", "tenant:42", true);
+    await featureManager.delete("billing:new-invoices");
+    expect(await featureManager.listOverrides("billing:new-invoices")).toEqual(
+      [],
+    );
+
+    await db.destroy();
+  });
+
+  test("Should keep experiment assignments in their own table", async ({
+    expect,
+  }) => {
+    const db = knex({
+      client: "sqlite3",
+      connection: {
+        filename: ":memory:",
+      },
+      useNullAsDefault: true,
+    });
+
+    const driver = createKnexDatabaseDriver({ connection: db });
+    await driver.initStore();
+
+    const assignedAt = new Date("2025-06-01T10:00:00Z");
+
+    expect(
+      await driver.addAssignment?.("layout", {
+        subjectKey: "1",
+        value: { columns: 2 },
+        assignedAt,
+      }),
+    ).toBe(true);
+    expect(
+      await driver.addAssignment?.("layout", {
+        subjectKey: "1",
+        value: "B",
+        assignedAt,
+      }),
+    ).toBe(false);
+    await driver.addAssignment?.("layout", {
+      subjectKey: "2",
+      value: "B",
+      assignedAt,
+    });
+
+    expect(await driver.getAssignment?.("layout", "1")).toEqual({
+      subjectKey: "1",
+      value: { columns: 2 },
+      assignedAt,
+    });
+    expect(await driver.getAssignment?.("layout", "3")).toBeUndefined();
+    expect(
+      (await driver.listAssignments?.("layout"))?.map(({ value }) => value),
+    ).toEqual([{ columns: 2 }, "B"]);
+
+    await driver.clearAssignments?.("layout");
+
+    expect(await driver.listAssignments?.("layout")).toEqual([]);
+    expect(await db.schema.hasTable("feature_flags_assignments")).toBe(true);
+
+    await db.destroy();
+  });
+
+  test("Should list and delete the flags of a prefix", async ({ expect }) => {
+    const db = knex({
+      client: "sqlite3",
+      connection: {
+        filename: ":memory:",
+      },
+      useNullAsDefault: true,
+    });
+
+    const driver = new KnexDatabaseDriver({ connection: db });
+    await driver.initStore();
+
+    await driver.set("billing:invoices", true);
+    await driver.set("billing:invoices.pdf", false);
+    await driver.set("billingXinvoices", true);
+    await driver.set("100%_off:banner", true);
+    await driver.set("100%Xoff:banner", true);
+
+    expect(await driver.keys("billing:")).toEqual([
+      "billing:invoices",
+      "billing:invoices.pdf",
+    ]);
+    // Wildcard characters of the prefix are escaped
+    expect([...(await driver.list("100%_")).keys()]).toEqual([
+      "100%_off:banner",
+    ]);
+
+    expect(await driver.deletePrefix("billing:")).toEqual([
+      "billing:invoices",
+      "billing:invoices.pdf",
+    ]);
+    expect(await driver.deletePrefix("billing:")).toEqual([]);
+    expect(await driver.keys()).toEqual([
+      "100%Xoff:banner",
+      "100%_off:banner",
+      "billingXinvoices",
+    ]);
+
+    await db.destroy();
+  });
+
+  test("Should read several features with a single query", async ({
+    expect,
+  }) => {
+    const db = knex({
+      client: "sqlite3",
+      connection: {
+        filename: ":memory:",
+      },
+      useNullAsDefault: true,
+    });
+
+    const featureManager = await featureManagerWithDatabase({
+      store: createKnexDatabaseDriver({ connection: db }),
+    });
+
+    await featureManager.defineAndStore("search", true);
+    await featureManager.defineAndStore("billing", false);
+    await featureManager.setRules("search", {
+      attribute: "plan",
+      operator: "equals",
+      value: "pro",
+    });
+
+    const queries: string[] = [];
+    db.on("query", (query: { sql: string }) => queries.push(query.sql));
+
+    expect(
+      await featureManager.activeMany(["search", "billing", "search"], {
+        plan: "pro",
+      }),
+    ).toEqual({ search: true, billing: false });
+    expect(queries).toHaveLength(1);
+
+    await db.destroy();
+  });
+
+  test("Should list stored features ordered by name", async ({ expect }) => {
+    const db = knex({
+      client: "sqlite3",
+      connection: {
+        filename: ":memory:",
+      },
+      useNullAsDefault: true,
+    });
+
+    const driver = new KnexDatabaseDriver({ connection: db });
+    await driver.initStore();
+
+    await driver.set("search", true);
+    await driver.set("billing", false);
+    await driver.setConfig("checkout", {
+      rollout: { percentage: 10, contextKey: "id" },
+    });
+
+    const features = await driver.list();
+    expect([...features.keys()]).toEqual(["billing", "checkout", "search"]);
+    expect(features.get("billing")).toMatchObject({
+      value: false,
+      config: {},
+    });
+    expect(features.get("checkout")?.config.rollout?.percentage).toBe(10);
+    expect(await driver.keys()).toEqual(["billing", "checkout", "search"]);
+
+    await db.destroy();
+  });
+
+  test("Should store metadata and timestamps", async ({ expect }) => {
+    const db = knex({
+      client: "sqlite3",
+      connection: {
+        filename: ":memory:",
+      },
+      useNullAsDefault: true,
+    });
+
+    const featureManager = await featureManagerWithDatabase({
+      store: createKnexDatabaseDriver({ connection: db }),
+    });
+
+    await featureManager.defineAndStore("checkout:v2", true, {
+      description: "New checkout flow",
+      owner: "payments",
+      tags: ["checkout"],
+    });
+    await featureManager.defineAndStore("search", true, { owner: "search" });
+
+    const [checkout] = await featureManager.findByTag("checkout");
+    expect(checkout.name).toBe("checkout:v2");
+    expect(checkout.metadata).toEqual({
+      description: "New checkout flow",
+      owner: "payments",
+      tags: ["checkout"],
+    });
+    expect(checkout.stored?.createdAt).toBeInstanceOf(Date);
+    expect(checkout.stored?.updatedAt?.getTime()).toBeGreaterThanOrEqual(
+      checkout.stored?.createdAt?.getTime() ?? 0,
+    );
+
+    const owned = await featureManager.findByOwner("search");
+    expect(owned.map(({ name }) => name)).toEqual(["search"]);
+
+    await db.destroy();
+  });
+
+  test("Should save the usage of stored features only", async ({ expect }) => {
+    const db = knex({
+      client: "sqlite3",
+      connection: {
+        filename: ":memory:",
+      },
+      useNullAsDefault: true,
+    });
+
+    const driver = new KnexDatabaseDriver({ connection: db });
+    await driver.initStore();
+    await driver.set("search", true);
+
+    const usage = {
+      lastEvaluatedAt: "2024-01-02T00:00:00.000Z",
+      lastResult: true,
+      resultChangedAt: "2024-01-01T00:00:00.000Z",
+    };
+    const before = await driver.getFeature("search");
+
+    await driver.recordUsage("search", usage);
+    await driver.recordUsage("missing", usage);
+
+    const after = await driver.getFeature("search");
+    expect(after?.usage).toEqual(usage);
+    expect(after?.updatedAt).toEqual(before?.updatedAt);
+    expect(await driver.getFeature("missing")).toBeUndefined();
+
+    await db.destroy();
+  });
+
+  test("Should append the audit log to the changes table", async ({
+    expect,
+  }) => {
+    const db = knex({
+      client: "sqlite3",
+      connection: {
+        filename: ":memory:",
+      },
+      useNullAsDefault: true,
+    });
+
+    const driver = new KnexDatabaseDriver({ connection: db });
+    const featureManager = await featureManagerWithDatabase({ store: driver });
+
+    await featureManager.defineAndStore("search", false, undefined, {
+      actor: "jane",
+    });
+    await featureManager.setRollout("search", {
+      percentage: 10,
+      contextKey: "id",
+    });
+    await featureManager.set("search", true, { reason: "Launch" });
+
+    expect(await db.schema.hasTable("feature_flags_changes")).toBe(true);
+
+    const entries = await featureManager.history("search");
+    expect(entries.map(({ action }) => action)).toEqual([
+      "set",
+      "configure",
+      "set",
+    ]);
+    expect(entries[0]).toMatchObject({
+      flag: "search",
+      reason: "Launch",
+      previous: { value: false, config: { rollout: { percentage: 10 } } },
+      next: { value: true },
+    });
+    expect(entries[0].actor).toBeUndefined();
+    expect(entries[2]).toMatchObject({ actor: "jane", next: { value: false } });
+    expect(entries[2].changedAt).toBeInstanceOf(Date);
+    expect(await driver.listAudit("search", { limit: 1 })).toHaveLength(1);
+
+    await featureManager.revert("search", entries[2].id);
+    expect(await driver.getFeature("search")).toMatchObject({
+      value: false,
+      config: {},
+    });
+
+    await featureManager.setOverride("search", "tenant:1", true);
+    const [override] = await driver.listAudit("search", { limit: 1 });
+    expect(override).toMatchObject({
+      action: "override",
+      overrides: { previous: {}, next: { "tenant:1": true } },
+    });
+
+    await db.destroy();
+  });
 });
@@ -0,0 +1,91 @@
+import { test } from "@japa/runner";
+import { createEnvDriver, EnvDriver } from "../../src/drivers/env.js";
+import {
+  InvalidEnvironmentVariableError,
+  ReadOnlyProviderError,
+} from "../../src/errors.js";
+import { featureManagerWithDatabase } from "../../src/feature.js";
+
+test.group("Env driver", () => {
+  test("Should map variables to feature flag names", async ({ expect }) => {
+    const driver = createEnvDriver({
+      env: {
+        FANION_CHECKOUT__V2: "false",
+        FANION_BILLING__INVOICES__PDF_EXPORT: "TRUE",
+        FANION_SEARCH: "1",
+        OTHER_VARIABLE: "yes",
+      },
+    });
+
+    await driver.initStore();
+
+    expect(await driver.keys()).toEqual([
+      "billing:invoices.pdf_export",
+      "checkout:v2",
+      "search",
+    ]);
+    expect(await driver.get("checkout:v2")).toBe(false);
+    expect(await driver.get("search")).toBe(true);
+    expect(await driver.get("unknown")).toBeUndefined();
+    expect(await driver.getFeature("billing:invoices.pdf_export")).toEqual({
+      value: true,
+      config: {},
+    });
+  });
+
+  test("Should use a custom prefix and separators", async ({ expect }) => {
+    const driver = new EnvDriver({
+      env: { FLAG_BILLING_INVOICES_PDF: "0", FANION_SEARCH: "true" },
+      prefix: "FLAG_",
+      separator: "_",
+    });
+
+    expect(await driver.keys()).toEqual(["billing:invoices.pdf"]);
+
+    const dashes = new EnvDriver({
+      env: { FANION_BILLING__NEW_UI: "true" },
+      wordSeparator: "-",
+    });
+
+    expect(await dashes.get("billing:new-ui")).toBe(true);
+  });
+
+  test("Should reject values that are not strict booleans", async ({
+    expect,
+  }) => {
+    const driver = new EnvDriver({ env: { FANION_SEARCH: "yes" } });
+
+    await expect(
+      new EnvDriver({ env: { FANION_SEARCH: "constructor" } }).initStore(),
+    ).rejects.toThrow(InvalidEnvironmentVariableError);
+
+    await expect(driver.initStore()).rejects.toThrow(
+      InvalidEnvironmentVariableError,
+    );
+    await expect(driver.get("search")).rejects.toThrow(
+      "Invalid value 'yes' for FANION_SEARCH: expected true, false, 1 or 0",
+    );
+    await expect(
+      new EnvDriver({ env: { FANION_A__B__C__D: "true" } }).initStore(),
+    ).rejects.toThrow("Invalid flag variable FANION_A__B__C__D");
+    await expect(
+      new EnvDriver({ env: { FANION_BILLING__: "true" } }).initStore(),
+    ).rejects.toMatchObject({
+      constructor: InvalidEnvironmentVariableError,
+      variable: "FANION_BILLING__",
+    });
+  });
+
+  test("Should be read-only", async ({ expect }) => {
+    const driver = new EnvDriver({ env: { FANION_CHECKOUT__V2: "false" } });
+    const fm = await featureManagerWithDatabase({ store: driver });
+
+    expect(await fm.active("checkout:v2")).toBe(false);
+    await expect(fm.set("checkout:v2", true)).rejects.toThrow(
+      ReadOnlyProviderError,
+    );
+    await expect(fm.delete("checkout:v2")).rejects.toThrow(
+      "Storage provider env is read-only",
+    );
+  });
+});
@@ -0,0 +1,250 @@
+import { test } from "@japa/runner";
+import { mkdtemp, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createFileDriver, FileDriver } from "../../src/drivers/file.js";
+import { InvalidFlagFileError } from "../../src/errors.js";
+import { featureManagerWithDatabase } from "../../src/feature.js";
+
+async function createDirectory() {
+  return mkdtemp(join(tmpdir(), "fanion-"));
+}
+
+/**
+ * Resolve with the value passed to a driver callback, or fail after a second
+ */
+function waitFor<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((res, reject) => {
+    resolve = res;
+    setTimeout(() => reject(new Error("Timed out")), 1000).unref();
+  });
+
+  return { promise, resolve };
+}
+
+test.group("File driver", (group) => {
+  let directory: string;
+
+  group.each.setup(async () => {
+    directory = await createDirectory();
+    return () => rm(directory, { recursive: true, force: true });
+  });
+
+  test("Should load the flags of a JSON file", async ({ expect }) => {
+    const path = join(directory, "flags.json");
+    await writeFile(
+      path,
+      JSON.stringify({
+        flags: {
+          search: true,
+          "checkout:v2": {
+            value: false,
+            config: { rollout: { percentage: 10, contextKey: "id" } },
+            metadata: { owner: "payments" },
+            overrides: { acme: true },
+          },
+        },
+      }),
+    );
+
+    const driver = createFileDriver({ path, watch: false });
+    const fm = await featureManagerWithDatabase({
+      store: driver,
+      overrideKeys: (ctx: { tenant: string }) => ctx.tenant,
+    });
+
+    expect(await driver.keys()).toEqual(["checkout:v2", "search"]);
+    expect(await driver.getFeature("checkout:v2")).toEqual({
+      value: false,
+      config: { rollout: { percentage: 10, contextKey: "id" } },
+      variant: undefined,
+      metadata: { owner: "payments" },
+    });
+    expect(await fm.active("search", { tenant: "acme" })).toBe(true);
+    expect(await fm.active("checkout:v2", { tenant: "acme" })).toBe(true);
+    expect(await fm.active("checkout:v2", { tenant: "globex" })).toBe(false);
+  });
+
+  test("Should load the flags of a YAML file", async ({ expect }) => {
+    const path = join(directory, "flags.yaml");
+    await writeFile(
+      path,
+      ["flags:", "  search: true", "  billing:", "    value: false"].join("\n"),
+    );
+
+    const driver = new FileDriver({ path, watch: false });
+    await driver.initStore();
+
+    expect(await driver.get("search")).toBe(true);
+    expect(await driver.get("billing")).toBe(false);
+  });
+
+  test("Should reject files that don't match the schema", async ({
+    expect,
+  }) => {
+    const path = join(directory, "flags.json");
+    const load = async (content: unknown) => {
+      await writeFile(path, JSON.stringify(content));
+      return new FileDriver({ path, watch: false }).initStore();
+    };
+
+    await expect(load({ search: true })).rejects.toThrow(
+      `Invalid flag file ${path}: 'flags' must be an object`,
+    );
+    await expect(load({ flags: { search: "yes" } })).rejects.toThrow(
+      "'flags.search' must be a boolean or an object",
+    );
+    await expect(load({ flags: { search: { vaule: true } } })).rejects.toThrow(
+      "unknown property 'flags.search.vaule'",
+    );
+    await expect(
+      load({
+        flags: {
+          search: {
+            value: true,
+            config: { rollout: { percentage: 120, contextKey: "id" } },
+          },
+        },
+      }),
+    ).rejects.toThrow(
+      "'flags.search.config': Invalid rollout: percentage must be between 0 and 100",
+    );
+
+    await writeFile(path, "{ not json");
+    await expect(
+      new FileDriver({ path, watch: false }).initStore(),
+    ).rejects.toThrow(InvalidFlagFileError);
+    await expect(
+      new FileDriver({ path: join(directory, "missing.json") }).initStore(),
+    ).rejects.toThrow("ENOENT");
+  });
+
+  test("Should reload the file when it changes", async ({ expect }) => {
+    const path = join(directory, "flags.json");
+    await writeFile(path, JSON.stringify({ flags: { search: true } }));
+
+    const reloaded = waitFor<string[]>();
+    const driver = new FileDriver({
+      path,
+      debounce: 10,
+      onReload: reloaded.resolve,
+    });
+    await driver.initStore();
+
+    try {
+      await writeFile(
+        path,
+        JSON.stringify({ flags: { search: false, billing: true } }),
+      );
+
+      expect(await reloaded.promise).toEqual(["billing", "search"]);
+      expect(await driver.get("search")).toBe(false);
+    } finally {
+      driver.close();
+    }
+  });
+
+  test("Should keep the last valid flags when the file is invalid", async ({
+    expect,
+  }) => {
+    const path = join(directory, "flags.json");
+    await writeFile(path, JSON.stringify({ flags: { search: true } }));
+
+    const failed = waitFor<Error>();
+    const driver = new FileDriver({
+      path,
+      debounce: 10,
+      onError: failed.resolve,
+    });
+    await driver.initStore();
+
+    try {
+      await writeFile(path, '{ "flags": { "search": fal');
+
+      expect(await failed.promise).toBeInstanceOf(InvalidFlagFileError);
+      expect(await driver.get("search")).toBe(true);
+    } finally {
+      driver.close();
+    }
+  });
+
+  test("Should write the changes back with an atomic rename", async ({
+    expect,
+  }) => {
+    const path = join(directory, "flags.json");
+    const driver = new FileDriver({ path, watch: false, writable: true });
+    const fm = await featureManagerWithDatabase({ store: driver });
+
+    await fm.defineAndStore("search", false);
+    await fm.defineAndStore("billing", true);
+    await fm.setRollout("billing", { percentage: 25, contextKey: "id" });
+    await Promise.all([
+      driver.setOverride("billing", "acme", true),
+      driver.set("checkout", true),
+    ]);
+    await fm.delete("checkout");
+
+    expect(JSON.parse(await readFile(path, "utf8"))).toEqual({
+      flags: {
+        billing: {
+          value: true,
+          config: { rollout: { percentage: 25, contextKey: "id" } },
+          overrides: { acme: true },
+        },
+        search: false,
+      },
+    });
+    expect(await readdir(directory)).toEqual(["flags.json"]);
+
+    // The file is read back by a new driver
+    const reader = new FileDriver({ path, watch: false });
+    await reader.initStore();
+    expect(await reader.getOverride("billing", "acme")).toBe(true);
+  });
+
+  test("Should list and delete the flags of a prefix", async ({ expect }) => {
+    const path = join(directory, "flags.json");
+    await writeFile(
+      path,
+      JSON.stringify({
+        flags: {
+          "billing:invoices": true,
+          "billing:export": false,
+          search: true,
+        },
+      }),
+    );
+
+    const driver = new FileDriver({ path, watch: false, writable: true });
+    await driver.initStore();
+
+    expect(await driver.keys("billing:")).toEqual([
+      "billing:export",
+      "billing:invoices",
+    ]);
+    expect([...(await driver.list("search")).keys()]).toEqual(["search"]);
+    expect(await driver.deletePrefix("billing:")).toEqual([
+      "billing:export",
+      "billing:invoices",
+    ]);
+    expect(JSON.parse(await readFile(path, "utf8"))).toEqual({
+      flags: { search: true },
+    });
+  });
+
+  test("Should keep the changes in memory when the driver is read-only", async ({
+    expect,
+  }) => {
+    const path = join(directory, "flags.yml");
+    const content = "flags:\n  search: true\n";
+    await writeFile(path, content);
+
+    const driver = new FileDriver({ path, watch: false });
+    await driver.initStore();
+    await driver.set("search", false);
+
+    expect(await driver.get("search")).toBe(false);
+    expect(await readFile(path, "utf8")).toBe(content);
+  });
+});
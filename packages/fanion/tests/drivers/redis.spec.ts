@@ -0,0 +1,457 @@
+import { test } from "@japa/runner";
+import type { Redis } from "ioredis";
+import { createCachedDriver } from "../../src/drivers/cache.js";
+import { createRedisDriver, RedisDriver } from "../../src/drivers/redis.js";
+import {
+  FeatureManager,
+  featureManagerWithDatabase,
+} from "../../src/feature.js";
+
+type Listener = (...args: string[]) => void;
+
+/**
+ * Hashes, sets and lists stored by the mock server
+ */
+type RedisValue = Record<string, string> | Set<string> | string[];
+
+/**
+ * Channels shared by the connections of the same mock server
+ */
+class MockBroker {
+  subscribers = new Map<string, Set<MockRedisClient>>();
+
+  publish(channel: string, message: string): number {
+    const clients = this.subscribers.get(channel) ?? new Set();
+
+    for (const client of clients) {
+      client.emit("message", channel, message);
+    }
+
+    return clients.size;
+  }
+}
+
+/**
+ * In-process mock of the ioredis commands used by the driver
+ */
+class MockRedisClient {
+  connected = true;
+  quitted = false;
+  duplicates: MockRedisClient[] = [];
+  private listeners = new Map<string, Listener[]>();
+
+  constructor(
+    public data = new Map<string, RedisValue>(),
+    private broker = new MockBroker(),
+  ) {}
+
+  async ping() {
+    if (!this.connected) {
+      throw new Error("connect ECONNREFUSED 127.0.0.1:6379");
+    }
+    return "PONG";
+  }
+
+  async hget(key: string, field: string) {
+    return this.hash(key)[field] ?? null;
+  }
+
+  async hgetall(key: string) {
+    return { ...this.hash(key) };
+  }
+
+  async hexists(key: string, field: string) {
+    return field in this.hash(key) ? 1 : 0;
+  }
+
+  async hset(
+    key: string,
+    ...args: [fields: Record<string, string>] | [field: string, value: string]
+  ) {
+    const [first, value] = args;
+    const fields =
+      typeof first === "object" ? first : { [first]: value as string };
+    this.data.set(key, { ...this.hash(key), ...fields });
+    return Object.keys(fields).length;
+  }
+
+  async hsetnx(key: string, field: string, value: string) {
+    if (field in this.hash(key)) {
+      return 0;
+    }
+    await this.hset(key, field, value);
+    return 1;
+  }
+
+  async hdel(key: string, field: string) {
+    const hash = this.hash(key);
+    delete hash[field];
+    this.data.set(key, hash);
+    return 1;
+  }
+
+  async sadd(key: string, member: string) {
+    this.data.set(key, new Set(this.members(key)).add(member));
+    return 1;
+  }
+
+  async srem(key: string, ...members: string[]) {
+    for (const member of members) {
+      this.members(key).delete(member);
+    }
+    return members.length;
+  }
+
+  async smembers(key: string) {
+    return [...this.members(key)];
+  }
+
+  async lpush(key: string, value: string) {
+    const list = [value, ...this.list(key)];
+    this.data.set(key, list);
+    return list.length;
+  }
+
+  async lrange(key: string, start: number, stop: number) {
+    return this.list(key).slice(start, stop === -1 ? undefined : stop + 1);
+  }
+
+  async del(...keys: string[]) {
+    return keys.filter((key) => this.data.delete(key)).length;
+  }
+
+  async publish(channel: string, message: string) {
+    return this.broker.publish(channel, message);
+  }
+
+  async subscribe(channel: string) {
+    if (!this.connected) {
+      throw new Error("connect ECONNREFUSED 127.0.0.1:6379");
+    }
+
+    const clients = this.broker.subscribers.get(channel) ?? new Set();
+    this.broker.subscribers.set(channel, clients.add(this));
+    return clients.size;
+  }
+
+  async quit() {
+    this.quitted = true;
+    for (const clients of this.broker.subscribers.values()) {
+      clients.delete(this);
+    }
+    return "OK";
+  }
+
+  disconnect() {
+    this.quitted = true;
+  }
+
+  duplicate() {
+    const client = new MockRedisClient(this.data, this.broker);
+    client.connected = this.connected;
+    this.duplicates.push(client);
+    return client;
+  }
+
+  on(event: string, listener: Listener) {
+    this.listeners.set(event, [...(this.listeners.get(event) ?? []), listener]);
+    return this;
+  }
+
+  emit(event: string, ...args: string[]) {
+    for (const listener of this.listeners.get(event) ?? []) {
+      listener(...args);
+    }
+  }
+
+  // Transactions and pipelines run their commands in order on exec()
+  multi() {
+    return this.pipeline();
+  }
+
+  pipeline() {
+    const commands: Array<() => Promise<unknown>> = [];
+    const client = this as unknown as Record<
+      string,
+      (...args: unknown[]) => Promise<unknown>
+    >;
+    const chain: Record<string, (...args: unknown[]) => unknown> = new Proxy(
+      {},
+      {
+        get: (_, name: string) => {
+          if (name === "exec") {
+            return async () => {
+              const results = [];
+              for (const command of commands) {
+                results.push([null, await command()]);
+              }
+              return results;
+            };
+          }
+
+          return (...args: unknown[]) => {
+            commands.push(() => client[name](...args));
+            return chain;
+          };
+        },
+      },
+    );
+
+    return chain;
+  }
+
+  private hash(key: string): Record<string, string> {
+    return (this.data.get(key) as Record<string, string> | undefined) ?? {};
+  }
+
+  private members(key: string): Set<string> {
+    return (this.data.get(key) as Set<string> | undefined) ?? new Set();
+  }
+
+  private list(key: string): string[] {
+    return (this.data.get(key) as string[] | undefined) ?? [];
+  }
+}
+
+function createClient() {
+  const client = new MockRedisClient();
+  return { client, redis: client as unknown as Redis };
+}
+
+test.group("Redis driver", () => {
+  test("Should store feature flags in prefixed hashes", async ({ expect }) => {
+    const { client, redis } = createClient();
+    const driver = createRedisDriver({ client: redis, keyPrefix: "app:" });
+
+    const fm = await featureManagerWithDatabase({ store: driver });
+
+    await fm.defineAndStore("checkout:v2", false, { owner: "payments" });
+    await fm.setRollout("checkout:v2", { percentage: 10, contextKey: "id" });
+
+    expect(client.data.get("app:flag:checkout:v2")).toMatchObject({
+      value: "0",
+      metadata: JSON.stringify({ owner: "payments" }),
+    });
+    expect(await driver.get("checkout:v2")).toBe(false);
+    expect(await driver.getFeature("checkout:v2")).toMatchObject({
+      value: false,
+      config: { rollout: { percentage: 10, contextKey: "id" } },
+      metadata: { owner: "payments" },
+    });
+    expect(await driver.get("missing")).toBeUndefined();
+    expect(await driver.getFeature("missing")).toBeUndefined();
+  });
+
+  test("Should keep the creation date and the other fields on updates", async ({
+    expect,
+  }) => {
+    const { redis } = createClient();
+    const driver = new RedisDriver({ client: redis });
+
+    await driver.setVariant("search", "compact");
+    const created = await driver.getFeature("search");
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await driver.set("search", false);
+    const updated = await driver.getFeature("search");
+
+    expect(created?.value).toBe(true);
+    expect(updated).toMatchObject({ value: false, variant: "compact" });
+    expect(updated?.createdAt).toEqual(created?.createdAt);
+    expect(updated?.updatedAt?.getTime()).toBeGreaterThan(
+      created?.updatedAt?.getTime() ?? 0,
+    );
+
+    await driver.deleteVariant("search");
+    await driver.deleteVariant("missing");
+
+    expect(await driver.getFeature("search")).toMatchObject({ value: false });
+    expect((await driver.getFeature("search"))?.variant).toBeUndefined();
+    expect(await driver.getFeature("missing")).toBeUndefined();
+  });
+
+  test("Should list, batch read and delete feature flags", async ({
+    expect,
+  }) => {
+    const { redis } = createClient();
+    const driver = new RedisDriver({ client: redis });
+
+    await driver.set("search", true);
+    await driver.set("billing", false);
+    await driver.set("checkout", true);
+    await driver.delete("checkout");
+
+    expect(await driver.keys()).toEqual(["billing", "search"]);
+    expect([...(await driver.list()).keys()]).toEqual(["billing", "search"]);
+
+    const features = await driver.getMany(["search", "checkout", "search"]);
+    expect([...features.keys()]).toEqual(["search"]);
+
+    await driver.recordUsage("checkout", {
+      lastEvaluatedAt: "2024-01-02T00:00:00.000Z",
+      lastResult: true,
+      resultChangedAt: "2024-01-01T00:00:00.000Z",
+    });
+    expect(await driver.getFeature("checkout")).toBeUndefined();
+  });
+
+  test("Should list and delete the flags of a prefix", async ({ expect }) => {
+    const { client, redis } = createClient();
+    const driver = new RedisDriver({ client: redis });
+    const reader = new RedisDriver({
+      client: client.duplicate() as unknown as Redis,
+    });
+    const changes: string[] = [];
+
+    await driver.set("billing:invoices", true);
+    await driver.set("billing:invoices.pdf", false);
+    await driver.set("search", true);
+    await reader.subscribe(({ flag, action }) =>
+      changes.push(`${action} ${flag}`),
+    );
+
+    expect(await driver.keys("billing:")).toEqual([
+      "billing:invoices",
+      "billing:invoices.pdf",
+    ]);
+    expect([...(await driver.list("search")).keys()]).toEqual(["search"]);
+
+    expect(await driver.deletePrefix("billing:")).toEqual([
+      "billing:invoices",
+      "billing:invoices.pdf",
+    ]);
+    expect(await driver.deletePrefix("billing:")).toEqual([]);
+    expect(await driver.keys()).toEqual(["search"]);
+    expect(await redis.hgetall("fanion:flag:billing:invoices")).toEqual({});
+    expect(changes).toEqual([
+      "delete billing:invoices",
+      "delete billing:invoices.pdf",
+    ]);
+  });
+
+  test("Should store per-context overrides and the audit log", async ({
+    expect,
+  }) => {
+    const { redis } = createClient();
+    const fm = new FeatureManager({
+      store: new RedisDriver({ client: redis }),
+      overrideKeys: (ctx: { tenant: string }) => ctx.tenant,
+    });
+
+    await fm.defineAndStore("invoices", false, undefined, { actor: "jane" });
+    await fm.setOverride("invoices", "acme", true);
+    await fm.setOverride("invoices", "globex", false);
+
+    expect(await fm.active("invoices", { tenant: "acme" })).toBe(true);
+    expect(await fm.listOverrides("invoices")).toEqual([
+      { contextKey: "acme", value: true },
+      { contextKey: "globex", value: false },
+    ]);
+
+    await fm.set("invoices", true, { reason: "Launch" });
+
+    const entries = await fm.history("invoices");
+    expect(entries.map(({ action }) => action)).toEqual([
+      "set",
+      "override",
+      "override",
+      "set",
+    ]);
+    expect(entries[0]).toMatchObject({
+      reason: "Launch",
+      next: { value: true },
+    });
+    expect(entries[1].overrides).toEqual({
+      previous: {},
+      next: { globex: false },
+    });
+    expect(entries[1].changedAt).toBeInstanceOf(Date);
+    expect(await fm.history("invoices", { limit: 1 })).toHaveLength(1);
+
+    await fm.delete("invoices");
+    expect(await fm.listOverrides("invoices")).toEqual([]);
+  });
+
+  test("Should announce changes to the other instances", async ({ expect }) => {
+    const { client, redis } = createClient();
+    const writer = new RedisDriver({ client: redis });
+    const reader = new RedisDriver({
+      client: client.duplicate() as unknown as Redis,
+    });
+    const cache = createCachedDriver(reader);
+
+    const writerChanges: unknown[] = [];
+    const readerChanges: unknown[] = [];
+    await writer.subscribe((change) => writerChanges.push(change));
+    const unsubscribe = await reader.subscribe((change) => {
+      readerChanges.push(change);
+      cache.invalidate(change.flag);
+    });
+
+    await writer.set("search", true);
+    expect(await cache.get("search")).toBe(true);
+
+    await writer.set("search", false);
+    await writer.setOverride("search", "acme", true);
+    await writer.delete("search");
+
+    expect(await cache.get("search")).toBeUndefined();
+    expect(readerChanges).toMatchObject([
+      { flag: "search", action: "set" },
+      { flag: "search", action: "set" },
+      { flag: "search", action: "override" },
+      { flag: "search", action: "delete" },
+    ]);
+
+    // An instance does not receive its own announcements
+    expect(writerChanges).toEqual([]);
+
+    await unsubscribe();
+    await writer.set("billing", true);
+    expect(readerChanges).toHaveLength(4);
+  });
+
+  test("Should share and retry the subscription", async ({ expect }) => {
+    const { client, redis } = createClient();
+    const writer = new RedisDriver({ client: redis });
+    const errors: Error[] = [];
+    const reader = new RedisDriver({
+      client: client.duplicate() as unknown as Redis,
+      onError: (error) => errors.push(error),
+    });
+    const readerClient = client.duplicates[0];
+
+    readerClient.connected = false;
+    await expect(reader.subscribe(() => {})).rejects.toThrow("ECONNREFUSED");
+    expect(readerClient.duplicates[0].quitted).toBe(true);
+
+    readerClient.connected = true;
+    const changes: string[] = [];
+    await Promise.all([
+      reader.subscribe(() => {
+        throw new Error("Listener failed");
+      }),
+      reader.subscribe(({ flag }) => changes.push(flag)),
+    ]);
+
+    await writer.set("search", true);
+
+    expect(readerClient.duplicates).toHaveLength(2);
+    expect(changes).toEqual(["search"]);
+    expect(errors.map(({ message }) => message)).toEqual(["Listener failed"]);
+  });
+
+  test("Should check the connection when the store is initialised", async ({
+    expect,
+  }) => {
+    const { client, redis } = createClient();
+    const driver = new RedisDriver({ client: redis });
+
+    await driver.initStore();
+
+    client.connected = false;
+    await expect(driver.initStore()).rejects.toThrow(
+      "Unable to connect to Redis: connect ECONNREFUSED 127.0.0.1:6379",
+    );
+  });
+});
@@ -0,0 +1,115 @@
+import { test } from "@japa/runner";
+import { FeatureManager } from "../src/feature.js";
+import { createInMemoryDriver } from "../src/drivers/memory.js";
+import { FeatureNotExistsError } from "../src/errors.js";
+import type { FeatureManagerEvents } from "../src/types/events.js";
+
+test.group("Events", () => {
+  test("Should emit an evaluated event with the source", async ({ expect }) => {
+    const fm = new FeatureManager({
+      store: createInMemoryDriver(),
+      overrideKeys: (ctx: { user: string }) => ctx.user,
+    });
+    const events: FeatureManagerEvents["evaluated"][] = [];
+
+    fm.on("evaluated", (payload) => events.push(payload));
+    fm.define("defined", (ctx: { user: string }) => ctx.user === "max");
+    await fm.defineAndStore("stored", false);
+    await fm.setOverride("stored", "max", true);
+
+    await fm.active("defined", { user: "max" });
+    await fm.active("stored", { user: "max" });
+    await fm.active("stored", { user: "jane" });
+
+    expect(events.map(({ flag, result, source }) => ({ flag, result, source }))).toEqual([
+      { flag: "defined", result: true, source: "definition" },
+      { flag: "stored", result: true, source: "override" },
+      { flag: "stored", result: false, source: "store" },
+    ]);
+    expect(events[0].context).toEqual({ user: "max" });
+    expect(events[0].duration).toBeGreaterThanOrEqual(0);
+  });
+
+  test("Should emit change events", async ({ expect }) => {
+    const fm = new FeatureManager({ store: createInMemoryDriver() });
+    const events: string[] = [];
+
+    fm.on("defined", ({ flag }) => events.push(`defined ${flag}`))
+      .on("stored", ({ flag, value }) => events.push(`stored ${flag} ${value}`))
+      .on("configured", ({ flag, config }) =>
+        events.push(`configured ${flag} ${config.rollout?.percentage}`),
+      )
+      .on("deleted", ({ flag }) => events.push(`deleted ${flag}`));
+
+    fm.define("a");
+    await fm.defineAndStore("b", false);
+    await fm.setRollout("b", { percentage: 10, contextKey: "id" });
+    await fm.delete("b");
+
+    expect(events).toEqual([
+      "defined a",
+      "stored b false",
+      "configured b 10",
+      "deleted b",
+    ]);
+    await expect(fm.active("b")).rejects.toBeInstanceOf(FeatureNotExistsError);
+  });
+
+  test("Should emit an error event when an evaluation fails", async ({
+    expect,
+  }) => {
+    const fm = new FeatureManager();
+    const errors: FeatureManagerEvents["error"][] = [];
+
+    fm.on("error", (payload) => errors.push(payload));
+    fm.define("broken", () => {
+      throw new Error("boom");
+    });
+
+    await expect(fm.active("broken")).rejects.toThrow("boom");
+    await expect(fm.active("missing")).rejects.toBeInstanceOf(
+      FeatureNotExistsError,
+    );
+
+    expect(errors.map(({ flag, operation }) => ({ flag, operation }))).toEqual([
+      { flag: "broken", operation: "evaluate" },
+      { flag: "missing", operation: "evaluate" },
+    ]);
+  });
+
+  test("Should not break evaluations when a listener throws", async ({
+    expect,
+  }) => {
+    const fm = new FeatureManager();
+    const errors: unknown[] = [];
+
+    fm.define("flag");
+    fm.on("evaluated", () => {
+      throw new Error("listener failure");
+    });
+    fm.on("error", ({ operation, error }) => errors.push({ operation, error }));
+
+    expect(await fm.active("flag")).toBe(true);
+    expect(errors).toHaveLength(1);
+    expect(errors[0]).toMatchObject({ operation: "evaluated listener" });
+  });
+
+  test("Should remove listeners", async ({ expect }) => {
+    const fm = new FeatureManager();
+    let calls = 0;
+    const listener = () => {
+      calls++;
+    };
+
+    fm.define("flag");
+    fm.once("evaluated", listener);
+    await fm.active("flag");
+    await fm.active("flag");
+
+    fm.on("evaluated", listener);
+    fm.off("evaluated", listener);
+    await fm.active("flag");
+
+    expect(calls).toBe(1);
+  });
+});
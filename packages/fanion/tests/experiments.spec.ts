@@ -0,0 +1,155 @@
+import { test } from "@japa/runner";
+import { FeatureManager } from "../src/feature.js";
+import { createInMemoryDriver } from "../src/drivers/memory.js";
+import { UnsupportedOperationError } from "../src/errors.js";
+import type { FeatureManagerEvents } from "../src/types/events.js";
+import type { FeatureStorageProvider } from "../src/types/feature_storage_provider.js";
+
+test.group("Experiments", () => {
+  test("Should keep the first variant of a subject when the weights change", async ({
+    expect,
+  }) => {
+    const now = new Date("2025-06-01T10:00:00Z");
+    const fm = new FeatureManager({
+      store: createInMemoryDriver(),
+      clock: () => now,
+    });
+
+    await fm.defineAndStore("checkout:button", true);
+    await fm.setVariantAllocation("checkout:button", {
+      contextKey: "user.id",
+      variants: [
+        { value: "blue", weight: 1 },
+        { value: "green", weight: 0 },
+      ],
+    });
+
+    expect(
+      await fm.experiment("checkout:button", { user: { id: 1 } }, "grey"),
+    ).toBe("blue");
+
+    await fm.setVariantAllocation("checkout:button", {
+      contextKey: "user.id",
+      variants: [
+        { value: "blue", weight: 0 },
+        { value: "green", weight: 1 },
+      ],
+    });
+
+    expect(
+      await fm.experiment("checkout:button", { user: { id: 1 } }, "grey"),
+    ).toBe("blue");
+    expect(
+      await fm.experiment("checkout:button", { user: { id: 2 } }, "grey"),
+    ).toBe("green");
+    // Plain variants are not sticky
+    expect(
+      await fm.variant("checkout:button", { user: { id: 1 } }, "grey"),
+    ).toBe("green");
+
+    expect(await fm.getAssignment("checkout:button", "1")).toEqual({
+      subjectKey: "1",
+      value: "blue",
+      assignedAt: now,
+    });
+    expect(await fm.listAssignments("checkout:button")).toHaveLength(2);
+  });
+
+  test("Should emit an exposure event on each call", async ({ expect }) => {
+    const fm = new FeatureManager({ store: createInMemoryDriver() });
+    const exposures: FeatureManagerEvents["exposure"][] = [];
+
+    await fm.defineAndStore("search:ranking", true);
+    await fm.setVariantAllocation("search:ranking", {
+      contextKey: "id",
+      variants: [{ value: 2, weight: 1 }],
+    });
+    fm.on("exposure", (payload) => exposures.push(payload));
+
+    await fm.experiment("search:ranking", { id: "a" }, 1);
+    await fm.experiment("search:ranking", { id: "a" }, 1);
+
+    expect(exposures).toEqual([
+      {
+        flag: "search:ranking",
+        context: { id: "a" },
+        subjectKey: "a",
+        variant: 2,
+        firstExposure: true,
+      },
+      {
+        flag: "search:ranking",
+        context: { id: "a" },
+        subjectKey: "a",
+        variant: 2,
+        firstExposure: false,
+      },
+    ]);
+  });
+
+  test("Should return the default value outside of the experiment", async ({
+    expect,
+  }) => {
+    const fm = new FeatureManager({ store: createInMemoryDriver() });
+    const exposures: FeatureManagerEvents["exposure"][] = [];
+    fm.on("exposure", (payload) => exposures.push(payload));
+
+    await fm.defineAndStore("checkout:button", false);
+    await fm.setVariantAllocation("checkout:button", {
+      contextKey: "user.id",
+      variants: [{ value: "blue", weight: 1 }],
+    });
+
+    expect(await fm.experiment("missing", { user: { id: 1 } }, "grey")).toBe(
+      "grey",
+    );
+    expect(
+      await fm.experiment("checkout:button", { user: { id: 1 } }, "grey"),
+    ).toBe("grey");
+
+    await fm.set("checkout:button", true);
+    expect(await fm.experiment("checkout:button", {}, "grey")).toBe("grey");
+    expect(exposures).toEqual([]);
+    expect(await fm.listAssignments("checkout:button")).toEqual([]);
+  });
+
+  test("Should serve the winner and release the assignments when the experiment ends", async ({
+    expect,
+  }) => {
+    const fm = new FeatureManager({ store: createInMemoryDriver() });
+
+    await fm.defineAndStore("checkout:button", true);
+    await fm.setVariantAllocation("checkout:button", {
+      contextKey: "user.id",
+      variants: [{ value: "blue", weight: 1 }],
+    });
+    await fm.experiment("checkout:button", { user: { id: 1 } }, "grey");
+
+    await fm.endExperiment("checkout:button", "green");
+
+    expect(
+      await fm.experiment("checkout:button", { user: { id: 1 } }, "grey"),
+    ).toBe("green");
+    expect(await fm.listAssignments("checkout:button")).toEqual([]);
+    expect(
+      (await fm.history("checkout:button")).map(({ action }) => action),
+    ).toEqual(["configure", "variant", "configure", "set"]);
+  });
+
+  test("Should require a store supporting assignments", async ({ expect }) => {
+    const basicStore: FeatureStorageProvider = {
+      set: async () => {},
+      get: async () => undefined,
+      delete: async () => {},
+      isDatabaseDriver: () => false,
+      initStore: async () => {},
+    };
+
+    await expect(
+      new FeatureManager({ store: basicStore }).listAssignments("beta"),
+    ).rejects.toBeInstanceOf(UnsupportedOperationError);
+    await expect(
+      new FeatureManager({ store: basicStore }).endExperiment("beta"),
+    ).rejects.toThrow("experiment assignments");
+  });
+});
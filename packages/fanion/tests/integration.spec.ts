@@ -46,6 +46,27 @@ class MockDynamoDBClient {
         const key = Object.values(item)[0] as any;
         table.set(key.S, item);
         return Promise.resolve({});
+      case "UpdateItemCommand": {
+        const updateTableName = command.input.TableName;
+        const updateKey = command.input.Key;
+        if (!this.tables.has(updateTableName)) {
+          throw new Error("Table not found");
+        }
+        const updateTable = this.tables.get(updateTableName)!;
+        const updateKeyValue = Object.values(updateKey)[0] as any;
+        const updatedItem = { ...(updateTable.get(updateKeyValue.S) ?? updateKey) };
+        // Only supports "SET #a = :a, #b = if_not_exists(#b, :b)" expressions
+        for (const assignment of command.input.UpdateExpression.replace(/^SET /, "").split(/,\s*(?![^()]*\))/)) {
+          const [name, value] = assignment.split(" = ");
+          const ifNotExists = value.match(/^if_not_exists\((#\w+), (:\w+)\)$/);
+          updatedItem[command.input.ExpressionAttributeNames[name]] = ifNotExists
+            ? (updatedItem[command.input.ExpressionAttributeNames[ifNotExists[1]]] ??
+              command.input.ExpressionAttributeValues[ifNotExists[2]])
+            : command.input.ExpressionAttributeValues[value];
+        }
+        updateTable.set(updateKeyValue.S, updatedItem);
+        return Promise.resolve({});
+      }
       case "GetItemCommand":
         const getTableName = command.input.TableName;
         const getKey = command.input.Key;
@@ -0,0 +1,76 @@
+import { test } from "@japa/runner";
+import { FeatureManager } from "../src/feature.js";
+import { InMemoryDriver } from "../src/drivers/memory.js";
+import { UnsupportedOperationError } from "../src/errors.js";
+
+test.group("Listing", () => {
+  test("Should merge defined and stored flags", async ({ expect }) => {
+    const store = new InMemoryDriver();
+    const fm = new FeatureManager({ store });
+
+    fm.define("admin", () => true);
+    fm.define("search");
+    await store.set("search", false);
+    await store.setConfig("legacy", {
+      rollout: { percentage: 50, contextKey: "id" },
+    });
+
+    expect(await fm.all()).toMatchObject([
+      { name: "admin", source: "definition", stored: undefined },
+      {
+        name: "legacy",
+        source: "store",
+        stored: {
+          value: true,
+          config: { rollout: { percentage: 50, contextKey: "id" } },
+        },
+      },
+      {
+        name: "search",
+        source: "both",
+        stored: { value: false, config: {} },
+      },
+    ]);
+  });
+
+  test("Should list the defined flags without a store", async ({ expect }) => {
+    const fm = new FeatureManager();
+
+    fm.define("beta", () => true);
+
+    expect(await fm.all()).toEqual([
+      { name: "beta", source: "definition", stored: undefined },
+    ]);
+  });
+
+  test("Should reject stores that cannot list their flags", async ({
+    expect,
+  }) => {
+    const fm = new FeatureManager({
+      store: {
+        set: async () => {},
+        get: async () => undefined,
+        delete: async () => {},
+        isDatabaseDriver: () => false,
+        initStore: async () => {},
+      },
+    });
+
+    await expect(fm.all()).rejects.toThrow(UnsupportedOperationError);
+  });
+
+  test("Should evaluate stored flags with evaluateAll", async ({ expect }) => {
+    const store = new InMemoryDriver();
+    const fm = new FeatureManager({ store });
+
+    fm.define("admin", (ctx: { role: string }) => ctx.role === "admin");
+    await store.set("search", true);
+    await store.set("legacy", false);
+
+    expect(await fm.evaluateAll({ role: "user" })).toEqual({
+      admin: false,
+      legacy: false,
+      search: true,
+    });
+  });
+});
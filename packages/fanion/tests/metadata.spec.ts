@@ -0,0 +1,93 @@
+import { test } from "@japa/runner";
+import { FeatureManager } from "../src/feature.js";
+import { InMemoryDriver } from "../src/drivers/memory.js";
+import { UnsupportedOperationError } from "../src/errors.js";
+
+test.group("Metadata", () => {
+  test("Should store metadata with defineAndStore", async ({ expect }) => {
+    const store = new InMemoryDriver();
+    const fm = new FeatureManager({ store });
+
+    await fm.defineAndStore("checkout:v2", false, {
+      description: "New checkout flow",
+      owner: "payments",
+      tags: ["checkout", "experiment"],
+    });
+
+    const stored = await store.getFeature("checkout:v2");
+    expect(stored?.metadata).toEqual({
+      description: "New checkout flow",
+      owner: "payments",
+      tags: ["checkout", "experiment"],
+    });
+    expect(stored?.createdAt).toBeInstanceOf(Date);
+    expect(stored?.updatedAt).toBeInstanceOf(Date);
+    expect(await fm.getMetadata("checkout:v2")).toMatchObject({
+      owner: "payments",
+    });
+  });
+
+  test("Should keep the creation date on updates", async ({ expect }) => {
+    const store = new InMemoryDriver();
+
+    await store.set("search", true);
+    const created = await store.getFeature("search");
+
+    await new Promise((resolve) => setTimeout(resolve, 5));
+    await store.setConfig("search", {
+      rollout: { percentage: 10, contextKey: "id" },
+    });
+    const updated = await store.getFeature("search");
+
+    expect(updated?.createdAt).toEqual(created?.createdAt);
+    expect(updated?.updatedAt?.getTime()).toBeGreaterThan(
+      created?.updatedAt?.getTime() ?? 0,
+    );
+  });
+
+  test("Should merge defined and stored metadata", async ({ expect }) => {
+    const store = new InMemoryDriver();
+    const fm = new FeatureManager({ store });
+
+    fm.define("admin", () => true, {
+      metadata: { owner: "platform", tags: ["internal"] },
+    });
+    fm.define("search", undefined, {
+      metadata: { owner: "search", tags: ["internal"] },
+    });
+    await fm.setMetadata("search", { owner: "discovery", tags: ["public"] });
+    await fm.defineAndStore("billing", true, {
+      owner: "payments",
+      tags: ["internal"],
+    });
+
+    expect(await fm.getMetadata("search")).toEqual({
+      owner: "discovery",
+      tags: ["public"],
+    });
+
+    const internal = await fm.findByTag("internal");
+    expect(internal.map(({ name }) => name)).toEqual(["admin", "billing"]);
+
+    const discovery = await fm.findByOwner("discovery");
+    expect(discovery.map(({ name }) => name)).toEqual(["search"]);
+  });
+
+  test("Should reject metadata when the store cannot save it", async ({
+    expect,
+  }) => {
+    const fm = new FeatureManager({
+      store: {
+        set: async () => {},
+        get: async () => undefined,
+        delete: async () => {},
+        isDatabaseDriver: () => false,
+        initStore: async () => {},
+      },
+    });
+
+    await expect(
+      fm.defineAndStore("search", true, { owner: "search" }),
+    ).rejects.toThrow(UnsupportedOperationError);
+  });
+});
@@ -0,0 +1,236 @@
+import { test } from "@japa/runner";
+import { FeatureManager } from "../src/feature.js";
+import { InMemoryDriver } from "../src/drivers/memory.js";
+import { UnsupportedOperationError } from "../src/errors.js";
+import type { FeatureManagerEvents } from "../src/types/events.js";
+import type { FeatureStorageProvider } from "../src/types/feature_storage_provider.js";
+
+/**
+ * In-memory driver counting the single and batched reads
+ */
+class CountingDriver extends InMemoryDriver {
+  reads = 0;
+  batches: string[][] = [];
+
+  async get(flag: string) {
+    this.reads++;
+    return super.get(flag);
+  }
+
+  async getMany(flags: string[]) {
+    this.batches.push(flags);
+    return super.getMany(flags);
+  }
+}
+
+test.group("Namespaces", () => {
+  test("Should prefix the flags of a scope", async ({ expect }) => {
+    const store = new InMemoryDriver();
+    const fm = new FeatureManager({ store });
+    const billing = fm.scope("billing");
+
+    billing.define("invoices", (ctx: { plan: string }) => ctx.plan === "pro");
+    await billing.defineAndStore("export", false);
+    await billing.set("export", true);
+
+    expect(billing.namespace).toBe("billing");
+    expect(billing.name("invoices", "pdf")).toBe("billing:invoices.pdf");
+    expect(await fm.active("billing:invoices", { plan: "pro" })).toBe(true);
+    expect(await billing.active("invoices", { plan: "free" })).toBe(false);
+    expect(
+      await billing.activeMany(["invoices", "export"], { plan: "pro" }),
+    ).toEqual({ invoices: true, export: true });
+    expect(await store.get("billing:export")).toBe(true);
+
+    await billing.delete("export");
+    expect(await store.get("billing:export")).toBeUndefined();
+
+    expect(() => fm.scope("billing:invoices")).toThrow(
+      "Invalid namespace 'billing:invoices'",
+    );
+    expect(() => fm.scope("")).toThrow("Invalid namespace ''");
+  });
+
+  test("Should list the flags of a namespace", async ({ expect }) => {
+    const fm = new FeatureManager({ store: new InMemoryDriver() });
+
+    fm.define("billing:invoices", () => true);
+    fm.define("search:suggestions", () => true);
+    await fm.defineAndStore("billing:export", false);
+    await fm.defineAndStore("billing-legacy", true);
+
+    expect((await fm.scope("billing").all()).map(({ name }) => name)).toEqual([
+      "billing:export",
+      "billing:invoices",
+    ]);
+    expect((await fm.all("search:")).map(({ name }) => name)).toEqual([
+      "search:suggestions",
+    ]);
+    expect(await fm.all()).toHaveLength(4);
+  });
+
+  test("Should turn off a whole namespace", async ({ expect }) => {
+    const fm = new FeatureManager({
+      store: new InMemoryDriver(),
+      overrideKeys: (ctx?: { tenant: string }) => ctx?.tenant,
+    });
+    const events: FeatureManagerEvents["evaluated"][] = [];
+    fm.on("evaluated", (payload) => events.push(payload));
+
+    const billing = fm.scope("billing");
+    billing.define("invoices", () => true);
+    await billing.defineAndStore("export", true);
+    await fm.setOverride("billing:export", "acme", true);
+    await fm.defineAndStore("search", true);
+
+    await billing.disable({ actor: "ops", reason: "Incident" });
+
+    expect(await billing.isDisabled()).toBe(true);
+    expect(await billing.active("invoices")).toBe(false);
+    expect(await billing.active("export", { tenant: "acme" })).toBe(false);
+    expect(await fm.activeMany(["billing:invoices", "search"])).toEqual({
+      "billing:invoices": false,
+      search: true,
+    });
+    expect(events[0]).toMatchObject({
+      flag: "billing:invoices",
+      result: false,
+      source: "namespace",
+    });
+    expect(await fm.history("billing:*")).toMatchObject([
+      { action: "set", actor: "ops", next: { value: false } },
+    ]);
+
+    await billing.enable();
+
+    expect(await fm.isNamespaceDisabled("billing")).toBe(false);
+    expect(await billing.active("invoices")).toBe(true);
+    expect(await billing.active("export", { tenant: "acme" })).toBe(true);
+  });
+
+  test("Should read the namespace switches in the batch", async ({
+    expect,
+  }) => {
+    const store = new CountingDriver();
+    const fm = new FeatureManager({ store });
+
+    await fm.defineAndStore("billing:invoices", true);
+    await fm.defineAndStore("billing:export", true);
+    await fm.defineAndStore("search", true);
+    await fm.disableNamespace("billing");
+    store.reads = 0;
+
+    expect(
+      await fm.activeMany(["billing:invoices", "billing:export", "search"]),
+    ).toEqual({
+      "billing:invoices": false,
+      "billing:export": false,
+      search: true,
+    });
+    expect(store.batches).toEqual([
+      ["billing:invoices", "billing:export", "search", "billing:*"],
+    ]);
+    expect(store.reads).toBe(0);
+
+    store.batches = [];
+    expect(await fm.active("billing:invoices")).toBe(false);
+    expect(store.batches).toEqual([["billing:invoices", "billing:*"]]);
+    expect(store.reads).toBe(0);
+  });
+
+  test("Should leave the namespace switches out of listings", async ({
+    expect,
+  }) => {
+    const fm = new FeatureManager({ store: new InMemoryDriver() });
+
+    fm.define("billing:invoices", () => true);
+    await fm.defineAndStore("search", true);
+    await fm.disableNamespace("billing");
+
+    expect((await fm.all()).map(({ name }) => name)).toEqual([
+      "billing:invoices",
+      "search",
+    ]);
+    expect(await fm.scope("billing").all()).toHaveLength(1);
+    expect(await fm.evaluateAll()).toEqual({
+      "billing:invoices": false,
+      search: true,
+    });
+    expect(Object.keys((await fm.exportSnapshot()).flags)).toEqual(["search"]);
+  });
+
+  test("Should delete every flag of a namespace", async ({ expect }) => {
+    const store = new InMemoryDriver();
+    const fm = new FeatureManager({ store });
+    const deleted: string[] = [];
+    fm.on("deleted", ({ flag }) => deleted.push(flag));
+
+    fm.define("billing:invoices", () => true);
+    await fm.defineAndStore("billing:export", false);
+    await fm.defineAndStore("search", true);
+    await fm.disableNamespace("billing");
+
+    expect(
+      await fm.scope("billing").deleteAll({ actor: "jane", reason: "Sunset" }),
+    ).toEqual(["billing:*", "billing:export", "billing:invoices"]);
+    expect(deleted).toEqual([
+      "billing:*",
+      "billing:export",
+      "billing:invoices",
+    ]);
+    expect(await store.keys()).toEqual(["search"]);
+    expect((await fm.all()).map(({ name }) => name)).toEqual(["search"]);
+
+    const [entry] = await fm.history("billing:export");
+    expect(entry).toMatchObject({
+      action: "delete",
+      actor: "jane",
+      reason: "Sunset",
+      previous: { value: false },
+      next: undefined,
+    });
+  });
+
+  test("Should require a store deleting flags by prefix", async ({
+    expect,
+  }) => {
+    const basicStore: FeatureStorageProvider = {
+      set: async () => {},
+      get: async () => undefined,
+      delete: async () => {},
+      isDatabaseDriver: () => false,
+      initStore: async () => {},
+    };
+
+    const fm = new FeatureManager({ store: basicStore });
+    fm.define("billing:invoices", () => true);
+
+    await expect(fm.deleteNamespace("billing")).rejects.toBeInstanceOf(
+      UnsupportedOperationError,
+    );
+    expect(await fm.active("billing:invoices")).toBe(true);
+    await expect(
+      new FeatureManager().deleteNamespace("billing"),
+    ).resolves.toEqual([]);
+  });
+
+  test("Should keep the definitions when the store fails", async ({
+    expect,
+  }) => {
+    const store = new InMemoryDriver();
+    store.deletePrefix = async () => {
+      throw new Error("Store unavailable");
+    };
+    const fm = new FeatureManager({ store });
+    const errors: FeatureManagerEvents["error"][] = [];
+    fm.on("error", (payload) => errors.push(payload));
+
+    fm.define("billing:invoices", () => true);
+
+    await expect(fm.deleteNamespace("billing")).rejects.toThrow(
+      "Store unavailable",
+    );
+    expect(await fm.active("billing:invoices")).toBe(true);
+    expect(errors).toMatchObject([{ flag: "billing:*", operation: "delete" }]);
+  });
+});
@@ -0,0 +1,147 @@
+import { test } from "@japa/runner";
+import { FeatureManager } from "../src/feature.js";
+import { createInMemoryDriver } from "../src/drivers/memory.js";
+import {
+  FeatureNotExistsError,
+  ProviderNotDefined,
+  UnsupportedOperationError,
+} from "../src/errors.js";
+import type { FeatureStorageProvider } from "../src/types/feature_storage_provider.js";
+
+interface Context {
+  user: { id: number };
+  tenant: { id: number };
+}
+
+function createManager() {
+  return new FeatureManager({
+    store: createInMemoryDriver(),
+    overrideKeys: (ctx: Context) => [
+      `user:${ctx.user.id}`,
+      `tenant:${ctx.tenant.id}`,
+    ],
+  });
+}
+
+test.group("Overrides", () => {
+  test("Should check the scoped value before the global one", async ({
+    expect,
+  }) => {
+    const fm = createManager();
+
+    await fm.defineAndStore("billing:new-invoices", false);
+    await fm.setOverride("billing:new-invoices", "tenant:42", true);
+
+    expect(
+      await fm.active("billing:new-invoices", {
+        user: { id: 1 },
+        tenant: { id: 42 },
+      }),
+    ).toBe(true);
+    expect(
+      await fm.active("billing:new-invoices", {
+        user: { id: 1 },
+        tenant: { id: 7 },
+      }),
+    ).toBe(false);
+  });
+
+  test("Should use the first matching context key", async ({ expect }) => {
+    const fm = createManager();
+    fm.define("beta");
+
+    await fm.setOverride("beta", "tenant:42", true);
+    await fm.setOverride("beta", "user:1", false);
+
+    expect(
+      await fm.active("beta", { user: { id: 1 }, tenant: { id: 42 } }),
+    ).toBe(false);
+    expect(
+      await fm.active("beta", { user: { id: 2 }, tenant: { id: 42 } }),
+    ).toBe(true);
+  });
+
+  test("Should bypass rules and rollout for overridden contexts", async ({
+    expect,
+  }) => {
+    const fm = createManager();
+
+    await fm.defineAndStore("beta", true);
+    await fm.setRollout("beta", { percentage: 0, contextKey: "user.id" });
+    await fm.setOverride("beta", "user:1", true);
+
+    expect(await fm.active("beta", { user: { id: 1 }, tenant: { id: 1 } })).toBe(
+      true,
+    );
+    expect(await fm.active("beta", { user: { id: 2 }, tenant: { id: 1 } })).toBe(
+      false,
+    );
+  });
+
+  test("Should list, delete and clear overrides", async ({ expect }) => {
+    const fm = createManager();
+
+    await fm.setOverride("beta", "user:1", true);
+    await fm.setOverride("beta", "user:2", false);
+    await fm.setOverride("beta", "user:3", true);
+
+    await fm.deleteOverride("beta", "user:3");
+    expect(await fm.listOverrides("beta")).toEqual([
+      { contextKey: "user:1", value: true },
+      { contextKey: "user:2", value: false },
+    ]);
+
+    await fm.clearOverrides("beta");
+    expect(await fm.listOverrides("beta")).toEqual([]);
+  });
+
+  test("Should delete the overrides with the flag", async ({ expect }) => {
+    const fm = createManager();
+    const context = { user: { id: 1 }, tenant: { id: 42 } };
+
+    await fm.defineAndStore("billing:new-invoices", false);
+    await fm.setOverride("billing:new-invoices", "tenant:42", true);
+    await fm.delete("billing:new-invoices");
+
+    await expect(
+      fm.active("billing:new-invoices", context),
+    ).rejects.toBeInstanceOf(FeatureNotExistsError);
+    expect(await fm.listOverrides("billing:new-invoices")).toEqual([]);
+
+    fm.define("billing:export");
+    await fm.defineAndStore("billing:invoices", true);
+    await fm.setOverride("billing:export", "tenant:42", false);
+    await fm.setOverride("billing:invoices", "tenant:42", false);
+    await fm.deleteNamespace("billing");
+
+    expect(await fm.listOverrides("billing:export")).toEqual([]);
+    expect(await fm.listOverrides("billing:invoices")).toEqual([]);
+  });
+
+  test("Should ignore overrides without a resolver", async ({ expect }) => {
+    const store = createInMemoryDriver();
+    const fm = new FeatureManager({ store });
+
+    await fm.defineAndStore("beta", false);
+    await fm.setOverride("beta", "user:1", true);
+
+    expect(await fm.active("beta", { user: { id: 1 } })).toBe(false);
+  });
+
+  test("Should require a store supporting overrides", async ({ expect }) => {
+    const basicStore: FeatureStorageProvider = {
+      set: async () => {},
+      get: async () => undefined,
+      delete: async () => {},
+      isDatabaseDriver: () => false,
+      initStore: async () => {},
+    };
+
+    await expect(
+      new FeatureManager().setOverride("beta", "user:1", true),
+    ).rejects.toBeInstanceOf(ProviderNotDefined);
+    await expect(
+      new FeatureManager({ store: basicStore }).listOverrides("beta"),
+    ).rejects.toBeInstanceOf(UnsupportedOperationError);
+  });
+});
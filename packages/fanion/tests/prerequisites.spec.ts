@@ -0,0 +1,211 @@
+import { test } from "@japa/runner";
+import {
+  createInMemoryDriver,
+  InMemoryDriver,
+} from "../src/drivers/memory.js";
+import {
+  FeatureNotExistsError,
+  InvalidPrerequisiteError,
+  PrerequisiteCycleError,
+} from "../src/errors.js";
+import { FeatureManager } from "../src/feature.js";
+import { findPrerequisiteCycle, getParentFlag } from "../src/prerequisites.js";
+import type { FeatureManagerEvents } from "../src/types/events.js";
+
+test.group("Prerequisites", () => {
+  test("Should get the parent of a sub flag", ({ expect }) => {
+    expect(getParentFlag("billing:invoices.pdf")).toBe("billing:invoices");
+    expect(getParentFlag("billing:invoices.pdf.a4")).toBe("billing:invoices");
+    expect(getParentFlag("billing:invoices")).toBeUndefined();
+    expect(getParentFlag("search.v2")).toBeUndefined();
+  });
+
+  test("Should find a cycle in the prerequisite graph", ({ expect }) => {
+    const graph: Record<string, string[]> = {
+      a: ["b", "c"],
+      b: ["d"],
+      c: ["d", "e"],
+      d: [],
+      e: ["a"],
+    };
+
+    expect(findPrerequisiteCycle("a", (flag) => graph[flag] ?? [])).toEqual([
+      "a",
+      "c",
+      "e",
+      "a",
+    ]);
+    expect(
+      findPrerequisiteCycle("b", (flag) => graph[flag] ?? []),
+    ).toBeUndefined();
+  });
+
+  test("Should be active only when prerequisites have their required value", async ({
+    expect,
+  }) => {
+    const fm = new FeatureManager({ store: createInMemoryDriver() });
+
+    fm.define("checkout:v2", (ctx: { beta: boolean }) => ctx.beta);
+    fm.define("checkout:maintenance", () => false);
+    fm.define("checkout:express", () => true, {
+      prerequisites: [
+        { flag: "checkout:v2", value: true },
+        { flag: "checkout:maintenance", value: false },
+      ],
+    });
+
+    expect(await fm.active("checkout:express", { beta: true })).toBe(true);
+    expect(await fm.active("checkout:express", { beta: false })).toBe(false);
+
+    fm.define("checkout:maintenance", () => true);
+    expect(await fm.active("checkout:express", { beta: true })).toBe(false);
+  });
+
+  test("Should evaluate stored prerequisites", async ({ expect }) => {
+    const fm = new FeatureManager({ store: createInMemoryDriver() });
+    const events: FeatureManagerEvents["evaluated"][] = [];
+
+    await fm.defineAndStore("billing:invoices", false);
+    await fm.defineAndStore("billing:export", true);
+    await fm.setPrerequisites("billing:export", [
+      { flag: "billing:invoices", value: true },
+    ]);
+    fm.on("evaluated", (payload) => events.push(payload));
+
+    expect(await fm.active("billing:export")).toBe(false);
+    expect(await fm.activeMany(["billing:export"])).toEqual({
+      "billing:export": false,
+    });
+    expect(events.map(({ flag, source }) => ({ flag, source }))).toEqual([
+      { flag: "billing:export", source: "prerequisite" },
+      { flag: "billing:export", source: "prerequisite" },
+    ]);
+
+    await fm.set("billing:invoices", true);
+    expect(await fm.active("billing:export")).toBe(true);
+
+    await fm.removePrerequisites("billing:export");
+    await fm.set("billing:invoices", false);
+    expect(await fm.active("billing:export")).toBe(true);
+  });
+
+  test("Should infer the parent of sub flags", async ({ expect }) => {
+    const fm = new FeatureManager({
+      store: createInMemoryDriver(),
+      inferPrerequisites: true,
+    });
+
+    await fm.defineAndStore("billing:new-invoices", false);
+    await fm.defineAndStore("billing:new-invoices.pdf", true);
+    await fm.defineAndStore("search:suggestions.v2", true);
+
+    expect(await fm.active("billing:new-invoices.pdf")).toBe(false);
+
+    await fm.set("billing:new-invoices", true);
+    expect(await fm.active("billing:new-invoices.pdf")).toBe(true);
+
+    // Parents that don't exist are ignored
+    expect(await fm.active("search:suggestions.v2")).toBe(true);
+
+    const withoutInference = new FeatureManager({
+      store: createInMemoryDriver(),
+    });
+    await withoutInference.defineAndStore("billing:new-invoices", false);
+    await withoutInference.defineAndStore("billing:new-invoices.pdf", true);
+    expect(await withoutInference.active("billing:new-invoices.pdf")).toBe(
+      true,
+    );
+  });
+
+  test("Should reject cycles at definition time", async ({ expect }) => {
+    const fm = new FeatureManager({
+      store: createInMemoryDriver(),
+      inferPrerequisites: true,
+    });
+
+    fm.define("a", () => true, { prerequisites: [{ flag: "b", value: true }] });
+    fm.define("b", () => true, {
+      prerequisites: [{ flag: "c", value: false }],
+    });
+
+    expect(() =>
+      fm.define("c", () => true, {
+        prerequisites: [{ flag: "a", value: true }],
+      }),
+    ).toThrow("Prerequisite cycle detected: c -> a -> b -> c");
+    expect(() =>
+      fm.define("a", () => true, {
+        prerequisites: [{ flag: "a", value: true }],
+      }),
+    ).toThrow(PrerequisiteCycleError);
+    expect(() =>
+      fm.define("billing:invoices", () => true, {
+        prerequisites: [{ flag: "billing:invoices.pdf", value: true }],
+      }),
+    ).toThrow(
+      "Prerequisite cycle detected: billing:invoices -> billing:invoices.pdf -> billing:invoices",
+    );
+
+    await fm.defineAndStore("d", true);
+    await fm.setPrerequisites("d", [{ flag: "a", value: true }]);
+    await expect(
+      fm.setPrerequisites("b", [{ flag: "d", value: true }]),
+    ).rejects.toThrow("Prerequisite cycle detected: b -> d -> a -> b");
+
+    // The rejected definitions are not kept
+    fm.define("c", () => false);
+    expect(await fm.active("a")).toBe(true);
+  });
+
+  test("Should forget the prerequisites of a deleted flag", async ({
+    expect,
+  }) => {
+    const fm = new FeatureManager({ store: createInMemoryDriver() });
+
+    fm.define("p", () => true);
+    fm.define("c", () => true, { prerequisites: [{ flag: "p", value: true }] });
+    await fm.delete("c");
+
+    expect(() =>
+      fm.define("p", () => true, {
+        prerequisites: [{ flag: "c", value: true }],
+      }),
+    ).not.toThrow();
+  });
+
+  test("Should detect cycles created outside of the manager", async ({
+    expect,
+  }) => {
+    const store = new InMemoryDriver();
+    const fm = new FeatureManager({ store });
+
+    await fm.defineAndStore("a", true);
+    await fm.defineAndStore("b", true);
+    await store.setConfig("a", { prerequisites: [{ flag: "b", value: true }] });
+    await store.setConfig("b", { prerequisites: [{ flag: "a", value: true }] });
+
+    await expect(fm.active("a")).rejects.toThrow(
+      "Prerequisite cycle detected: a -> b -> a",
+    );
+  });
+
+  test("Should validate prerequisites", async ({ expect }) => {
+    const fm = new FeatureManager({ store: createInMemoryDriver() });
+
+    await expect(
+      fm.setPrerequisites("a", [{ flag: "", value: true }]),
+    ).rejects.toThrow(InvalidPrerequisiteError);
+    await expect(
+      fm.setPrerequisites("a", [
+        { flag: "b", value: "yes" as unknown as boolean },
+      ]),
+    ).rejects.toThrow(
+      "Invalid prerequisites: the value required for 'b' must be a boolean",
+    );
+
+    fm.define("a", () => true, {
+      prerequisites: [{ flag: "missing", value: true }],
+    });
+    await expect(fm.active("a")).rejects.toThrow(FeatureNotExistsError);
+  });
+});
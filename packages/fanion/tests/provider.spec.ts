@@ -28,6 +28,26 @@ test.group("Provider", () => {
     expect(fm.active("saved-feature")).resolves.toBe(true);
   });
 
+  test("Should turn off a defined flag with a stored false", async ({
+    expect,
+  }) => {
+    const store = createInMemoryDriver();
+    const fm = new FeatureManager({ store });
+    const sources: string[] = [];
+    fm.on("evaluated", ({ source }) => sources.push(source));
+
+    fm.define("dashboard", () => true);
+    await fm.set("dashboard", false);
+
+    expect(await fm.active("dashboard")).toBe(false);
+
+    await fm.set("dashboard", true);
+    fm.define("dashboard", () => false);
+
+    expect(await fm.active("dashboard")).toBe(false);
+    expect(sources).toEqual(["store", "definition"]);
+  });
+
   test("Should throw an error if the feature flag is not defined", async ({
     expect,
   }) => {
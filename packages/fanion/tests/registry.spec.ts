@@ -0,0 +1,135 @@
+import { test } from "@japa/runner";
+import { FeatureManager } from "../src/feature.js";
+import { createInMemoryDriver } from "../src/drivers/memory.js";
+import { FeatureNotExistsError } from "../src/errors.js";
+import type { FlagContext, FlagName } from "../src/types/registry.js";
+
+/**
+ * Compile time assertions, checked by `pnpm typecheck`
+ */
+type Equal<A, B> = (<T>() => T extends A ? 1 : 2) extends <T>() => T extends B
+  ? 1
+  : 2
+  ? true
+  : false;
+type Expect<T extends true> = T;
+
+const definitions = {
+  "checkout:v2": (ctx: { user: { beta: boolean } }) => ctx.user.beta,
+  "checkout:v2.express": {
+    prerequisites: [{ flag: "checkout:v2", value: true }],
+  },
+  "search:suggestions": { stored: true as const },
+  maintenance: () => false,
+  "billing:invoices": {
+    check: async (ctx: { plan: "free" | "pro" }) => ctx.plan === "pro",
+    metadata: { owner: "billing" },
+  },
+};
+
+type Definitions = typeof definitions;
+
+export type RegistryTypes = [
+  Expect<
+    Equal<
+      FlagName<Definitions>,
+      | "checkout:v2"
+      | "checkout:v2.express"
+      | "search:suggestions"
+      | "maintenance"
+      | "billing:invoices"
+    >
+  >,
+  Expect<
+    Equal<FlagContext<Definitions["checkout:v2"]>, { user: { beta: boolean } }>
+  >,
+  Expect<
+    Equal<
+      FlagContext<Definitions["billing:invoices"]>,
+      { plan: "free" | "pro" }
+    >
+  >,
+  Expect<Equal<FlagContext<Definitions["search:suggestions"]>, unknown>>,
+  Expect<Equal<FlagContext<Definitions["checkout:v2.express"]>, unknown>>,
+];
+
+test.group("Flag registry", () => {
+  test("Should define the flags and check them", async ({ expect }) => {
+    const fm = new FeatureManager({ store: createInMemoryDriver() });
+    const flags = fm.defineFlags(definitions);
+
+    await fm.defineAndStore("search:suggestions", true);
+
+    expect(flags.names).toEqual([
+      "checkout:v2",
+      "checkout:v2.express",
+      "search:suggestions",
+      "maintenance",
+      "billing:invoices",
+    ]);
+    expect(flags.manager).toBe(fm);
+    expect(await flags.active("checkout:v2", { user: { beta: true } })).toBe(
+      true,
+    );
+    expect(
+      await flags.active("checkout:v2.express", { user: { beta: false } }),
+    ).toBe(false);
+    expect(await flags.active("search:suggestions")).toBe(true);
+    expect(await flags.active("maintenance")).toBe(false);
+    expect(await flags.active("billing:invoices", { plan: "pro" })).toBe(true);
+    expect(await fm.getMetadata("billing:invoices")).toEqual({
+      owner: "billing",
+    });
+  });
+
+  test("Should check several flags with a context matching all of them", async ({
+    expect,
+  }) => {
+    const fm = new FeatureManager({ store: createInMemoryDriver() });
+    const flags = fm.defineFlags(definitions);
+
+    expect(
+      await flags.activeMany(["checkout:v2", "billing:invoices"], {
+        user: { beta: true },
+        plan: "free",
+      }),
+    ).toEqual({ "checkout:v2": true, "billing:invoices": false });
+    expect(
+      await flags.variant("checkout:v2", { user: { beta: true } }, "A"),
+    ).toBe("A");
+  });
+
+  test("Should leave stored flags to the store", async ({ expect }) => {
+    const fm = new FeatureManager({ store: createInMemoryDriver() });
+    const flags = fm.defineFlags({ "search:suggestions": { stored: true } });
+
+    await expect(flags.active("search:suggestions")).rejects.toBeInstanceOf(
+      FeatureNotExistsError,
+    );
+  });
+
+  test("Should reject unknown flags and wrong contexts at compile time", ({
+    expect,
+  }) => {
+    const fm = new FeatureManager({ store: createInMemoryDriver() });
+    const flags = fm.defineFlags(definitions);
+
+    // Never called, the errors are expected by the compiler
+    const misuses = () => [
+      // @ts-expect-error unknown flag name
+      flags.active("checkout:v3"),
+      // @ts-expect-error the context is required
+      flags.active("checkout:v2"),
+      // @ts-expect-error wrong context shape
+      flags.active("checkout:v2", { user: { beta: "yes" } }),
+      // @ts-expect-error value outside of the union
+      flags.active("billing:invoices", { plan: "enterprise" }),
+      // @ts-expect-error the context must match every flag
+      flags.activeMany(["checkout:v2", "billing:invoices"], { plan: "pro" }),
+      // @ts-expect-error unknown flag name
+      flags.variant("search", {}, "A"),
+    ];
+
+    expect(misuses).toBeInstanceOf(Function);
+  });
+});
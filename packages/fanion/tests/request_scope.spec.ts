@@ -0,0 +1,167 @@
+import { test } from "@japa/runner";
+import { setTimeout as sleep } from "node:timers/promises";
+import { FeatureManager } from "../src/feature.js";
+import { InMemoryDriver } from "../src/drivers/memory.js";
+import {
+  adonisContext,
+  expressContext,
+  fastifyContext,
+} from "../src/middleware.js";
+
+/**
+ * In-memory driver counting the batched reads
+ */
+class CountingDriver extends InMemoryDriver {
+  batches: string[][] = [];
+
+  async getMany(flags: string[]) {
+    this.batches.push(flags);
+    return super.getMany(flags);
+  }
+}
+
+test.group("Request scope", () => {
+  test("Should check the flags with the context of the scope", async ({
+    expect,
+  }) => {
+    const fm = new FeatureManager();
+    fm.define("beta", (ctx: { user: { beta: boolean } }) => ctx.user.beta);
+
+    const results = await fm.withContext({ user: { beta: true } }, async () => {
+      await sleep(1);
+
+      return {
+        context: fm.currentContext(),
+        ambient: await fm.active("beta"),
+        explicit: await fm.active("beta", { user: { beta: false } }),
+        many: await fm.activeMany(["beta"]),
+      };
+    });
+
+    expect(results).toEqual({
+      context: { user: { beta: true } },
+      ambient: true,
+      explicit: false,
+      many: { beta: true },
+    });
+    expect(fm.currentContext()).toBeUndefined();
+  });
+
+  test("Should keep the first result of a flag in the scope", async ({
+    expect,
+  }) => {
+    const store = new CountingDriver();
+    const fm = new FeatureManager({ store });
+    let evaluations = 0;
+    fm.on("evaluated", () => evaluations++);
+
+    await store.set("search", true);
+    await store.set("export", true);
+
+    await fm.withContext({}, async () => {
+      expect(await fm.active("search")).toBe(true);
+
+      await store.set("search", false);
+      await store.set("export", false);
+
+      expect(await fm.active("search")).toBe(true);
+      expect(await fm.activeMany(["search", "export"])).toEqual({
+        search: true,
+        export: false,
+      });
+      expect(store.batches).toEqual([["export"]]);
+      expect(await fm.evaluateAll()).toEqual({ search: true, export: false });
+    });
+
+    expect(evaluations).toBe(2);
+    expect(await fm.withContext({}, () => fm.active("search"))).toBe(false);
+    expect(await fm.active("search", {})).toBe(false);
+  });
+
+  test("Should isolate concurrent scopes", async ({ expect }) => {
+    const fm = new FeatureManager();
+    fm.define("beta", async (ctx: { beta: boolean }) => {
+      await sleep(ctx.beta ? 5 : 1);
+      return ctx.beta;
+    });
+
+    const request = (beta: boolean) =>
+      fm.withContext({ beta }, async () => {
+        await sleep(beta ? 1 : 5);
+        return fm.active("beta");
+      });
+
+    expect(await Promise.all([request(true), request(false)])).toEqual([
+      true,
+      false,
+    ]);
+  });
+
+  test("Should not memoize failed checks", async ({ expect }) => {
+    const fm = new FeatureManager();
+    let calls = 0;
+    fm.define("flaky", () => {
+      calls++;
+      if (calls === 1) {
+        throw new Error("Unavailable");
+      }
+      return true;
+    });
+
+    await fm.withContext({}, async () => {
+      await expect(fm.active("flaky")).rejects.toThrow("Unavailable");
+      expect(await fm.active("flaky")).toBe(true);
+      expect(await fm.active("flaky")).toBe(true);
+    });
+
+    expect(calls).toBe(2);
+  });
+
+  test("Should bind the context from the framework middlewares", async ({
+    expect,
+  }) => {
+    const fm = new FeatureManager();
+    fm.define("beta", (ctx: { user: string }) => ctx.user === "jane");
+
+    const express = expressContext(fm, (req: { user: string }) => ({
+      user: req.user,
+    }));
+    const expressResult = await new Promise((resolve) =>
+      express({ user: "jane" }, {}, () => resolve(fm.active("beta"))),
+    );
+
+    const fastify = fastifyContext(fm, async (request: { user: string }) => ({
+      user: request.user,
+    }));
+    const fastifyResult = await new Promise((resolve) =>
+      fastify({ user: "john" }, {}, () => resolve(fm.active("beta"))),
+    );
+
+    const adonis = adonisContext(fm, (ctx: { auth: { user: string } }) => ({
+      user: ctx.auth.user,
+    }));
+    const adonisResult = await adonis({ auth: { user: "jane" } }, () =>
+      fm.active("beta"),
+    );
+
+    expect([expressResult, fastifyResult, adonisResult]).toEqual([
+      true,
+      false,
+      true,
+    ]);
+  });
+
+  test("Should pass the resolver errors to next", async ({ expect }) => {
+    const fm = new FeatureManager();
+    const middleware = expressContext(fm, () => {
+      throw new Error("No session");
+    });
+
+    const error = await new Promise((resolve) =>
+      middleware({}, {}, (error) => resolve(error)),
+    );
+
+    expect(error).toBeInstanceOf(Error);
+    expect(fm.currentContext()).toBeUndefined();
+  });
+});
@@ -0,0 +1,344 @@
+import { test } from "@japa/runner";
+import {
+  assertValidRamp,
+  assertValidRollout,
+  getBucket,
+  getRampRollout,
+  isInRollout,
+} from "../src/rollout.js";
+import { FeatureManager } from "../src/feature.js";
+import { createInMemoryDriver } from "../src/drivers/memory.js";
+import type { Ramp } from "../src/types/feature_config.js";
+import {
+  InvalidRolloutError,
+  ProviderNotDefined,
+} from "../src/errors.js";
+
+test.group("Rollout", () => {
+  test("Should always put a key in the same bucket", ({ expect }) => {
+    const bucket = getBucket("checkout:v2", "user-42");
+
+    expect(getBucket("checkout:v2", "user-42")).toBe(bucket);
+    expect(bucket).toBeGreaterThanOrEqual(0);
+    expect(bucket).toBeLessThan(100);
+  });
+
+  test("Should bucket a key independently for each flag", ({ expect }) => {
+    const buckets = new Set(
+      ["a", "b", "c", "d", "e"].map((flag) => getBucket(flag, "user-42")),
+    );
+
+    expect(buckets.size).toBeGreaterThan(1);
+  });
+
+  test("Should never drop contexts when the percentage is raised", ({
+    expect,
+  }) => {
+    for (let id = 0; id < 500; id++) {
+      const context = { user: { id } };
+      const in5 = isInRollout("flag", { percentage: 5, contextKey: "user.id" }, context);
+      const in25 = isInRollout("flag", { percentage: 25, contextKey: "user.id" }, context);
+
+      if (in5) {
+        expect(in25).toBe(true);
+      }
+    }
+  });
+
+  test("Should include roughly the requested percentage", ({ expect }) => {
+    let included = 0;
+
+    for (let id = 0; id < 2000; id++) {
+      if (isInRollout("flag", { percentage: 25, contextKey: "id" }, { id })) {
+        included++;
+      }
+    }
+
+    expect(included / 2000).toBeGreaterThan(0.2);
+    expect(included / 2000).toBeLessThan(0.3);
+  });
+
+  test("Should exclude contexts without the rollout key", ({ expect }) => {
+    const rollout = { percentage: 99, contextKey: "user.id" };
+
+    expect(isInRollout("flag", rollout, undefined)).toBe(false);
+    expect(isInRollout("flag", rollout, { user: {} })).toBe(false);
+    expect(
+      isInRollout("flag", { percentage: 100, contextKey: "user.id" }, {}),
+    ).toBe(true);
+  });
+
+  test("Should reject invalid rollouts", ({ expect }) => {
+    expect(() =>
+      assertValidRollout({ percentage: 101, contextKey: "id" }),
+    ).toThrow(InvalidRolloutError);
+    expect(() => assertValidRollout({ percentage: 10, contextKey: "" })).toThrow(
+      InvalidRolloutError,
+    );
+  });
+});
+
+test.group("FeatureManager rollout", () => {
+  test("Should apply a stored rollout to a stored flag", async ({ expect }) => {
+    const fm = new FeatureManager({ store: createInMemoryDriver() });
+
+    await fm.defineAndStore("stored-flag", true);
+    await fm.setRollout("stored-flag", { percentage: 0, contextKey: "id" });
+    expect(await fm.active("stored-flag", { id: 1 })).toBe(false);
+
+    await fm.setRollout("stored-flag", { percentage: 100, contextKey: "id" });
+    expect(await fm.active("stored-flag", { id: 1 })).toBe(true);
+  });
+
+  test("Should apply a stored rollout to a defined flag", async ({
+    expect,
+  }) => {
+    const fm = new FeatureManager({ store: createInMemoryDriver() });
+    fm.define("defined-flag");
+
+    await fm.setRollout("defined-flag", { percentage: 30, contextKey: "id" });
+
+    for (let id = 0; id < 50; id++) {
+      expect(await fm.active("defined-flag", { id })).toBe(
+        getBucket("defined-flag", String(id)) < 30,
+      );
+    }
+  });
+
+  test("Should not evaluate the rollout of a disabled flag", async ({
+    expect,
+  }) => {
+    const fm = new FeatureManager({ store: createInMemoryDriver() });
+
+    await fm.defineAndStore("disabled-flag", false);
+    await fm.setRollout("disabled-flag", { percentage: 100, contextKey: "id" });
+
+    expect(await fm.active("disabled-flag", { id: 1 })).toBe(false);
+  });
+
+  test("Should remove a rollout", async ({ expect }) => {
+    const fm = new FeatureManager({ store: createInMemoryDriver() });
+
+    await fm.defineAndStore("flag", true);
+    await fm.setRollout("flag", { percentage: 0, contextKey: "id" });
+    await fm.removeRollout("flag");
+
+    expect(await fm.active("flag", { id: 1 })).toBe(true);
+  });
+
+  test("Should require a store to set a rollout", async ({ expect }) => {
+    const fm = new FeatureManager();
+
+    await expect(
+      fm.setRollout("flag", { percentage: 10, contextKey: "id" }),
+    ).rejects.toBeInstanceOf(ProviderNotDefined);
+  });
+});
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const STEPS = [
+  { percentage: 1, after: 0 },
+  { percentage: 10, after: DAY },
+  { percentage: 50, after: 3 * DAY },
+  { percentage: 100, after: 7 * DAY },
+];
+
+test.group("Ramp", () => {
+  test("Should compute the percentage of the last step reached", ({
+    expect,
+  }) => {
+    const ramp: Ramp = {
+      contextKey: "id",
+      steps: STEPS,
+      startedAt: "2025-01-01T00:00:00Z",
+    };
+    const percentage = (date: string) =>
+      getRampRollout(ramp, new Date(date)).percentage;
+
+    expect(percentage("2024-12-31T23:59:59Z")).toBe(0);
+    expect(percentage("2025-01-01T00:00:00Z")).toBe(1);
+    expect(percentage("2025-01-02T00:00:00Z")).toBe(10);
+    expect(percentage("2025-01-05T12:00:00Z")).toBe(50);
+    expect(percentage("2025-03-01T00:00:00Z")).toBe(100);
+
+    // Paused on the second day
+    expect(
+      getRampRollout(
+        { ...ramp, pausedAt: "2025-01-02T12:00:00Z" },
+        new Date("2025-03-01T00:00:00Z"),
+      ).percentage,
+    ).toBe(10);
+  });
+
+  test("Should keep the contexts that are in while the ramp progresses", async ({
+    expect,
+  }) => {
+    let now = new Date("2025-01-01T00:00:00Z");
+    const fm = new FeatureManager({
+      store: createInMemoryDriver(),
+      clock: () => now,
+    });
+
+    await fm.defineAndStore("checkout:v2", true);
+    await fm.setRamp("checkout:v2", { contextKey: "id", steps: STEPS });
+
+    const enabled = async () => {
+      const ids: number[] = [];
+      for (let id = 0; id < 300; id++) {
+        if (await fm.active("checkout:v2", { id })) {
+          ids.push(id);
+        }
+      }
+      return ids;
+    };
+
+    let previous = await enabled();
+
+    for (const day of [1, 3, 7]) {
+      now = new Date(Date.parse("2025-01-01T00:00:00Z") + day * DAY);
+      const current = await enabled();
+
+      expect(current.length).toBeGreaterThan(previous.length);
+      expect(previous.every((id) => current.includes(id))).toBe(true);
+      previous = current;
+    }
+
+    expect(previous).toHaveLength(300);
+  });
+
+  test("Should pause, halt and resume a ramp", async ({ expect }) => {
+    let now = new Date("2025-01-01T00:00:00Z");
+    const later = (days: number) => {
+      now = new Date(now.getTime() + days * DAY);
+    };
+    const fm = new FeatureManager({
+      store: createInMemoryDriver(),
+      clock: () => now,
+    });
+
+    await fm.defineAndStore("checkout:v2", true);
+    await fm.setRamp("checkout:v2", { contextKey: "id", steps: STEPS });
+
+    later(1);
+    await fm.pauseRamp("checkout:v2");
+    later(10);
+    expect(await fm.getRamp("checkout:v2")).toEqual({
+      percentage: 10,
+      step: 1,
+      paused: true,
+      halt: undefined,
+    });
+
+    // The ramp continues where it was paused
+    await fm.resumeRamp("checkout:v2");
+    later(2);
+    expect((await fm.getRamp("checkout:v2"))?.percentage).toBe(50);
+
+    await fm.haltRamp("checkout:v2", "Error rate above 2%");
+    later(10);
+    expect(await fm.getRamp("checkout:v2")).toMatchObject({
+      percentage: 50,
+      paused: true,
+      halt: { reason: "Error rate above 2%" },
+    });
+
+    await fm.resumeRamp("checkout:v2");
+    expect(await fm.getRamp("checkout:v2")).toMatchObject({
+      percentage: 50,
+      paused: false,
+      halt: undefined,
+    });
+    later(4);
+    expect((await fm.getRamp("checkout:v2"))?.percentage).toBe(100);
+  });
+
+  test("Should roll a ramp back to its previous step", async ({ expect }) => {
+    let now = new Date("2025-01-01T00:00:00Z");
+    const fm = new FeatureManager({
+      store: createInMemoryDriver(),
+      clock: () => now,
+    });
+
+    await fm.defineAndStore("checkout:v2", true);
+    await fm.setRamp("checkout:v2", {
+      contextKey: "id",
+      steps: STEPS,
+      startedAt: "2024-12-28T00:00:00Z",
+    });
+    expect((await fm.getRamp("checkout:v2"))?.percentage).toBe(50);
+
+    await fm.rollbackRamp("checkout:v2");
+    now = new Date("2025-02-01T00:00:00Z");
+    expect(await fm.getRamp("checkout:v2")).toMatchObject({
+      percentage: 10,
+      step: 1,
+      paused: true,
+    });
+
+    for (let id = 0; id < 100; id++) {
+      expect(await fm.active("checkout:v2", { id })).toBe(
+        getBucket("checkout:v2", String(id)) < 10,
+      );
+    }
+
+    await fm.resumeRamp("checkout:v2");
+    now = new Date(now.getTime() + 2 * DAY);
+    expect((await fm.getRamp("checkout:v2"))?.percentage).toBe(50);
+  });
+
+  test("Should replace the static rollout", async ({ expect }) => {
+    const store = createInMemoryDriver();
+    const fm = new FeatureManager({ store });
+
+    await fm.defineAndStore("flag", true);
+    await fm.setRollout("flag", { percentage: 5, contextKey: "id" });
+    await fm.setRamp("flag", { contextKey: "id", steps: STEPS });
+
+    expect((await store.getFeature?.("flag"))?.config.rollout).toBeUndefined();
+
+    await fm.setRollout("flag", { percentage: 5, contextKey: "id" });
+    expect(await fm.getRamp("flag")).toBeUndefined();
+
+    await fm.setRamp("flag", { contextKey: "id", steps: STEPS });
+    await fm.removeRamp("flag");
+    expect(await fm.active("flag", { id: 1 })).toBe(true);
+
+    await expect(fm.pauseRamp("flag")).rejects.toThrow(
+      "Invalid rollout: 'flag' has no ramp",
+    );
+  });
+
+  test("Should validate ramps", ({ expect }) => {
+    const ramp = (overrides: Partial<Ramp>): Ramp => ({
+      contextKey: "id",
+      steps: STEPS,
+      startedAt: "2025-01-01T00:00:00Z",
+      ...overrides,
+    });
+
+    expect(() => assertValidRamp(ramp({}))).not.toThrow();
+    expect(() => assertValidRamp(ramp({ steps: [] }))).toThrow(
+      "a ramp requires at least one step",
+    );
+    expect(() => assertValidRamp(ramp({ startedAt: "now" }))).toThrow(
+      "the ramp start must be an ISO 8601 date",
+    );
+    expect(() =>
+      assertValidRamp(ramp({ steps: [{ percentage: 120, after: 0 }] })),
+    ).toThrow("percentage must be between 0 and 100");
+    expect(() =>
+      assertValidRamp(
+        ramp({
+          steps: [
+            { percentage: 50, after: 0 },
+            { percentage: 10, after: DAY },
+          ],
+        }),
+      ),
+    ).toThrow("ramp steps must be sorted by delay with increasing percentages");
+    expect(() =>
+      assertValidRamp(ramp({ steps: [{ percentage: 10, after: -1 }] })),
+    ).toThrow(InvalidRolloutError);
+  });
+});
@@ -0,0 +1,140 @@
+import { test } from "@japa/runner";
+import { assertValidRule, evaluateRule } from "../src/rules.js";
+import { FeatureManager } from "../src/feature.js";
+import { createInMemoryDriver } from "../src/drivers/memory.js";
+import { InvalidRuleError } from "../src/errors.js";
+import type { Rule, RuleOperator } from "../src/types/feature_config.js";
+
+test.group("Rules", () => {
+  test("Should compare context attributes", ({ expect }) => {
+    const context = {
+      user: { id: "usr_42", plan: "pro", age: 31, roles: ["admin"] },
+    };
+
+    expect(
+      evaluateRule({ attribute: "user.plan", operator: "equals", value: "pro" }, context),
+    ).toBe(true);
+    expect(
+      evaluateRule({ attribute: "user.plan", operator: "notEquals", value: "pro" }, context),
+    ).toBe(false);
+    expect(
+      evaluateRule({ attribute: "user.plan", operator: "in", value: ["pro", "team"] }, context),
+    ).toBe(true);
+    expect(
+      evaluateRule({ attribute: "user.plan", operator: "notIn", value: ["pro"] }, context),
+    ).toBe(false);
+    expect(
+      evaluateRule({ attribute: "user.id", operator: "startsWith", value: "usr_" }, context),
+    ).toBe(true);
+    expect(
+      evaluateRule({ attribute: "user.id", operator: "endsWith", value: "43" }, context),
+    ).toBe(false);
+    expect(
+      evaluateRule({ attribute: "user.roles", operator: "contains", value: "admin" }, context),
+    ).toBe(true);
+    expect(
+      evaluateRule({ attribute: "user.age", operator: "gte", value: 31 }, context),
+    ).toBe(true);
+    expect(
+      evaluateRule({ attribute: "user.age", operator: "lt", value: 18 }, context),
+    ).toBe(false);
+  });
+
+  test("Should compare semver versions", ({ expect }) => {
+    const rule = (version: string): Rule => ({
+      attribute: "app.version",
+      operator: "semverGt",
+      value: version,
+    });
+
+    expect(evaluateRule(rule("2.9.0"), { app: { version: "2.10.0" } })).toBe(true);
+    expect(evaluateRule(rule("2.10.0"), { app: { version: "2.10.0" } })).toBe(false);
+    expect(evaluateRule(rule("2.10.0-beta.1"), { app: { version: "2.10.0" } })).toBe(true);
+    expect(evaluateRule(rule("2.10.0-beta.2"), { app: { version: "2.10.0-beta.10" } })).toBe(true);
+    expect(evaluateRule(rule("1.0.0"), { app: { version: "not-a-version" } })).toBe(false);
+  });
+
+  test("Should combine rules with and, or and not", ({ expect }) => {
+    const rule: Rule = {
+      and: [
+        { attribute: "country", operator: "in", value: ["FR", "BE"] },
+        {
+          or: [
+            { attribute: "beta", operator: "equals", value: true },
+            { not: { attribute: "plan", operator: "equals", value: "free" } },
+          ],
+        },
+      ],
+    };
+
+    expect(evaluateRule(rule, { country: "FR", plan: "free", beta: true })).toBe(true);
+    expect(evaluateRule(rule, { country: "FR", plan: "pro" })).toBe(true);
+    expect(evaluateRule(rule, { country: "FR", plan: "free" })).toBe(false);
+    expect(evaluateRule(rule, { country: "US", plan: "pro" })).toBe(false);
+  });
+
+  test("Should not match missing attributes", ({ expect }) => {
+    expect(
+      evaluateRule({ attribute: "user.plan", operator: "equals", value: "pro" }, undefined),
+    ).toBe(false);
+    expect(
+      evaluateRule({ attribute: "user.age", operator: "gt", value: 1 }, { user: {} }),
+    ).toBe(false);
+  });
+
+  test("Should reject invalid rules", ({ expect }) => {
+    expect(() =>
+      assertValidRule({ attribute: "plan", operator: "like" as RuleOperator, value: "pro" }),
+    ).toThrow(InvalidRuleError);
+    expect(() =>
+      assertValidRule({ attribute: "plan", operator: "in", value: "pro" }),
+    ).toThrow(InvalidRuleError);
+    expect(() =>
+      assertValidRule({ attribute: "age", operator: "gt", value: "18" }),
+    ).toThrow(InvalidRuleError);
+    expect(() =>
+      assertValidRule({
+        and: [{ attribute: "v", operator: "semverGt", value: "latest" }],
+      }),
+    ).toThrow(InvalidRuleError);
+  });
+});
+
+test.group("FeatureManager rules", () => {
+  test("Should evaluate stored rules against the context", async ({
+    expect,
+  }) => {
+    const fm = new FeatureManager({ store: createInMemoryDriver() });
+
+    await fm.defineAndStore("premium-features", true);
+    await fm.setRules("premium-features", {
+      attribute: "user.plan",
+      operator: "equals",
+      value: "premium",
+    });
+
+    expect(await fm.active("premium-features", { user: { plan: "premium" } })).toBe(true);
+    expect(await fm.active("premium-features", { user: { plan: "free" } })).toBe(false);
+
+    await fm.removeRules("premium-features");
+
+    expect(await fm.active("premium-features", { user: { plan: "free" } })).toBe(true);
+  });
+
+  test("Should combine a check callback with stored rules", async ({
+    expect,
+  }) => {
+    const fm = new FeatureManager({ store: createInMemoryDriver() });
+
+    fm.define("beta", (ctx: { user: { beta: boolean } }) => ctx.user.beta);
+    await fm.setRules("beta", {
+      attribute: "user.country",
+      operator: "equals",
+      value: "FR",
+    });
+
+    expect(await fm.active("beta", { user: { beta: true, country: "FR" } })).toBe(true);
+    expect(await fm.active("beta", { user: { beta: true, country: "US" } })).toBe(false);
+    expect(await fm.active("beta", { user: { beta: false, country: "FR" } })).toBe(false);
+  });
+});
@@ -0,0 +1,171 @@
+import { test } from "@japa/runner";
+import { createInMemoryDriver } from "../src/drivers/memory.js";
+import { InvalidScheduleError } from "../src/errors.js";
+import { FeatureManager } from "../src/feature.js";
+import {
+  assertValidSchedule,
+  getLocalTime,
+  isInSchedule,
+} from "../src/schedule.js";
+import type { Schedule } from "../src/types/feature_config.js";
+
+test.group("Schedules", () => {
+  test("Should be active between the start and the end", ({ expect }) => {
+    const schedule: Schedule = {
+      start: "2025-11-28T00:00:00+01:00",
+      end: "2025-12-01T00:00:00+01:00",
+    };
+
+    expect(isInSchedule(schedule, new Date("2025-11-27T22:59:59Z"))).toBe(
+      false,
+    );
+    expect(isInSchedule(schedule, new Date("2025-11-27T23:00:00Z"))).toBe(true);
+    expect(isInSchedule(schedule, new Date("2025-11-30T22:59:59Z"))).toBe(true);
+    expect(isInSchedule(schedule, new Date("2025-11-30T23:00:00Z"))).toBe(
+      false,
+    );
+    expect(
+      isInSchedule({ start: schedule.start }, new Date("2030-01-01")),
+    ).toBe(true);
+  });
+
+  test("Should check recurring windows in the time zone", ({ expect }) => {
+    const schedule: Schedule = {
+      windows: [{ start: "09:00", end: "18:00", days: ["mon", "fri"] }],
+      timeZone: "Europe/Paris",
+    };
+
+    // Monday 2025-03-03, Paris is UTC+1
+    expect(isInSchedule(schedule, new Date("2025-03-03T07:59:00Z"))).toBe(
+      false,
+    );
+    expect(isInSchedule(schedule, new Date("2025-03-03T08:00:00Z"))).toBe(true);
+    expect(isInSchedule(schedule, new Date("2025-03-03T17:00:00Z"))).toBe(
+      false,
+    );
+    // Tuesday
+    expect(isInSchedule(schedule, new Date("2025-03-04T10:00:00Z"))).toBe(
+      false,
+    );
+    // Friday 2025-07-04, Paris is UTC+2
+    expect(isInSchedule(schedule, new Date("2025-07-04T07:00:00Z"))).toBe(true);
+    expect(isInSchedule(schedule, new Date("2025-07-04T16:00:00Z"))).toBe(
+      false,
+    );
+
+    expect(getLocalTime(new Date("2025-03-02T23:30:00Z"), "UTC")).toEqual({
+      day: 0,
+      minutes: 1410,
+    });
+  });
+
+  test("Should handle windows spanning midnight", ({ expect }) => {
+    const schedule: Schedule = {
+      windows: [{ start: "22:00", end: "02:00", days: ["sat"] }],
+    };
+
+    // Saturday 2025-03-08
+    expect(isInSchedule(schedule, new Date("2025-03-08T21:59:00Z"))).toBe(
+      false,
+    );
+    expect(isInSchedule(schedule, new Date("2025-03-08T23:00:00Z"))).toBe(true);
+    expect(isInSchedule(schedule, new Date("2025-03-09T01:59:00Z"))).toBe(true);
+    expect(isInSchedule(schedule, new Date("2025-03-09T02:00:00Z"))).toBe(
+      false,
+    );
+    // The window started on friday
+    expect(isInSchedule(schedule, new Date("2025-03-08T01:00:00Z"))).toBe(
+      false,
+    );
+  });
+
+  test("Should validate schedules", ({ expect }) => {
+    expect(() => assertValidSchedule({ start: "tomorrow" })).toThrow(
+      "Invalid schedule: start must be an ISO 8601 date",
+    );
+    expect(() =>
+      assertValidSchedule({ start: "2025-02-01", end: "2025-01-01" }),
+    ).toThrow("end must be after start");
+    expect(() => assertValidSchedule({ timeZone: "Mars/Olympus" })).toThrow(
+      "unknown time zone 'Mars/Olympus'",
+    );
+    expect(() =>
+      assertValidSchedule({ windows: [{ start: "9:00", end: "18:00" }] }),
+    ).toThrow(InvalidScheduleError);
+    expect(() =>
+      assertValidSchedule({ windows: [{ start: "09:00", end: "09:00" }] }),
+    ).toThrow("a window cannot be empty");
+    expect(() =>
+      assertValidSchedule({
+        windows: [
+          {
+            start: "09:00",
+            end: "24:00",
+            days: ["monday" as unknown as "mon"],
+          },
+        ],
+      }),
+    ).toThrow(
+      "window days must be a list of sun, mon, tue, wed, thu, fri, sat",
+    );
+    expect(() =>
+      assertValidSchedule({
+        start: "2025-01-01T00:00:00Z",
+        windows: [{ start: "00:00", end: "24:00", days: ["sun"] }],
+        timeZone: "America/New_York",
+      }),
+    ).not.toThrow();
+  });
+
+  test("Should activate a stored flag with the clock of the manager", async ({
+    expect,
+  }) => {
+    let now = new Date("2025-11-27T12:00:00Z");
+    const fm = new FeatureManager({
+      store: createInMemoryDriver(),
+      clock: () => now,
+    });
+
+    await fm.defineAndStore("black-friday:banner", true);
+    await fm.setSchedule("black-friday:banner", {
+      start: "2025-11-28T00:00:00Z",
+      end: "2025-12-01T00:00:00Z",
+    });
+
+    expect(await fm.active("black-friday:banner")).toBe(false);
+
+    now = new Date("2025-11-28T00:00:00Z");
+    expect(await fm.active("black-friday:banner")).toBe(true);
+
+    now = new Date("2025-12-01T00:00:00Z");
+    expect(await fm.active("black-friday:banner")).toBe(false);
+
+    await fm.removeSchedule("black-friday:banner");
+    expect(await fm.active("black-friday:banner")).toBe(true);
+
+    await expect(
+      fm.setSchedule("black-friday:banner", { end: "soon" }),
+    ).rejects.toThrow(InvalidScheduleError);
+  });
+
+  test("Should apply the schedule after the check of a defined flag", async ({
+    expect,
+  }) => {
+    let now = new Date("2025-03-03T10:00:00Z");
+    const fm = new FeatureManager({
+      store: createInMemoryDriver(),
+      clock: () => now,
+    });
+
+    fm.define("support:chat", (ctx: { plan: string }) => ctx.plan === "pro");
+    await fm.setSchedule("support:chat", {
+      windows: [{ start: "09:00", end: "18:00" }],
+    });
+
+    expect(await fm.active("support:chat", { plan: "pro" })).toBe(true);
+    expect(await fm.active("support:chat", { plan: "free" })).toBe(false);
+
+    now = new Date("2025-03-03T20:00:00Z");
+    expect(await fm.active("support:chat", { plan: "pro" })).toBe(false);
+  });
+});
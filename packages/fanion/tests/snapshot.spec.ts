@@ -0,0 +1,297 @@
+import { test } from "@japa/runner";
+import knex from "knex";
+import { createKnexDatabaseDriver } from "../src/drivers/databases/knex.js";
+import { InMemoryDriver } from "../src/drivers/memory.js";
+import {
+  InvalidRuleError,
+  InvalidSnapshotError,
+  ProviderNotDefined,
+} from "../src/errors.js";
+import { FeatureManager } from "../src/feature.js";
+import { createSnapshot, diff, parseSnapshot } from "../src/snapshot.js";
+import type { Snapshot } from "../src/types/snapshot.js";
+
+/**
+ * A store with a flag of each kind
+ */
+async function seed(store: InMemoryDriver) {
+  const fm = new FeatureManager({ store });
+
+  await fm.defineAndStore("search", true);
+  await fm.defineAndStore("checkout:v2", false, {
+    owner: "payments",
+    tags: ["checkout"],
+  });
+  await fm.setRollout("checkout:v2", { percentage: 10, contextKey: "id" });
+  await fm.setOverride("checkout:v2", "tenant:2", false);
+  await fm.setOverride("checkout:v2", "tenant:1", true);
+  await fm.defineAndStore("theme", true);
+  await fm.setVariant("theme", "dark");
+
+  return fm;
+}
+
+test.group("Snapshots", () => {
+  test("Should export the stored flags", async ({ expect }) => {
+    const store = new InMemoryDriver();
+    await seed(store);
+
+    const fm = new FeatureManager({
+      store,
+      clock: () => new Date("2025-01-01T00:00:00.000Z"),
+    });
+    fm.define("dashboard", () => true);
+
+    expect(await fm.exportSnapshot()).toEqual({
+      version: 1,
+      exportedAt: "2025-01-01T00:00:00.000Z",
+      flags: {
+        "checkout:v2": {
+          value: false,
+          config: { rollout: { percentage: 10, contextKey: "id" } },
+          metadata: { owner: "payments", tags: ["checkout"] },
+          overrides: { "tenant:1": true, "tenant:2": false },
+        },
+        search: { value: true },
+        theme: { value: true, variant: "dark" },
+      },
+    });
+    await expect(new FeatureManager().exportSnapshot()).rejects.toBeInstanceOf(
+      ProviderNotDefined,
+    );
+  });
+
+  test("Should compare two stores", async ({ expect }) => {
+    const staging = new InMemoryDriver();
+    const production = new InMemoryDriver();
+    await seed(staging);
+    const fm = await seed(production);
+
+    expect(await diff(staging, production)).toEqual({
+      added: [],
+      removed: [],
+      changed: [],
+    });
+
+    await fm.set("search", false);
+    await fm.setMetadata("checkout:v2", { tags: ["checkout"], owner: "ops" });
+    await fm.setOverride("checkout:v2", "tenant:3", true);
+    await fm.delete("theme");
+    await fm.defineAndStore("legacy", true);
+
+    const changes = await diff(staging, production);
+
+    expect(changes.added).toEqual([
+      {
+        flag: "theme",
+        source: { value: true, variant: "dark" },
+        fields: ["value", "variant"],
+      },
+    ]);
+    expect(changes.removed).toEqual([
+      { flag: "legacy", target: { value: true }, fields: ["value"] },
+    ]);
+    expect(
+      changes.changed.map(({ flag, fields }) => ({ flag, fields })),
+    ).toEqual([
+      { flag: "checkout:v2", fields: ["metadata", "overrides"] },
+      { flag: "search", fields: ["value"] },
+    ]);
+
+    const snapshot = await createSnapshot(staging);
+    expect(await diff(snapshot, staging)).toEqual({
+      added: [],
+      removed: [],
+      changed: [],
+    });
+  });
+
+  test("Should import a snapshot", async ({ expect }) => {
+    const staging = new InMemoryDriver();
+    await seed(staging);
+    const snapshot = await createSnapshot(staging);
+
+    const store = new InMemoryDriver();
+    const fm = new FeatureManager({ store });
+    await fm.defineAndStore("search", false);
+    await fm.defineAndStore("legacy", true);
+    await fm.setOverride("search", "tenant:1", true);
+
+    const dryRun = await fm.importSnapshot(snapshot, { dryRun: true });
+    expect(dryRun.added.map(({ flag }) => flag)).toEqual([
+      "checkout:v2",
+      "theme",
+    ]);
+    expect(dryRun.changed.map(({ flag }) => flag)).toEqual(["search"]);
+    expect(dryRun.removed).toEqual([]);
+    expect(await store.get("theme")).toBeUndefined();
+
+    await fm.importSnapshot(snapshot, {
+      change: { actor: "ops", reason: "Sync" },
+    });
+
+    expect(await diff(snapshot, store)).toMatchObject({
+      added: [],
+      changed: [],
+      removed: [{ flag: "legacy" }],
+    });
+    expect(await fm.history("search")).toMatchObject([
+      { action: "override", actor: "ops", overrides: { next: {} } },
+      { action: "set", actor: "ops", reason: "Sync" },
+      { action: "override", overrides: { next: { "tenant:1": true } } },
+      { action: "set" },
+    ]);
+
+    const pruned = await fm.importSnapshot(snapshot, { prune: true });
+    expect(pruned.removed.map(({ flag }) => flag)).toEqual(["legacy"]);
+    expect(await diff(snapshot, store)).toEqual({
+      added: [],
+      removed: [],
+      changed: [],
+    });
+  });
+
+  test("Should validate every flag before importing", async ({ expect }) => {
+    const store = new InMemoryDriver();
+    const fm = new FeatureManager({ store });
+    const snapshot = {
+      version: 1,
+      exportedAt: "2025-01-01",
+      flags: {
+        search: { value: true },
+        checkout: {
+          value: true,
+          config: { rules: { attribute: "plan", operator: "like", value: 1 } },
+        },
+      },
+    } as unknown as Snapshot;
+
+    await expect(fm.importSnapshot(snapshot)).rejects.toBeInstanceOf(
+      InvalidRuleError,
+    );
+    expect(await store.keys()).toEqual([]);
+
+    await expect(
+      fm.importSnapshot({
+        version: 1,
+        exportedAt: "2025-01-01",
+        flags: {
+          search: { value: true },
+          checkout: { value: true, metadata: { tags: "checkout" } },
+        },
+      } as unknown as Snapshot),
+    ).rejects.toThrow(
+      new InvalidSnapshotError(
+        "'flags.checkout.metadata.tags' must be an array of strings",
+      ),
+    );
+    expect(await store.keys()).toEqual([]);
+  });
+
+  test("Should unset a variant and the empty parts", async ({ expect }) => {
+    const store = new InMemoryDriver();
+    const fm = await seed(store);
+
+    const snapshot: Snapshot = {
+      version: 1,
+      exportedAt: "2025-01-01T00:00:00.000Z",
+      flags: {
+        "checkout:v2": { value: false },
+        search: { value: true },
+        theme: { value: true },
+      },
+    };
+
+    await fm.importSnapshot(snapshot, { change: { actor: "ops" } });
+
+    expect(await store.getFeature("theme")).toMatchObject({ value: true });
+    expect((await store.getFeature("theme"))?.variant).toBeUndefined();
+    expect((await fm.history("theme"))[0]).toMatchObject({
+      action: "variant",
+      actor: "ops",
+      previous: { variant: "dark" },
+    });
+    expect(await fm.history("checkout:v2", { limit: 4 })).toMatchObject([
+      { action: "override", actor: "ops" },
+      { action: "override", actor: "ops" },
+      { action: "metadata", actor: "ops" },
+      { action: "configure", actor: "ops" },
+    ]);
+    expect(await store.listOverrides("checkout:v2")).toEqual([]);
+    expect(await createSnapshot(store)).toMatchObject({
+      flags: snapshot.flags,
+    });
+  });
+
+  test("Should migrate the flags to another driver", async ({ expect }) => {
+    const source = new InMemoryDriver();
+    await seed(source);
+
+    const db = knex({
+      client: "sqlite3",
+      connection: { filename: ":memory:" },
+      useNullAsDefault: true,
+    });
+    const target = createKnexDatabaseDriver({ connection: db });
+    const fm = new FeatureManager({
+      store: target,
+      overrideKeys: (ctx?: { tenant: string }) => ctx?.tenant,
+    });
+    await fm.initStore();
+
+    try {
+      const changes = await fm.importSnapshot(await createSnapshot(source), {
+        prune: true,
+      });
+
+      expect(changes.added).toHaveLength(3);
+      expect(await diff(source, target)).toEqual({
+        added: [],
+        removed: [],
+        changed: [],
+      });
+      expect(await fm.active("checkout:v2", { tenant: "tenant:1" })).toBe(true);
+    } finally {
+      await db.destroy();
+    }
+  });
+
+  test("Should reject invalid snapshots", ({ expect }) => {
+    const invalid = (data: unknown, message: string) =>
+      expect(() => parseSnapshot(data)).toThrow(
+        new InvalidSnapshotError(message),
+      );
+
+    invalid([], "the snapshot must be an object");
+    invalid({ version: 2, flags: {} }, "unsupported version 2, expected 1");
+    invalid({ version: 1, flags: {} }, "'exportedAt' must be an ISO 8601 date");
+    invalid(
+      { version: 1, exportedAt: "2025-01-01", flags: { search: true } },
+      "'flags.search' must be an object",
+    );
+    invalid(
+      {
+        version: 1,
+        exportedAt: "2025-01-01",
+        flags: { search: { value: true, enabled: true } },
+      },
+      "unknown property 'flags.search.enabled'",
+    );
+    invalid(
+      {
+        version: 1,
+        exportedAt: "2025-01-01",
+        flags: { search: { value: true, overrides: { acme: "on" } } },
+      },
+      "'flags.search.overrides' must map context keys to booleans",
+    );
+
+    expect(
+      parseSnapshot({
+        version: 1,
+        exportedAt: "2025-01-01",
+        flags: { search: { value: true, config: {}, metadata: {} } },
+      }).flags,
+    ).toEqual({ search: { value: true } });
+  });
+});
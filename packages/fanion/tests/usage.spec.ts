@@ -0,0 +1,148 @@
+import { test } from "@japa/runner";
+import { FeatureManager } from "../src/feature.js";
+import { InMemoryDriver } from "../src/drivers/memory.js";
+import { getStaleReasons, mergeUsage, recordEvaluation } from "../src/usage.js";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+test.group("Usage", () => {
+  test("Should keep the date of the last result change", ({ expect }) => {
+    let usage = recordEvaluation(undefined, true, new Date("2024-01-01"));
+    usage = recordEvaluation(usage, true, new Date("2024-01-02"));
+
+    expect(mergeUsage(undefined, usage)).toEqual({
+      lastEvaluatedAt: "2024-01-02T00:00:00.000Z",
+      lastResult: true,
+      resultChangedAt: "2024-01-01T00:00:00.000Z",
+    });
+
+    usage = recordEvaluation(usage, false, new Date("2024-01-03"));
+    expect(mergeUsage(undefined, usage)?.resultChangedAt).toBe(
+      "2024-01-03T00:00:00.000Z",
+    );
+  });
+
+  test("Should merge the usage of the process into the stored usage", ({
+    expect,
+  }) => {
+    const stored = {
+      lastEvaluatedAt: "2024-01-10T00:00:00.000Z",
+      lastResult: true,
+      resultChangedAt: "2024-01-01T00:00:00.000Z",
+    };
+    const same = recordEvaluation(undefined, true, new Date("2024-01-11"));
+    const other = recordEvaluation(undefined, false, new Date("2024-01-11"));
+
+    expect(mergeUsage(stored, same)).toEqual({
+      lastEvaluatedAt: "2024-01-11T00:00:00.000Z",
+      lastResult: true,
+      resultChangedAt: "2024-01-01T00:00:00.000Z",
+    });
+    expect(mergeUsage(stored, other)?.resultChangedAt).toBe(
+      "2024-01-11T00:00:00.000Z",
+    );
+  });
+
+  test("Should find why a flag is stale", ({ expect }) => {
+    const now = new Date("2024-06-01");
+    const options = { now, unchangedDays: 30, includeNeverEvaluated: true };
+
+    expect(
+      getStaleReasons(
+        {
+          metadata: { expiresAt: "2024-05-01", reviewAt: "2024-07-01" },
+          usage: {
+            lastEvaluatedAt: "2024-05-31T00:00:00.000Z",
+            lastResult: true,
+            resultChangedAt: "2024-04-01T00:00:00.000Z",
+          },
+        },
+        options,
+      ),
+    ).toEqual(["expired", "unchanged"]);
+
+    expect(
+      getStaleReasons({ createdAt: new Date("2024-01-01") }, options),
+    ).toEqual(["neverEvaluated"]);
+
+    // Recently created flags are not reported
+    expect(
+      getStaleReasons({ createdAt: new Date(now.getTime() - DAY) }, options),
+    ).toEqual([]);
+    expect(
+      getStaleReasons(
+        { createdAt: new Date("2024-01-01") },
+        { ...options, includeNeverEvaluated: false },
+      ),
+    ).toEqual([]);
+  });
+
+  test("Should save the usage of stored flags", async ({ expect }) => {
+    const store = new InMemoryDriver();
+    const fm = new FeatureManager({ store, trackUsage: { interval: 60_000 } });
+
+    fm.define("admin", () => false);
+    await fm.defineAndStore("search", true);
+
+    await fm.active("search");
+    await fm.active("admin");
+    await fm.flushUsage();
+
+    const stored = await store.getFeature("search");
+    expect(stored?.usage?.lastResult).toBe(true);
+    expect(stored?.usage?.lastEvaluatedAt).toBeDefined();
+
+    // Flags that are not stored are only tracked in memory
+    expect(await store.getFeature("admin")).toBeUndefined();
+  });
+
+  test("Should report stale flags", async ({ expect }) => {
+    const store = new InMemoryDriver();
+    const fm = new FeatureManager({ store, trackUsage: true });
+    const later = new Date(Date.now() + 40 * DAY);
+
+    fm.define("admin", () => true);
+    await fm.defineAndStore("search", true, { expiresAt: "2024-01-01" });
+    await fm.defineAndStore("billing", true);
+    await fm.active("admin");
+
+    const stale = await fm.staleFlags({ now: later });
+
+    expect(stale.map(({ name, reasons }) => ({ name, reasons }))).toEqual([
+      { name: "admin", reasons: ["unchanged"] },
+      { name: "billing", reasons: ["neverEvaluated"] },
+      { name: "search", reasons: ["expired", "neverEvaluated"] },
+    ]);
+    expect(await fm.staleFlags()).toEqual([
+      expect.objectContaining({ name: "search", reasons: ["expired"] }),
+    ]);
+  });
+
+  test("Should warn once when an expired flag is evaluated", async ({
+    expect,
+  }) => {
+    const warnings: string[] = [];
+    const expired: string[] = [];
+    const fm = new FeatureManager({
+      store: new InMemoryDriver(),
+      logger: { warn: (message) => warnings.push(message) },
+    });
+
+    fm.on("expired", ({ flag }) => expired.push(flag));
+    fm.define("checkout:v2", () => true, {
+      metadata: { expiresAt: "2024-01-01" },
+    });
+    fm.define("search", () => true, {
+      metadata: { expiresAt: "2999-01-01" },
+    });
+
+    await fm.active("checkout:v2");
+    await fm.active("checkout:v2");
+    await fm.active("search");
+
+    expect(warnings).toEqual([
+      "Feature flag 'checkout:v2' expired on 2024-01-01, it should be removed",
+    ]);
+    expect(expired).toEqual(["checkout:v2"]);
+  });
+});
@@ -1,5 +1,5 @@
 import { test } from "@japa/runner";
-import { generateFeatureName } from "../src/utils.js";
+import { generateFeatureName, parseFeatureName } from "../src/utils.js";
 
 test.group("generateFeatureName", () => {
   test("should generate feature name from a context and flag", ({ expect }) => {
@@ -14,3 +14,30 @@ test.group("generateFeatureName", () => {
     expect(featureName).toBe("context:flag.subFlag");
   });
 });
+
+test.group("parseFeatureName", () => {
+  test("Should parse the names built by generateFeatureName", ({ expect }) => {
+    expect(parseFeatureName("billing:invoices")).toEqual({
+      context: "billing",
+      flag: "invoices",
+    });
+    expect(parseFeatureName("billing:invoices.pdf.a4")).toEqual({
+      context: "billing",
+      flag: "invoices",
+      subFlag: "pdf.a4",
+    });
+    expect(
+      parseFeatureName(generateFeatureName("context", "flag", "subFlag")),
+    ).toEqual({ context: "context", flag: "flag", subFlag: "subFlag" });
+  });
+
+  test("Should keep names without a namespace whole", ({ expect }) => {
+    expect(parseFeatureName("search.v2")).toEqual({ flag: "search.v2" });
+    expect(parseFeatureName(":search")).toEqual({ flag: ":search" });
+    expect(parseFeatureName("billing:")).toEqual({ flag: "billing:" });
+    expect(parseFeatureName("billing:invoices.")).toEqual({
+      context: "billing",
+      flag: "invoices.",
+    });
+  });
+});
@@ -0,0 +1,169 @@
+import { test } from "@japa/runner";
+import { assertValidAllocation, pickVariant } from "../src/variants.js";
+import { FeatureManager } from "../src/feature.js";
+import { createInMemoryDriver } from "../src/drivers/memory.js";
+import { InvalidVariantError } from "../src/errors.js";
+
+test.group("Variants", () => {
+  test("Should always pick the same variant for a context", ({ expect }) => {
+    const allocation = {
+      contextKey: "user.id",
+      variants: [
+        { value: "A", weight: 1 },
+        { value: "B", weight: 1 },
+      ],
+    };
+
+    const variant = pickVariant("layout", allocation, { user: { id: 7 } });
+
+    expect(["A", "B"]).toContain(variant);
+    expect(pickVariant("layout", allocation, { user: { id: 7 } })).toBe(variant);
+  });
+
+  test("Should split contexts following the weights", ({ expect }) => {
+    const allocation = {
+      contextKey: "id",
+      variants: [
+        { value: "A", weight: 70 },
+        { value: "B", weight: 20 },
+        { value: "C", weight: 10 },
+        { value: "D", weight: 0 },
+      ],
+    };
+    const counts: Record<string, number> = { A: 0, B: 0, C: 0, D: 0 };
+
+    for (let id = 0; id < 2000; id++) {
+      counts[pickVariant("layout", allocation, { id }) as string]++;
+    }
+
+    expect(counts.A / 2000).toBeGreaterThan(0.65);
+    expect(counts.A / 2000).toBeLessThan(0.75);
+    expect(counts.C / 2000).toBeGreaterThan(0.07);
+    expect(counts.C / 2000).toBeLessThan(0.13);
+    expect(counts.D).toBe(0);
+  });
+
+  test("Should not pick a variant without the context key", ({ expect }) => {
+    expect(
+      pickVariant(
+        "layout",
+        { contextKey: "id", variants: [{ value: "A", weight: 1 }] },
+        {},
+      ),
+    ).toBeUndefined();
+  });
+
+  test("Should reject invalid allocations", ({ expect }) => {
+    expect(() =>
+      assertValidAllocation({ contextKey: "id", variants: [] }),
+    ).toThrow(InvalidVariantError);
+    expect(() =>
+      assertValidAllocation({
+        contextKey: "id",
+        variants: [{ value: "A", weight: -1 }],
+      }),
+    ).toThrow(InvalidVariantError);
+    expect(() =>
+      assertValidAllocation({
+        contextKey: "id",
+        variants: [{ value: "A", weight: 0 }],
+      }),
+    ).toThrow(InvalidVariantError);
+  });
+});
+
+test.group("FeatureManager variants", () => {
+  test("Should return the default value of unknown flags", async ({
+    expect,
+  }) => {
+    const fm = new FeatureManager({ store: createInMemoryDriver() });
+
+    expect(await fm.variant("api:timeout", {}, 3000)).toBe(3000);
+  });
+
+  test("Should return the stored variant", async ({ expect }) => {
+    const fm = new FeatureManager({ store: createInMemoryDriver() });
+
+    await fm.setVariant("api:timeout", 5000);
+    await fm.setVariant("checkout:config", { steps: ["cart", "pay"] });
+
+    expect(await fm.variant("api:timeout", {}, 3000)).toBe(5000);
+    expect(await fm.variant("checkout:config", {}, { steps: [] })).toEqual({
+      steps: ["cart", "pay"],
+    });
+    expect(await fm.active("api:timeout")).toBe(true);
+
+    await fm.deleteVariant("api:timeout");
+    await fm.deleteVariant("missing");
+
+    expect(await fm.variant("api:timeout", {}, 3000)).toBe(3000);
+    expect(await fm.active("api:timeout")).toBe(true);
+    expect(await fm.all()).toHaveLength(2);
+  });
+
+  test("Should return the default value when the flag is off", async ({
+    expect,
+  }) => {
+    const fm = new FeatureManager({ store: createInMemoryDriver() });
+
+    await fm.setVariant("checkout:layout", "B");
+    await fm.defineAndStore("checkout:layout", false);
+
+    expect(await fm.variant("checkout:layout", {}, "A")).toBe("A");
+  });
+
+  test("Should allocate weighted variants", async ({ expect }) => {
+    const fm = new FeatureManager({ store: createInMemoryDriver() });
+    fm.define("checkout:layout");
+
+    const allocation = {
+      contextKey: "user.id",
+      variants: [
+        { value: "B", weight: 50 },
+        { value: "C", weight: 50 },
+      ],
+    };
+    await fm.setVariantAllocation("checkout:layout", allocation);
+
+    for (let id = 0; id < 20; id++) {
+      const context = { user: { id } };
+      expect(await fm.variant("checkout:layout", context, "A")).toBe(
+        pickVariant("checkout:layout", allocation, context),
+      );
+    }
+
+    await fm.removeVariantAllocation("checkout:layout");
+    expect(await fm.variant("checkout:layout", { user: { id: 1 } }, "A")).toBe(
+      "A",
+    );
+  });
+
+  test("Should split the contexts of a rollout between the variants", async ({
+    expect,
+  }) => {
+    const fm = new FeatureManager({ store: createInMemoryDriver() });
+
+    await fm.defineAndStore("checkout:layout", true);
+    await fm.setRollout("checkout:layout", {
+      percentage: 50,
+      contextKey: "id",
+    });
+    await fm.setVariantAllocation("checkout:layout", {
+      contextKey: "id",
+      variants: [
+        { value: "A", weight: 50 },
+        { value: "B", weight: 50 },
+      ],
+    });
+
+    const counts: Record<string, number> = { default: 0, A: 0, B: 0 };
+    for (let id = 0; id < 2000; id++) {
+      counts[await fm.variant("checkout:layout", { id }, "default")]++;
+    }
+
+    expect(counts.default / 2000).toBeGreaterThan(0.45);
+    expect(counts.default / 2000).toBeLessThan(0.55);
+    expect(counts.A / 2000).toBeGreaterThan(0.2);
+    expect(counts.B / 2000).toBeGreaterThan(0.2);
+  });
+});